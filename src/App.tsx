@@ -10,21 +10,33 @@ import { ProtectedRoute, PrincipalRoute, TeacherRoute /* FinanceRoute */ } from
 import Layout from "@/components/Layout";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import Join from "./pages/Join";
 import Dashboard from "./pages/Dashboard";
 import Students from "./pages/Students";
+import StudentLedger from "./pages/StudentLedger";
+import Families from "./pages/Families";
+import ParentPortal from "./pages/ParentPortal";
 import Staff from "./pages/Staff";
+import StaffAttendance from "./pages/StaffAttendance";
+import MyAttendance from "./pages/MyAttendance";
 
 import Payments from "./pages/Payments";
 import Expenses from "./pages/Expenses";
+import Payroll from "./pages/Payroll";
 import Reports from "./pages/Reports";
 import RemainingFees from "./pages/RemainingFees";
 import RateLimitAdmin from "./pages/RateLimitAdmin";
 import Attendance from "./pages/Attendance";
+import MyClasses from "./pages/MyClasses";
+import LeaveRequests from "./pages/LeaveRequests";
+import AcademicYear from "./pages/AcademicYear";
+import SchoolCalendar from "./pages/SchoolCalendar";
 import SuperAI from "./pages/SuperAI";
 // Route removed: /accept-invite
 import Admin from "./pages/Admin";
 
 import NotFound from "./pages/NotFound";
+import VerifyReceipt from "./pages/VerifyReceipt";
 
 const queryClient = new QueryClient();
 
@@ -41,6 +53,8 @@ const App = () => (
               <Routes>
                 <Route path="/" element={<Index />} />
                 <Route path="/auth" element={<Auth />} />
+                <Route path="/join" element={<Join />} />
+                <Route path="/verify-receipt" element={<VerifyReceipt />} />
 
                 {/* Accept Invite - Public route for magic link */}
         // Route removed: /accept-invite
@@ -57,6 +71,21 @@ const App = () => (
                     <Layout><Students /></Layout>
                   </ProtectedRoute>
                 } />
+                <Route path="/students/:id/ledger" element={
+                  <ProtectedRoute>
+                    <Layout><StudentLedger /></Layout>
+                  </ProtectedRoute>
+                } />
+                <Route path="/families" element={
+                  <ProtectedRoute>
+                    <Layout><Families /></Layout>
+                  </ProtectedRoute>
+                } />
+                <Route path="/parent" element={
+                  <ProtectedRoute>
+                    <Layout><ParentPortal /></Layout>
+                  </ProtectedRoute>
+                } />
                 <Route path="/staff" element={
                   <PrincipalRoute>
                     <Layout><Staff /></Layout>
@@ -72,6 +101,21 @@ const App = () => (
                     <Layout><Expenses /></Layout>
                   </ProtectedRoute>
                 } />
+                <Route path="/payroll" element={
+                  <ProtectedRoute>
+                    <Layout><Payroll /></Layout>
+                  </ProtectedRoute>
+                } />
+                <Route path="/staff-attendance" element={
+                  <ProtectedRoute>
+                    <Layout><StaffAttendance /></Layout>
+                  </ProtectedRoute>
+                } />
+                <Route path="/my-attendance" element={
+                  <ProtectedRoute>
+                    <Layout><MyAttendance /></Layout>
+                  </ProtectedRoute>
+                } />
                 <Route path="/reports" element={
                   <ProtectedRoute>
                     <Layout><Reports /></Layout>
@@ -91,9 +135,28 @@ const App = () => (
                 } />
                 <Route path="/my-classes" element={
                   <ProtectedRoute>
-                    <Layout><Attendance /></Layout>
+                    <Layout><MyClasses /></Layout>
                   </ProtectedRoute>
                 } />
+                <Route path="/leave-requests" element={
+                  <ProtectedRoute>
+                    <Layout><LeaveRequests /></Layout>
+                  </ProtectedRoute>
+                } />
+
+                {/* Academic Year Rollover - Principal Only */}
+                <Route path="/academic-year" element={
+                  <PrincipalRoute>
+                    <Layout><AcademicYear /></Layout>
+                  </PrincipalRoute>
+                } />
+
+                {/* School Calendar - Principal Only */}
+                <Route path="/calendar" element={
+                  <PrincipalRoute>
+                    <Layout><SchoolCalendar /></Layout>
+                  </PrincipalRoute>
+                } />
 
                 {/* AI Assistant - Principal Only */}
                 <Route path="/super-ai" element={
@@ -116,6 +116,8 @@ const DOMAIN_PATTERNS: { domain: DataDomain; patterns: RegExp[] }[] = [
             /\babsent\b/i,
             /\bleave\b/i,
             /\babsentee/i,
+            /\bat[\s-]risk\b/i,
+            /\bchronic/i,
         ],
     },
     {
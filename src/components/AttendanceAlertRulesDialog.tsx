@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { SlidersHorizontal } from 'lucide-react';
+import {
+  AttendanceAlertRules,
+  DEFAULT_ATTENDANCE_ALERT_RULES,
+  fetchAttendanceAlertRules,
+  saveAttendanceAlertRules,
+} from '@/services/attendanceAlertService';
+
+interface AttendanceAlertRulesDialogProps {
+  schoolId: string;
+  onRulesChange: () => void;
+}
+
+export const AttendanceAlertRulesDialog = ({ schoolId, onRulesChange }: AttendanceAlertRulesDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [rules, setRules] = useState<AttendanceAlertRules>(DEFAULT_ATTENDANCE_ALERT_RULES);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetchAttendanceAlertRules(schoolId).then(({ data, error }) => {
+      if (error) {
+        toast({ title: 'Error', description: 'Failed to fetch alert thresholds', variant: 'destructive' });
+        return;
+      }
+      setRules(data);
+    });
+  }, [isOpen, schoolId, toast]);
+
+  const updateRules = (changes: Partial<AttendanceAlertRules>) => {
+    setRules(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    if (rules.min_percentage < 0 || rules.min_percentage > 100) {
+      toast({ title: 'Error', description: 'Minimum percentage must be between 0 and 100', variant: 'destructive' });
+      return;
+    }
+    if (rules.window_days < 7 || rules.window_days > 365) {
+      toast({ title: 'Error', description: 'Window must be between 7 and 365 days', variant: 'destructive' });
+      return;
+    }
+    if (rules.consecutive_absences < 1) {
+      toast({ title: 'Error', description: 'Consecutive absences must be at least 1', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveAttendanceAlertRules(schoolId, rules);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Alert thresholds saved successfully' });
+    setIsOpen(false);
+    onRulesChange();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          Thresholds
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Attendance Alert Thresholds</DialogTitle>
+          <DialogDescription>
+            Students are flagged when their attendance drops below the minimum or they are absent several days in a row.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="alerts-enabled">Show absenteeism alerts</Label>
+            <Switch
+              id="alerts-enabled"
+              checked={rules.enabled}
+              onCheckedChange={(checked) => updateRules({ enabled: checked })}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="alerts-min">Below (%)</Label>
+              <Input
+                id="alerts-min"
+                type="number"
+                value={rules.min_percentage || ''}
+                onChange={(e) => updateRules({ min_percentage: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alerts-window">Over (days)</Label>
+              <Input
+                id="alerts-window"
+                type="number"
+                value={rules.window_days || ''}
+                onChange={(e) => updateRules({ window_days: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alerts-streak">Absences in a row</Label>
+              <Input
+                id="alerts-streak"
+                type="number"
+                value={rules.consecutive_absences || ''}
+                onChange={(e) => updateRules({ consecutive_absences: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Excused statuses are left out of the percentage and do not break a run of absences.
+          </p>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+            >
+              {saving ? 'Saving...' : 'Save Thresholds'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, TrendingDown, TrendingUp } from 'lucide-react';
+import { AttendanceAlertRulesDialog } from '@/components/AttendanceAlertRulesDialog';
+import { AttendanceAlert, fetchAttendanceAlerts } from '@/services/attendanceAlertService';
+
+interface AttendanceAlertsCardProps {
+  schoolId: string;
+  canConfigure: boolean;
+  limit?: number;
+}
+
+export const AttendanceAlertsCard = ({ schoolId, canConfigure, limit = 8 }: AttendanceAlertsCardProps) => {
+  const [alerts, setAlerts] = useState<AttendanceAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadAlerts = useCallback(async () => {
+    const { data, error } = await fetchAttendanceAlerts(schoolId);
+    if (error) console.error('Failed to fetch attendance alerts:', error);
+    setAlerts(data);
+    setLoading(false);
+  }, [schoolId]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  const trend = (alert: AttendanceAlert) => {
+    if (alert.attendance_percentage === null || alert.previous_percentage === null) return null;
+    const change = alert.attendance_percentage - alert.previous_percentage;
+    if (Math.abs(change) < 1) return null;
+    return change < 0
+      ? <span className="inline-flex items-center text-xs text-destructive"><TrendingDown className="w-3 h-3 mr-0.5" />{Math.abs(change).toFixed(0)}%</span>
+      : <span className="inline-flex items-center text-xs text-green-600"><TrendingUp className="w-3 h-3 mr-0.5" />{change.toFixed(0)}%</span>;
+  };
+
+  return (
+    <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <AlertTriangle className="w-5 h-5 text-orange-500" />
+          Attendance Alerts
+          {alerts.length > 0 && <Badge variant="destructive">{alerts.length}</Badge>}
+        </CardTitle>
+        {canConfigure && <AttendanceAlertRulesDialog schoolId={schoolId} onRulesChange={loadAlerts} />}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-16 bg-muted rounded animate-pulse" />
+        ) : alerts.length === 0 ? (
+          <div className="text-center text-muted-foreground py-4">
+            No students at risk
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {alerts.slice(0, limit).map(alert => (
+              <div key={`${alert.class_id}-${alert.student_id}`} className="flex items-center justify-between gap-2 p-3 rounded-lg bg-muted/50">
+                <div>
+                  <p className="font-medium">{alert.student_name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    <Link to={`/attendance?class=${alert.class_id}`} className="hover:underline">{alert.class_name}</Link>
+                    {alert.last_present_date ? ` · last present ${new Date(alert.last_present_date).toLocaleDateString()}` : ''}
+                  </p>
+                </div>
+                <div className="flex flex-col items-end gap-1">
+                  {alert.attendance_percentage !== null && (
+                    <span className={alert.below_threshold ? 'font-semibold text-destructive' : 'font-semibold'}>
+                      {alert.attendance_percentage.toFixed(0)}% {trend(alert)}
+                    </span>
+                  )}
+                  {alert.absence_streak && (
+                    <Badge variant="destructive">{alert.consecutive_absences} absences in a row</Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+            {alerts.length > limit && (
+              <p className="text-xs text-center text-muted-foreground">and {alerts.length - limit} more</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { endOfMonth, format } from 'date-fns';
+import { FileDown, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import { downloadRegisterPdf, downloadRegisterWorkbook } from '@/lib/attendanceRegister';
+import { fetchAttendanceRegister } from '@/services/attendanceRegisterService';
+import { AttendanceStatusOption } from '@/services/attendanceStatusService';
+import { fetchSchoolCalendar } from '@/services/schoolCalendarService';
+
+interface AttendanceRegisterDialogProps {
+  schoolId: string;
+  classId: string;
+  className: string;
+  statusOptions: AttendanceStatusOption[];
+}
+
+type RegisterFormat = 'xlsx' | 'pdf';
+
+export const AttendanceRegisterDialog = ({ schoolId, classId, className, statusOptions }: AttendanceRegisterDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [exporting, setExporting] = useState<RegisterFormat | null>(null);
+  const { toast } = useToast();
+
+  const handleExport = async (fileFormat: RegisterFormat) => {
+    if (!month) {
+      toast({ title: 'Error', description: 'Please choose a month', variant: 'destructive' });
+      return;
+    }
+
+    setExporting(fileFormat);
+    const start = new Date(`${month}-01T00:00:00`);
+    const { data: calendar, error: calendarError } = await fetchSchoolCalendar(schoolId, {
+      from: format(start, 'yyyy-MM-dd'),
+      to: format(endOfMonth(start), 'yyyy-MM-dd'),
+    });
+    if (calendarError) {
+      setExporting(null);
+      toast({ title: 'Error', description: calendarError.message, variant: 'destructive' });
+      return;
+    }
+
+    const { data, error } = await fetchAttendanceRegister(classId, className, start, statusOptions, calendar);
+    setExporting(null);
+
+    if (error || !data) {
+      toast({ title: 'Error', description: error?.message || 'Failed to build the register', variant: 'destructive' });
+      return;
+    }
+
+    if (fileFormat === 'xlsx') downloadRegisterWorkbook(data);
+    else downloadRegisterPdf(data);
+    toast({ title: 'Success', description: 'Register downloaded successfully' });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <FileDown className="w-4 h-4" />
+          Register
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Monthly Register - {className}</DialogTitle>
+          <DialogDescription>
+            Students as rows and days as columns, with holidays, working days and totals.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="register-month">Month</Label>
+            <Input
+              id="register-month"
+              type="month"
+              value={month}
+              max={format(new Date(), 'yyyy-MM')}
+              onChange={(e) => setMonth(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => handleExport('xlsx')} disabled={exporting !== null}>
+              {exporting === 'xlsx' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileSpreadsheet className="w-4 h-4 mr-2" />}
+              Excel
+            </Button>
+            <Button
+              onClick={() => handleExport('pdf')}
+              disabled={exporting !== null}
+              className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+            >
+              {exporting === 'pdf' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />}
+              PDF
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
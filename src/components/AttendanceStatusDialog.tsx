@@ -0,0 +1,256 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Edit, ListChecks } from 'lucide-react';
+import {
+  AttendanceStatusOption,
+  STATUS_COLORS,
+  fetchAttendanceStatuses,
+  saveAttendanceStatus,
+} from '@/services/attendanceStatusService';
+
+interface AttendanceStatusDialogProps {
+  schoolId: string;
+  onChange: () => void;
+}
+
+// Select values for credit; 'excluded' maps to null
+const CREDIT_OPTIONS = [
+  { value: '1', label: 'Counts as attended' },
+  { value: '0.5', label: 'Counts as half a day' },
+  { value: '0', label: 'Counts as absent' },
+  { value: 'excluded', label: 'Excluded from percentage' },
+];
+
+const creditLabel = (credit: number | null) =>
+  CREDIT_OPTIONS.find(o => o.value === (credit === null ? 'excluded' : String(credit)))?.label || `${credit}`;
+
+export const AttendanceStatusDialog = ({ schoolId, onChange }: AttendanceStatusDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [statuses, setStatuses] = useState<AttendanceStatusOption[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const emptyStatus = useCallback((sortOrder: number): AttendanceStatusOption => ({
+    school_id: schoolId,
+    code: '',
+    label: '',
+    credit: 1,
+    requires_reason: false,
+    reason_codes: [],
+    captures_time: false,
+    color: 'gray',
+    sort_order: sortOrder,
+    is_system: false,
+    is_active: true,
+  }), [schoolId]);
+
+  const [form, setForm] = useState<AttendanceStatusOption>(emptyStatus(1));
+  const [reasonText, setReasonText] = useState('');
+
+  const loadStatuses = useCallback(async () => {
+    const { data, error } = await fetchAttendanceStatuses(schoolId, true);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch attendance statuses', variant: 'destructive' });
+      return;
+    }
+    setStatuses(data);
+  }, [schoolId, toast]);
+
+  useEffect(() => {
+    if (isOpen) loadStatuses();
+  }, [isOpen, loadStatuses]);
+
+  const startNew = useCallback(() => {
+    setForm(emptyStatus(statuses.reduce((max, s) => Math.max(max, s.sort_order), 0) + 1));
+    setReasonText('');
+  }, [statuses, emptyStatus]);
+
+  useEffect(() => {
+    startNew();
+  }, [startNew]);
+
+  const startEdit = (status: AttendanceStatusOption) => {
+    setForm(status);
+    setReasonText(status.reason_codes.join(', '));
+  };
+
+  const handleSave = async () => {
+    const code = form.id ? form.code : form.label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    if (!form.label.trim() || !/^[a-z]/.test(code)) {
+      toast({ title: 'Error', description: 'Label must start with a letter', variant: 'destructive' });
+      return;
+    }
+    if (!form.id && statuses.some(s => s.code === code)) {
+      toast({ title: 'Error', description: `A status with code "${code}" already exists`, variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveAttendanceStatus({
+      ...form,
+      code,
+      reason_codes: reasonText.split(','),
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: `${form.label.trim()} saved` });
+    await loadStatuses();
+    onChange();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <ListChecks className="w-4 h-4" />
+          Statuses
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Attendance Statuses</DialogTitle>
+          <DialogDescription>
+            Statuses teachers can mark and how each one counts towards attendance percentages.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Status</TableHead>
+                <TableHead>Percentage</TableHead>
+                <TableHead>Captures</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statuses.map(status => (
+                <TableRow key={status.id} className={status.is_active ? '' : 'opacity-50'}>
+                  <TableCell>
+                    <Badge className={STATUS_COLORS[status.color]?.badge || ''}>{status.label}</Badge>
+                    {!status.is_active && <span className="ml-2 text-xs text-muted-foreground">Disabled</span>}
+                  </TableCell>
+                  <TableCell className="text-sm">{creditLabel(status.credit)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {[
+                      status.captures_time && 'Arrival time',
+                      status.requires_reason && 'Reason',
+                    ].filter(Boolean).join(', ') || '-'}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end">
+                      <Button variant="ghost" size="sm" onClick={() => startEdit(status)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="grid grid-cols-2 gap-3 rounded-md border p-3">
+            <div className="space-y-1">
+              <Label htmlFor="status-label">Label</Label>
+              <Input
+                id="status-label"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Color</Label>
+              <Select value={form.color} onValueChange={(value) => setForm({ ...form, color: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(STATUS_COLORS).map(color => (
+                    <SelectItem key={color} value={color} className="capitalize">{color}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label>Attendance percentage</Label>
+              <Select
+                value={form.credit === null ? 'excluded' : String(form.credit)}
+                onValueChange={(value) => setForm({ ...form, credit: value === 'excluded' ? null : Number(value) })}
+                disabled={form.is_system}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CREDIT_OPTIONS.map(o => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between col-span-2">
+              <Label htmlFor="status-time">Record arrival time</Label>
+              <Switch
+                id="status-time"
+                checked={form.captures_time}
+                onCheckedChange={(checked) => setForm({ ...form, captures_time: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between col-span-2">
+              <Label htmlFor="status-reason">Require a reason</Label>
+              <Switch
+                id="status-reason"
+                checked={form.requires_reason}
+                onCheckedChange={(checked) => setForm({ ...form, requires_reason: checked })}
+              />
+            </div>
+            {form.requires_reason && (
+              <div className="space-y-1 col-span-2">
+                <Label htmlFor="status-reasons">Reason codes</Label>
+                <Input
+                  id="status-reasons"
+                  placeholder="illness, appointment (leave empty for free text)"
+                  value={reasonText}
+                  onChange={(e) => setReasonText(e.target.value)}
+                />
+              </div>
+            )}
+            {!form.is_system && (
+              <div className="flex items-center justify-between col-span-2">
+                <Label htmlFor="status-active">Active</Label>
+                <Switch
+                  id="status-active"
+                  checked={form.is_active}
+                  onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                />
+              </div>
+            )}
+            <div className="col-span-2 flex justify-end gap-2">
+              {form.id && (
+                <Button variant="outline" onClick={startNew}>
+                  Cancel
+                </Button>
+              )}
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : form.id ? 'Update Status' : 'Add Status'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { ExpenseBudgetsDialog } from '@/components/ExpenseBudgetsDialog';
+import { BudgetVariance, fetchBudgetVariance, projectedVariance } from '@/services/expenseBudgetService';
+import { Target } from 'lucide-react';
+
+interface BudgetVarianceCardProps {
+  schoolId: string;
+  canConfigure: boolean;
+}
+
+const sum = (rows: BudgetVariance[], pick: (row: BudgetVariance) => number | null) =>
+  rows.reduce((total, row) => total + (pick(row) || 0), 0);
+
+export const BudgetVarianceCard = ({ schoolId, canConfigure }: BudgetVarianceCardProps) => {
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [rows, setRows] = useState<BudgetVariance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { formatAmount } = useCurrency();
+
+  const signed = (amount: number) => (amount < 0 ? `-${formatAmount(-amount)}` : formatAmount(amount));
+
+  const loadVariance = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await fetchBudgetVariance(schoolId, year);
+    if (error) console.error('Failed to fetch budget variance:', error);
+    setRows(data);
+    setLoading(false);
+  }, [schoolId, year]);
+
+  useEffect(() => {
+    loadVariance();
+  }, [loadVariance]);
+
+  const budgeted = rows.filter(row => row.annual_budget !== null);
+  const unbudgeted = rows.filter(row => row.annual_budget === null);
+  const overCount = budgeted.filter(row => (projectedVariance(row) ?? 0) < 0).length;
+
+  return (
+    <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card hover-lift">
+      <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Target className="w-5 h-5 text-primary" />
+            Budget vs Actual
+            {overCount > 0 && <Badge variant="destructive">{overCount} over</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Projected spend extends the year-to-date actual at the same daily rate to the end of the year.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            aria-label="Budget year"
+            value={year}
+            onChange={(e) => Number(e.target.value) && setYear(Number(e.target.value))}
+            className="w-24"
+          />
+          {canConfigure && (
+            <ExpenseBudgetsDialog
+              schoolId={schoolId}
+              year={year}
+              categories={rows.map(row => row.category)}
+              onBudgetsChange={loadVariance}
+            />
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-16 bg-muted rounded animate-pulse" />
+        ) : budgeted.length === 0 ? (
+          <div className="text-center text-muted-foreground py-4">
+            No budgets set for {year}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Budget</TableHead>
+                <TableHead className="text-right">Actual</TableHead>
+                <TableHead className="text-right">Projected</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+                <TableHead className="text-right">This Month</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {budgeted.map(row => {
+                const variance = projectedVariance(row) ?? 0;
+                const used = row.annual_budget ? Math.min((row.actual / row.annual_budget) * 100, 100) : 0;
+                const monthOver = row.month_budget !== null && row.month_actual > row.month_budget;
+                return (
+                  <TableRow key={row.category}>
+                    <TableCell>
+                      <p className="font-medium">{row.category}</p>
+                      <Progress value={used} className="h-1.5 mt-1 w-32" />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <p>{formatAmount(row.annual_budget || 0)}</p>
+                      {row.period === 'monthly' && (
+                        <p className="text-xs text-muted-foreground">{formatAmount(row.budget_amount || 0)}/month</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(row.actual)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.projected)}</TableCell>
+                    <TableCell className={`text-right font-medium ${variance < 0 ? 'text-destructive' : 'text-green-600'}`}>
+                      {signed(variance)}
+                    </TableCell>
+                    <TableCell className={`text-right ${monthOver ? 'text-destructive' : ''}`}>
+                      {formatAmount(row.month_actual)}
+                      <span className="text-xs text-muted-foreground"> / {formatAmount(row.month_budget || 0)}</span>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{formatAmount(sum(budgeted, row => row.annual_budget))}</TableCell>
+                <TableCell className="text-right">{formatAmount(sum(budgeted, row => row.actual))}</TableCell>
+                <TableCell className="text-right">{formatAmount(sum(budgeted, row => row.projected))}</TableCell>
+                <TableCell className="text-right">{signed(sum(budgeted, projectedVariance))}</TableCell>
+                <TableCell className="text-right">{formatAmount(sum(budgeted, row => row.month_actual))}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+        {!loading && unbudgeted.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-4">
+            Without a budget: {unbudgeted.map(row => `${row.category} (${formatAmount(row.actual)})`).join(', ')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
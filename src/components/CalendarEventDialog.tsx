@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CALENDAR_EVENT_LABELS,
+  CalendarEvent,
+  CalendarEventType,
+  saveCalendarEvent,
+} from '@/services/schoolCalendarService';
+
+interface CalendarEventDialogProps {
+  schoolId: string;
+  event: CalendarEvent | null;  // Event to edit, or a blank one to add; dialog is open while set
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const CalendarEventDialog = ({ schoolId, event, onClose, onSaved }: CalendarEventDialogProps) => {
+  const [title, setTitle] = useState('');
+  const [eventType, setEventType] = useState<CalendarEventType>('holiday');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!event) return;
+    setTitle(event.title);
+    setEventType(event.event_type);
+    setStartDate(event.start_date);
+    setEndDate(event.end_date);
+    setDescription(event.description || '');
+  }, [event]);
+
+  const handleSave = async () => {
+    if (!event) return;
+    if (!title.trim()) {
+      toast({ title: 'Error', description: 'Please enter a title', variant: 'destructive' });
+      return;
+    }
+    if (!startDate || !endDate || endDate < startDate) {
+      toast({ title: 'Error', description: 'End date must be on or after the start date', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveCalendarEvent({
+      id: event.id,
+      school_id: schoolId,
+      title,
+      event_type: eventType,
+      start_date: startDate,
+      end_date: endDate,
+      description,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: event.id ? 'Event updated successfully' : 'Event added successfully' });
+    onSaved();
+    onClose();
+  };
+
+  return (
+    <Dialog open={event !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{event?.id ? 'Edit Event' : 'Add Event'}</DialogTitle>
+          <DialogDescription>
+            Holidays are left out of working days for attendance and fee proration.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="calendar-event-title">Title</Label>
+            <Input id="calendar-event-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={eventType} onValueChange={(value) => setEventType(value as CalendarEventType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CALENDAR_EVENT_LABELS) as CalendarEventType[]).map(type => (
+                  <SelectItem key={type} value={type}>{CALENDAR_EVENT_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="calendar-event-start">From</Label>
+              <Input
+                id="calendar-event-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  if (!endDate || endDate < e.target.value) setEndDate(e.target.value);
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="calendar-event-end">To</Label>
+              <Input
+                id="calendar-event-end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="calendar-event-description">Description (optional)</Label>
+            <Textarea
+              id="calendar-event-description"
+              rows={2}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { DeductionItem } from '@/services/payrollService';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface DeductionItemsDialogProps {
+  staffName: string;
+  items: DeductionItem[] | null;  // Dialog is open while set
+  onClose: () => void;
+  onApply: (items: DeductionItem[]) => void;
+}
+
+// Computed server-side from approved unpaid leave; recalculated on every save
+const isUnpaidLeaveItem = (item: DeductionItem) => item.source === 'unpaid_leave';
+
+export const DeductionItemsDialog = ({ staffName, items, onClose, onApply }: DeductionItemsDialogProps) => {
+  const [rows, setRows] = useState<DeductionItem[]>([]);
+  const [fixed, setFixed] = useState<DeductionItem[]>([]);
+  const { toast } = useToast();
+  const { formatAmount } = useCurrency();
+
+  useEffect(() => {
+    if (!items) return;
+    const editable = items.filter(item => !isUnpaidLeaveItem(item));
+    setFixed(items.filter(isUnpaidLeaveItem));
+    setRows(editable.length > 0 ? editable : [{ label: '', amount: 0 }]);
+  }, [items]);
+
+  const updateRow = (index: number, changes: Partial<DeductionItem>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleApply = () => {
+    const filled = rows.filter(row => row.label.trim() || row.amount);
+    if (filled.some(row => !row.label.trim() || row.amount <= 0)) {
+      toast({ title: 'Error', description: 'Each deduction needs a label and an amount above zero', variant: 'destructive' });
+      return;
+    }
+    onApply([...fixed, ...filled.map(row => ({ label: row.label.trim(), amount: row.amount }))]);
+    onClose();
+  };
+
+  const total = [...fixed, ...rows].reduce((sum, row) => sum + (row.amount || 0), 0);
+
+  return (
+    <Dialog open={items !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Deductions - {staffName}</DialogTitle>
+          <DialogDescription>Each item is listed on the payslip. Their sum is the total deduction.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {fixed.map((item, index) => (
+              <div key={`fixed-${index}`} className="flex items-center gap-2" title="Calculated from approved unpaid leave">
+                <Input value={item.label} disabled />
+                <Input value={item.amount} disabled className="w-28 text-right" />
+                <div className="w-10 shrink-0" />
+              </div>
+            ))}
+            {rows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  placeholder="e.g. Income tax"
+                  value={row.label}
+                  onChange={(e) => updateRow(index, { label: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={row.amount || ''}
+                  onChange={(e) => updateRow(index, { amount: Number(e.target.value) || 0 })}
+                  className="w-28 text-right"
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setRows(prev => [...prev, { label: '', amount: 0 }])}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Item
+            </Button>
+          </div>
+
+          <div className="flex justify-between text-sm font-medium border-t pt-2">
+            <span>Total</span>
+            <span>{formatAmount(total)}</span>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={handleApply} className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90">
+              Apply
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
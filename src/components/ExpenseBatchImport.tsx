@@ -99,7 +99,6 @@ export const ExpenseBatchImport = ({ onImportComplete }: ExpenseBatchImportProps
         category: row.category,
         expense_date: row.expense_date,
         vendor: row.vendor || row.description,
-        receipt_number: `EXP-${Date.now()}-${i}`,
         currency: 'USD'
       });
     }
@@ -0,0 +1,209 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import {
+  BUDGET_PERIOD_LABELS,
+  BudgetPeriod,
+  ExpenseBudget,
+  deleteExpenseBudget,
+  fetchExpenseBudgets,
+  saveExpenseBudget,
+} from '@/services/expenseBudgetService';
+import { Edit, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+
+interface ExpenseBudgetsDialogProps {
+  schoolId: string;
+  year: number;
+  categories: string[];  // Categories already used on expenses, offered as suggestions
+  onBudgetsChange: () => void;
+}
+
+export const ExpenseBudgetsDialog = ({ schoolId, year, categories, onBudgetsChange }: ExpenseBudgetsDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [budgets, setBudgets] = useState<ExpenseBudget[]>([]);
+  const [category, setCategory] = useState('');
+  const [period, setPeriod] = useState<BudgetPeriod>('monthly');
+  const [amount, setAmount] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { formatAmount } = useCurrency();
+
+  const loadBudgets = useCallback(async () => {
+    const { data, error } = await fetchExpenseBudgets(schoolId, year);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch budgets', variant: 'destructive' });
+    }
+    setBudgets(data);
+  }, [schoolId, year, toast]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCategory('');
+    setPeriod('monthly');
+    setAmount(0);
+    loadBudgets();
+  }, [isOpen, loadBudgets]);
+
+  const handleEdit = (budget: ExpenseBudget) => {
+    setCategory(budget.category);
+    setPeriod(budget.period);
+    setAmount(budget.amount);
+  };
+
+  const handleSave = async () => {
+    if (!category.trim()) {
+      toast({ title: 'Error', description: 'Category is required', variant: 'destructive' });
+      return;
+    }
+    if (amount <= 0) {
+      toast({ title: 'Error', description: 'Budget must be above zero', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveExpenseBudget(schoolId, { category: category.trim(), year, period, amount });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Budget saved successfully' });
+    setCategory('');
+    setAmount(0);
+    loadBudgets();
+    onBudgetsChange();
+  };
+
+  const handleDelete = async (budget: ExpenseBudget) => {
+    if (!confirm(`Remove the ${budget.category} budget for ${year}?`)) return;
+
+    const { error } = await deleteExpenseBudget(budget.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Budget removed' });
+    loadBudgets();
+    onBudgetsChange();
+  };
+
+  const editing = budgets.some(b => b.category.toLowerCase() === category.trim().toLowerCase());
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          Budgets
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Expense Budgets {year}</DialogTitle>
+          <DialogDescription>
+            One budget per category, matched to the expense category ignoring case. A monthly budget applies to every month of the year.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_auto_auto_auto] items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="budget-category">Category</Label>
+              <Input
+                id="budget-category"
+                list="budget-category-options"
+                placeholder="e.g., Utilities"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+              />
+              <datalist id="budget-category-options">
+                {categories.map(c => <option key={c} value={c} />)}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={period} onValueChange={(value) => setPeriod(value as BudgetPeriod)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BUDGET_PERIOD_LABELS) as BudgetPeriod[]).map(p => (
+                    <SelectItem key={p} value={p}>{BUDGET_PERIOD_LABELS[p]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-amount">Amount</Label>
+              <Input
+                id="budget-amount"
+                type="number"
+                min={0}
+                value={amount || ''}
+                onChange={(e) => setAmount(Number(e.target.value) || 0)}
+                className="w-32 text-right"
+              />
+            </div>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="gap-2 bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+            >
+              <Plus className="w-4 h-4" />
+              {editing ? 'Update' : 'Add'}
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Per Year</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {budgets.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">No budgets for {year}</TableCell>
+                </TableRow>
+              ) : (
+                budgets.map(budget => (
+                  <TableRow key={budget.id}>
+                    <TableCell className="font-medium">{budget.category}</TableCell>
+                    <TableCell>{BUDGET_PERIOD_LABELS[budget.period]}</TableCell>
+                    <TableCell className="text-right">{formatAmount(budget.amount)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(budget.period === 'monthly' ? budget.amount * 12 : budget.amount)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" variant="ghost" onClick={() => handleEdit(budget)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(budget)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
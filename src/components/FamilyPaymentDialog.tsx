@@ -0,0 +1,239 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useRole } from '@/contexts/RoleContext';
+import { StudentFeeData } from '@/hooks/useFinancialData';
+import { downloadReceipt } from '@/lib/receiptGenerator';
+import { Wand2 } from 'lucide-react';
+import { fetchReceiptBranding } from '@/services/receiptSettingsService';
+import { AllocationLine, allocationKey, fetchAllocationTargets } from '@/services/paymentAllocationService';
+import {
+  Family,
+  FamilyChildTargets,
+  FamilyPaymentLine,
+  familyAllocationLabel,
+  recordFamilyPayment,
+  splitFamilyPayment,
+} from '@/services/familyService';
+
+interface FamilyPaymentDialogProps {
+  family: Family | null;  // Dialog is open while set
+  feeStudents: StudentFeeData[];
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+export const FamilyPaymentDialog = ({ family, feeStudents, onClose, onComplete }: FamilyPaymentDialogProps) => {
+  const [amount, setAmount] = useState(0);
+  const [paymentDate, setPaymentDate] = useState(new Date().toISOString().split('T')[0]);
+  const [paymentMethod, setPaymentMethod] = useState('cash');
+  const [children, setChildren] = useState<FamilyChildTargets[]>([]);
+  const [lines, setLines] = useState<Record<string, AllocationLine[]>>({});
+  const [overridden, setOverridden] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { formatAmount, currency } = useCurrency();
+  const { currentSchool } = useRole();
+
+  // Load every active child's tuition and fee folder dues
+  useEffect(() => {
+    if (!family) return;
+    setAmount(0);
+    setOverridden(false);
+    const members = family.students.filter(s => !s.is_archived);
+    Promise.all(members.map(async (member) => {
+      const feeData = feeStudents.find(s => s.student_id === member.id) || null;
+      const { data } = await fetchAllocationTargets(member.id, feeData);
+      return { student_id: member.id, name: member.name, targets: data.targets };
+    })).then(setChildren);
+  }, [family, feeStudents]);
+
+  // Oldest due first across all children until a line is edited
+  useEffect(() => {
+    if (overridden) return;
+    const split = splitFamilyPayment(amount, children);
+    setLines(Object.fromEntries(split.map(line => [line.student_id, line.allocations])));
+  }, [overridden, amount, children]);
+
+  const allocated = Object.values(lines).flat().reduce((sum, l) => sum + l.amount, 0);
+  const unallocated = Math.round((amount - allocated) * 100) / 100;
+
+  const updateLine = (studentId: string, feeFolderId: string | null, value: number) => {
+    const others = (lines[studentId] || []).filter(l => allocationKey(l.fee_folder_id) !== allocationKey(feeFolderId));
+    setLines({ ...lines, [studentId]: value > 0 ? [...others, { fee_folder_id: feeFolderId, amount: value }] : others });
+    setOverridden(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!family) return;
+    if (amount <= 0) {
+      toast({ title: 'Error', description: 'Amount must be greater than zero', variant: 'destructive' });
+      return;
+    }
+    if (unallocated < 0) {
+      toast({ title: 'Error', description: 'Allocated amounts exceed the payment amount', variant: 'destructive' });
+      return;
+    }
+
+    // Each child pays what is allocated to them; any rest is the first child's tuition advance
+    const shares: FamilyPaymentLine[] = children
+      .map(child => ({
+        student_id: child.student_id,
+        allocations: lines[child.student_id] || [],
+        amount: (lines[child.student_id] || []).reduce((sum, l) => sum + l.amount, 0),
+      }));
+    if (unallocated > 0 && shares.length > 0) shares[0].amount += unallocated;
+
+    setSaving(true);
+    const { data, error } = await recordFamilyPayment(
+      family.id,
+      paymentDate,
+      paymentMethod,
+      currency.code,
+      shares.filter(share => share.amount > 0)
+    );
+    setSaving(false);
+
+    if (error || !data) {
+      toast({ title: 'Error', description: error?.message || 'Failed to record payment', variant: 'destructive' });
+      return;
+    }
+
+    // Combined family receipt listing every child's share
+    const { data: branding } = currentSchool
+      ? await fetchReceiptBranding(currentSchool.school_id)
+      : { data: undefined };
+    const allocations = children.flatMap(child =>
+      (lines[child.student_id] || []).map(line => ({
+        label: familyAllocationLabel(child.name, child.targets, line),
+        amount: line.amount,
+      }))
+    );
+    if (unallocated > 0 && children.length > 0) {
+      allocations.push({ label: `${children[0].name}: Advance`, amount: unallocated });
+    }
+
+    await downloadReceipt({
+      receiptNumber: data.payments.map(p => p.receipt_number).join(', '),
+      studentName: `${family.name} (${children.map(c => c.name).join(', ')})`,
+      amount,
+      paymentDate,
+      paymentMethod,
+      currency: currency.code,
+      description: 'Family Payment',
+      allocations,
+      branding,
+    });
+
+    toast({ title: 'Success', description: `Recorded ${data.payments.length} payment(s) for ${family.name}` });
+    onClose();
+    onComplete();
+  };
+
+  return (
+    <Dialog open={!!family} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Family Payment</DialogTitle>
+          <DialogDescription>
+            One payment from {family?.guardian_name || family?.name}, split across the children below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="family-amount">Amount Paid</Label>
+              <Input
+                id="family-amount"
+                type="number"
+                min={0}
+                value={amount || ''}
+                onChange={(e) => setAmount(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="family-date">Date</Label>
+              <Input id="family-date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Payment Method</Label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                  <SelectItem value="check">Check</SelectItem>
+                  <SelectItem value="online">Online Payment</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="flex items-center justify-between">
+              <Label>Allocation</Label>
+              <Button type="button" variant="ghost" size="sm" className="gap-1" onClick={() => setOverridden(false)}>
+                <Wand2 className="w-4 h-4" />
+                Oldest due first
+              </Button>
+            </div>
+
+            {children.map(child => (
+              <div key={child.student_id} className="space-y-2">
+                <p className="text-sm font-semibold">{child.name}</p>
+                {child.targets.map(target => (
+                  <div key={allocationKey(target.fee_folder_id)} className="grid grid-cols-[1fr_auto] items-center gap-2 pl-3">
+                    <div className="text-sm">
+                      <p>{target.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatAmount(target.outstanding)} outstanding
+                        {target.due_date ? ` · due ${new Date(target.due_date).toLocaleDateString()}` : ''}
+                      </p>
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-28"
+                      placeholder="0"
+                      value={(lines[child.student_id] || []).find(l => allocationKey(l.fee_folder_id) === allocationKey(target.fee_folder_id))?.amount || ''}
+                      onChange={(e) => updateLine(child.student_id, target.fee_folder_id, Number(e.target.value))}
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            <p className={`text-xs ${unallocated < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {unallocated < 0
+                ? `Allocated ${formatAmount(-unallocated)} more than the payment`
+                : unallocated > 0 && children.length > 0
+                  ? `${formatAmount(unallocated)} unallocated - credited to ${children[0].name} as tuition advance`
+                  : 'Fully allocated'}
+            </p>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={saving || children.length === 0}
+              className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+            >
+              {saving ? 'Saving...' : 'Record Payment'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { CalendarRange, Plus, Trash2 } from 'lucide-react';
+import {
+  FEE_PLAN_TYPES,
+  FeePlan,
+  FeePlanInstallment,
+  FeePlanType,
+  createFeePlan,
+  deleteFeePlan,
+  getPlanTotal,
+} from '@/services/feePlanService';
+
+interface FeePlanManagerProps {
+  plans: FeePlan[];
+  onPlansChange: () => void;
+}
+
+const emptyInstallment = (index: number): FeePlanInstallment => ({
+  label: `Installment ${index + 1}`,
+  due_date: '',
+  amount: 0,
+});
+
+export const FeePlanManager = ({ plans, onPlansChange }: FeePlanManagerProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [planType, setPlanType] = useState<FeePlanType>('termly');
+  const [installments, setInstallments] = useState<FeePlanInstallment[]>([emptyInstallment(0)]);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { formatAmount } = useCurrency();
+
+  const resetForm = () => {
+    setName('');
+    setPlanType('termly');
+    setInstallments([emptyInstallment(0)]);
+  };
+
+  const updateInstallment = (index: number, changes: Partial<FeePlanInstallment>) => {
+    setInstallments(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    if (name.trim().length < 2) {
+      toast({ title: 'Error', description: 'Plan name must be at least 2 characters', variant: 'destructive' });
+      return;
+    }
+    if (plans.some(p => p.name.toLowerCase() === name.trim().toLowerCase())) {
+      toast({ title: 'Error', description: 'A fee plan with this name already exists', variant: 'destructive' });
+      return;
+    }
+    if (installments.length === 0 || installments.some(i => i.amount <= 0)) {
+      toast({ title: 'Error', description: 'Every installment needs an amount greater than zero', variant: 'destructive' });
+      return;
+    }
+    // Only one-time plans may leave the due date empty ("due on joining")
+    if (planType !== 'one_time' && installments.some(i => !i.due_date)) {
+      toast({ title: 'Error', description: 'Every installment needs a due date', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await createFeePlan(user.id, { name, plan_type: planType, installments });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Fee plan created successfully' });
+    resetForm();
+    onPlansChange();
+  };
+
+  const handleDelete = async (plan: FeePlan) => {
+    if (!confirm(`Delete fee plan "${plan.name}"? Students on this plan will fall back to their fee type and amount.`)) return;
+
+    const { error } = await deleteFeePlan(plan.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Fee plan deleted successfully' });
+    onPlansChange();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) resetForm(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <CalendarRange className="w-4 h-4" />
+          Fee Plans
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Fee Plans</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Installments</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead className="w-16">Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plans.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No fee plans yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  plans.map(plan => (
+                    <TableRow key={plan.id}>
+                      <TableCell className="font-medium">{plan.name}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {FEE_PLAN_TYPES.find(t => t.value === plan.plan_type)?.label ?? plan.plan_type}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {plan.installments
+                          .map(i => `${i.label} (${i.due_date ? new Date(i.due_date).toLocaleDateString() : 'on joining'})`)
+                          .join(', ')}
+                      </TableCell>
+                      <TableCell className="font-semibold text-primary">{formatAmount(getPlanTotal(plan))}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(plan)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="border rounded-lg p-4 space-y-4">
+            <p className="font-semibold text-sm">New Fee Plan</p>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="fee-plan-name">Plan Name</Label>
+                <Input
+                  id="fee-plan-name"
+                  placeholder="e.g., Primary Termly 2025"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Plan Type</Label>
+                <Select value={planType} onValueChange={(value) => setPlanType(value as FeePlanType)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select plan type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FEE_PLAN_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Installments</Label>
+              {installments.map((installment, index) => (
+                <div key={index} className="grid grid-cols-[1fr_160px_140px_40px] gap-2">
+                  <Input
+                    placeholder="Label"
+                    value={installment.label}
+                    onChange={(e) => updateInstallment(index, { label: e.target.value })}
+                  />
+                  <Input
+                    type="date"
+                    value={installment.due_date || ''}
+                    onChange={(e) => updateInstallment(index, { due_date: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    placeholder="Amount"
+                    value={installment.amount || ''}
+                    onChange={(e) => updateInstallment(index, { amount: Number(e.target.value) })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setInstallments(prev => prev.filter((_, i) => i !== index))}
+                    disabled={installments.length === 1}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Installments are billed once their due date has passed. Leave the date empty on one-time plans to bill on the joining date.
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => setInstallments(prev => [...prev, emptyInstallment(prev.length)])}
+              >
+                <Plus className="w-4 h-4" />
+                Add Installment
+              </Button>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={handleCreate}
+                disabled={saving}
+                className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+              >
+                {saving ? 'Saving...' : 'Create Plan'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
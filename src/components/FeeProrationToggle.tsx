@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { fetchFeeProration, saveFeeProration } from '@/services/feeProrationService';
+
+interface FeeProrationToggleProps {
+  schoolId: string;
+  onChange: () => void;
+}
+
+export const FeeProrationToggle = ({ schoolId, onChange }: FeeProrationToggleProps) => {
+  const [enabled, setEnabled] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchFeeProration(schoolId).then(({ data }) => setEnabled(data));
+  }, [schoolId]);
+
+  const handleChange = async (checked: boolean) => {
+    setSaving(true);
+    const { error } = await saveFeeProration(schoolId, checked);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setEnabled(checked);
+    toast({
+      title: 'Success',
+      description: checked
+        ? 'Join and leaving months are now billed by days'
+        : 'Join and leaving months are now billed in full',
+    });
+    onChange();
+  };
+
+  return (
+    <div className="flex items-center gap-2 pt-2">
+      <Switch id="fee-proration" checked={enabled} disabled={saving} onCheckedChange={handleChange} />
+      <Label htmlFor="fee-proration" className="text-xs text-muted-foreground">
+        Prorate join / leaving month by days
+      </Label>
+    </div>
+  );
+};
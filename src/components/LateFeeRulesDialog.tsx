@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Gavel } from 'lucide-react';
+import {
+  DEFAULT_LATE_FEE_RULES,
+  LATE_FEE_TYPES,
+  LateFeeRules,
+  LateFeeType,
+  fetchLateFeeRules,
+  saveLateFeeRules,
+} from '@/services/lateFeeService';
+
+interface LateFeeRulesDialogProps {
+  schoolId: string;
+  onRulesChange: () => void;
+}
+
+export const LateFeeRulesDialog = ({ schoolId, onRulesChange }: LateFeeRulesDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [rules, setRules] = useState<LateFeeRules>(DEFAULT_LATE_FEE_RULES);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetchLateFeeRules(schoolId).then(({ data, error }) => {
+      if (error) {
+        toast({ title: 'Error', description: 'Failed to fetch late fee rules', variant: 'destructive' });
+        return;
+      }
+      setRules(data);
+    });
+  }, [isOpen, schoolId, toast]);
+
+  const updateRules = (changes: Partial<LateFeeRules>) => {
+    setRules(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    if (rules.enabled && rules.rate <= 0) {
+      toast({ title: 'Error', description: 'Late fee rate must be greater than zero', variant: 'destructive' });
+      return;
+    }
+    if (rules.grace_days < 0 || (rules.cap ?? 0) < 0) {
+      toast({ title: 'Error', description: 'Grace period and cap cannot be negative', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveLateFeeRules(schoolId, rules);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Late fee rules saved successfully' });
+    setIsOpen(false);
+    onRulesChange();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Gavel className="w-4 h-4" />
+          Late Fee Rules
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Late Fee Rules</DialogTitle>
+          <DialogDescription>
+            Penalties accrue on unpaid fee folders once the due date and grace period have passed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="late-fee-enabled">Charge late fees</Label>
+            <Switch
+              id="late-fee-enabled"
+              checked={rules.enabled}
+              onCheckedChange={(checked) => updateRules({ enabled: checked })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Penalty Type</Label>
+            <Select value={rules.type} onValueChange={(value) => updateRules({ type: value as LateFeeType })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LATE_FEE_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="late-fee-rate">{rules.type === 'flat_per_day' ? 'Amount / day' : '% / month'}</Label>
+              <Input
+                id="late-fee-rate"
+                type="number"
+                value={rules.rate || ''}
+                onChange={(e) => updateRules({ rate: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="late-fee-grace">Grace (days)</Label>
+              <Input
+                id="late-fee-grace"
+                type="number"
+                value={rules.grace_days || ''}
+                onChange={(e) => updateRules({ grace_days: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="late-fee-cap">Cap (optional)</Label>
+              <Input
+                id="late-fee-cap"
+                type="number"
+                placeholder="No cap"
+                value={rules.cap ?? ''}
+                onChange={(e) => updateRules({ cap: e.target.value ? Number(e.target.value) : null })}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {rules.type === 'flat_per_day'
+              ? 'A flat amount is added for every day past the grace period.'
+              : 'A percentage of the outstanding balance is added for every started month past the grace period.'}
+            {' '}The cap limits the total penalty per fee folder.
+          </p>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+            >
+              {saving ? 'Saving...' : 'Save Rules'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { StudentSearchSelect } from '@/components/ui/StudentSearchSelect';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarPlus } from 'lucide-react';
+import { AttendanceStatusOption, fetchAttendanceStatuses } from '@/services/attendanceStatusService';
+import { leaveStatusOptions, submitLeaveRequest } from '@/services/studentLeaveService';
+
+interface LeaveRequestDialogProps {
+  schoolId: string;
+  studentId?: string;      // Fixed student (parent portal); staff pick one otherwise
+  studentName?: string;
+  onSubmitted: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const LeaveRequestDialog = ({ schoolId, studentId, studentName, onSubmitted }: LeaveRequestDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [options, setOptions] = useState<AttendanceStatusOption[]>([]);
+  const [student, setStudent] = useState('');
+  const [startDate, setStartDate] = useState(today());
+  const [endDate, setEndDate] = useState(today());
+  const [leaveStatus, setLeaveStatus] = useState('');
+  const [reasonCode, setReasonCode] = useState('');
+  const [notes, setNotes] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStudent(studentId || '');
+    setStartDate(today());
+    setEndDate(today());
+    setReasonCode('');
+    setNotes('');
+    fetchAttendanceStatuses(schoolId).then(({ data, error }) => {
+      if (error) {
+        toast({ title: 'Error', description: 'Failed to fetch leave types', variant: 'destructive' });
+        return;
+      }
+      const leaveOptions = leaveStatusOptions(data);
+      setOptions(leaveOptions);
+      setLeaveStatus(leaveOptions[0]?.code || '');
+    });
+  }, [isOpen, schoolId, studentId, toast]);
+
+  const selected = options.find(o => o.code === leaveStatus);
+
+  const handleSubmit = async () => {
+    if (!student) {
+      toast({ title: 'Error', description: 'Please select a student', variant: 'destructive' });
+      return;
+    }
+    if (!startDate || !endDate || endDate < startDate) {
+      toast({ title: 'Error', description: 'End date must be on or after the start date', variant: 'destructive' });
+      return;
+    }
+    if (!leaveStatus || !reasonCode.trim()) {
+      toast({ title: 'Error', description: 'Please choose a leave type and reason', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await submitLeaveRequest({
+      student_id: student,
+      start_date: startDate,
+      end_date: endDate,
+      attendance_status: leaveStatus,
+      reason_code: reasonCode.trim(),
+      notes: notes.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Leave request submitted for approval' });
+    setIsOpen(false);
+    onSubmitted();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button className="gap-2 bg-gradient-to-r from-primary to-primary-glow hover:opacity-90">
+          <CalendarPlus className="w-4 h-4" />
+          Request Leave
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request Leave{studentName ? ` for ${studentName}` : ''}</DialogTitle>
+          <DialogDescription>
+            Once the class teacher or principal approves, these days are pre-filled on the attendance sheet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!studentId && (
+            <div className="space-y-2">
+              <Label>Student</Label>
+              <StudentSearchSelect value={student} onChange={(id) => setStudent(id)} />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="leave-start">From</Label>
+              <Input id="leave-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-end">To</Label>
+              <Input id="leave-end" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Leave type</Label>
+              <Select
+                value={leaveStatus}
+                onValueChange={(value) => {
+                  setLeaveStatus(value);
+                  setReasonCode('');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map(o => (
+                    <SelectItem key={o.code} value={o.code}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-reason">Reason</Label>
+              {selected && selected.reason_codes.length > 0 ? (
+                <Select value={reasonCode} onValueChange={setReasonCode}>
+                  <SelectTrigger id="leave-reason">
+                    <SelectValue placeholder="Reason" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {selected.reason_codes.map(r => (
+                      <SelectItem key={r} value={r} className="capitalize">{r.replace(/_/g, ' ')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input id="leave-reason" value={reasonCode} onChange={(e) => setReasonCode(e.target.value)} />
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="leave-notes">Details (optional)</Label>
+            <Textarea
+              id="leave-notes"
+              rows={3}
+              placeholder="e.g. Travelling for a family wedding"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={saving}
+              className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+            >
+              {saving ? 'Submitting...' : 'Submit Request'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,76 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { Wand2 } from 'lucide-react';
+import { AllocationLine, AllocationTarget, allocationKey } from '@/services/paymentAllocationService';
+
+interface PaymentAllocationEditorProps {
+  amount: number;
+  category: string;
+  targets: AllocationTarget[];
+  lines: AllocationLine[];
+  onChange: (lines: AllocationLine[]) => void;
+  onAutoAllocate: () => void;
+}
+
+export const PaymentAllocationEditor = ({ amount, category, targets, lines, onChange, onAutoAllocate }: PaymentAllocationEditorProps) => {
+  const { formatAmount } = useCurrency();
+
+  const byKey = new Map(lines.map(l => [allocationKey(l.fee_folder_id), l.amount]));
+  const allocated = lines.reduce((sum, l) => sum + l.amount, 0);
+  const unallocated = Math.round((amount - allocated) * 100) / 100;
+
+  const updateLine = (target: AllocationTarget, value: number) => {
+    const others = lines.filter(l => allocationKey(l.fee_folder_id) !== allocationKey(target.fee_folder_id));
+    onChange(value > 0 ? [...others, { fee_folder_id: target.fee_folder_id, amount: value }] : others);
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between">
+        <Label>Allocation</Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="gap-1"
+          onClick={onAutoAllocate}
+        >
+          <Wand2 className="w-4 h-4" />
+          Oldest due first
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {targets.map(target => (
+          <div key={allocationKey(target.fee_folder_id)} className="grid grid-cols-[1fr_auto] items-center gap-2">
+            <div className="text-sm">
+              <p className="font-medium">{target.label}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatAmount(target.outstanding)} outstanding
+                {target.due_date ? ` · due ${new Date(target.due_date).toLocaleDateString()}` : ''}
+              </p>
+            </div>
+            <Input
+              type="number"
+              min={0}
+              className="w-28"
+              value={byKey.get(allocationKey(target.fee_folder_id)) || ''}
+              placeholder="0"
+              onChange={(e) => updateLine(target, Number(e.target.value))}
+            />
+          </div>
+        ))}
+      </div>
+
+      <p className={`text-xs ${unallocated < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+        {unallocated < 0
+          ? `Allocated ${formatAmount(-unallocated)} more than the payment`
+          : unallocated > 0
+            ? `${formatAmount(unallocated)} unallocated - ${category === 'school_fee' ? 'counted as tuition advance' : 'kept as general income'}`
+            : 'Fully allocated'}
+      </p>
+    </div>
+  );
+};
@@ -119,8 +119,7 @@ export const PaymentBatchImport = ({ onImportComplete }: PaymentBatchImportProps
         payment_date: row.payment_date,
         payment_method: row.payment_method,
         description: row.description || 'Batch import payment',
-        currency: currency.code,
-        receipt_number: `PAY-${Date.now()}-${i}`
+        currency: currency.code
       });
     }
 
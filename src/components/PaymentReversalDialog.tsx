@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { refundPayment, voidPayment } from '@/services/paymentReversalService';
+
+export type PaymentReversalMode = 'void' | 'refund';
+
+interface ReversiblePayment {
+  id: string;
+  amount: number;
+  receipt_number?: string;
+}
+
+interface PaymentReversalDialogProps {
+  mode: PaymentReversalMode;
+  payments: ReversiblePayment[];  // Dialog is open while non-empty; refunds use the first
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+export const PaymentReversalDialog = ({ mode, payments, onClose, onComplete }: PaymentReversalDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [amount, setAmount] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { formatAmount } = useCurrency();
+
+  const isOpen = payments.length > 0;
+  const total = payments.reduce((sum, p) => sum + Number(p.amount), 0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setReason('');
+    setAmount(Number(payments[0].amount));
+  }, [isOpen, payments]);
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) {
+      toast({ title: 'Error', description: 'Please enter a reason', variant: 'destructive' });
+      return;
+    }
+    if (mode === 'refund' && amount <= 0) {
+      toast({ title: 'Error', description: 'Refund amount must be greater than zero', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    let failed = 0;
+    let lastError: Error | null = null;
+    for (const payment of payments) {
+      const { error } = mode === 'void'
+        ? await voidPayment(payment.id, reason)
+        : await refundPayment(payment.id, amount, reason);
+      if (error) {
+        failed++;
+        lastError = error;
+      }
+      if (mode === 'refund') break;
+    }
+    setSaving(false);
+
+    const attempted = mode === 'refund' ? 1 : payments.length;
+    if (failed === attempted) {
+      toast({ title: 'Error', description: lastError?.message || 'Failed to reverse payment', variant: 'destructive' });
+      return;
+    }
+
+    const done = attempted - failed;
+    toast({
+      title: 'Success',
+      description: mode === 'void'
+        ? `Voided ${done} payment(s)${failed ? `, ${failed} failed: ${lastError?.message}` : ''}`
+        : `Refunded ${formatAmount(amount)}`,
+    });
+    onClose();
+    onComplete();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{mode === 'void' ? 'Void Payment' : 'Refund Payment'}</DialogTitle>
+          <DialogDescription>
+            {mode === 'void'
+              ? payments.length === 1
+                ? `Receipt ${payments[0].receipt_number || ''} (${formatAmount(total)}) stays on record and a reversing entry is added.`
+                : `${payments.length} payments (${formatAmount(total)}) stay on record and reversing entries are added.`
+              : `Receipt ${payments[0]?.receipt_number || ''} was for ${formatAmount(total)}. A refund entry is recorded against it.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {mode === 'refund' && (
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Refund amount</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min={0}
+                max={total}
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="reversal-reason">Reason</Label>
+            <Textarea
+              id="reversal-reason"
+              rows={3}
+              placeholder={mode === 'void' ? 'e.g. Entered against the wrong student' : 'e.g. Student withdrew mid-term'}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleSubmit} disabled={saving}>
+              {saving ? 'Saving...' : mode === 'void' ? 'Void' : 'Refund'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,288 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { downloadReceipt } from '@/lib/receiptGenerator';
+import { Receipt } from 'lucide-react';
+import {
+  DEFAULT_RECEIPT_NUMBERING,
+  DEFAULT_RECEIPT_SETTINGS,
+  MAX_LOGO_LENGTH,
+  RECEIPT_TEMPLATES,
+  ReceiptNumbering,
+  ReceiptSettings,
+  ReceiptTemplate,
+  fetchReceiptBranding,
+  fetchReceiptNumbering,
+  formatReceiptNumber,
+  saveReceiptNumbering,
+  saveReceiptSettings,
+} from '@/services/receiptSettingsService';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+interface ReceiptSettingsDialogProps {
+  schoolId: string;
+  onSettingsChange: () => void;
+}
+
+export const ReceiptSettingsDialog = ({ schoolId, onSettingsChange }: ReceiptSettingsDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [schoolName, setSchoolName] = useState('');
+  const [settings, setSettings] = useState<ReceiptSettings>(DEFAULT_RECEIPT_SETTINGS);
+  const [numbering, setNumbering] = useState<ReceiptNumbering>(DEFAULT_RECEIPT_NUMBERING);
+  const { toast } = useToast();
+  const { currency } = useCurrency();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetchReceiptBranding(schoolId).then(({ data, error }) => {
+      if (error) {
+        toast({ title: 'Error', description: 'Failed to fetch receipt settings', variant: 'destructive' });
+        return;
+      }
+      const { school_name, ...receiptSettings } = data;
+      setSchoolName(school_name);
+      setSettings(receiptSettings);
+    });
+    fetchReceiptNumbering(schoolId).then(({ data }) => setNumbering(data));
+  }, [isOpen, schoolId, toast]);
+
+  const updateSettings = (changes: Partial<ReceiptSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateNumbering = (changes: Partial<ReceiptNumbering>) => {
+    setNumbering(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      if (dataUrl.length > MAX_LOGO_LENGTH) {
+        toast({ title: 'Error', description: 'Logo must be smaller than 200 KB', variant: 'destructive' });
+        return;
+      }
+      updateSettings({ logo: dataUrl });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handlePreview = () => {
+    downloadReceipt({
+      receiptNumber: formatReceiptNumber(numbering, 'payment', new Date(), 1),
+      studentName: 'Sample Student',
+      amount: 1250.5,
+      paymentDate: new Date().toISOString().split('T')[0],
+      paymentMethod: 'cash',
+      currency: currency.code,
+      description: 'School Fee Payment',
+      balanceAfter: 500,
+      branding: { school_name: schoolName, ...settings },
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const [settingsResult, numberingResult] = await Promise.all([
+      saveReceiptSettings(schoolId, settings),
+      saveReceiptNumbering(schoolId, numbering),
+    ]);
+    const error = settingsResult.error || numberingResult.error;
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Receipt settings saved successfully' });
+    setIsOpen(false);
+    onSettingsChange();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Receipt className="w-4 h-4" />
+          Receipt Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receipt Settings</DialogTitle>
+          <DialogDescription>
+            Receipts are printed with {schoolName || 'your school'}'s name and the details below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={settings.template} onValueChange={(value) => updateSettings({ template: value as ReceiptTemplate })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECEIPT_TEMPLATES.map(template => (
+                  <SelectItem key={template.value} value={template.value}>{template.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receipt-address">Address</Label>
+            <Textarea
+              id="receipt-address"
+              rows={2}
+              value={settings.address}
+              onChange={(e) => updateSettings({ address: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receipt-phone">Phone / Email</Label>
+            <Input
+              id="receipt-phone"
+              value={settings.phone}
+              onChange={(e) => updateSettings({ phone: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receipt-footer">Footer</Label>
+            <Textarea
+              id="receipt-footer"
+              rows={2}
+              placeholder="This is a computer-generated receipt."
+              value={settings.footer}
+              onChange={(e) => updateSettings({ footer: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receipt-logo">Logo</Label>
+            <div className="flex items-center gap-2">
+              {settings.logo && (
+                <img src={settings.logo} alt="School logo" className="h-10 w-auto rounded border" />
+              )}
+              <Input id="receipt-logo" type="file" accept="image/png,image/jpeg" onChange={handleLogoChange} />
+              {settings.logo && (
+                <Button variant="ghost" size="sm" onClick={() => updateSettings({ logo: null })}>
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="receipt-qr">Print QR code with receipt number</Label>
+            <Switch
+              id="receipt-qr"
+              checked={settings.show_qr}
+              onCheckedChange={(checked) => updateSettings({ show_qr: checked })}
+            />
+          </div>
+
+          <div className="space-y-3 border-t pt-4">
+            <Label>Receipt Numbering</Label>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="payment-prefix" className="text-xs">Payment prefix</Label>
+                <Input
+                  id="payment-prefix"
+                  maxLength={10}
+                  value={numbering.payment_prefix}
+                  onChange={(e) => updateNumbering({ payment_prefix: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-prefix" className="text-xs">Expense prefix</Label>
+                <Input
+                  id="expense-prefix"
+                  maxLength={10}
+                  value={numbering.expense_prefix}
+                  onChange={(e) => updateNumbering({ expense_prefix: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="receipt-padding" className="text-xs">Digits</Label>
+                <Input
+                  id="receipt-padding"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={numbering.padding}
+                  onChange={(e) => updateNumbering({ padding: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div className="space-y-2">
+                <Label className="text-xs">Fiscal year starts in</Label>
+                <Select
+                  value={String(numbering.fiscal_year_start_month)}
+                  onValueChange={(value) => updateNumbering({ fiscal_year_start_month: Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MONTHS.map((month, index) => (
+                      <SelectItem key={month} value={String(index + 1)}>{month}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between pb-2">
+                <Label htmlFor="receipt-include-year" className="text-xs">Restart every fiscal year</Label>
+                <Switch
+                  id="receipt-include-year"
+                  checked={numbering.include_year}
+                  onCheckedChange={(checked) => updateNumbering({ include_year: checked })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Next numbers look like {formatReceiptNumber(numbering, 'payment', new Date(), 1)} and{' '}
+              {formatReceiptNumber(numbering, 'expense', new Date(), 1)}. Numbers are issued by the server
+              without gaps; changes apply to new receipts only.
+            </p>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={handlePreview}>
+              Preview
+            </Button>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+            >
+              {saving ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
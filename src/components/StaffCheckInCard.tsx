@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { StaffLeaveRequestDialog } from '@/components/StaffLeaveRequestDialog';
+import {
+  MyStaffAttendance,
+  STAFF_ATTENDANCE_STATUS_LABELS,
+  STAFF_LEAVE_TYPE_LABELS,
+  StaffLeaveBalance,
+  checkIn,
+  checkOut,
+  fetchMyStaffAttendance,
+  fetchStaffLeaveBalances,
+} from '@/services/staffAttendanceService';
+import { Clock, LogIn, LogOut } from 'lucide-react';
+
+interface StaffCheckInCardProps {
+  schoolId: string;
+  onLeaveSubmitted?: () => void;
+}
+
+const formatTime = (value: string | null) =>
+  value ? new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '-';
+
+/** Check-in / check-out for the signed-in user; hidden when no staff record matches their email */
+export const StaffCheckInCard = ({ schoolId, onLeaveSubmitted }: StaffCheckInCardProps) => {
+  const [me, setMe] = useState<MyStaffAttendance | null>(null);
+  const [balance, setBalance] = useState<StaffLeaveBalance | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    const { data } = await fetchMyStaffAttendance(schoolId);
+    setMe(data);
+    if (!data) return;
+    const { data: balances } = await fetchStaffLeaveBalances(schoolId, new Date().getFullYear(), data.staff_id);
+    setBalance(balances[0] || null);
+  }, [schoolId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (!me) return null;
+
+  const handleLeaveSubmitted = () => {
+    load();
+    onLeaveSubmitted?.();
+  };
+
+  const handleClock = async () => {
+    setSaving(true);
+    const { error } = me.check_in_at ? await checkOut(schoolId) : await checkIn(schoolId);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: me.check_in_at ? 'Checked out' : 'Checked in' });
+    load();
+  };
+
+  return (
+    <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <Clock className="w-5 h-5 text-primary" />
+          My Attendance
+          {me.status && <Badge variant="secondary">{STAFF_ATTENDANCE_STATUS_LABELS[me.status]}</Badge>}
+        </CardTitle>
+        <StaffLeaveRequestDialog schoolId={schoolId} staff={[{ id: me.staff_id, name: me.staff_name }]} onSubmitted={handleLeaveSubmitted} />
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="flex gap-6 text-sm">
+          <div>
+            <p className="text-muted-foreground">Checked in</p>
+            <p className="font-medium">{formatTime(me.check_in_at)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Checked out</p>
+            <p className="font-medium">{formatTime(me.check_out_at)}</p>
+          </div>
+          {balance && (['casual', 'sick'] as const).map(type => (
+            <div key={type}>
+              <p className="text-muted-foreground">{STAFF_LEAVE_TYPE_LABELS[type]} leave left</p>
+              <p className="font-medium">{balance.balances[type].remaining ?? '-'} days</p>
+            </div>
+          ))}
+        </div>
+        {me.status !== 'on_leave' && (
+          <Button variant="outline" onClick={handleClock} disabled={saving} className="gap-2">
+            {me.check_in_at ? <LogOut className="w-4 h-4" /> : <LogIn className="w-4 h-4" />}
+            {me.check_in_at ? 'Check Out' : 'Check In'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { SlidersHorizontal } from 'lucide-react';
+import {
+  DEFAULT_STAFF_LEAVE_ALLOWANCES,
+  StaffLeaveAllowances,
+  fetchStaffLeaveAllowances,
+  saveStaffLeaveAllowances,
+} from '@/services/staffAttendanceService';
+
+interface StaffLeaveAllowancesDialogProps {
+  schoolId: string;
+  onAllowancesChange: () => void;
+}
+
+export const StaffLeaveAllowancesDialog = ({ schoolId, onAllowancesChange }: StaffLeaveAllowancesDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [allowances, setAllowances] = useState<StaffLeaveAllowances>(DEFAULT_STAFF_LEAVE_ALLOWANCES);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetchStaffLeaveAllowances(schoolId).then(({ data, error }) => {
+      if (error) {
+        toast({ title: 'Error', description: 'Failed to fetch leave allowances', variant: 'destructive' });
+        return;
+      }
+      setAllowances(data);
+    });
+  }, [isOpen, schoolId, toast]);
+
+  const handleSave = async () => {
+    if ([allowances.casual, allowances.sick].some(days => !Number.isInteger(days) || days < 0 || days > 365)) {
+      toast({ title: 'Error', description: 'Allowances must be between 0 and 365 days', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveStaffLeaveAllowances(schoolId, allowances);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Leave allowances saved successfully' });
+    setIsOpen(false);
+    onAllowancesChange();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          Allowances
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Annual Leave Allowances</DialogTitle>
+          <DialogDescription>
+            Working days of paid leave each staff member gets per calendar year.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="allowance-casual">Casual (days)</Label>
+              <Input
+                id="allowance-casual"
+                type="number"
+                min={0}
+                value={allowances.casual}
+                onChange={(e) => setAllowances(prev => ({ ...prev, casual: Number(e.target.value) }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="allowance-sick">Sick (days)</Label>
+              <Input
+                id="allowance-sick"
+                type="number"
+                min={0}
+                value={allowances.sick}
+                onChange={(e) => setAllowances(prev => ({ ...prev, sick: Number(e.target.value) }))}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Unpaid leave has no limit. It is deducted from the salary when payroll is drafted.
+          </p>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+            >
+              {saving ? 'Saving...' : 'Save Allowances'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
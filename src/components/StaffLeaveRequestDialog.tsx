@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarPlus } from 'lucide-react';
+import {
+  STAFF_LEAVE_TYPE_LABELS,
+  StaffLeaveBalance,
+  StaffLeaveType,
+  fetchStaffLeaveBalances,
+  requestStaffLeave,
+} from '@/services/staffAttendanceService';
+
+interface StaffLeaveRequestDialogProps {
+  schoolId: string;
+  staff: { id: string; name: string }[];  // One entry: requesting for that staff member only
+  onSubmitted: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const StaffLeaveRequestDialog = ({ schoolId, staff, onSubmitted }: StaffLeaveRequestDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [staffId, setStaffId] = useState('');
+  const [leaveType, setLeaveType] = useState<StaffLeaveType>('casual');
+  const [startDate, setStartDate] = useState(today());
+  const [endDate, setEndDate] = useState(today());
+  const [reason, setReason] = useState('');
+  const [balance, setBalance] = useState<StaffLeaveBalance | null>(null);
+  const { toast } = useToast();
+
+  const fixedStaff = staff.length === 1 ? staff[0] : null;
+  const year = Number(startDate.slice(0, 4));
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStaffId(fixedStaff?.id || '');
+    setLeaveType('casual');
+    setStartDate(today());
+    setEndDate(today());
+    setReason('');
+  }, [isOpen, fixedStaff?.id]);
+
+  useEffect(() => {
+    setBalance(null);
+    if (!isOpen || !staffId || !year) return;
+    fetchStaffLeaveBalances(schoolId, year, staffId).then(({ data }) => setBalance(data[0] || null));
+  }, [isOpen, schoolId, staffId, year]);
+
+  const selectedBalance = balance?.balances[leaveType];
+
+  const handleSubmit = async () => {
+    if (!staffId) {
+      toast({ title: 'Error', description: 'Please select a staff member', variant: 'destructive' });
+      return;
+    }
+    if (!startDate || !endDate || endDate < startDate) {
+      toast({ title: 'Error', description: 'End date must be on or after the start date', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await requestStaffLeave(schoolId, {
+      staff_id: staffId,
+      leave_type: leaveType,
+      start_date: startDate,
+      end_date: endDate,
+      reason: reason.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Leave request submitted for approval' });
+    setIsOpen(false);
+    onSubmitted();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button className="gap-2 bg-gradient-to-r from-primary to-primary-glow hover:opacity-90">
+          <CalendarPlus className="w-4 h-4" />
+          Request Leave
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request Leave{fixedStaff ? ` for ${fixedStaff.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            Leave is counted in working days and needs the principal's approval. Unpaid leave is deducted from the salary.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!fixedStaff && (
+            <div className="space-y-2">
+              <Label>Staff member</Label>
+              <Select value={staffId} onValueChange={setStaffId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select staff member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {staff.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Leave type</Label>
+            <Select value={leaveType} onValueChange={(value) => setLeaveType(value as StaffLeaveType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STAFF_LEAVE_TYPE_LABELS) as StaffLeaveType[]).map(type => (
+                  <SelectItem key={type} value={type}>{STAFF_LEAVE_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedBalance && selectedBalance.remaining !== null && (
+              <p className="text-xs text-muted-foreground">
+                {selectedBalance.remaining} of {selectedBalance.allowance} days left in {year}
+                {selectedBalance.pending > 0 ? `, ${selectedBalance.pending} pending approval` : ''}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="staff-leave-start">From</Label>
+              <Input id="staff-leave-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staff-leave-end">To</Label>
+              <Input id="staff-leave-end" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="staff-leave-reason">Reason (optional)</Label>
+            <Textarea
+              id="staff-leave-reason"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={saving}
+              className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+            >
+              {saving ? 'Submitting...' : 'Submit Request'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { downloadPayslip } from '@/lib/payslipGenerator';
+import { fetchReceiptBranding } from '@/services/receiptSettingsService';
+import {
+  StaffSalary,
+  StaffSalaryChange,
+  fetchStaffSalaries,
+  fetchStaffSalaryChanges,
+} from '@/services/payrollService';
+import { Download, FileText } from 'lucide-react';
+
+interface StaffSalaryHistoryDialogProps {
+  schoolId: string;
+  staff: {
+    id: string;
+    name: string;
+    position: string;
+    staff_id?: string;
+    department?: string | null;
+  };
+}
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const formatValue = (value: unknown) => (value === null || value === undefined || value === '' ? '-' : String(value));
+
+export const StaffSalaryHistoryDialog = ({ schoolId, staff }: StaffSalaryHistoryDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [salaries, setSalaries] = useState<StaffSalary[]>([]);
+  const [changes, setChanges] = useState<StaffSalaryChange[]>([]);
+  const { toast } = useToast();
+  const { currency, formatAmount } = useCurrency();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLoading(true);
+    Promise.all([fetchStaffSalaries(staff.id), fetchStaffSalaryChanges(staff.id)]).then(([salaryResult, changeResult]) => {
+      if (salaryResult.error || changeResult.error) {
+        toast({ title: 'Error', description: 'Failed to fetch salary history', variant: 'destructive' });
+      }
+      setSalaries(salaryResult.data);
+      setChanges(changeResult.data);
+      setLoading(false);
+    });
+  }, [isOpen, staff.id, toast]);
+
+  const handleDownload = async (salary: StaffSalary) => {
+    const { data: branding } = await fetchReceiptBranding(schoolId);
+    downloadPayslip({
+      staffName: staff.name,
+      staffCode: staff.staff_id,
+      position: staff.position,
+      department: staff.department,
+      periodStart: salary.pay_period_start,
+      periodEnd: salary.pay_period_end,
+      paymentDate: salary.payment_date,
+      currency: salary.currency || currency.code,
+      gross: salary.amount,
+      bonus: salary.bonus,
+      deductions: salary.deduction_items.length > 0
+        ? salary.deduction_items
+        : salary.deductions > 0 ? [{ label: 'Deductions', amount: salary.deductions }] : [],
+      net: salary.net_amount,
+      draft: salary.status === 'draft',
+      branding,
+    });
+    toast({ title: 'Success', description: 'Payslip downloaded successfully' });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Payslips and salary history">
+          <FileText className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Salary History - {staff.name}</DialogTitle>
+          <DialogDescription>Recorded salaries with their payslips, and changes to pay details.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="payslips">
+          <TabsList>
+            <TabsTrigger value="payslips">Payslips</TabsTrigger>
+            <TabsTrigger value="changes">Salary Changes</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="payslips">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Gross</TableHead>
+                  <TableHead className="text-right">Bonus</TableHead>
+                  <TableHead className="text-right">Deductions</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead>Paid</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : salaries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">No salaries recorded</TableCell>
+                  </TableRow>
+                ) : (
+                  salaries.map(salary => (
+                    <TableRow key={salary.id}>
+                      <TableCell>{formatDate(salary.pay_period_start)} - {formatDate(salary.pay_period_end)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(salary.amount)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(salary.bonus)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(salary.deductions)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatAmount(salary.net_amount)}</TableCell>
+                      <TableCell>
+                        {salary.status === 'draft'
+                          ? <Badge variant="secondary">Draft</Badge>
+                          : formatDate(salary.payment_date)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" title="Download payslip" onClick={() => handleDownload(salary)}>
+                          <Download className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          <TabsContent value="changes">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : changes.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">No salary changes recorded</TableCell>
+                  </TableRow>
+                ) : (
+                  changes.map(change => (
+                    <TableRow key={change.id}>
+                      <TableCell className="whitespace-nowrap">{new Date(change.changed_at).toLocaleString()}</TableCell>
+                      <TableCell>
+                        {change.changed_fields.map(field => (
+                          <p key={field} className="text-sm">
+                            <span className="capitalize">{field.replace(/_/g, ' ')}</span>:{' '}
+                            {formatValue(change.old_values[field])} → {formatValue(change.new_values[field])}
+                          </p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{change.changed_by || '-'}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
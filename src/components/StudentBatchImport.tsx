@@ -15,6 +15,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/hooks/useAuth';
+import { FeePlan } from '@/services/feePlanService';
 
 interface ImportResult {
   success: number;
@@ -27,6 +28,7 @@ interface StudentRow {
   class: string;
   fee_amount: number;
   fee_type: string;
+  fee_plan?: string;
   guardian_name: string;
   guardian_phone: string;
   join_date: string;
@@ -55,7 +57,12 @@ interface DuplicateMatch {
   matchReason: string;
 }
 
-export const StudentBatchImport = ({ onImportComplete }: { onImportComplete: () => void }) => {
+interface StudentBatchImportProps {
+  onImportComplete: () => void;
+  feePlans?: FeePlan[];
+}
+
+export const StudentBatchImport = ({ onImportComplete, feePlans = [] }: StudentBatchImportProps) => {
   const [isOpen, setIsOpen] = useState(false);
   const [importing, setImporting] = useState(false);
   const [result, setResult] = useState<ImportResult | null>(null);
@@ -83,6 +90,7 @@ export const StudentBatchImport = ({ onImportComplete }: { onImportComplete: ()
         class: 'Grade 10',
         fee_amount: 5000,
         fee_type: 'monthly',
+        fee_plan: feePlans[0]?.name ?? '',
         guardian_name: 'Jane Doe',
         guardian_phone: '1234567890',
         join_date: '2024-01-01',
@@ -101,17 +109,29 @@ export const StudentBatchImport = ({ onImportComplete }: { onImportComplete: ()
     toast({ title: 'Success', description: 'Template downloaded successfully' });
   };
 
+  // Fee plans are referenced by name in import files (case-insensitive)
+  const resolveFeePlan = (value?: string): FeePlan | undefined => {
+    const planName = String(value ?? '').trim().toLowerCase();
+    if (!planName) return undefined;
+    return feePlans.find(p => p.name.toLowerCase() === planName);
+  };
+
   const validateRow = (row: any): { valid: boolean; error?: string } => {
+    const planName = String(row.fee_plan ?? '').trim();
     if (!row.name || row.name.trim().length < 2) {
       return { valid: false, error: 'Name must be at least 2 characters' };
     }
     if (!row.class || row.class.trim().length < 1) {
       return { valid: false, error: 'Class is required' };
     }
-    if (!row.fee_amount || isNaN(Number(row.fee_amount)) || Number(row.fee_amount) < 0) {
+    if (planName && !resolveFeePlan(planName)) {
+      return { valid: false, error: `Unknown fee plan "${planName}"` };
+    }
+    // Students on a fee plan are billed from the plan, so fee amount/type become optional
+    if (!planName && (!row.fee_amount || isNaN(Number(row.fee_amount)) || Number(row.fee_amount) < 0)) {
       return { valid: false, error: 'Valid fee amount is required' };
     }
-    if (!['monthly', 'annually'].includes(row.fee_type)) {
+    if ((!planName || row.fee_type) && !['monthly', 'annually'].includes(row.fee_type)) {
       return { valid: false, error: 'Fee type must be "monthly" or "annually"' };
     }
     if (!row.guardian_name || row.guardian_name.trim().length < 2) {
@@ -276,8 +296,9 @@ export const StudentBatchImport = ({ onImportComplete }: { onImportComplete: ()
           student_id: `STU-${Date.now()}-${i}`,
           name: row.name.trim(),
           class: row.class.trim(),
-          fee_amount: Number(row.fee_amount),
-          fee_type: row.fee_type,
+          fee_amount: Number(row.fee_amount) || 0,
+          fee_type: row.fee_type || 'monthly',
+          fee_plan_id: resolveFeePlan(row.fee_plan)?.id ?? null,
           guardian_name: row.guardian_name.trim(),
           guardian_phone: row.guardian_phone.trim(),
           join_date: row.join_date,
@@ -662,6 +683,7 @@ export const StudentBatchImport = ({ onImportComplete }: { onImportComplete: ()
                       <TableHead>Class</TableHead>
                       <TableHead>Fee Amount</TableHead>
                       <TableHead>Fee Type</TableHead>
+                      <TableHead>Fee Plan</TableHead>
                       <TableHead>Join Date</TableHead>
                       <TableHead className="w-16">Action</TableHead>
                     </TableRow>
@@ -716,6 +738,20 @@ export const StudentBatchImport = ({ onImportComplete }: { onImportComplete: ()
                             </select>
                           ) : row.fee_type}
                         </TableCell>
+                        <TableCell>
+                          {editingIndex === idx ? (
+                            <select 
+                              value={editedRow?.fee_plan || ''} 
+                              onChange={(e) => setEditedRow(prev => prev ? { ...prev, fee_plan: e.target.value } : null)}
+                              className="w-full border rounded px-2 py-1"
+                            >
+                              <option value="">none</option>
+                              {feePlans.map(plan => (
+                                <option key={plan.id} value={plan.name}>{plan.name}</option>
+                              ))}
+                            </select>
+                          ) : row.fee_plan || '-'}
+                        </TableCell>
                         <TableCell>
                           {editingIndex === idx ? (
                             <Input 
@@ -767,6 +803,17 @@ export const StudentBatchImport = ({ onImportComplete }: { onImportComplete: ()
                 >
                   Bulk Set Class
                 </Button>
+                <Button 
+                  size="sm" 
+                  variant="outline"
+                  disabled={feePlans.length === 0}
+                  onClick={() => {
+                    const value = prompt(`Enter fee plan name (${feePlans.map(p => p.name).join(', ')}):`);
+                    if (value) handleBulkEdit('fee_plan', value);
+                  }}
+                >
+                  Bulk Set Fee Plan
+                </Button>
               </div>
             </div>
 
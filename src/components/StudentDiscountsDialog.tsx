@@ -0,0 +1,307 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { BadgePercent, Trash2 } from 'lucide-react';
+import {
+  DISCOUNT_TYPES,
+  DiscountType,
+  DiscountValueType,
+  StudentDiscount,
+  createStudentDiscount,
+  deleteStudentDiscount,
+  describeDiscountValue,
+  fetchStudentDiscounts,
+} from '@/services/discountService';
+
+interface StudentDiscountsDialogProps {
+  student: { id: string; name: string };
+  onDiscountsChange: () => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const StudentDiscountsDialog = ({ student, onDiscountsChange }: StudentDiscountsDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [discounts, setDiscounts] = useState<StudentDiscount[]>([]);
+  const [siblings, setSiblings] = useState<{ id: string; name: string; class: string | null }[]>([]);
+  const [discountType, setDiscountType] = useState<DiscountType>('sibling');
+  const [valueType, setValueType] = useState<DiscountValueType>('percentage');
+  const [value, setValue] = useState(0);
+  const [siblingId, setSiblingId] = useState('');
+  const [reason, setReason] = useState('');
+  const [startDate, setStartDate] = useState(today());
+  const [endDate, setEndDate] = useState('');
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { formatAmount } = useCurrency();
+
+  const loadDiscounts = useCallback(async () => {
+    const { data, error } = await fetchStudentDiscounts(student.id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch discounts', variant: 'destructive' });
+      return;
+    }
+    setDiscounts(data);
+  }, [student.id, toast]);
+
+  const loadSiblings = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('students')
+      .select('id, name, class')
+      .eq('is_archived', false)
+      .neq('id', student.id)
+      .order('name');
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch students', variant: 'destructive' });
+      return;
+    }
+    setSiblings(data || []);
+  }, [student.id, toast]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadDiscounts();
+    loadSiblings();
+  }, [isOpen, loadDiscounts, loadSiblings]);
+
+  const resetForm = () => {
+    setDiscountType('sibling');
+    setValueType('percentage');
+    setValue(0);
+    setSiblingId('');
+    setReason('');
+    setStartDate(today());
+    setEndDate('');
+  };
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    if (value <= 0) {
+      toast({ title: 'Error', description: 'Discount value must be greater than zero', variant: 'destructive' });
+      return;
+    }
+    if (valueType === 'percentage' && value > 100) {
+      toast({ title: 'Error', description: 'Percentage discount cannot exceed 100%', variant: 'destructive' });
+      return;
+    }
+    if (discountType === 'sibling' && !siblingId) {
+      toast({ title: 'Error', description: 'Select the sibling this discount is linked to', variant: 'destructive' });
+      return;
+    }
+    if (!startDate) {
+      toast({ title: 'Error', description: 'Start date is required', variant: 'destructive' });
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      toast({ title: 'Error', description: 'End date cannot be before the start date', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await createStudentDiscount(user.id, student.id, {
+      discount_type: discountType,
+      value_type: valueType,
+      value,
+      sibling_student_id: siblingId || null,
+      reason,
+      start_date: startDate,
+      end_date: endDate || null,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Discount added successfully' });
+    resetForm();
+    loadDiscounts();
+    onDiscountsChange();
+  };
+
+  const handleDelete = async (discount: StudentDiscount) => {
+    if (!confirm('Remove this discount? Expected fees will be recalculated without it.')) return;
+
+    const { error } = await deleteStudentDiscount(discount.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Discount removed successfully' });
+    loadDiscounts();
+    onDiscountsChange();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) resetForm(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Discounts & concessions">
+          <BadgePercent className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Discounts for {student.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="w-16">Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {discounts.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No discounts yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  discounts.map(discount => (
+                    <TableRow key={discount.id}>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {DISCOUNT_TYPES.find(t => t.value === discount.discount_type)?.label ?? discount.discount_type}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-semibold text-primary">
+                        {describeDiscountValue(discount, formatAmount)}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {new Date(discount.start_date).toLocaleDateString()} –{' '}
+                        {discount.end_date ? new Date(discount.end_date).toLocaleDateString() : 'ongoing'}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {[discount.sibling_name && `Sibling: ${discount.sibling_name}`, discount.reason]
+                          .filter(Boolean)
+                          .join(' · ') || '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(discount)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="border rounded-lg p-4 space-y-4">
+            <p className="font-semibold text-sm">New Discount</p>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Discount Type</Label>
+                <Select value={discountType} onValueChange={(v) => setDiscountType(v as DiscountType)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DISCOUNT_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {discountType === 'sibling' && (
+                <div className="space-y-2">
+                  <Label>Sibling</Label>
+                  <Select value={siblingId} onValueChange={setSiblingId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select sibling" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {siblings.map(s => (
+                        <SelectItem key={s.id} value={s.id}>
+                          {s.name}{s.class ? ` (${s.class})` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Value Type</Label>
+                <Select value={valueType} onValueChange={(v) => setValueType(v as DiscountValueType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage of each charge</SelectItem>
+                    <SelectItem value="fixed">Fixed amount per charge</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="discount-value">{valueType === 'percentage' ? 'Percentage' : 'Amount'}</Label>
+                <Input
+                  id="discount-value"
+                  type="number"
+                  value={value || ''}
+                  onChange={(e) => setValue(Number(e.target.value))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="discount-start">Start Date</Label>
+                <Input id="discount-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="discount-end">End Date (Optional)</Label>
+                <Input id="discount-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-reason">Reason (Optional)</Label>
+              <Input
+                id="discount-reason"
+                placeholder="e.g., Annual merit list 2025"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Discounts apply to every fee charge that falls due between the start and end date. Sibling discounts stop once the sibling is archived.
+            </p>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={handleCreate}
+                disabled={saving}
+                className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+              >
+                {saving ? 'Saving...' : 'Add Discount'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
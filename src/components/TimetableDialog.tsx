@@ -0,0 +1,268 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarClock, Edit, Trash2 } from 'lucide-react';
+import {
+  AttendanceMode,
+  ClassPeriod,
+  WEEKDAY_LABELS,
+  deleteClassPeriod,
+  fetchClassPeriods,
+  saveClassPeriod,
+  setClassAttendanceMode,
+} from '@/services/periodAttendanceService';
+
+interface TimetableDialogProps {
+  classId: string;
+  className: string;
+  schoolId: string;
+  mode: AttendanceMode;
+  onChange: () => void;
+}
+
+const NO_TEACHER = 'none';
+
+export const TimetableDialog = ({ classId, className, schoolId, mode, onChange }: TimetableDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [day, setDay] = useState(1);
+  const [periods, setPeriods] = useState<ClassPeriod[]>([]);
+  const [teachers, setTeachers] = useState<{ user_id: string; email: string }[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const emptyPeriod = useCallback((number: number): ClassPeriod => ({
+    class_id: classId,
+    school_id: schoolId,
+    day_of_week: day,
+    period_number: number,
+    subject: '',
+    teacher_id: null,
+    start_time: null,
+    end_time: null,
+  }), [classId, schoolId, day]);
+
+  const [form, setForm] = useState<ClassPeriod>(emptyPeriod(1));
+
+  const loadPeriods = useCallback(async () => {
+    const { data, error } = await fetchClassPeriods(classId);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch timetable', variant: 'destructive' });
+      return;
+    }
+    setPeriods(data);
+  }, [classId, toast]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadPeriods();
+    supabase.rpc('get_school_members_extended', { p_school_id: schoolId }).then(({ data }) => {
+      setTeachers((data || []).filter(m => m.role === 'teacher' && m.is_active !== false));
+    });
+  }, [isOpen, schoolId, loadPeriods]);
+
+  const dayPeriods = periods.filter(p => p.day_of_week === day);
+
+  // Next free period number whenever the day or its periods change
+  useEffect(() => {
+    const next = periods
+      .filter(p => p.day_of_week === day)
+      .reduce((max, p) => Math.max(max, p.period_number), 0) + 1;
+    setForm(emptyPeriod(next));
+  }, [day, periods, emptyPeriod]);
+
+  const handleModeChange = async (periodMode: boolean) => {
+    const { error } = await setClassAttendanceMode(classId, periodMode ? 'period' : 'daily');
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: `${className} now uses ${periodMode ? 'period-wise' : 'daily'} attendance` });
+    onChange();
+  };
+
+  const handleSave = async () => {
+    if (!form.subject.trim()) {
+      toast({ title: 'Error', description: 'Subject is required', variant: 'destructive' });
+      return;
+    }
+    if (form.period_number < 1) {
+      toast({ title: 'Error', description: 'Period number must be at least 1', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveClassPeriod(form);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    loadPeriods();
+  };
+
+  const handleDelete = async (period: ClassPeriod) => {
+    if (!period.id || !confirm(`Remove period ${period.period_number} (${period.subject})?`)) return;
+    const { error } = await deleteClassPeriod(period.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    loadPeriods();
+  };
+
+  const teacherLabel = (teacherId: string | null) =>
+    teacherId ? teachers.find(t => t.user_id === teacherId)?.email || 'Teacher' : 'Class teacher';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <CalendarClock className="w-4 h-4" />
+          Timetable
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Timetable - {className}</DialogTitle>
+          <DialogDescription>
+            With period-wise attendance each period is marked by its teacher and the day's status is derived from the periods.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <Label htmlFor="period-mode">Period-wise attendance</Label>
+            <Switch id="period-mode" checked={mode === 'period'} onCheckedChange={handleModeChange} />
+          </div>
+
+          <Select value={String(day)} onValueChange={(value) => setDay(Number(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(WEEKDAY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Teacher</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {dayPeriods.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No periods on {WEEKDAY_LABELS[day]}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                dayPeriods.map(period => (
+                  <TableRow key={period.id}>
+                    <TableCell className="font-mono">{period.period_number}</TableCell>
+                    <TableCell className="font-medium">{period.subject}</TableCell>
+                    <TableCell className="text-sm">{teacherLabel(period.teacher_id)}</TableCell>
+                    <TableCell className="text-sm">
+                      {period.start_time ? `${period.start_time.slice(0, 5)}-${period.end_time?.slice(0, 5) || ''}` : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => setForm(period)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="text-destructive" onClick={() => handleDelete(period)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="grid grid-cols-2 gap-3 rounded-md border p-3 md:grid-cols-5">
+            <div className="space-y-1">
+              <Label htmlFor="period-number">Period</Label>
+              <Input
+                id="period-number"
+                type="number"
+                min={1}
+                value={form.period_number}
+                onChange={(e) => setForm({ ...form, period_number: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="period-subject">Subject</Label>
+              <Input
+                id="period-subject"
+                value={form.subject}
+                onChange={(e) => setForm({ ...form, subject: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label>Teacher</Label>
+              <Select
+                value={form.teacher_id || NO_TEACHER}
+                onValueChange={(value) => setForm({ ...form, teacher_id: value === NO_TEACHER ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEACHER}>Class teacher</SelectItem>
+                  {teachers.map(t => (
+                    <SelectItem key={t.user_id} value={t.user_id}>{t.email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="period-start">Start</Label>
+              <Input
+                id="period-start"
+                type="time"
+                value={form.start_time?.slice(0, 5) || ''}
+                onChange={(e) => setForm({ ...form, start_time: e.target.value || null })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="period-end">End</Label>
+              <Input
+                id="period-end"
+                type="time"
+                value={form.end_time?.slice(0, 5) || ''}
+                onChange={(e) => setForm({ ...form, end_time: e.target.value || null })}
+              />
+            </div>
+            <div className="col-span-2 md:col-span-3 flex items-end justify-end gap-2">
+              {form.id && (
+                <Button variant="outline" onClick={() => setForm(emptyPeriod(dayPeriods.length + 1))}>
+                  Cancel
+                </Button>
+              )}
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : form.id ? 'Update Period' : 'Add Period'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
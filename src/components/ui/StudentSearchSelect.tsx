@@ -2,7 +2,7 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { cn } from '@/lib/utils';
+import { cn, quoteFilterValue } from '@/lib/utils';
 import { Search, Loader2, User } from 'lucide-react';
 
 interface StudentOption {
@@ -59,11 +59,12 @@ export function StudentSearchSelect({
         debounceRef.current = setTimeout(async () => {
             setIsLoading(true);
             try {
-                // ONLY fetch id + name, LIMIT 20, no joins
+                // ONLY fetch id + name, LIMIT 20, no joins (matches name or guardian phone)
+                const pattern = quoteFilterValue(`%${query}%`);
                 const { data, error } = await supabase
                     .from('students')
                     .select('id, name')
-                    .ilike('name', `%${query}%`)
+                    .or(`name.ilike.${pattern},guardian_phone.ilike.${pattern}`)
                     .limit(20)
                     .order('name');
 
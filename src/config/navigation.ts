@@ -16,6 +16,13 @@ import {
     BookOpen,
     ClipboardList,
     Sparkles,
+    GraduationCap,
+    HeartHandshake,
+    CalendarOff,
+    CalendarDays,
+    Wallet,
+    UserCheck,
+    Clock,
     type LucideIcon,
 } from 'lucide-react';
 import { UserRole } from '@/contexts/RoleContext';
@@ -40,12 +47,19 @@ export const NAV_ITEMS: Record<UserRole, NavItem[]> = {
     principal: [
         { path: '/dashboard', icon: Home, label: 'Dashboard' },
         { path: '/students', icon: Users, label: 'Students' },
+        { path: '/families', icon: HeartHandshake, label: 'Families' },
         { path: '/staff', icon: UserCog, label: 'Staff' },
         { path: '/payments', icon: CreditCard, label: 'Payments' },
         { path: '/expenses', icon: Receipt, label: 'Expenses' },
+        { path: '/payroll', icon: Wallet, label: 'Payroll' },
+        { path: '/staff-attendance', icon: UserCheck, label: 'Staff Attendance' },
+        { path: '/my-attendance', icon: Clock, label: 'My Attendance' },
         { path: '/attendance', icon: Calendar, label: 'Attendance' },
+        { path: '/leave-requests', icon: CalendarOff, label: 'Leave Requests' },
         { path: '/reports', icon: BarChart, label: 'Reports' },
         { path: '/remaining-fees', icon: ClipboardList, label: 'Remaining Fees' },
+        { path: '/academic-year', icon: GraduationCap, label: 'Academic Year' },
+        { path: '/calendar', icon: CalendarDays, label: 'School Calendar' },
         { path: '/super-ai', icon: Sparkles, label: 'AI Assistant' },
         { path: '/admin', icon: Settings, label: 'Admin' },
     ],
@@ -54,8 +68,12 @@ export const NAV_ITEMS: Record<UserRole, NavItem[]> = {
     accountant: [
         { path: '/dashboard', icon: Home, label: 'Dashboard' },
         { path: '/students', icon: Users, label: 'Students' },
+        { path: '/families', icon: HeartHandshake, label: 'Families' },
         { path: '/payments', icon: CreditCard, label: 'Payments' },
         { path: '/expenses', icon: Receipt, label: 'Expenses' },
+        { path: '/payroll', icon: Wallet, label: 'Payroll' },
+        { path: '/staff-attendance', icon: UserCheck, label: 'Staff Attendance' },
+        { path: '/my-attendance', icon: Clock, label: 'My Attendance' },
         { path: '/reports', icon: BarChart, label: 'Reports' },
         { path: '/remaining-fees', icon: ClipboardList, label: 'Remaining Fees' },
     ],
@@ -63,14 +81,23 @@ export const NAV_ITEMS: Record<UserRole, NavItem[]> = {
     // Cashier: Fee collection only
     cashier: [
         { path: '/payments', icon: CreditCard, label: 'Collect Fees' },
+        { path: '/families', icon: HeartHandshake, label: 'Family Payments' },
         { path: '/students', icon: Users, label: 'Students' }, // View only
         { path: '/remaining-fees', icon: ClipboardList, label: 'Pending Fees' },
+        { path: '/my-attendance', icon: Clock, label: 'My Attendance' },
     ],
 
     // Teacher: Attendance only
     teacher: [
         { path: '/attendance', icon: Calendar, label: 'Attendance' },
         { path: '/my-classes', icon: BookOpen, label: 'My Classes' },
+        { path: '/leave-requests', icon: CalendarOff, label: 'Leave Requests' },
+        { path: '/my-attendance', icon: Clock, label: 'My Attendance' },
+    ],
+
+    // Parent: Read-only view of their own children
+    parent: [
+        { path: '/parent', icon: Home, label: 'My Children' },
     ],
 };
 
@@ -81,18 +108,26 @@ export const NAV_ITEMS: Record<UserRole, NavItem[]> = {
 export const ROUTE_ACCESS: Record<string, UserRole[]> = {
     '/dashboard': ['principal', 'accountant'],
     '/students': ['principal', 'accountant', 'cashier', 'teacher'],
+    '/families': ['principal', 'accountant', 'cashier'],
     '/staff': ['principal'],
     '/payments': ['principal', 'accountant', 'cashier'],
     '/expenses': ['principal', 'accountant'],
+    '/payroll': ['principal', 'accountant'],
+    '/staff-attendance': ['principal', 'accountant'],
+    '/my-attendance': ['principal', 'accountant', 'cashier', 'teacher'],
     '/attendance': ['principal', 'teacher'],
     '/my-classes': ['teacher'],
+    '/leave-requests': ['principal', 'teacher'],
     '/reports': ['principal', 'accountant'],
     '/remaining-fees': ['principal', 'accountant', 'cashier'],
+    '/academic-year': ['principal'],
+    '/calendar': ['principal'],
     '/admin': ['principal'],
     '/admin/rate-limits': ['principal'],
     '/admin/invites': ['principal'],
     '/admin/audit': ['principal'],
     '/super-ai': ['principal'],
+    '/parent': ['parent'],
 };
 
 // =============================================
@@ -134,6 +169,8 @@ export function getDefaultRoute(role: UserRole | null): string {
             return '/payments';
         case 'teacher':
             return '/attendance';
+        case 'parent':
+            return '/parent';
         default:
             return '/';
     }
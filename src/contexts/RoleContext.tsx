@@ -14,7 +14,7 @@ import type { User } from '@supabase/supabase-js';
 // Types
 // =============================================
 
-export type UserRole = 'principal' | 'accountant' | 'cashier' | 'teacher';
+export type UserRole = 'principal' | 'accountant' | 'cashier' | 'teacher' | 'parent';
 
 export interface SchoolMembership {
     school_id: string;
@@ -32,6 +32,7 @@ export interface RoleContextValue {
     isAccountant: boolean;
     isCashier: boolean;
     isTeacher: boolean;
+    isParent: boolean;
     canManageStudents: boolean;
     canCollectFees: boolean;
     canViewReports: boolean;
@@ -153,6 +154,7 @@ export function RoleProvider({ children }: RoleProviderProps) {
     const isAccountant = role === 'accountant';
     const isCashier = role === 'cashier';
     const isTeacher = role === 'teacher';
+    const isParent = role === 'parent';
 
     const value: RoleContextValue = {
         isLoading: isLoading || authLoading,
@@ -164,6 +166,7 @@ export function RoleProvider({ children }: RoleProviderProps) {
         isAccountant,
         isCashier,
         isTeacher,
+        isParent,
         // Derived permissions
         canManageStudents: isPrincipal || isAccountant,
         canCollectFees: isPrincipal || isAccountant || isCashier,
@@ -8,7 +8,7 @@ interface AuthContextType {
   session: Session | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
-  signUp: (email: string, password: string, name: string) => Promise<{ error: any }>;
+  signUp: (email: string, password: string, name: string, inviteCode?: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
 }
 
@@ -83,9 +83,12 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   };
 
-  const signUp = async (email: string, password: string, name: string) => {
+  // With an invite code no school is created, and the email link returns to /join to redeem it
+  const signUp = async (email: string, password: string, name: string, inviteCode?: string) => {
     try {
-      const redirectUrl = `${window.location.origin}/`;
+      const redirectUrl = inviteCode
+        ? `${window.location.origin}/join?code=${encodeURIComponent(inviteCode)}`
+        : `${window.location.origin}/`;
 
       const { error } = await supabase.auth.signUp({
         email,
@@ -94,6 +97,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           emailRedirectTo: redirectUrl,
           data: {
             full_name: name,
+            ...(inviteCode ? { invite_code: inviteCode } : {}),
           }
         }
       });
@@ -6,17 +6,50 @@ import { supabase } from '@/integrations/supabase/client';
  * All values are pre-calculated by the database trigger.
  * Frontend is READ-ONLY - no calculations here.
  */
+export interface StudentFeeLineDiscount {
+    discount_type: string;
+    label: string;
+    amount: number;
+}
+
+export interface StudentFeeCharge {
+    date: string;
+    label: string;
+    amount: number;
+    days_billed?: number;  // Set on prorated (partial) months
+    days_in_month?: number;
+    discount?: number;  // Concessions applied to this charge
+}
+
+export interface StudentFeeBreakdown {
+    method: 'plan' | 'monthly' | 'annual' | 'none';
+    proration_enabled: boolean;
+    working_days: boolean;  // Prorated months count school working days, not calendar days
+    billed_from: string | null;  // join_date, or the opening balance date after a rollover
+    billed_until: string;  // Server date, or archival date for archived students
+    opening_balance_year: string | null;
+    charges: StudentFeeCharge[];
+}
+
 export interface StudentFeeData {
     student_id: string;
     name: string;
-    expected_fee: number;
+    fee_plan_id: string | null;  // Set when expected_fee comes from a fee plan
+    gross_fee: number;  // Before discounts / concessions
+    discount_amount: number;
+    discounts: StudentFeeLineDiscount[];
+    opening_balance: number;  // Carried over at the last academic year rollover
+    expected_fee: number;  // gross_fee - discount_amount + opening_balance
     total_paid: number;
     remaining_fee: number;  // Can be negative for advanced payments
     status: 'unpaid' | 'partial' | 'paid' | 'advanced';
+    is_archived: boolean;
+    breakdown: StudentFeeBreakdown | null;
 }
 
 export interface DerivedFeeData {
     total_remaining: number;
+    total_discount: number;
     students: StudentFeeData[];
 }
 
@@ -71,13 +104,21 @@ export function useFinancialData(): UseFinancialDataReturn {
             const mappedResult: FinancialData = {
                 fees: {
                     total_remaining: result.total_student_outstanding ?? 0,
+                    total_discount: result.total_discount ?? 0,
                     students: (result.students || []).map((s: any) => ({
                         student_id: s.student_id,
                         name: s.name ?? '',
+                        fee_plan_id: s.fee_plan_id ?? null,
+                        gross_fee: s.gross_fee ?? s.expected_fee ?? 0,
+                        discount_amount: s.discount_amount ?? 0,
+                        discounts: s.discounts ?? [],
+                        opening_balance: s.opening_balance ?? 0,
                         expected_fee: s.expected_fee ?? 0,
                         total_paid: s.total_paid ?? 0,
                         remaining_fee: s.remaining_fee ?? 0,
-                        status: s.status ?? 'unpaid'
+                        status: s.status ?? 'unpaid',
+                        is_archived: s.is_archived ?? false,
+                        breakdown: s.breakdown ?? null
                     }))
                 },
                 salaries: {
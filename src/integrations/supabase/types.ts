@@ -14,6 +14,47 @@ export type Database = {
   }
   public: {
     Tables: {
+      academic_years: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          id: string
+          name: string
+          school_id: string
+          starts_on: string | null
+          status: string
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          school_id: string
+          starts_on?: string | null
+          status?: string
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          school_id?: string
+          starts_on?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "academic_years_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ai_audit_logs: {
         Row: {
           action_type: string | null
@@ -181,36 +222,42 @@ export type Database = {
       }
       attendance: {
         Row: {
+          arrival_time: string | null
           class_id: string | null
           created_at: string | null
           date: string
           id: string
           marked_by: string
           notes: string | null
+          reason_code: string | null
           school_id: string
           status: string
           student_id: string
           updated_at: string | null
         }
         Insert: {
+          arrival_time?: string | null
           class_id?: string | null
           created_at?: string | null
           date: string
           id?: string
           marked_by: string
           notes?: string | null
+          reason_code?: string | null
           school_id: string
           status: string
           student_id: string
           updated_at?: string | null
         }
         Update: {
+          arrival_time?: string | null
           class_id?: string | null
           created_at?: string | null
           date?: string
           id?: string
           marked_by?: string
           notes?: string | null
+          reason_code?: string | null
           school_id?: string
           status?: string
           student_id?: string
@@ -240,6 +287,132 @@ export type Database = {
           },
         ]
       }
+      attendance_periods: {
+        Row: {
+          class_id: string
+          created_at: string
+          date: string
+          id: string
+          marked_by: string
+          notes: string | null
+          period_number: number
+          school_id: string
+          status: string
+          student_id: string
+          subject: string | null
+          updated_at: string
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          date: string
+          id?: string
+          marked_by: string
+          notes?: string | null
+          period_number: number
+          school_id: string
+          status: string
+          student_id: string
+          subject?: string | null
+          updated_at?: string
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          date?: string
+          id?: string
+          marked_by?: string
+          notes?: string | null
+          period_number?: number
+          school_id?: string
+          status?: string
+          student_id?: string
+          subject?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_periods_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_periods_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_periods_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_statuses: {
+        Row: {
+          captures_time: boolean
+          code: string
+          color: string
+          created_at: string
+          credit: number | null
+          id: string
+          is_active: boolean
+          is_system: boolean
+          label: string
+          reason_codes: string[]
+          requires_reason: boolean
+          school_id: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          captures_time?: boolean
+          code: string
+          color?: string
+          created_at?: string
+          credit?: number | null
+          id?: string
+          is_active?: boolean
+          is_system?: boolean
+          label: string
+          reason_codes?: string[]
+          requires_reason?: boolean
+          school_id: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          captures_time?: boolean
+          code?: string
+          color?: string
+          created_at?: string
+          credit?: number | null
+          id?: string
+          is_active?: boolean
+          is_system?: boolean
+          label?: string
+          reason_codes?: string[]
+          requires_reason?: boolean
+          school_id?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_statuses_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audit_logs: {
         Row: {
           action: string
@@ -359,9 +532,64 @@ export type Database = {
         }
         Relationships: []
       }
+      class_periods: {
+        Row: {
+          class_id: string
+          created_at: string
+          day_of_week: number
+          end_time: string | null
+          id: string
+          period_number: number
+          school_id: string
+          start_time: string | null
+          subject: string
+          teacher_id: string | null
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          day_of_week: number
+          end_time?: string | null
+          id?: string
+          period_number: number
+          school_id: string
+          start_time?: string | null
+          subject: string
+          teacher_id?: string | null
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          day_of_week?: number
+          end_time?: string | null
+          id?: string
+          period_number?: number
+          school_id?: string
+          start_time?: string | null
+          subject?: string
+          teacher_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_periods_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_periods_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       classes: {
         Row: {
           academic_year: string | null
+          attendance_mode: string
           created_at: string | null
           grade: string | null
           id: string
@@ -374,6 +602,7 @@ export type Database = {
         }
         Insert: {
           academic_year?: string | null
+          attendance_mode?: string
           created_at?: string | null
           grade?: string | null
           id?: string
@@ -386,6 +615,7 @@ export type Database = {
         }
         Update: {
           academic_year?: string | null
+          attendance_mode?: string
           created_at?: string | null
           grade?: string | null
           id?: string
@@ -406,6 +636,50 @@ export type Database = {
           },
         ]
       }
+      expense_budgets: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          created_by: string | null
+          id: string
+          period: string
+          school_id: string
+          updated_at: string
+          year: number
+        }
+        Insert: {
+          amount: number
+          category: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          period?: string
+          school_id: string
+          updated_at?: string
+          year: number
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          period?: string
+          school_id?: string
+          updated_at?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_budgets_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       expenses: {
         Row: {
           amount: number
@@ -430,7 +704,7 @@ export type Database = {
           description: string
           expense_date?: string
           id?: string
-          receipt_number: string
+          receipt_number?: string
           school_id?: string | null
           search_vector?: unknown
           updated_at?: string
@@ -462,47 +736,185 @@ export type Database = {
           },
         ]
       }
-      fee_calculation_audit: {
+      families: {
         Row: {
-          actor_id: string | null
-          calculation_timestamp: string | null
-          changed_fields: Json | null
-          created_at: string | null
+          address: string | null
+          alt_phone: string | null
+          created_at: string
+          email: string | null
+          guardian_name: string | null
           id: string
-          new_values: Json | null
-          old_values: Json | null
-          student_id: string
+          name: string
+          phone: string | null
+          phone_digits: string | null
+          school_id: string | null
+          updated_at: string
+          user_id: string
         }
         Insert: {
-          actor_id?: string | null
-          calculation_timestamp?: string | null
-          changed_fields?: Json | null
-          created_at?: string | null
+          address?: string | null
+          alt_phone?: string | null
+          created_at?: string
+          email?: string | null
+          guardian_name?: string | null
           id?: string
-          new_values?: Json | null
-          old_values?: Json | null
-          student_id: string
+          name: string
+          phone?: string | null
+          school_id?: string | null
+          updated_at?: string
+          user_id: string
         }
         Update: {
-          actor_id?: string | null
-          calculation_timestamp?: string | null
-          changed_fields?: Json | null
-          created_at?: string | null
+          address?: string | null
+          alt_phone?: string | null
+          created_at?: string
+          email?: string | null
+          guardian_name?: string | null
           id?: string
-          new_values?: Json | null
-          old_values?: Json | null
-          student_id?: string
+          name?: string
+          phone?: string | null
+          school_id?: string | null
+          updated_at?: string
+          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "families_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      fee_folders: {
+      family_guardians: {
         Row: {
-          amount_due: number
-          amount_paid: number | null
-          category: string
           created_at: string
-          due_date: string
-          folder_name: string
+          family_id: string
+          id: string
+          school_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          family_id: string
+          id?: string
+          school_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          family_id?: string
+          id?: string
+          school_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "family_guardians_family_id_fkey"
+            columns: ["family_id"]
+            isOneToOne: false
+            referencedRelation: "families"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "family_guardians_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_calculation_audit: {
+        Row: {
+          actor_id: string | null
+          calculation_timestamp: string | null
+          changed_fields: Json | null
+          created_at: string | null
+          id: string
+          new_values: Json | null
+          old_values: Json | null
+          student_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          calculation_timestamp?: string | null
+          changed_fields?: Json | null
+          created_at?: string | null
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          student_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          calculation_timestamp?: string | null
+          changed_fields?: Json | null
+          created_at?: string | null
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          student_id?: string
+        }
+        Relationships: []
+      }
+      fee_folder_penalty_waivers: {
+        Row: {
+          amount: number
+          fee_folder_id: string
+          id: string
+          reason: string
+          school_id: string | null
+          user_id: string
+          waived_at: string
+          waived_by: string
+        }
+        Insert: {
+          amount: number
+          fee_folder_id: string
+          id?: string
+          reason: string
+          school_id?: string | null
+          user_id: string
+          waived_at?: string
+          waived_by: string
+        }
+        Update: {
+          amount?: number
+          fee_folder_id?: string
+          id?: string
+          reason?: string
+          school_id?: string | null
+          user_id?: string
+          waived_at?: string
+          waived_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_folder_penalty_waivers_fee_folder_id_fkey"
+            columns: ["fee_folder_id"]
+            isOneToOne: false
+            referencedRelation: "fee_folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fee_folder_penalty_waivers_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_folders: {
+        Row: {
+          amount_due: number
+          amount_paid: number | null
+          category: string
+          created_at: string
+          due_date: string
+          folder_name: string
           id: string
           status: string
           student_id: string
@@ -545,12 +957,57 @@ export type Database = {
           },
         ]
       }
+      fee_plans: {
+        Row: {
+          created_at: string
+          id: string
+          installments: Json
+          is_active: boolean
+          name: string
+          plan_type: string
+          school_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          installments?: Json
+          is_active?: boolean
+          name: string
+          plan_type?: string
+          school_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          installments?: Json
+          is_active?: boolean
+          name?: string
+          plan_type?: string
+          school_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_plans_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       invitation_codes: {
         Row: {
           code: string
           created_at: string | null
           created_by: string | null
           expires_at: string
+          family_id: string | null
           id: string
           role: Database["public"]["Enums"]["user_role"]
           school_id: string
@@ -562,6 +1019,7 @@ export type Database = {
           created_at?: string | null
           created_by?: string | null
           expires_at?: string
+          family_id?: string | null
           id?: string
           role: Database["public"]["Enums"]["user_role"]
           school_id: string
@@ -573,6 +1031,7 @@ export type Database = {
           created_at?: string | null
           created_by?: string | null
           expires_at?: string
+          family_id?: string | null
           id?: string
           role?: Database["public"]["Enums"]["user_role"]
           school_id?: string
@@ -580,6 +1039,13 @@ export type Database = {
           used_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "invitation_codes_family_id_fkey"
+            columns: ["family_id"]
+            isOneToOne: false
+            referencedRelation: "families"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "invitation_codes_school_id_fkey"
             columns: ["school_id"]
@@ -669,33 +1135,88 @@ export type Database = {
         }
         Relationships: []
       }
+      payment_allocations: {
+        Row: {
+          amount: number
+          created_at: string
+          fee_folder_id: string | null
+          id: string
+          payment_id: string
+          student_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          fee_folder_id?: string | null
+          id?: string
+          payment_id: string
+          student_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          fee_folder_id?: string | null
+          id?: string
+          payment_id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_allocations_fee_folder_id_fkey"
+            columns: ["fee_folder_id"]
+            isOneToOne: false
+            referencedRelation: "fee_folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_allocations_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_allocations_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       payment_audit: {
         Row: {
+          action: string | null
           amount: number
           created_at: string | null
           id: string
           method: string
           payment_id: string
+          reason: string | null
           recorded_at: string | null
           student_id: string
           user_id: string
         }
         Insert: {
+          action?: string | null
           amount: number
           created_at?: string | null
           id?: string
           method: string
           payment_id: string
+          reason?: string | null
           recorded_at?: string | null
           student_id: string
           user_id: string
         }
         Update: {
+          action?: string | null
           amount?: number
           created_at?: string | null
           id?: string
           method?: string
           payment_id?: string
+          reason?: string | null
           recorded_at?: string | null
           student_id?: string
           user_id?: string
@@ -724,13 +1245,19 @@ export type Database = {
           created_at: string
           currency: string | null
           description: string | null
+          entry_type: string
+          family_payment_id: string | null
           id: string
           payment_date: string
           payment_method: string
           receipt_number: string
           receipt_url: string | null
+          reversal_reason: string | null
+          reversed_by: string | null
+          reverses_payment_id: string | null
           school_id: string | null
           search_vector: unknown
+          status: string
           student_id: string
           updated_at: string
           user_id: string
@@ -741,13 +1268,19 @@ export type Database = {
           created_at?: string
           currency?: string | null
           description?: string | null
+          entry_type?: string
+          family_payment_id?: string | null
           id?: string
           payment_date?: string
           payment_method: string
-          receipt_number: string
+          receipt_number?: string
           receipt_url?: string | null
+          reversal_reason?: string | null
+          reversed_by?: string | null
+          reverses_payment_id?: string | null
           school_id?: string | null
           search_vector?: unknown
+          status?: string
           student_id: string
           updated_at?: string
           user_id: string
@@ -758,13 +1291,19 @@ export type Database = {
           created_at?: string
           currency?: string | null
           description?: string | null
+          entry_type?: string
+          family_payment_id?: string | null
           id?: string
           payment_date?: string
           payment_method?: string
           receipt_number?: string
           receipt_url?: string | null
+          reversal_reason?: string | null
+          reversed_by?: string | null
+          reverses_payment_id?: string | null
           school_id?: string | null
           search_vector?: unknown
+          status?: string
           student_id?: string
           updated_at?: string
           user_id?: string
@@ -777,6 +1316,13 @@ export type Database = {
             referencedRelation: "students"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "payments_reverses_payment_id_fkey"
+            columns: ["reverses_payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "payments_school_id_fkey"
             columns: ["school_id"]
@@ -793,6 +1339,56 @@ export type Database = {
           },
         ]
       }
+      payroll_runs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          finalized_at: string | null
+          finalized_by: string | null
+          id: string
+          payment_date: string | null
+          period_end: string
+          period_start: string
+          school_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          finalized_at?: string | null
+          finalized_by?: string | null
+          id?: string
+          payment_date?: string | null
+          period_end: string
+          period_start: string
+          school_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          finalized_at?: string | null
+          finalized_by?: string | null
+          id?: string
+          payment_date?: string | null
+          period_end?: string
+          period_start?: string
+          school_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_runs_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string | null
@@ -822,6 +1418,38 @@ export type Database = {
           },
         ]
       }
+      receipt_sequences: {
+        Row: {
+          fiscal_year: string
+          kind: string
+          last_value: number
+          school_id: string
+          updated_at: string
+        }
+        Insert: {
+          fiscal_year: string
+          kind: string
+          last_value?: number
+          school_id: string
+          updated_at?: string
+        }
+        Update: {
+          fiscal_year?: string
+          kind?: string
+          last_value?: number
+          school_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_sequences_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       reports: {
         Row: {
           created_at: string | null
@@ -861,13 +1489,16 @@ export type Database = {
           bonus: number | null
           created_at: string
           currency: string | null
+          deduction_items: Json
           deductions: number | null
           id: string
           net_amount: number
           pay_period_end: string
           pay_period_start: string
           payment_date: string
+          payroll_run_id: string | null
           staff_id: string
+          status: string
           updated_at: string
           user_id: string
         }
@@ -876,13 +1507,16 @@ export type Database = {
           bonus?: number | null
           created_at?: string
           currency?: string | null
+          deduction_items?: Json
           deductions?: number | null
           id?: string
           net_amount: number
           pay_period_end: string
           pay_period_start: string
           payment_date?: string
+          payroll_run_id?: string | null
           staff_id: string
+          status?: string
           updated_at?: string
           user_id: string
         }
@@ -891,17 +1525,27 @@ export type Database = {
           bonus?: number | null
           created_at?: string
           currency?: string | null
+          deduction_items?: Json
           deductions?: number | null
           id?: string
           net_amount?: number
           pay_period_end?: string
           pay_period_start?: string
           payment_date?: string
+          payroll_run_id?: string | null
           staff_id?: string
+          status?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "salaries_payroll_run_id_fkey"
+            columns: ["payroll_run_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_runs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "salaries_staff_id_fkey"
             columns: ["staff_id"]
@@ -911,10 +1555,60 @@ export type Database = {
           },
         ]
       }
-      school_invite_whitelist: {
+      school_calendar_events: {
         Row: {
-          created_at: string | null
-          email: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          end_date: string
+          event_type: string
+          id: string
+          school_id: string
+          start_date: string
+          title: string
+          uid: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          end_date: string
+          event_type?: string
+          id?: string
+          school_id: string
+          start_date: string
+          title: string
+          uid?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          end_date?: string
+          event_type?: string
+          id?: string
+          school_id?: string
+          start_date?: string
+          title?: string
+          uid?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "school_calendar_events_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      school_invite_whitelist: {
+        Row: {
+          created_at: string | null
+          email: string
           id: string
           role: Database["public"]["Enums"]["user_role"]
           school_id: string
@@ -1168,6 +1862,142 @@ export type Database = {
           },
         ]
       }
+      staff_attendance: {
+        Row: {
+          check_in_at: string | null
+          check_out_at: string | null
+          created_at: string
+          date: string
+          id: string
+          leave_request_id: string | null
+          notes: string | null
+          recorded_by: string | null
+          school_id: string
+          staff_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          check_in_at?: string | null
+          check_out_at?: string | null
+          created_at?: string
+          date: string
+          id?: string
+          leave_request_id?: string | null
+          notes?: string | null
+          recorded_by?: string | null
+          school_id: string
+          staff_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          check_in_at?: string | null
+          check_out_at?: string | null
+          created_at?: string
+          date?: string
+          id?: string
+          leave_request_id?: string | null
+          notes?: string | null
+          recorded_by?: string | null
+          school_id?: string
+          staff_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_attendance_leave_request_id_fkey"
+            columns: ["leave_request_id"]
+            isOneToOne: false
+            referencedRelation: "staff_leave_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_attendance_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_attendance_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_leave_requests: {
+        Row: {
+          created_at: string
+          days: number
+          decided_at: string | null
+          decided_by: string | null
+          decision_note: string | null
+          end_date: string
+          id: string
+          leave_type: string
+          reason: string | null
+          requested_by: string | null
+          school_id: string
+          staff_id: string
+          start_date: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          days: number
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          end_date: string
+          id?: string
+          leave_type: string
+          reason?: string | null
+          requested_by?: string | null
+          school_id: string
+          staff_id: string
+          start_date: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          days?: number
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          end_date?: string
+          id?: string
+          leave_type?: string
+          reason?: string | null
+          requested_by?: string | null
+          school_id?: string
+          staff_id?: string
+          start_date?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_leave_requests_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_leave_requests_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "staff"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       staff_login_logs: {
         Row: {
           device_info: string | null
@@ -1305,9 +2135,203 @@ export type Database = {
           },
         ]
       }
+      student_discounts: {
+        Row: {
+          created_at: string
+          discount_type: string
+          end_date: string | null
+          id: string
+          reason: string | null
+          sibling_student_id: string | null
+          start_date: string
+          student_id: string
+          user_id: string
+          value: number
+          value_type: string
+        }
+        Insert: {
+          created_at?: string
+          discount_type: string
+          end_date?: string | null
+          id?: string
+          reason?: string | null
+          sibling_student_id?: string | null
+          start_date?: string
+          student_id: string
+          user_id: string
+          value: number
+          value_type?: string
+        }
+        Update: {
+          created_at?: string
+          discount_type?: string
+          end_date?: string | null
+          id?: string
+          reason?: string | null
+          sibling_student_id?: string | null
+          start_date?: string
+          student_id?: string
+          user_id?: string
+          value?: number
+          value_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_discounts_sibling_student_id_fkey"
+            columns: ["sibling_student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_discounts_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_leave_requests: {
+        Row: {
+          attendance_status: string
+          class_id: string | null
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          decision_note: string | null
+          end_date: string
+          id: string
+          notes: string | null
+          reason_code: string
+          requested_by: string | null
+          requested_by_guardian: boolean
+          school_id: string
+          start_date: string
+          status: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          attendance_status?: string
+          class_id?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          end_date: string
+          id?: string
+          notes?: string | null
+          reason_code: string
+          requested_by?: string | null
+          requested_by_guardian?: boolean
+          school_id: string
+          start_date: string
+          status?: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          attendance_status?: string
+          class_id?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          end_date?: string
+          id?: string
+          notes?: string | null
+          reason_code?: string
+          requested_by?: string | null
+          requested_by_guardian?: boolean
+          school_id?: string
+          start_date?: string
+          status?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_leave_requests_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_leave_requests_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_leave_requests_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_opening_balances: {
+        Row: {
+          academic_year: string
+          amount: number
+          as_of: string
+          created_at: string
+          created_by: string | null
+          id: string
+          school_id: string | null
+          source_year: string
+          student_id: string
+          user_id: string
+        }
+        Insert: {
+          academic_year: string
+          amount?: number
+          as_of: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          school_id?: string | null
+          source_year: string
+          student_id: string
+          user_id: string
+        }
+        Update: {
+          academic_year?: string
+          amount?: number
+          as_of?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          school_id?: string | null
+          source_year?: string
+          student_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_opening_balances_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_opening_balances_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       students: {
         Row: {
           address: string | null
+          archived_at: string | null
           class: string | null
           created_at: string
           date_of_birth: string | null
@@ -1315,6 +2339,8 @@ export type Database = {
           enrollment_date: string
           expected_fee: number | null
           fee_amount: number | null
+          family_id: string | null
+          fee_plan_id: string | null
           fee_type: string | null
           guardian_name: string | null
           guardian_phone: string | null
@@ -1336,6 +2362,7 @@ export type Database = {
         }
         Insert: {
           address?: string | null
+          archived_at?: string | null
           class?: string | null
           created_at?: string
           date_of_birth?: string | null
@@ -1343,6 +2370,8 @@ export type Database = {
           enrollment_date?: string
           expected_fee?: number | null
           fee_amount?: number | null
+          family_id?: string | null
+          fee_plan_id?: string | null
           fee_type?: string | null
           guardian_name?: string | null
           guardian_phone?: string | null
@@ -1364,6 +2393,7 @@ export type Database = {
         }
         Update: {
           address?: string | null
+          archived_at?: string | null
           class?: string | null
           created_at?: string
           date_of_birth?: string | null
@@ -1371,6 +2401,8 @@ export type Database = {
           enrollment_date?: string
           expected_fee?: number | null
           fee_amount?: number | null
+          family_id?: string | null
+          fee_plan_id?: string | null
           fee_type?: string | null
           guardian_name?: string | null
           guardian_phone?: string | null
@@ -1391,6 +2423,20 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "students_family_id_fkey"
+            columns: ["family_id"]
+            isOneToOne: false
+            referencedRelation: "families"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "students_fee_plan_id_fkey"
+            columns: ["fee_plan_id"]
+            isOneToOne: false
+            referencedRelation: "fee_plans"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "students_school_id_fkey"
             columns: ["school_id"]
@@ -1409,6 +2455,10 @@ export type Database = {
         Args: { p_code?: string; p_token?: string }
         Returns: Json
       }
+      allocate_payment: {
+        Args: { p_allocations: Json; p_payment_id: string }
+        Returns: Json
+      }
       calculate_expected_fee: {
         Args: {
           p_as_of_date?: string
@@ -1435,7 +2485,35 @@ export type Database = {
         Args: { student_uuid: string }
         Returns: number
       }
+      can_view_class: { Args: { p_class_id: string }; Returns: boolean }
+      cancel_staff_leave: { Args: { p_request_id: string }; Returns: undefined }
+      cancel_student_leave: { Args: { p_request_id: string }; Returns: undefined }
+      check_expense_budget: {
+        Args: {
+          p_amount: number
+          p_category: string
+          p_expense_date: string
+          p_expense_id?: string
+          p_school_id: string
+        }
+        Returns: {
+          budget_amount: number
+          category: string
+          period: string
+          spent: number
+          spent_after: number
+        }[]
+      }
       cleanup_expired_pending_writes: { Args: never; Returns: undefined }
+      count_school_working_days: {
+        Args: { p_end_date: string; p_school_id: string; p_start_date: string }
+        Returns: number
+      }
+      current_staff_id: { Args: { p_school_id: string }; Returns: string }
+      create_payroll_run: {
+        Args: { p_month: string; p_school_id: string }
+        Returns: string
+      }
       create_code_invite: {
         Args: {
           p_role: Database["public"]["Enums"]["user_role"]
@@ -1451,12 +2529,30 @@ export type Database = {
         }
         Returns: Json
       }
+      create_parent_invite: { Args: { p_family_id: string }; Returns: Json }
       deactivate_member_code: {
         Args: { p_member_id: string }
         Returns: boolean
       }
+      decide_staff_leave: {
+        Args: { p_approve: boolean; p_note?: string; p_request_id: string }
+        Returns: undefined
+      }
+      decide_student_leave: {
+        Args: { p_approve: boolean; p_note?: string; p_request_id: string }
+        Returns: undefined
+      }
       generate_invite_code: { Args: never; Returns: string }
       generate_invite_code_segment: { Args: never; Returns: string }
+      delete_expense_budget: {
+        Args: { p_budget_id: string }
+        Returns: undefined
+      }
+      delete_payroll_run: { Args: { p_run_id: string }; Returns: undefined }
+      finalize_payroll_run: {
+        Args: { p_payment_date?: string; p_run_id: string }
+        Returns: undefined
+      }
       get_attendance_scoped: {
         Args: {
           p_class_id?: string
@@ -1468,16 +2564,35 @@ export type Database = {
         }
         Returns: Json
       }
+      get_attendance_alerts: {
+        Args: { p_class_id?: string; p_school_id: string }
+        Returns: {
+          absence_streak: boolean
+          attendance_percentage: number | null
+          below_threshold: boolean
+          class_id: string
+          class_name: string
+          consecutive_absences: number
+          last_present_date: string | null
+          marked_days: number
+          previous_percentage: number | null
+          student_id: string
+          student_name: string
+        }[]
+      }
       get_attendance_stats: {
         Args: { p_class_id: string; p_end_date: string; p_start_date: string }
         Returns: {
           absent_days: number
           attendance_pct: number
+          excused_days: number
+          half_days: number
           late_days: number
           present_days: number
           student_id: string
           student_name: string
           total_days: number
+          working_days: number
         }[]
       }
       get_audit_logs: {
@@ -1510,26 +2625,55 @@ export type Database = {
           p_page?: number
         }
         Returns: {
-          notes: string
+          arrival_time: string | null
+          leave_request_id: string | null
+          notes: string | null
+          reason_code: string | null
           status: string
           student_id: string
           student_name: string
         }[]
       }
       get_class_attendance_summary: {
-        Args: { p_class_id: string }
+        Args: { p_by_period?: boolean; p_class_id: string }
         Returns: {
           attendance_percentage: number
           class_id: string
+          period_number: number | null
           present_count: number
           student_id: string
           student_name: string
+          subject: string | null
           total_classes: number
         }[]
       }
       get_class_student_count: { Args: { p_class_id: string }; Returns: number }
       get_classes_scoped: { Args: { p_school_id?: string }; Returns: Json }
       get_dashboard_summary: { Args: never; Returns: Json }
+      get_expense_budget_variance: {
+        Args: { p_school_id: string; p_year: number }
+        Returns: {
+          actual: number
+          annual_budget: number
+          budget_amount: number
+          budget_id: string
+          category: string
+          month_actual: number
+          month_budget: number
+          period: string
+          projected: number
+        }[]
+      }
+      get_fee_folder_penalties: {
+        Args: { p_fee_folder_ids: string[] }
+        Returns: {
+          accrued_penalty: number
+          days_overdue: number
+          fee_folder_id: string
+          penalty: number
+          waived_amount: number
+        }[]
+      }
       get_fees_scoped: {
         Args: {
           p_class_name?: string
@@ -1542,6 +2686,26 @@ export type Database = {
         Returns: Json
       }
       get_report_summary: { Args: never; Returns: Json }
+      get_my_staff_attendance: {
+        Args: { p_school_id: string }
+        Returns: {
+          attendance_status: string
+          check_in_at: string
+          check_out_at: string
+          staff_id: string
+          staff_name: string
+        }[]
+      }
+      get_rollover_candidates: {
+        Args: { p_from_year: string; p_school_id: string }
+        Returns: {
+          class_id: string
+          class_name: string
+          student_id: string
+          student_name: string
+          user_id: string
+        }[]
+      }
       get_school_activity: { Args: { p_school_id: string }; Returns: Json }
       get_school_members_extended: {
         Args: { p_school_id: string }
@@ -1557,6 +2721,43 @@ export type Database = {
         }[]
       }
       get_school_quick_stats: { Args: { p_school_id?: string }; Returns: Json }
+      get_staff_attendance: {
+        Args: { p_date: string; p_school_id: string }
+        Returns: {
+          attendance_status: string
+          check_in_at: string
+          check_out_at: string
+          leave_type: string
+          notes: string
+          staff_code: string
+          staff_id: string
+          staff_name: string
+          staff_position: string
+        }[]
+      }
+      get_staff_leave_balances: {
+        Args: { p_school_id: string; p_staff_id?: string; p_year: number }
+        Returns: {
+          allowance: number
+          leave_type: string
+          pending_days: number
+          remaining_days: number
+          staff_id: string
+          staff_name: string
+          used_days: number
+        }[]
+      }
+      get_staff_salary_changes: {
+        Args: { p_staff_id: string }
+        Returns: {
+          changed_at: string
+          changed_by: string
+          changed_fields: Json
+          id: string
+          new_values: Json
+          old_values: Json
+        }[]
+      }
       get_staff_scoped: {
         Args: {
           p_department?: string
@@ -1612,7 +2813,16 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_guardian_in_school: { Args: { p_school_id: string }; Returns: boolean }
+      is_guardian_of_student: {
+        Args: { p_student_id: string }
+        Returns: boolean
+      }
       is_principal: { Args: never; Returns: boolean }
+      is_school_working_day: {
+        Args: { p_date: string; p_school_id: string }
+        Returns: boolean
+      }
       is_school_member: {
         Args: { p_roles: string[]; p_school_id: string }
         Returns: boolean
@@ -1640,6 +2850,15 @@ export type Database = {
         Args: { p_attendance: Json; p_class_id: string; p_date: string }
         Returns: undefined
       }
+      mark_period_attendance: {
+        Args: {
+          p_attendance: Json
+          p_class_id: string
+          p_date: string
+          p_period_number: number
+        }
+        Returns: Json
+      }
       recalc_monthly_report:
         | { Args: { p_month: number; p_year: number }; Returns: undefined }
         | {
@@ -1647,6 +2866,121 @@ export type Database = {
             Returns: undefined
           }
       remove_member: { Args: { p_member_id: string }; Returns: boolean }
+      record_staff_attendance: {
+        Args: { p_date: string; p_entries: Json; p_school_id: string }
+        Returns: number
+      }
+      record_family_payment: {
+        Args: {
+          p_currency: string
+          p_family_id: string
+          p_lines: Json
+          p_payment_date: string
+          p_payment_method: string
+        }
+        Returns: Json
+      }
+      record_payment: {
+        Args: {
+          p_allocations?: Json
+          p_amount: number
+          p_category: string
+          p_currency: string
+          p_payment_date: string
+          p_payment_method: string
+          p_student_id: string
+        }
+        Returns: Json
+      }
+      redeem_parent_invite: { Args: { p_code: string }; Returns: Json }
+      refund_payment: {
+        Args: { p_amount: number; p_payment_id: string; p_reason: string }
+        Returns: Json
+      }
+      request_staff_leave: {
+        Args: {
+          p_end_date: string
+          p_leave_type: string
+          p_reason?: string
+          p_school_id: string
+          p_staff_id: string
+          p_start_date: string
+        }
+        Returns: string
+      }
+      request_student_leave: {
+        Args: {
+          p_attendance_status: string
+          p_end_date: string
+          p_notes?: string
+          p_reason_code: string
+          p_start_date: string
+          p_student_id: string
+        }
+        Returns: string
+      }
+      rollover_academic_year: {
+        Args: {
+          p_actor: string
+          p_balances: Json
+          p_class_map: Json
+          p_decisions: Json
+          p_from_year: string
+          p_school_id: string
+          p_start_date: string
+          p_to_year: string
+        }
+        Returns: Json
+      }
+      school_weekly_offs: { Args: { p_school_id: string }; Returns: number[] }
+      set_attendance_alert_rules: {
+        Args: { p_rules: Json; p_school_id: string }
+        Returns: Json
+      }
+      set_class_attendance_mode: {
+        Args: { p_class_id: string; p_mode: string }
+        Returns: undefined
+      }
+      set_expense_budget: {
+        Args: {
+          p_amount: number
+          p_category: string
+          p_period: string
+          p_school_id: string
+          p_year: number
+        }
+        Returns: string
+      }
+      set_fee_proration: {
+        Args: { p_enabled: boolean; p_school_id: string }
+        Returns: Json
+      }
+      set_late_fee_rules: {
+        Args: { p_rules: Json; p_school_id: string }
+        Returns: Json
+      }
+      set_receipt_numbering: {
+        Args: { p_school_id: string; p_settings: Json }
+        Returns: Json
+      }
+      set_receipt_settings: {
+        Args: { p_school_id: string; p_settings: Json }
+        Returns: Json
+      }
+      set_school_weekly_offs: {
+        Args: { p_school_id: string; p_weekly_offs: number[] }
+        Returns: Json
+      }
+      set_staff_leave_allowances: {
+        Args: { p_allowances: Json; p_school_id: string }
+        Returns: Json
+      }
+      staff_check_in: { Args: { p_school_id: string }; Returns: undefined }
+      staff_check_out: { Args: { p_school_id: string }; Returns: undefined }
+      staff_leave_allowance: {
+        Args: { p_leave_type: string; p_school_id: string }
+        Returns: number
+      }
       update_heartbeat: { Args: never; Returns: undefined }
       update_member_role: {
         Args: {
@@ -1655,14 +2989,31 @@ export type Database = {
         }
         Returns: boolean
       }
+      update_payroll_line: {
+        Args: {
+          p_bonus: number
+          p_deduction_items?: Json
+          p_deductions: number
+          p_salary_id: string
+        }
+        Returns: undefined
+      }
       use_school_mode: { Args: never; Returns: boolean }
       verify_hybrid_invite: {
         Args: { p_code?: string; p_token?: string }
         Returns: Json
       }
+      void_payment: {
+        Args: { p_payment_id: string; p_reason: string }
+        Returns: Json
+      }
+      waive_fee_folder_penalty: {
+        Args: { p_fee_folder_id: string; p_reason: string }
+        Returns: number
+      }
     }
     Enums: {
-      user_role: "principal" | "accountant" | "cashier" | "teacher"
+      user_role: "principal" | "accountant" | "cashier" | "teacher" | "parent"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1790,7 +3141,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      user_role: ["principal", "accountant", "cashier", "teacher"],
+      user_role: ["principal", "accountant", "cashier", "teacher", "parent"],
     },
   },
 } as const
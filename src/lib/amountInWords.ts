@@ -0,0 +1,64 @@
+/**
+ * Spell out currency amounts for receipts ("One Thousand Two Hundred Dollars and Fifty Cents")
+ */
+
+const ONES = [
+    '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+    'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+// Major / minor unit names; currencies without a minor unit on receipts omit it
+const CURRENCY_UNITS: Record<string, [string, string | null]> = {
+    USD: ['Dollars', 'Cents'],
+    EUR: ['Euros', 'Cents'],
+    GBP: ['Pounds', 'Pence'],
+    INR: ['Rupees', 'Paise'],
+    JPY: ['Yen', null],
+    CNY: ['Yuan', 'Fen'],
+    AUD: ['Dollars', 'Cents'],
+    CAD: ['Dollars', 'Cents'],
+};
+
+// Indian numbering groups by lakh / crore instead of million / billion
+const INDIAN_SCALES: [number, string][] = [[10000000, 'Crore'], [100000, 'Lakh'], [1000, 'Thousand']];
+const WESTERN_SCALES: [number, string][] = [[1000000000, 'Billion'], [1000000, 'Million'], [1000, 'Thousand']];
+
+const belowThousand = (n: number): string => {
+    const words: string[] = [];
+    if (n >= 100) {
+        words.push(`${ONES[Math.floor(n / 100)]} Hundred`);
+        n %= 100;
+    }
+    if (n >= 20) {
+        words.push(TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : ''));
+    } else if (n > 0) {
+        words.push(ONES[n]);
+    }
+    return words.join(' ');
+};
+
+export const numberToWords = (n: number, indian = false): string => {
+    if (n === 0) return 'Zero';
+
+    const words: string[] = [];
+    for (const [size, name] of indian ? INDIAN_SCALES : WESTERN_SCALES) {
+        if (n >= size) {
+            words.push(`${numberToWords(Math.floor(n / size), indian)} ${name}`);
+            n %= size;
+        }
+    }
+    if (n > 0) words.push(belowThousand(n));
+    return words.join(' ');
+};
+
+export const amountInWords = (amount: number, currencyCode: string): string => {
+    const [major, minor] = CURRENCY_UNITS[currencyCode] || [currencyCode, null];
+    const cents = Math.round(Math.abs(amount) * 100);
+    const whole = Math.floor(cents / 100);
+    const fraction = cents % 100;
+
+    let words = `${numberToWords(whole, currencyCode === 'INR')} ${major}`;
+    if (minor && fraction > 0) words += ` and ${numberToWords(fraction)} ${minor}`;
+    return `${words} Only`;
+};
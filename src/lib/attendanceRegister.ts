@@ -0,0 +1,171 @@
+import { jsPDF } from 'jspdf';
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import type { AttendanceRegister } from '@/services/attendanceRegisterService';
+
+// Landscape A4 layout (mm)
+const MARGIN = 10;
+const NAME_WIDTH = 42;
+const TOTALS = { present: 262, absent: 274, percent: 287 };
+const DAYS_WIDTH = TOTALS.present - 10 - (MARGIN + NAME_WIDTH);
+const ROW_HEIGHT = 5;
+const PAGE_BOTTOM = 195;
+
+const monthTitle = (register: AttendanceRegister) =>
+  format(new Date(`${register.month}-01T00:00:00`), 'MMMM yyyy');
+
+const fileName = (register: AttendanceRegister, extension: string) =>
+  `register-${register.className.replace(/\s+/g, '-')}-${register.month}.${extension}`;
+
+const formatCount = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+const formatPercent = (value: number | null) => (value === null ? '-' : `${value.toFixed(0)}%`);
+
+/**
+ * Monthly register as a worksheet: students as rows, days as columns, totals at the end
+ */
+export const generateRegisterWorkbook = (register: AttendanceRegister): XLSX.WorkBook => {
+  const header = ['Student', ...register.days.map(d => `${d.day} ${d.weekday}`), 'Present', 'Absent', 'Excused', '%'];
+  const rows: (string | number)[][] = [
+    [`Attendance Register - ${register.className}`],
+    [monthTitle(register)],
+    [`Working days: ${register.workingDays}`, '', `Holidays: ${register.holidays}`],
+    [],
+    header,
+    ...register.students.map(s => [
+      s.student_name,
+      ...s.marks,
+      s.present,
+      s.absent,
+      s.excused,
+      s.percentage === null ? '' : Number(s.percentage.toFixed(2)),
+    ]),
+    ['Present', ...register.presentPerDay.map((count, i) => (register.days[i].taken ? count : ''))],
+    [],
+    ['Legend'],
+    ...register.legend.map(l => [l.mark, l.label]),
+  ];
+
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  ws['!cols'] = [{ wch: 28 }, ...register.days.map(() => ({ wch: 6 })), { wch: 8 }, { wch: 8 }, { wch: 8 }, { wch: 7 }];
+
+  const holidays = register.days.filter(d => d.holiday);
+  if (holidays.length > 0) {
+    XLSX.utils.sheet_add_aoa(ws, [['Holidays'], ...holidays.map(d => [d.date, d.holiday || ''])], {
+      origin: { r: rows.length + 1, c: 0 },
+    });
+  }
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, register.month);
+  return wb;
+};
+
+export const downloadRegisterWorkbook = (register: AttendanceRegister) => {
+  XLSX.writeFile(generateRegisterWorkbook(register), fileName(register, 'xlsx'));
+};
+
+const drawGridHeader = (doc: jsPDF, register: AttendanceRegister, yPos: number) => {
+  const dayWidth = DAYS_WIDTH / register.days.length;
+  doc.setFillColor(240, 240, 240);
+  doc.rect(MARGIN, yPos - 4, 297 - 2 * MARGIN, 9, 'F');
+  doc.setFontSize(7);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Student', MARGIN + 1, yPos + 1);
+  register.days.forEach((d, i) => {
+    const x = MARGIN + NAME_WIDTH + i * dayWidth + dayWidth / 2;
+    doc.text(String(d.day), x, yPos, { align: 'center' });
+    doc.text(d.weekday.slice(0, 2), x, yPos + 3.5, { align: 'center' });
+  });
+  doc.text('P', TOTALS.present, yPos + 1, { align: 'right' });
+  doc.text('A', TOTALS.absent, yPos + 1, { align: 'right' });
+  doc.text('%', TOTALS.percent, yPos + 1, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  return yPos + 9;
+};
+
+/**
+ * Monthly register as a landscape PDF, one row per student
+ */
+export const generateRegisterPdf = (register: AttendanceRegister): Blob => {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const dayWidth = DAYS_WIDTH / register.days.length;
+
+  // Header
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text('ATTENDANCE REGISTER', 148.5, 15, { align: 'center' });
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`${register.className} - ${monthTitle(register)}`, 148.5, 22, { align: 'center' });
+  doc.setFontSize(9);
+  doc.text(
+    `Working days: ${register.workingDays}    Holidays: ${register.holidays}    Students: ${register.students.length}`,
+    148.5,
+    28,
+    { align: 'center' }
+  );
+
+  let yPos = drawGridHeader(doc, register, 36);
+
+  const drawRow = (label: string, cells: string[], totals: string[]) => {
+    if (yPos > PAGE_BOTTOM) {
+      doc.addPage();
+      yPos = drawGridHeader(doc, register, 15);
+    }
+    doc.setFontSize(7);
+    doc.text(doc.splitTextToSize(label, NAME_WIDTH - 2)[0], MARGIN + 1, yPos);
+    cells.forEach((cell, i) => {
+      if (register.days[i].holiday) {
+        doc.setFillColor(235, 235, 235);
+        doc.rect(MARGIN + NAME_WIDTH + i * dayWidth, yPos - 3.5, dayWidth, ROW_HEIGHT, 'F');
+      }
+      if (cell) doc.text(cell, MARGIN + NAME_WIDTH + i * dayWidth + dayWidth / 2, yPos, { align: 'center' });
+    });
+    doc.text(totals[0] || '', TOTALS.present, yPos, { align: 'right' });
+    doc.text(totals[1] || '', TOTALS.absent, yPos, { align: 'right' });
+    doc.text(totals[2] || '', TOTALS.percent, yPos, { align: 'right' });
+    doc.setDrawColor(220, 220, 220);
+    doc.line(MARGIN, yPos + 1.5, 297 - MARGIN, yPos + 1.5);
+    yPos += ROW_HEIGHT;
+  };
+
+  for (const student of register.students) {
+    drawRow(
+      student.student_name,
+      student.marks.map(m => (m === 'H' ? '' : m)),
+      [formatCount(student.present), String(student.absent), formatPercent(student.percentage)]
+    );
+  }
+
+  doc.setFont('helvetica', 'bold');
+  drawRow(
+    'Present',
+    register.presentPerDay.map((count, i) => (register.days[i].taken ? formatCount(count) : '')),
+    []
+  );
+  doc.setFont('helvetica', 'normal');
+
+  // Legend
+  if (yPos > PAGE_BOTTOM) {
+    doc.addPage();
+    yPos = 15;
+  }
+  yPos += 4;
+  doc.setFontSize(8);
+  doc.text(register.legend.map(l => `${l.mark} = ${l.label}`).join('    '), MARGIN, yPos);
+  doc.setFont('helvetica', 'italic');
+  doc.text(`Generated ${new Date().toLocaleDateString()}`, 297 - MARGIN, yPos, { align: 'right' });
+
+  return doc.output('blob');
+};
+
+export const downloadRegisterPdf = (register: AttendanceRegister) => {
+  const blob = generateRegisterPdf(register);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName(register, 'pdf');
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,19 @@
+/**
+ * Class ordering helpers (Nursery -> L.K.G. -> U.K.G. -> Grade 1..12 -> others)
+ */
+
+const PRE_PRIMARY_ORDER = ['Nursery', 'L.K.G.', 'U.K.G.'];
+
+const getClassOrder = (name: string) => {
+    const index = PRE_PRIMARY_ORDER.findIndex(o => name.includes(o));
+    if (index !== -1) return index;
+    if (name.includes('Grade')) {
+        const num = parseInt(name.replace(/\D/g, ''));
+        return 10 + (isNaN(num) ? 99 : num);
+    }
+    return 100; // Others last
+};
+
+// Comparator for Array.prototype.sort
+export const sortClasses = (a: { name: string }, b: { name: string }) =>
+    getClassOrder(a.name) - getClassOrder(b.name) || a.name.localeCompare(b.name);
@@ -0,0 +1,167 @@
+/**
+ * iCalendar (RFC 5545) import / export for the school calendar
+ *
+ * Only all-day events are meaningful to the calendar. Timed events are
+ * imported on the local day(s) they touch. DTEND of an all-day event is exclusive
+ * in iCal and inclusive on the school calendar.
+ */
+
+import { addDays, format, parse } from 'date-fns';
+import type { CalendarEvent, CalendarEventType } from '@/services/schoolCalendarService';
+
+export type ICalEvent = Omit<CalendarEvent, 'school_id' | 'id'>;
+
+// CATEGORIES values written on export and recognised on import
+const CATEGORY_TYPES: Record<string, CalendarEventType> = {
+    HOLIDAY: 'holiday',
+    HOLIDAYS: 'holiday',
+    VACATION: 'holiday',
+    EXAM: 'exam',
+    EXAMS: 'exam',
+    'TERM START': 'term_start',
+    'TERM END': 'term_end',
+    EVENT: 'event',
+};
+
+const TYPE_CATEGORIES: Record<CalendarEventType, string> = {
+    holiday: 'HOLIDAY',
+    exam: 'EXAM',
+    term_start: 'TERM START',
+    term_end: 'TERM END',
+    event: 'EVENT',
+};
+
+const unescapeText = (value: string) =>
+    value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+const escapeText = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// Lines longer than 75 octets are folded with CRLF + space
+const foldLine = (line: string) => {
+    const parts: string[] = [];
+    for (let i = 0; i < line.length; i += 73) parts.push(line.slice(i, i + 73));
+    return parts.join('\r\n ');
+};
+
+// "20260126", "20260126T090000" (floating or TZID wall time) or
+// "20260126T090000Z" (UTC, converted to local time) -> Date
+const parseICalDate = (value: string) => {
+    if (/^\d{8}T\d{6}Z$/.test(value)) {
+        const iso = value.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z');
+        return new Date(iso);
+    }
+    if (value.length >= 15 && value[8] === 'T') {
+        return parse(value.slice(0, 15), "yyyyMMdd'T'HHmmss", new Date());
+    }
+    return parse(value.slice(0, 8), 'yyyyMMdd', new Date());
+};
+
+/**
+ * Parse the VEVENTs of an .ics file into calendar events.
+ * Events without a CATEGORIES match become `fallbackType`.
+ * @param text - File contents
+ * @param fallbackType - Type for events the file does not categorise
+ */
+export function parseICalendar(text: string, fallbackType: CalendarEventType = 'holiday'): ICalEvent[] {
+    // Unfold continuation lines first
+    const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+    const events: ICalEvent[] = [];
+    let current: Record<string, { value: string; params: string }> | null = null;
+
+    for (const line of lines) {
+        if (line === 'BEGIN:VEVENT') {
+            current = {};
+            continue;
+        }
+        if (line === 'END:VEVENT') {
+            if (current?.DTSTART) {
+                const start = parseICalDate(current.DTSTART.value);
+                if (Number.isNaN(start.getTime())) {
+                    current = null;
+                    continue;
+                }
+                const allDay = current.DTSTART.params.includes('VALUE=DATE') || current.DTSTART.value.length === 8;
+                let end = current.DTEND ? parseICalDate(current.DTEND.value) : start;
+                if (current.DTEND && allDay) end = addDays(end, -1);
+                // A timed event ending at midnight does not touch the next day
+                else if (current.DTEND && end > start) end = new Date(end.getTime() - 1);
+                if (Number.isNaN(end.getTime()) || end < start) end = start;
+
+                const categories = (current.CATEGORIES?.value || '').split(',').map(c => c.trim().toUpperCase());
+                const type = categories.map(c => CATEGORY_TYPES[c]).find(Boolean) || fallbackType;
+
+                events.push({
+                    uid: current.UID?.value || undefined,
+                    title: unescapeText(current.SUMMARY?.value || 'Untitled'),
+                    event_type: type,
+                    start_date: format(start, 'yyyy-MM-dd'),
+                    end_date: format(end, 'yyyy-MM-dd'),
+                    description: current.DESCRIPTION ? unescapeText(current.DESCRIPTION.value) : null,
+                });
+            }
+            current = null;
+            continue;
+        }
+        if (!current) continue;
+
+        const colon = line.indexOf(':');
+        if (colon < 0) continue;
+        const [name, ...params] = line.slice(0, colon).split(';');
+        current[name.toUpperCase()] = { value: line.slice(colon + 1), params: params.join(';').toUpperCase() };
+    }
+
+    return events;
+}
+
+/**
+ * Build an .ics file of all-day events
+ * @param events - Calendar events
+ * @param calendarName - Shown as the calendar's name by most clients
+ */
+export function buildICalendar(events: ICalEvent[], calendarName: string): string {
+    // UTC, e.g. 2026-01-26T09:00:00.000Z -> 20260126T090000Z
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//EduOpus//School Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ];
+
+    for (const event of events) {
+        const start = new Date(`${event.start_date}T00:00:00`);
+        const end = addDays(new Date(`${event.end_date}T00:00:00`), 1);
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${event.uid || `${event.start_date}-${event.title}`.replace(/\s+/g, '-')}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${format(start, 'yyyyMMdd')}`,
+            `DTEND;VALUE=DATE:${format(end, 'yyyyMMdd')}`,
+            `SUMMARY:${escapeText(event.title)}`,
+            `CATEGORIES:${TYPE_CATEGORIES[event.event_type]}`,
+            ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+            'TRANSP:TRANSPARENT',
+            'END:VEVENT'
+        );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Download events as an .ics file
+ * @param events - Calendar events
+ * @param calendarName - Calendar name, also used for the file name
+ */
+export function downloadICalendar(events: ICalEvent[], calendarName: string) {
+    const blob = new Blob([buildICalendar(events, calendarName)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${calendarName.replace(/\s+/g, '-').toLowerCase()}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,136 @@
+/**
+ * Offline Attendance Store - IndexedDB
+ *
+ * Two object stores:
+ * - cache: last known classes, statuses and rosters, keyed by string
+ * - queue: attendance sheets saved while offline, one per user/class/date/period
+ *
+ * A classroom device can be shared, so queued sheets belong to the user who
+ * saved them and are only listed and synced for that user.
+ */
+
+const DB_NAME = 'edu-attendance';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const QUEUE_STORE = 'queue';
+
+export interface QueuedAttendanceEntry {
+    student_id: string;
+    status: string;
+    notes: string | null;
+    reason_code?: string | null;
+    arrival_time?: string | null;
+}
+
+export interface QueuedAttendanceConflict {
+    marked_by_others: number;
+    server: { student_id: string; status: string }[];
+}
+
+export interface QueuedAttendance {
+    key: string;                    // userId:classId:date[:period]
+    user_id: string;                // Who saved the sheet; only they can sync it
+    school_id: string;
+    class_id: string;
+    class_name: string;
+    date: string;                   // YYYY-MM-DD
+    period_number: number | null;
+    attendance: QueuedAttendanceEntry[];
+    baseline: string | null;        // latest updated_at seen for this sheet before editing
+    queued_at: string;
+    state: 'pending' | 'conflict' | 'failed';
+    conflict?: QueuedAttendanceConflict;
+    error?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE);
+                if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'key' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+async function run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(storeName, mode).objectStore(storeName));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function attendanceQueueKey(userId: string, classId: string, date: string, periodNumber: number | null): string {
+    return periodNumber ? `${userId}:${classId}:${date}:${periodNumber}` : `${userId}:${classId}:${date}`;
+}
+
+/**
+ * Read a cached value (undefined when missing or IndexedDB is unavailable)
+ */
+export async function getCached<T>(key: string): Promise<T | undefined> {
+    try {
+        return await run<T | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+    } catch (error) {
+        console.error('Offline cache read failed:', error);
+        return undefined;
+    }
+}
+
+/**
+ * Cache a value for offline use; failures are logged and ignored
+ */
+export async function putCached<T>(key: string, value: T): Promise<void> {
+    try {
+        await run(CACHE_STORE, 'readwrite', store => store.put(value, key));
+    } catch (error) {
+        console.error('Offline cache write failed:', error);
+    }
+}
+
+/**
+ * Queue (or replace) an attendance sheet for sync
+ */
+export async function putQueued(item: QueuedAttendance): Promise<void> {
+    await run(QUEUE_STORE, 'readwrite', store => store.put(item));
+}
+
+export async function getQueued(key: string): Promise<QueuedAttendance | undefined> {
+    try {
+        return await run<QueuedAttendance | undefined>(QUEUE_STORE, 'readonly', store => store.get(key));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Sheets queued on this device by one user
+ */
+export async function getAllQueued(userId: string): Promise<QueuedAttendance[]> {
+    try {
+        const items = await run<QueuedAttendance[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+        return items.filter(item => item.user_id === userId);
+    } catch {
+        return [];
+    }
+}
+
+export async function deleteQueued(key: string): Promise<void> {
+    await run(QUEUE_STORE, 'readwrite', store => store.delete(key));
+}
@@ -0,0 +1,191 @@
+import { jsPDF } from 'jspdf';
+import { amountInWords } from '@/lib/amountInWords';
+import type { ReceiptBranding } from '@/services/receiptSettingsService';
+import type { DeductionItem } from '@/services/payrollService';
+
+interface PayslipData {
+  staffName: string;
+  staffCode?: string;
+  position?: string;
+  department?: string | null;
+  periodStart: string;
+  periodEnd: string;
+  paymentDate: string;
+  currency: string;
+  gross: number;  // Base salary for the period
+  bonus: number;
+  deductions: DeductionItem[];  // Itemised, or a single "Deductions" line
+  net: number;
+  draft?: boolean;  // Payroll run not finalised yet
+  branding?: ReceiptBranding;  // School name, address and logo, shared with receipts
+}
+
+// A4 portrait (mm)
+const WIDTH = 210;
+const MARGIN = 20;
+const RIGHT = WIDTH - MARGIN;
+const CENTER = WIDTH / 2;
+
+const imageFormat = (dataUrl: string) => {
+  const type = dataUrl.match(/^data:image\/(\w+)/)?.[1]?.toUpperCase() || 'PNG';
+  return type === 'JPG' ? 'JPEG' : type;
+};
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const periodLabel = (data: PayslipData) =>
+  new Date(`${data.periodStart}T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+/**
+ * Payslip for one pay period: earnings, itemised deductions and net pay
+ */
+export const generatePayslip = (data: PayslipData): Blob => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const branding = data.branding;
+  const money = (amount: number) => `${data.currency} ${amount.toFixed(2)}`;
+  let yPos = MARGIN;
+
+  // Logo
+  if (branding?.logo) {
+    try {
+      const { width: w, height: h } = doc.getImageProperties(branding.logo);
+      const logoWidth = (w / h) * 18;
+      doc.addImage(branding.logo, imageFormat(branding.logo), CENTER - logoWidth / 2, yPos, logoWidth, 18);
+      yPos += 22;
+    } catch (error) {
+      console.error('Error drawing payslip logo:', error);
+    }
+  }
+
+  // School name and contact details
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text(branding?.school_name || 'Educational Institution', CENTER, yPos + 5, { align: 'center' });
+  yPos += 10;
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  for (const line of [branding?.address, branding?.phone]) {
+    if (!line) continue;
+    const lines = doc.splitTextToSize(line, WIDTH - MARGIN * 2);
+    doc.text(lines, CENTER, yPos, { align: 'center' });
+    yPos += lines.length * 5;
+  }
+
+  // Title
+  yPos += 4;
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text('PAYSLIP', CENTER, yPos + 6, { align: 'center' });
+  yPos += 10;
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'normal');
+  doc.text(periodLabel(data), CENTER, yPos + 2, { align: 'center' });
+  yPos += 8;
+
+  if (data.draft) {
+    doc.setFontSize(10);
+    doc.setTextColor(200, 0, 0);
+    doc.text('DRAFT - payroll not finalised', CENTER, yPos, { align: 'center' });
+    doc.setTextColor(0, 0, 0);
+    yPos += 6;
+  }
+
+  doc.setLineWidth(0.5);
+  doc.line(MARGIN, yPos, RIGHT, yPos);
+  yPos += 10;
+
+  // Staff details
+  doc.setFontSize(11);
+  const row = (label: string, value: string) => {
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, MARGIN, yPos);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, 70, yPos);
+    yPos += 7;
+  };
+
+  row('Employee:', data.staffName);
+  if (data.staffCode) row('Employee ID:', data.staffCode);
+  if (data.position) row('Position:', data.position);
+  if (data.department) row('Department:', data.department);
+  row('Pay Period:', `${formatDate(data.periodStart)} - ${formatDate(data.periodEnd)}`);
+  row('Payment Date:', formatDate(data.paymentDate));
+  yPos += 5;
+
+  // Earnings and deductions
+  const section = (title: string, lines: { label: string; amount: number }[], totalLabel: string, total: number) => {
+    doc.setFillColor(240, 240, 240);
+    doc.rect(MARGIN, yPos - 5, WIDTH - MARGIN * 2, 8, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.text(title, MARGIN + 2, yPos);
+    doc.text('Amount', RIGHT - 2, yPos, { align: 'right' });
+    yPos += 8;
+
+    doc.setFont('helvetica', 'normal');
+    for (const line of lines) {
+      doc.text(line.label, MARGIN + 2, yPos);
+      doc.text(money(line.amount), RIGHT - 2, yPos, { align: 'right' });
+      yPos += 7;
+    }
+
+    doc.setDrawColor(200, 200, 200);
+    doc.line(MARGIN, yPos - 4, RIGHT, yPos - 4);
+    doc.setFont('helvetica', 'bold');
+    doc.text(totalLabel, MARGIN + 2, yPos + 1);
+    doc.text(money(total), RIGHT - 2, yPos + 1, { align: 'right' });
+    yPos += 12;
+  };
+
+  const earnings = [{ label: 'Basic salary', amount: data.gross }];
+  if (data.bonus > 0) earnings.push({ label: 'Bonus', amount: data.bonus });
+  section('Earnings', earnings, 'Gross Pay', data.gross + data.bonus);
+
+  const totalDeductions = data.deductions.reduce((sum, d) => sum + d.amount, 0);
+  section(
+    'Deductions',
+    data.deductions.length > 0 ? data.deductions : [{ label: 'None', amount: 0 }],
+    'Total Deductions',
+    totalDeductions
+  );
+
+  // Net pay box
+  doc.setFillColor(240, 240, 240);
+  doc.rect(MARGIN, yPos, WIDTH - MARGIN * 2, 16, 'F');
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Net Pay:', MARGIN + 3, yPos + 10);
+  doc.setTextColor(0, 128, 0);
+  doc.text(money(data.net), RIGHT - 3, yPos + 10, { align: 'right' });
+  doc.setTextColor(0, 0, 0);
+  yPos += 24;
+
+  // Amount in words
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'italic');
+  const words = doc.splitTextToSize(amountInWords(data.net, data.currency), WIDTH - MARGIN * 2);
+  doc.text(words, MARGIN, yPos);
+  yPos += words.length * 5 + 10;
+
+  // Footer
+  doc.setFontSize(9);
+  doc.text('This is a computer-generated payslip.', CENTER, yPos, { align: 'center' });
+
+  // Signature line
+  yPos += 25;
+  doc.setFont('helvetica', 'normal');
+  doc.line(RIGHT - 50, yPos, RIGHT - 10, yPos);
+  doc.text('Authorized Signature', RIGHT - 30, yPos + 5, { align: 'center' });
+
+  return doc.output('blob');
+};
+
+export const downloadPayslip = (data: PayslipData) => {
+  const blob = generatePayslip(data);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `payslip-${data.staffName.replace(/\s+/g, '-')}-${data.periodStart.slice(0, 7)}.pdf`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,4 +1,7 @@
 import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import { amountInWords } from '@/lib/amountInWords';
+import type { ReceiptBranding, ReceiptTemplate } from '@/services/receiptSettingsService';
 
 interface ReceiptData {
   receiptNumber: string;
@@ -8,99 +11,236 @@ interface ReceiptData {
   paymentMethod: string;
   currency: string;
   description?: string;
+  discounts?: { label: string; amount: number }[]; // Concessions on the charges this payment settles
+  allocations?: { label: string; amount: number }[]; // How the payment was split across tuition and fee folders
+  balanceAfter?: number; // Student's outstanding fee after this payment (negative = advance)
+  branding?: ReceiptBranding; // School name, address, logo, template... (defaults to plain A4)
+  verification?: { token: string; url: string }; // Signed code so the receipt can be checked at /verify-receipt
 }
 
-export const generateReceipt = (data: ReceiptData): Blob => {
-  const doc = new jsPDF();
-  
-  // Header
-  doc.setFontSize(24);
+interface ReceiptLayout {
+  format: string | [number, number];
+  orientation: 'portrait' | 'landscape';
+  width: number;
+  margin: number;
+  valueX: number | null; // null = values right-aligned (narrow paper)
+  titleSize: number;
+  headingSize: number;
+  bodySize: number;
+  lineHeight: number;
+  logoHeight: number;
+  qrSize: number;
+}
+
+const LAYOUTS: Record<ReceiptTemplate, ReceiptLayout> = {
+  a4: {
+    format: 'a4', orientation: 'portrait', width: 210, margin: 20, valueX: 80,
+    titleSize: 24, headingSize: 16, bodySize: 12, lineHeight: 10, logoHeight: 20, qrSize: 30,
+  },
+  half_page: {
+    format: 'a5', orientation: 'landscape', width: 210, margin: 15, valueX: 65,
+    titleSize: 18, headingSize: 13, bodySize: 10, lineHeight: 7, logoHeight: 14, qrSize: 24,
+  },
+  thermal_80mm: {
+    // Height is measured per receipt, see generateReceipt
+    format: [80, 1000], orientation: 'portrait', width: 80, margin: 4, valueX: null,
+    titleSize: 12, headingSize: 10, bodySize: 8, lineHeight: 5, logoHeight: 12, qrSize: 22,
+  },
+};
+
+const imageFormat = (dataUrl: string) => {
+  const type = dataUrl.match(/^data:image\/(\w+)/)?.[1]?.toUpperCase() || 'PNG';
+  return type === 'JPG' ? 'JPEG' : type;
+};
+
+const drawReceipt = (doc: jsPDF, data: ReceiptData, layout: ReceiptLayout, qrCode: string | null): number => {
+  const { width, margin, lineHeight } = layout;
+  const center = width / 2;
+  const right = width - margin;
+  const branding = data.branding;
+  let yPos = margin;
+
+  // Logo
+  if (branding?.logo) {
+    try {
+      const { width: w, height: h } = doc.getImageProperties(branding.logo);
+      const logoWidth = (w / h) * layout.logoHeight;
+      doc.addImage(branding.logo, imageFormat(branding.logo), center - logoWidth / 2, yPos, logoWidth, layout.logoHeight);
+      yPos += layout.logoHeight + 4;
+    } catch (error) {
+      console.error('Error drawing receipt logo:', error);
+    }
+  }
+
+  // School name and contact details
+  doc.setFontSize(layout.headingSize);
   doc.setFont('helvetica', 'bold');
-  doc.text('PAYMENT RECEIPT', 105, 20, { align: 'center' });
-  
-  // School name (customizable)
-  doc.setFontSize(16);
+  doc.text(branding?.school_name || 'Educational Institution', center, yPos + layout.headingSize / 3, { align: 'center' });
+  yPos += lineHeight;
+
+  doc.setFontSize(layout.bodySize - 1);
   doc.setFont('helvetica', 'normal');
-  doc.text('Educational Institution', 105, 30, { align: 'center' });
-  
+  for (const line of [branding?.address, branding?.phone]) {
+    if (!line) continue;
+    const lines = doc.splitTextToSize(line, width - margin * 2);
+    doc.text(lines, center, yPos, { align: 'center' });
+    yPos += lines.length * (lineHeight * 0.6);
+  }
+
+  // Title
+  yPos += lineHeight * 0.4;
+  doc.setFontSize(layout.titleSize);
+  doc.setFont('helvetica', 'bold');
+  doc.text('PAYMENT RECEIPT', center, yPos + layout.titleSize / 3, { align: 'center' });
+  yPos += lineHeight;
+
   // Divider
   doc.setLineWidth(0.5);
-  doc.line(20, 35, 190, 35);
-  
+  doc.line(margin, yPos, right, yPos);
+  yPos += lineHeight * 1.2;
+
   // Receipt details
-  doc.setFontSize(12);
-  doc.setFont('helvetica', 'bold');
-  
-  let yPos = 50;
-  
-  // Receipt Number
-  doc.text('Receipt Number:', 20, yPos);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.receiptNumber, 80, yPos);
-  yPos += 10;
-  
-  // Date
-  doc.setFont('helvetica', 'bold');
-  doc.text('Date:', 20, yPos);
-  doc.setFont('helvetica', 'normal');
-  doc.text(new Date(data.paymentDate).toLocaleDateString(), 80, yPos);
-  yPos += 10;
-  
-  // Student Name
-  doc.setFont('helvetica', 'bold');
-  doc.text('Student Name:', 20, yPos);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.studentName, 80, yPos);
-  yPos += 10;
-  
-  // Payment Method
-  doc.setFont('helvetica', 'bold');
-  doc.text('Payment Method:', 20, yPos);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.paymentMethod, 80, yPos);
-  yPos += 10;
-  
-  // Description (if provided)
-  if (data.description) {
+  doc.setFontSize(layout.bodySize);
+  const row = (label: string, value: string) => {
     doc.setFont('helvetica', 'bold');
-    doc.text('Description:', 20, yPos);
+    doc.text(label, margin, yPos);
     doc.setFont('helvetica', 'normal');
-    const lines = doc.splitTextToSize(data.description, 110);
-    doc.text(lines, 80, yPos);
-    yPos += lines.length * 7;
+    if (layout.valueX === null) {
+      const lines = doc.splitTextToSize(value, width - margin * 2 - 28);
+      doc.text(lines, right, yPos, { align: 'right' });
+      yPos += lines.length * lineHeight;
+    } else {
+      const lines = doc.splitTextToSize(value, right - layout.valueX);
+      doc.text(lines, layout.valueX, yPos);
+      yPos += Math.max(lines.length * lineHeight * 0.7, lineHeight);
+    }
+  };
+
+  row('Receipt Number:', data.receiptNumber);
+  row('Date:', new Date(data.paymentDate).toLocaleDateString());
+  row('Student Name:', data.studentName);
+  row('Payment Method:', data.paymentMethod);
+  if (data.description) row('Description:', data.description);
+
+  // Concessions (sibling, scholarship, ...) - shown as separate lines
+  if (data.discounts && data.discounts.length > 0) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Concessions:', margin, yPos);
+    yPos += layout.valueX === null ? lineHeight : 0;
+    doc.setFont('helvetica', 'normal');
+    for (const discount of data.discounts) {
+      doc.text(discount.label, layout.valueX ?? margin + 2, yPos);
+      doc.text(`- ${data.currency} ${discount.amount.toFixed(2)}`, right, yPos, { align: 'right' });
+      yPos += lineHeight * 0.7;
+    }
+    yPos += lineHeight * 0.3;
   }
-  
-  yPos += 10;
-  
+
+  // Allocation lines (tuition, exam fee, transport, ...)
+  if (data.allocations && data.allocations.length > 0) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Applied to:', margin, yPos);
+    yPos += layout.valueX === null ? lineHeight : 0;
+    doc.setFont('helvetica', 'normal');
+    for (const allocation of data.allocations) {
+      doc.text(allocation.label, layout.valueX ?? margin + 2, yPos);
+      doc.text(`${data.currency} ${allocation.amount.toFixed(2)}`, right, yPos, { align: 'right' });
+      yPos += lineHeight * 0.7;
+    }
+    yPos += lineHeight * 0.3;
+  }
+
+  yPos += lineHeight * 0.5;
+
   // Amount box
+  const boxHeight = lineHeight * 2;
   doc.setFillColor(240, 240, 240);
-  doc.rect(20, yPos, 170, 20, 'F');
-  doc.setFontSize(16);
+  doc.rect(margin, yPos, width - margin * 2, boxHeight, 'F');
+  doc.setFontSize(layout.headingSize);
   doc.setFont('helvetica', 'bold');
-  doc.text('Amount Paid:', 25, yPos + 13);
+  doc.text('Amount Paid:', margin + 3, yPos + boxHeight * 0.65);
   doc.setTextColor(0, 128, 0);
-  doc.text(`${data.currency} ${data.amount.toFixed(2)}`, 160, yPos + 13, { align: 'right' });
+  doc.text(`${data.currency} ${data.amount.toFixed(2)}`, right - 3, yPos + boxHeight * 0.65, { align: 'right' });
   doc.setTextColor(0, 0, 0);
-  
-  yPos += 35;
-  
+  yPos += boxHeight + lineHeight * 0.8;
+
+  // Amount in words
+  doc.setFontSize(layout.bodySize - 1);
+  doc.setFont('helvetica', 'italic');
+  const words = doc.splitTextToSize(amountInWords(data.amount, data.currency), width - margin * 2);
+  doc.text(words, margin, yPos);
+  yPos += words.length * lineHeight * 0.6 + lineHeight * 0.4;
+
+  // Balance after this payment
+  if (data.balanceAfter !== undefined) {
+    doc.setFontSize(layout.bodySize);
+    doc.setFont('helvetica', 'bold');
+    doc.text(data.balanceAfter < 0 ? 'Advance Balance:' : 'Balance Due:', margin, yPos);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${data.currency} ${Math.abs(data.balanceAfter).toFixed(2)}`, right, yPos, { align: 'right' });
+    yPos += lineHeight;
+  }
+
+  yPos += lineHeight * 0.5;
+
+  // QR code (verification link, or just the receipt number)
+  if (qrCode) {
+    doc.addImage(qrCode, 'PNG', center - layout.qrSize / 2, yPos, layout.qrSize, layout.qrSize);
+    yPos += layout.qrSize + lineHeight * 0.8;
+  }
+
+  if (data.verification) {
+    doc.setFontSize(layout.bodySize - 2);
+    doc.setFont('helvetica', 'normal');
+    const verify = doc.splitTextToSize(
+      `Verify at ${data.verification.url.split('?')[0]} with code ${data.verification.token}`,
+      width - margin * 2
+    );
+    doc.text(verify, center, yPos, { align: 'center' });
+    yPos += verify.length * lineHeight * 0.5 + lineHeight * 0.5;
+  }
+
   // Footer
-  doc.setFontSize(10);
+  doc.setFontSize(layout.bodySize - 2);
   doc.setFont('helvetica', 'italic');
-  doc.text('This is a computer-generated receipt.', 105, yPos, { align: 'center' });
-  doc.text('Thank you for your payment!', 105, yPos + 5, { align: 'center' });
-  
-  // Signature line
-  yPos += 30;
-  doc.setFont('helvetica', 'normal');
-  doc.line(130, yPos, 180, yPos);
-  doc.text('Authorized Signature', 155, yPos + 5, { align: 'center' });
-  
+  const footer = doc.splitTextToSize(branding?.footer || 'This is a computer-generated receipt.', width - margin * 2);
+  doc.text(footer, center, yPos, { align: 'center' });
+  yPos += footer.length * lineHeight * 0.5;
+  doc.text('Thank you for your payment!', center, yPos, { align: 'center' });
+
+  // Signature line (not printed on thermal rolls)
+  if (layout.valueX !== null) {
+    yPos += lineHeight * 2.5;
+    doc.setFont('helvetica', 'normal');
+    doc.line(right - 50, yPos, right - 10, yPos);
+    doc.text('Authorized Signature', right - 30, yPos + 5, { align: 'center' });
+    yPos += 5;
+  }
+
+  return yPos + margin;
+};
+
+export const generateReceipt = async (data: ReceiptData): Promise<Blob> => {
+  const layout = LAYOUTS[data.branding?.template || 'a4'];
+  const qrCode = data.branding?.show_qr
+    ? await QRCode.toDataURL(data.verification?.url || data.receiptNumber, { margin: 0, width: 256 })
+    : null;
+
+  // Thermal rolls have no fixed page height: draw once to measure, then on a page cut to fit
+  let format = layout.format;
+  if (layout.valueX === null) {
+    const height = drawReceipt(new jsPDF({ unit: 'mm', format: layout.format }), data, layout, qrCode);
+    format = [layout.width, height];
+  }
+
+  const doc = new jsPDF({ unit: 'mm', format, orientation: layout.orientation });
+  drawReceipt(doc, data, layout, qrCode);
+
   return doc.output('blob');
 };
 
-export const downloadReceipt = (data: ReceiptData) => {
-  const blob = generateReceipt(data);
+export const downloadReceipt = async (data: ReceiptData) => {
+  const blob = await generateReceipt(data);
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -0,0 +1,156 @@
+import { jsPDF } from 'jspdf';
+
+interface StatementEntry {
+  date: string;
+  description: string;
+  reference: string | null;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+interface StatementData {
+  studentName: string;
+  studentCode?: string;
+  className?: string | null;
+  guardianName?: string | null;
+  currency: string;
+  entries: StatementEntry[];
+}
+
+// Column x positions (right-aligned for amounts)
+const COL = { date: 20, description: 45, reference: 110, debit: 140, credit: 165, balance: 190 };
+const PAGE_BOTTOM = 275;
+
+const formatAmount = (amount: number) => (amount ? amount.toFixed(2) : '');
+
+const drawTableHeader = (doc: jsPDF, yPos: number) => {
+  doc.setFillColor(240, 240, 240);
+  doc.rect(18, yPos - 5, 174, 8, 'F');
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Date', COL.date, yPos);
+  doc.text('Description', COL.description, yPos);
+  doc.text('Reference', COL.reference, yPos);
+  doc.text('Debit', COL.debit, yPos, { align: 'right' });
+  doc.text('Credit', COL.credit, yPos, { align: 'right' });
+  doc.text('Balance', COL.balance, yPos, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  return yPos + 8;
+};
+
+export const generateStatement = (data: StatementData): Blob => {
+  const doc = new jsPDF();
+
+  // Header
+  doc.setFontSize(22);
+  doc.setFont('helvetica', 'bold');
+  doc.text('STATEMENT OF ACCOUNT', 105, 20, { align: 'center' });
+
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Educational Institution', 105, 30, { align: 'center' });
+
+  doc.setLineWidth(0.5);
+  doc.line(20, 35, 190, 35);
+
+  // Student details
+  doc.setFontSize(11);
+  let yPos = 45;
+  const details: [string, string | null | undefined][] = [
+    ['Student Name:', data.studentName],
+    ['Student ID:', data.studentCode],
+    ['Class:', data.className],
+    ['Guardian:', data.guardianName],
+    ['Statement Date:', new Date().toLocaleDateString()],
+  ];
+  for (const [label, value] of details) {
+    if (!value) continue;
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, 20, yPos);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, 60, yPos);
+    yPos += 7;
+  }
+
+  if (data.entries.length > 0) {
+    const first = new Date(data.entries[0].date).toLocaleDateString();
+    const last = new Date(data.entries[data.entries.length - 1].date).toLocaleDateString();
+    doc.setFont('helvetica', 'bold');
+    doc.text('Period:', 20, yPos);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${first} - ${last}`, 60, yPos);
+    yPos += 7;
+  }
+
+  yPos += 5;
+  yPos = drawTableHeader(doc, yPos);
+
+  // Ledger rows
+  let totalDebit = 0;
+  let totalCredit = 0;
+  for (const entry of data.entries) {
+    const lines = doc.splitTextToSize(entry.description, 62);
+    if (yPos + lines.length * 5 > PAGE_BOTTOM) {
+      doc.addPage();
+      yPos = drawTableHeader(doc, 20);
+    }
+
+    doc.setFontSize(9);
+    doc.text(new Date(entry.date).toLocaleDateString(), COL.date, yPos);
+    doc.text(lines, COL.description, yPos);
+    if (entry.reference) doc.text(entry.reference, COL.reference, yPos);
+    doc.text(formatAmount(entry.debit), COL.debit, yPos, { align: 'right' });
+    doc.text(formatAmount(entry.credit), COL.credit, yPos, { align: 'right' });
+    doc.text(entry.balance.toFixed(2), COL.balance, yPos, { align: 'right' });
+
+    totalDebit += entry.debit;
+    totalCredit += entry.credit;
+    yPos += lines.length * 5 + 2;
+  }
+
+  if (yPos + 40 > PAGE_BOTTOM) {
+    doc.addPage();
+    yPos = 20;
+  }
+
+  // Totals
+  doc.setLineWidth(0.3);
+  doc.line(20, yPos, 190, yPos);
+  yPos += 6;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Totals', COL.description, yPos);
+  doc.text(totalDebit.toFixed(2), COL.debit, yPos, { align: 'right' });
+  doc.text(totalCredit.toFixed(2), COL.credit, yPos, { align: 'right' });
+  yPos += 10;
+
+  // Closing balance box
+  const closing = data.entries.length > 0 ? data.entries[data.entries.length - 1].balance : 0;
+  doc.setFillColor(240, 240, 240);
+  doc.rect(20, yPos, 170, 20, 'F');
+  doc.setFontSize(14);
+  doc.text(closing < 0 ? 'Balance in Credit:' : 'Balance Due:', 25, yPos + 13);
+  if (closing > 0) doc.setTextColor(200, 0, 0);
+  else doc.setTextColor(0, 128, 0);
+  doc.text(`${data.currency} ${Math.abs(closing).toFixed(2)}`, 185, yPos + 13, { align: 'right' });
+  doc.setTextColor(0, 0, 0);
+
+  yPos += 30;
+
+  // Footer
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'italic');
+  doc.text('This is a computer-generated statement.', 105, yPos, { align: 'center' });
+
+  return doc.output('blob');
+};
+
+export const downloadStatement = (data: StatementData) => {
+  const blob = generateStatement(data);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `statement-${(data.studentCode || data.studentName).replace(/\s+/g, '-')}.pdf`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
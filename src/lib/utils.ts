@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Quote a value for a PostgREST `.or()` filter so commas, parentheses and dots
+ * in user input stay part of the value instead of splitting the filter
+ */
+export function quoteFilterValue(value: string) {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
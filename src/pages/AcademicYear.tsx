@@ -0,0 +1,491 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useRole } from '@/contexts/RoleContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { sortClasses } from '@/lib/classOrder';
+import { GraduationCap, ChevronLeft, ChevronRight, Lock, Loader2 } from 'lucide-react';
+import {
+  AcademicYear as AcademicYearRow,
+  PromotionDecision,
+  RolloverCandidate,
+  YearClass,
+  fetchAcademicYears,
+  fetchRolloverCandidates,
+  fetchSchoolClasses,
+  rolloverAcademicYear,
+} from '@/services/academicYearService';
+
+// Select sentinel for "class graduates" (Radix Select items cannot use an empty value)
+const GRADUATES = 'graduate';
+
+const STEPS = ['Year', 'Class Promotion', 'Students', 'Review'];
+
+// The new year starts on the first of a month, no later than the current one (YYYY-MM)
+const CURRENT_MONTH = new Date().toISOString().slice(0, 7);
+
+// "2025-26" -> "2026-27", "2025" -> "2026"
+const suggestNextYear = (year: string) => {
+  const match = year.match(/^(\d{4})(?:-(\d{2}|\d{4}))?$/);
+  if (!match) return '';
+  const start = Number(match[1]) + 1;
+  if (!match[2]) return String(start);
+  const end = Number(match[2]) + 1;
+  return `${start}-${match[2].length === 2 ? String(end % 100).padStart(2, '0') : end}`;
+};
+
+const AcademicYear = () => {
+  const { currentSchool } = useRole();
+  const { toast } = useToast();
+  const { formatAmount } = useCurrency();
+  const { refresh: refreshFinancialData } = useFinancialData();
+
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [years, setYears] = useState<AcademicYearRow[]>([]);
+  const [classes, setClasses] = useState<YearClass[]>([]);
+
+  const [step, setStep] = useState(0);
+  const [fromYear, setFromYear] = useState('');
+  const [toYear, setToYear] = useState('');
+  const [startMonth, setStartMonth] = useState(CURRENT_MONTH);
+  const [classMap, setClassMap] = useState<Record<string, string | null>>({});
+  const [candidates, setCandidates] = useState<RolloverCandidate[]>([]);
+  const [decisions, setDecisions] = useState<Record<string, PromotionDecision>>({});
+
+  const loadData = useCallback(async () => {
+    if (!currentSchool) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+
+    const [yearsResult, classesResult] = await Promise.all([
+      fetchAcademicYears(currentSchool.school_id),
+      fetchSchoolClasses(currentSchool.school_id),
+    ]);
+
+    if (yearsResult.error || classesResult.error) {
+      toast({ title: 'Error', description: 'Failed to load academic years', variant: 'destructive' });
+    }
+
+    setYears(yearsResult.data);
+    setClasses(classesResult.data);
+    setLoading(false);
+  }, [currentSchool, toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const closedYears = useMemo(
+    () => new Set(years.filter(y => y.status === 'closed').map(y => y.name)),
+    [years]
+  );
+
+  // Years that still have active classes and have not been closed
+  const openYears = useMemo(() => {
+    const names = new Set(
+      classes
+        .filter(c => c.academic_year && c.is_active !== false && !closedYears.has(c.academic_year))
+        .map(c => c.academic_year as string)
+    );
+    return Array.from(names).sort().reverse();
+  }, [classes, closedYears]);
+
+  const yearClasses = useMemo(
+    () => classes.filter(c => c.academic_year === fromYear && c.is_active !== false).sort(sortClasses),
+    [classes, fromYear]
+  );
+
+  useEffect(() => {
+    if (!fromYear && openYears.length > 0) setFromYear(openYears[0]);
+  }, [openYears, fromYear]);
+
+  useEffect(() => {
+    setToYear(suggestNextYear(fromYear));
+  }, [fromYear]);
+
+  // Default promotion path: each class moves to the next one in order, the last one graduates
+  useEffect(() => {
+    const map: Record<string, string | null> = {};
+    yearClasses.forEach((c, index) => {
+      map[c.id] = yearClasses[index + 1]?.id ?? null;
+    });
+    setClassMap(map);
+  }, [yearClasses]);
+
+  const startDate = `${startMonth}-01`;
+
+  const effectiveDecision = useCallback((candidate: RolloverCandidate): PromotionDecision => {
+    const decision = decisions[candidate.student_id] ?? 'promote';
+    // Promoting out of a graduating class is a graduation
+    if (decision === 'promote' && !classMap[candidate.class_id]) return 'graduate';
+    return decision;
+  }, [decisions, classMap]);
+
+  const summary = useMemo(() => {
+    const counts = { promote: 0, hold: 0, graduate: 0, carried: 0 };
+    for (const c of candidates) {
+      const decision = effectiveDecision(c);
+      counts[decision] += 1;
+      if (decision !== 'graduate') counts.carried += c.balance;
+    }
+    return counts;
+  }, [candidates, effectiveDecision]);
+
+  const loadCandidates = async () => {
+    if (!currentSchool) return false;
+    const { data, error } = await fetchRolloverCandidates(currentSchool.school_id, fromYear, startDate);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return false;
+    }
+    setCandidates(data.sort((a, b) =>
+      sortClasses({ name: a.class_name }, { name: b.class_name }) || a.student_name.localeCompare(b.student_name)
+    ));
+    setDecisions({});
+    return true;
+  };
+
+  const handleNext = async () => {
+    if (step === 0) {
+      if (!fromYear) {
+        toast({ title: 'Error', description: 'Select the academic year to close', variant: 'destructive' });
+        return;
+      }
+      if (!toYear.trim() || toYear.trim() === fromYear) {
+        toast({ title: 'Error', description: 'Enter a new academic year name', variant: 'destructive' });
+        return;
+      }
+      if (classes.some(c => c.academic_year === toYear.trim())) {
+        toast({ title: 'Error', description: `Classes for ${toYear.trim()} already exist`, variant: 'destructive' });
+        return;
+      }
+      if (!startMonth) {
+        toast({ title: 'Error', description: 'Start month is required', variant: 'destructive' });
+        return;
+      }
+      if (startMonth > CURRENT_MONTH) {
+        toast({ title: 'Error', description: 'The new year cannot start after the current month', variant: 'destructive' });
+        return;
+      }
+    }
+    if (step === 1 && !(await loadCandidates())) return;
+    setStep(step + 1);
+  };
+
+  const handleRollover = async () => {
+    if (!currentSchool) return;
+    if (!confirm(`Close ${fromYear} and start ${toYear.trim()}? ${fromYear} becomes read-only. This cannot be undone.`)) return;
+
+    const decisionsToSend: Record<string, PromotionDecision> = {};
+    for (const c of candidates) {
+      decisionsToSend[c.student_id] = effectiveDecision(c);
+    }
+
+    setSubmitting(true);
+    const { data, error } = await rolloverAcademicYear(currentSchool.school_id, {
+      fromYear,
+      toYear,
+      startDate,
+      classMap,
+      decisions: decisionsToSend,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({
+      title: 'Success',
+      description: `${toYear.trim()} started: ${data?.promoted ?? 0} promoted, ${data?.held_back ?? 0} held back, ${data?.graduated ?? 0} graduated`,
+    });
+    setStep(0);
+    setFromYear('');
+    setCandidates([]);
+    loadData();
+    refreshFinancialData();
+  };
+
+  const classNameById = (id: string | null | undefined) => yearClasses.find(c => c.id === id)?.name ?? '';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <GraduationCap className="w-8 h-8 text-primary" />
+          <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+            Academic Year
+          </h1>
+        </div>
+        <p className="text-muted-foreground">Close the current year, promote students and carry balances forward</p>
+      </div>
+
+      <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Year Rollover</CardTitle>
+            <div className="flex gap-2">
+              {STEPS.map((label, index) => (
+                <Badge key={label} variant={index === step ? 'default' : 'outline'}>
+                  {index + 1}. {label}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {openYears.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No open academic year found. Classes need an academic year before they can be rolled over.
+            </p>
+          ) : (
+            <>
+              {step === 0 && (
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label>Close Year</Label>
+                    <Select value={fromYear} onValueChange={setFromYear}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select year" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {openYears.map(year => (
+                          <SelectItem key={year} value={year}>{year}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="to-year">New Year</Label>
+                    <Input id="to-year" placeholder="e.g., 2026-27" value={toYear} onChange={(e) => setToYear(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="start-month">New Year Starts In</Label>
+                    <Input
+                      id="start-month"
+                      type="month"
+                      max={CURRENT_MONTH}
+                      value={startMonth}
+                      onChange={(e) => setStartMonth(e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {step === 1 && (
+                <div className="border rounded-lg overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Class ({fromYear})</TableHead>
+                        <TableHead>Students move to ({toYear})</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {yearClasses.map(c => (
+                        <TableRow key={c.id}>
+                          <TableCell className="font-medium">{c.name}</TableCell>
+                          <TableCell>
+                            <Select
+                              value={classMap[c.id] ?? GRADUATES}
+                              onValueChange={(value) =>
+                                setClassMap(prev => ({ ...prev, [c.id]: value === GRADUATES ? null : value }))
+                              }
+                            >
+                              <SelectTrigger className="w-56">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {yearClasses.map(target => (
+                                  <SelectItem key={target.id} value={target.id}>{target.name}</SelectItem>
+                                ))}
+                                <SelectItem value={GRADUATES}>Graduates</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {step === 2 && (
+                <div className="border rounded-lg overflow-auto max-h-[60vh]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Student</TableHead>
+                        <TableHead>Current Class</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead>Next Class</TableHead>
+                        <TableHead>Balance Carried</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {candidates.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center text-muted-foreground">
+                            No students enrolled in {fromYear}
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        candidates.map(c => {
+                          const decision = effectiveDecision(c);
+                          const balance = c.balance;
+                          return (
+                            <TableRow key={c.student_id}>
+                              <TableCell className="font-medium">{c.student_name}</TableCell>
+                              <TableCell>{c.class_name}</TableCell>
+                              <TableCell>
+                                <Select
+                                  value={decision}
+                                  onValueChange={(value) =>
+                                    setDecisions(prev => ({ ...prev, [c.student_id]: value as PromotionDecision }))
+                                  }
+                                >
+                                  <SelectTrigger className="w-36">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {classMap[c.class_id] && <SelectItem value="promote">Promote</SelectItem>}
+                                    <SelectItem value="hold">Hold back</SelectItem>
+                                    <SelectItem value="graduate">Graduate</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              </TableCell>
+                              <TableCell>
+                                {decision === 'graduate'
+                                  ? <Badge variant="outline">Graduated</Badge>
+                                  : decision === 'hold' ? c.class_name : classNameById(classMap[c.class_id])}
+                              </TableCell>
+                              <TableCell className={decision === 'graduate' ? 'text-muted-foreground' : balance > 0 ? 'text-destructive font-semibold' : 'text-green-600 font-semibold'}>
+                                {decision === 'graduate' ? 'Stays on record' : formatAmount(balance)}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {step === 3 && (
+                <div className="grid gap-4 md:grid-cols-4">
+                  <div className="border rounded-lg p-4">
+                    <p className="text-sm text-muted-foreground">New classes ({toYear})</p>
+                    <p className="text-2xl font-bold">{yearClasses.length}</p>
+                  </div>
+                  <div className="border rounded-lg p-4">
+                    <p className="text-sm text-muted-foreground">Promoted / held back</p>
+                    <p className="text-2xl font-bold">{summary.promote} / {summary.hold}</p>
+                  </div>
+                  <div className="border rounded-lg p-4">
+                    <p className="text-sm text-muted-foreground">Graduating (archived)</p>
+                    <p className="text-2xl font-bold">{summary.graduate}</p>
+                  </div>
+                  <div className="border rounded-lg p-4">
+                    <p className="text-sm text-muted-foreground">Opening dues carried</p>
+                    <p className="text-2xl font-bold text-destructive">{formatAmount(summary.carried)}</p>
+                  </div>
+                  <p className="text-xs text-muted-foreground md:col-span-4">
+                    Balances cover fees and payments dated before {startDate} and become each student's opening due on that date.
+                    {' '}{fromYear} classes, enrolments and attendance become read-only.
+                  </p>
+                </div>
+              )}
+
+              <div className="flex justify-between pt-2">
+                <Button variant="outline" onClick={() => setStep(step - 1)} disabled={step === 0 || submitting}>
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Back
+                </Button>
+                {step < STEPS.length - 1 ? (
+                  <Button onClick={handleNext}>
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleRollover}
+                    disabled={submitting}
+                    className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+                  >
+                    {submitting ? 'Rolling over...' : `Close ${fromYear} & Start ${toYear.trim()}`}
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+        <CardHeader>
+          <CardTitle>Academic Years</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Year</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Starts On</TableHead>
+                <TableHead>Closed On</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {years.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No rollovers yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                years.map(year => (
+                  <TableRow key={year.id}>
+                    <TableCell className="font-medium">{year.name}</TableCell>
+                    <TableCell>
+                      {year.status === 'closed' ? (
+                        <Badge variant="outline" className="gap-1">
+                          <Lock className="h-3 w-3" />
+                          Closed (read-only)
+                        </Badge>
+                      ) : (
+                        <Badge>Active</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{year.starts_on ? new Date(year.starts_on).toLocaleDateString() : '-'}</TableCell>
+                    <TableCell>{year.closed_at ? new Date(year.closed_at).toLocaleDateString() : '-'}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AcademicYear;
@@ -4,7 +4,7 @@
  * Mobile-first attendance marking UI for teachers.
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -13,18 +13,61 @@ import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
-import { Loader2, Calendar as CalendarIcon, Check, X, Clock, Save, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Loader2, Calendar as CalendarIcon, Check, X, Save, ChevronLeft, ChevronRight, CloudOff, RefreshCw } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useRole } from '@/contexts/RoleContext';
 import { format, addDays, subDays } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { sortClasses } from '@/lib/classOrder';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import {
+    QueuedAttendance,
+    attendanceQueueKey,
+    getAllQueued,
+    getCached,
+    getQueued,
+    putCached,
+    putQueued,
+} from '@/lib/offlineAttendanceStore';
+import {
+    fetchAttendanceBaseline,
+    isNetworkError,
+    resolveQueuedConflict,
+    syncAttendanceQueue,
+} from '@/services/attendanceSyncService';
+import { TimetableDialog } from '@/components/TimetableDialog';
+import { AttendanceStatusDialog } from '@/components/AttendanceStatusDialog';
+import { AttendanceRegisterDialog } from '@/components/AttendanceRegisterDialog';
+import {
+    AttendanceStatusOption,
+    PERIOD_STATUS_CODES,
+    STATUS_COLORS,
+    attendancePercentage,
+    fetchAttendanceStatuses,
+} from '@/services/attendanceStatusService';
+import {
+    AttendanceMode,
+    ClassPeriod,
+    PeriodSummary,
+    fetchClassPeriods,
+    fetchPeriodStatuses,
+    fetchPeriodSummary,
+    isoWeekday,
+    markPeriodAttendance,
+} from '@/services/periodAttendanceService';
 
 export interface StudentAttendance {
     student_id: string;
     student_name: string;
-    status: 'present' | 'absent' | 'late' | 'unmarked';
+    status: string;     // a code from attendance_statuses, or 'unmarked'
     notes?: string;
+    reason_code?: string | null;
+    arrival_time?: string | null;
+    leave_request_id?: string | null;   // approved leave covering the date
     rank?: number;
     attendance_percentage?: number;
 }
@@ -33,77 +76,124 @@ export interface ClassInfo {
     id: string;
     name: string;
     grade?: string | null;
+    attendance_mode?: AttendanceMode;
 }
 
-// Helper for sorting classes
-const sortClasses = (a: any, b: any) => {
-    const order = ['Nursery', 'L.K.G.', 'U.K.G.'];
-    const getOrder = (name: string) => {
-        const index = order.findIndex(o => name.includes(o));
-        if (index !== -1) return index;
-        if (name.includes('Grade')) {
-            const num = parseInt(name.replace(/\D/g, ''));
-            return 10 + (isNaN(num) ? 99 : num);
-        }
-        return 100; // Others last
-    };
-
-    return getOrder(a.name) - getOrder(b.name) || a.name.localeCompare(b.name);
-};
-
 // Optimized Card Component to prevent full list re-renders
-const StudentAttendanceCard = ({ student, onMark }: { student: StudentAttendance, onMark: (id: string, status: StudentAttendance['status']) => void }) => {
+const StudentAttendanceCard = ({ student, options, onMark, onDetail }: {
+    student: StudentAttendance,
+    options: AttendanceStatusOption[],
+    onMark: (id: string, status: string) => void,
+    onDetail: (id: string, detail: Pick<StudentAttendance, 'reason_code' | 'arrival_time'>) => void,
+}) => {
+    const selected = options.find(o => o.code === student.status);
+    const others = options.filter(o => o.code !== 'present' && o.code !== 'absent');
+
     return (
         <Card className={cn(
             "transition-colors",
-            student.status === 'present' && "border-green-500 bg-green-50 dark:bg-green-950",
-            student.status === 'absent' && "border-red-500 bg-red-50 dark:bg-red-950",
-            student.status === 'late' && "border-yellow-500 bg-yellow-50 dark:bg-yellow-950",
+            selected && STATUS_COLORS[selected.color]?.card,
         )}>
-            <CardContent className="flex items-center justify-between p-4">
-                <div>
-                    <span className="font-medium">{student.student_name}</span>
-                </div>
-                <div className="flex gap-1">
-                    <Button
-                        size="sm"
-                        variant={student.status === 'present' ? 'default' : 'outline'}
-                        className={cn(
-                            student.status === 'present' && "bg-green-600 hover:bg-green-700"
+            <CardContent className="space-y-2 p-4">
+                <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                        {student.student_name}
+                        {student.leave_request_id && (
+                            <Badge variant="outline" className="ml-2 text-xs">On leave</Badge>
                         )}
-                        onClick={() => onMark(student.student_id, 'present')}
-                    >
-                        <Check className="h-4 w-4" />
-                    </Button>
-                    <Button
-                        size="sm"
-                        variant={student.status === 'absent' ? 'destructive' : 'outline'}
-                        onClick={() => onMark(student.student_id, 'absent')}
-                    >
-                        <X className="h-4 w-4" />
-                    </Button>
-                    <Button
-                        size="sm"
-                        variant={student.status === 'late' ? 'secondary' : 'outline'}
-                        onClick={() => onMark(student.student_id, 'late')}
-                    >
-                        <Clock className="h-4 w-4" />
-                    </Button>
+                    </span>
+                    <div className="flex gap-1">
+                        <Button
+                            size="sm"
+                            variant={student.status === 'present' ? 'default' : 'outline'}
+                            className={cn(
+                                student.status === 'present' && "bg-green-600 hover:bg-green-700"
+                            )}
+                            onClick={() => onMark(student.student_id, 'present')}
+                        >
+                            <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant={student.status === 'absent' ? 'destructive' : 'outline'}
+                            onClick={() => onMark(student.student_id, 'absent')}
+                        >
+                            <X className="h-4 w-4" />
+                        </Button>
+                        {others.length > 0 && (
+                            <Select
+                                value={others.some(o => o.code === student.status) ? student.status : ''}
+                                onValueChange={(value) => onMark(student.student_id, value)}
+                            >
+                                <SelectTrigger className="h-9 w-[120px]">
+                                    <SelectValue placeholder="Other" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {others.map(o => (
+                                        <SelectItem key={o.code} value={o.code}>{o.label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        )}
+                    </div>
                 </div>
+                {selected && (selected.captures_time || selected.requires_reason) && (
+                    <div className="flex gap-2">
+                        {selected.captures_time && (
+                            <Input
+                                type="time"
+                                aria-label="Arrival time"
+                                className="h-8 w-[120px]"
+                                value={student.arrival_time?.slice(0, 5) || ''}
+                                onChange={(e) => onDetail(student.student_id, { reason_code: student.reason_code, arrival_time: e.target.value || null })}
+                            />
+                        )}
+                        {selected.requires_reason && (selected.reason_codes.length > 0 ? (
+                            <Select
+                                value={student.reason_code || ''}
+                                onValueChange={(value) => onDetail(student.student_id, { reason_code: value, arrival_time: student.arrival_time })}
+                            >
+                                <SelectTrigger className={cn("h-8 flex-1", !student.reason_code && "border-destructive")}>
+                                    <SelectValue placeholder="Reason" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {selected.reason_codes.map(r => (
+                                        <SelectItem key={r} value={r} className="capitalize">{r.replace(/_/g, ' ')}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        ) : (
+                            <Input
+                                placeholder="Reason"
+                                className={cn("h-8 flex-1", !student.reason_code && "border-destructive")}
+                                value={student.reason_code || ''}
+                                onChange={(e) => onDetail(student.student_id, { reason_code: e.target.value, arrival_time: student.arrival_time })}
+                            />
+                        ))}
+                    </div>
+                )}
             </CardContent>
         </Card>
     );
 };
 
 // Memoize the component
-// Only re-render if the student object (specifically status) changes
+// Only re-render if the student's marking (status, reason, arrival time, leave) or the status set changes
 const MemoizedStudentCard = React.memo(StudentAttendanceCard, (prev, next) => {
-    return prev.student.status === next.student.status && prev.student.student_id === next.student.student_id;
+    return prev.student.status === next.student.status
+        && prev.student.student_id === next.student.student_id
+        && prev.student.reason_code === next.student.reason_code
+        && prev.student.arrival_time === next.student.arrival_time
+        && prev.student.leave_request_id === next.student.leave_request_id
+        && prev.options === next.options
+        && prev.onMark === next.onMark;
 });
 
 export default function Attendance() {
     const { currentSchool, isTeacher, isPrincipal, isLoading: roleLoading } = useRole();
     const { toast } = useToast();
+    const { user } = useAuth();
+    const [searchParams] = useSearchParams();
 
     const [classes, setClasses] = useState<ClassInfo[]>([]);
     const [selectedClass, setSelectedClass] = useState<string>('');
@@ -122,6 +212,30 @@ export default function Attendance() {
     const [analyticsData, setAnalyticsData] = useState<any[]>([]);
     const [rankingData, setRankingData] = useState<any[]>([]);
 
+    // Period-wise attendance (classes with attendance_mode = 'period')
+    const [classesVersion, setClassesVersion] = useState(0);
+    const [periods, setPeriods] = useState<ClassPeriod[]>([]);
+    const [selectedPeriod, setSelectedPeriod] = useState<number | null>(null);
+    const [periodSummary, setPeriodSummary] = useState<PeriodSummary[]>([]);
+    const currentClass = classes.find(c => c.id === selectedClass);
+    const isPeriodMode = currentClass?.attendance_mode === 'period';
+
+    // Offline support: sheets saved without network are queued in IndexedDB and synced later
+    const isOnline = useOnlineStatus();
+    const [baseline, setBaseline] = useState<string | null>(null);
+    const [isOfflineData, setIsOfflineData] = useState(false);
+    const [queued, setQueued] = useState<QueuedAttendance[]>([]);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [attendanceVersion, setAttendanceVersion] = useState(0);
+
+    // School's status set (present, absent, late, half day, excused, ...)
+    const [statusOptions, setStatusOptions] = useState<AttendanceStatusOption[]>([]);
+    const [statusesVersion, setStatusesVersion] = useState(0);
+    const markableStatuses = useMemo(
+        () => isPeriodMode ? statusOptions.filter(o => PERIOD_STATUS_CODES.includes(o.code)) : statusOptions,
+        [statusOptions, isPeriodMode]
+    );
+
     // Fetch teacher's classes
     useEffect(() => {
         async function fetchClasses() {
@@ -135,32 +249,74 @@ export default function Attendance() {
             // Use any cast since classes table not in generated types yet
             const { data, error } = await (supabase as any)
                 .from('classes')
-                .select('id, name, grade')
+                .select('id, name, grade, attendance_mode')
                 .eq('school_id', currentSchool.school_id)
                 .eq('is_active', true)
                 .order('name');
 
+            const cacheKey = `classes:${currentSchool.school_id}`;
+            let classList: ClassInfo[] | undefined = data || undefined;
             if (error) {
+                classList = isNetworkError(error) ? await getCached<ClassInfo[]>(cacheKey) : undefined;
+            } else {
+                putCached(cacheKey, data || []);
+            }
+
+            if (!classList) {
                 console.error('Failed to fetch classes:', error);
                 toast({
                     title: "Error loading classes",
-                    description: error.message,
+                    description: error?.message,
                     variant: "destructive"
                 });
             } else {
-                const sortedClasses = (data || []).sort(sortClasses);
+                const sortedClasses = [...classList].sort(sortClasses);
                 setClasses(sortedClasses);
                 if (sortedClasses.length > 0) {
-                    // Only set default if we don't have one or if current selection is invalid
-                    // For simplicity, always default to first class on load/switch
-                    setSelectedClass(sortedClasses[0].id);
+                    // Default to the class linked from My Classes (?class=), else the first class
+                    const requested = sortedClasses.find((c: ClassInfo) => c.id === searchParams.get('class'));
+                    setSelectedClass(current => sortedClasses.some((c: ClassInfo) => c.id === current)
+                        ? current
+                        : (requested || sortedClasses[0]).id);
                 }
             }
             setIsLoading(false);
         }
 
         fetchClasses();
-    }, [currentSchool, roleLoading]);
+    }, [currentSchool, roleLoading, classesVersion]);
+
+    useEffect(() => {
+        if (!currentSchool) return;
+        const cacheKey = `statuses:${currentSchool.school_id}`;
+        fetchAttendanceStatuses(currentSchool.school_id).then(async ({ data, error }) => {
+            if (error) {
+                console.error('Failed to fetch attendance statuses:', error);
+                setStatusOptions((await getCached<AttendanceStatusOption[]>(cacheKey)) || []);
+                return;
+            }
+            putCached(cacheKey, data);
+            setStatusOptions(data);
+        });
+    }, [currentSchool, statusesVersion]);
+
+    // Timetable for the selected day; default to the caller's own period
+    useEffect(() => {
+        if (!selectedClass || !isPeriodMode) {
+            setPeriods([]);
+            setSelectedPeriod(null);
+            return;
+        }
+
+        const cacheKey = `periods:${selectedClass}:${isoWeekday(selectedDate)}`;
+        fetchClassPeriods(selectedClass, isoWeekday(selectedDate)).then(async ({ data: fetched, error }) => {
+            const data = error ? (await getCached<ClassPeriod[]>(cacheKey)) || [] : fetched;
+            if (!error) putCached(cacheKey, fetched);
+            setPeriods(data);
+            const own = data.find(p => p.teacher_id === user?.id);
+            setSelectedPeriod((own || data[0])?.period_number ?? null);
+        });
+    }, [selectedClass, selectedDate, isPeriodMode, user]);
 
     // Reset pagination when class changes
     useEffect(() => {
@@ -172,8 +328,43 @@ export default function Attendance() {
         async function fetchAttendance() {
             if (!selectedClass || !selectedDate) return;
 
+            const date = format(selectedDate, 'yyyy-MM-dd');
+            const queueKey = user ? attendanceQueueKey(user.id, selectedClass, date, isPeriodMode ? selectedPeriod : null) : null;
+            const rosterKey = `roster:${selectedClass}:${page}`;
+
+            // Marks queued offline for this sheet take precedence over the server copy
+            const applyQueued = async (roster: StudentAttendance[]) => {
+                const pending = queueKey ? await getQueued(queueKey) : undefined;
+                if (!pending) return roster;
+                const entries = new Map(pending.attendance.map(a => [a.student_id, a]));
+                return roster.map(s => {
+                    const entry = entries.get(s.student_id);
+                    return entry
+                        ? { ...s, status: entry.status, notes: entry.notes || undefined, reason_code: entry.reason_code, arrival_time: entry.arrival_time }
+                        : s;
+                });
+            };
+
+            // Last cached roster for this class, every student unmarked
+            const loadOffline = async () => {
+                const cached = (await getCached<StudentAttendance[]>(rosterKey)) || [];
+                setTotalStudents(cached.length);
+                setBaseline((await getCached<string | null>(`baseline:${queueKey}`)) ?? null);
+                setStudents(await applyQueued(cached.map(s => ({
+                    student_id: s.student_id,
+                    student_name: s.student_name,
+                    status: 'unmarked',
+                }))));
+                setIsOfflineData(true);
+            };
+
             setIsLoading(true);
             try {
+                if (!navigator.onLine) {
+                    await loadOffline();
+                    return;
+                }
+
                 // 1. Fetch Count
                 const { data: countData } = await (supabase as any).rpc('get_class_student_count', {
                     p_class_id: selectedClass
@@ -189,7 +380,30 @@ export default function Attendance() {
                 });
 
                 if (attError) throw attError;
-                setStudents((attendanceData as StudentAttendance[]) || []);
+                let roster = (attendanceData as StudentAttendance[]) || [];
+
+                // Period mode: show what was marked for the selected period, not the derived daily status
+                if (isPeriodMode && selectedPeriod) {
+                    const { data: marked } = await fetchPeriodStatuses(
+                        selectedClass,
+                        format(selectedDate, 'yyyy-MM-dd'),
+                        selectedPeriod
+                    );
+                    roster = roster.map(s => ({
+                        ...s,
+                        status: (marked.get(s.student_id)?.status as StudentAttendance['status']) || 'unmarked',
+                        notes: marked.get(s.student_id)?.notes || undefined,
+                        reason_code: null,
+                        arrival_time: null,
+                    }));
+                }
+
+                const { data: seen } = await fetchAttendanceBaseline(selectedClass, date, isPeriodMode ? selectedPeriod : null);
+                setBaseline(seen);
+                putCached(`baseline:${queueKey}`, seen);
+                putCached(rosterKey, roster.map(s => ({ student_id: s.student_id, student_name: s.student_name })));
+                setStudents(await applyQueued(roster));
+                setIsOfflineData(false);
 
                 // 3. Fetch Analytics (Summary) - Only fetch on page 1 for efficiency or separate effect? 
                 // Currently keeping it here to ensure it's fresh.
@@ -204,11 +418,20 @@ export default function Attendance() {
                         p_class_id: selectedClass
                     });
                     if (rankData) setRankingData(rankData as any[]);
+
+                    if (isPeriodMode) {
+                        const { data: byPeriod } = await fetchPeriodSummary(selectedClass);
+                        setPeriodSummary(byPeriod);
+                    }
                 }
 
             } catch (error) {
                 console.error('Failed to fetch attendance data:', error);
-                setStudents([]);
+                if (isNetworkError(error)) {
+                    await loadOffline();
+                } else {
+                    setStudents([]);
+                }
             } finally {
                 setIsLoading(false);
                 setHasChanges(false);
@@ -216,19 +439,76 @@ export default function Attendance() {
         }
 
         fetchAttendance();
-    }, [selectedClass, selectedDate, page]);
+    }, [selectedClass, selectedDate, page, isPeriodMode, selectedPeriod, attendanceVersion, user]);
+
+    const runSync = useCallback(async () => {
+        if (!user) return;
+        setIsSyncing(true);
+        const result = await syncAttendanceQueue(user.id);
+        setIsSyncing(false);
+        setQueued(await getAllQueued(user.id));
+
+        if (result.synced > 0) {
+            toast({ title: 'Attendance Synced', description: `${result.synced} sheet(s) saved offline were synced` });
+        }
+        if (result.conflicts > 0 || result.failed > 0) {
+            toast({
+                title: 'Sync Needs Attention',
+                description: `${result.conflicts + result.failed} sheet(s) could not be synced automatically`,
+                variant: 'destructive',
+            });
+        }
+    }, [user, toast]);
+
+    useEffect(() => {
+        if (user) getAllQueued(user.id).then(setQueued);
+    }, [user]);
+
+    // Sync whenever the connection comes back
+    useEffect(() => {
+        if (isOnline) runSync();
+    }, [isOnline, runSync]);
+
+    const handleResolve = async (item: QueuedAttendance, keep: 'mine' | 'theirs') => {
+        const { error } = await resolveQueuedConflict(item, keep);
+        if (error) {
+            toast({ title: 'Error', description: error.message, variant: 'destructive' });
+            return;
+        }
+        setQueued(await getAllQueued(item.user_id));
+        setAttendanceVersion(v => v + 1);
+    };
 
     // Mark attendance for a student
-    const markAttendance = useCallback((studentId: string, status: StudentAttendance['status']) => {
+    // Changing the status clears its reason; statuses that capture time default to now when marking today
+    const markAttendance = useCallback((studentId: string, status: string) => {
+        const option = statusOptions.find(o => o.code === status);
+        const now = format(new Date(), 'yyyy-MM-dd') === format(selectedDate, 'yyyy-MM-dd') ? format(new Date(), 'HH:mm') : null;
         setStudents(prev => prev.map(s =>
-            s.student_id === studentId ? { ...s, status } : s
+            s.student_id === studentId
+                ? {
+                    ...s,
+                    status,
+                    reason_code: s.status === status ? s.reason_code : null,
+                    arrival_time: option?.captures_time ? (s.arrival_time || now) : null,
+                }
+                : s
+        ));
+        setHasChanges(true);
+    }, [statusOptions, selectedDate]);
+
+    const updateDetail = useCallback((studentId: string, detail: Pick<StudentAttendance, 'reason_code' | 'arrival_time'>) => {
+        setStudents(prev => prev.map(s =>
+            s.student_id === studentId ? { ...s, ...detail } : s
         ));
         setHasChanges(true);
     }, []);
 
-    // Mark all students
-    const markAll = (status: 'present' | 'absent') => {
-        setStudents(prev => prev.map(s => ({ ...s, status })));
+    // Mark all students, leaving those on approved leave as they are
+    const markAll = (status: string) => {
+        setStudents(prev => prev.map(s =>
+            s.leave_request_id ? s : { ...s, status, reason_code: null, arrival_time: null }
+        ));
         setHasChanges(true);
     };
 
@@ -236,6 +516,21 @@ export default function Attendance() {
     const saveAttendance = async () => {
         if (!selectedClass) return;
 
+        const missingReason = students.find(s =>
+            statusOptions.find(o => o.code === s.status)?.requires_reason && !s.reason_code?.trim()
+        );
+        if (missingReason) {
+            toast({
+                title: 'Reason Required',
+                description: `Add a reason for ${missingReason.student_name}`,
+                variant: 'destructive',
+            });
+            return;
+        }
+
+        const date = format(selectedDate, 'yyyy-MM-dd');
+        const periodNumber = isPeriodMode ? selectedPeriod : null;
+
         setIsSaving(true);
         try {
             const attendance = students
@@ -244,19 +539,63 @@ export default function Attendance() {
                     student_id: s.student_id,
                     status: s.status,
                     notes: s.notes || null,
+                    reason_code: s.reason_code?.trim() || null,
+                    arrival_time: s.arrival_time || null,
                 }));
 
-            const { error } = await supabase.rpc('mark_attendance_bulk' as any, {
-                p_class_id: selectedClass,
-                p_date: format(selectedDate, 'yyyy-MM-dd'),
-                p_attendance: attendance,
-            });
+            if (isPeriodMode && !selectedPeriod) throw new Error('Select a period first');
+
+            // Without network the sheet is queued on this device and synced later
+            const queueOffline = async () => {
+                if (!currentSchool) throw new Error('No school selected');
+                if (!user) throw new Error('Not signed in');
+                await putQueued({
+                    key: attendanceQueueKey(user.id, selectedClass, date, periodNumber),
+                    user_id: user.id,
+                    school_id: currentSchool.school_id,
+                    class_id: selectedClass,
+                    class_name: currentClass?.name || '',
+                    date,
+                    period_number: periodNumber,
+                    attendance,
+                    baseline,
+                    queued_at: new Date().toISOString(),
+                    state: 'pending',
+                });
+                setQueued(await getAllQueued(user.id));
+                toast({
+                    title: 'Saved Offline',
+                    description: `Attendance for ${format(selectedDate, 'MMM d, yyyy')} will sync when you are back online`,
+                });
+                setHasChanges(false);
+            };
 
-            if (error) throw error;
+            if (!navigator.onLine) {
+                await queueOffline();
+                return;
+            }
+
+            try {
+                if (periodNumber) {
+                    const { error } = await markPeriodAttendance(selectedClass, date, periodNumber, attendance);
+                    if (error) throw error;
+                } else {
+                    const { error } = await supabase.rpc('mark_attendance_bulk' as any, {
+                        p_class_id: selectedClass,
+                        p_date: date,
+                        p_attendance: attendance,
+                    });
+                    if (error) throw error;
+                }
+            } catch (error) {
+                if (!isNetworkError(error)) throw error;
+                await queueOffline();
+                return;
+            }
 
             toast({
                 title: 'Attendance Saved',
-                description: `Marked ${attendance.length} students for ${format(selectedDate, 'MMM d, yyyy')}`,
+                description: `Marked ${attendance.length} students for ${format(selectedDate, 'MMM d, yyyy')}${periodNumber ? ` (period ${periodNumber})` : ''}`,
             });
             setHasChanges(false);
         } catch (error: any) {
@@ -271,12 +610,12 @@ export default function Attendance() {
     };
 
     // Stats
-    const stats = {
-        present: students.filter(s => s.status === 'present').length,
-        absent: students.filter(s => s.status === 'absent').length,
-        late: students.filter(s => s.status === 'late').length,
-        unmarked: students.filter(s => s.status === 'unmarked').length,
-    };
+    const statusCounts = students.reduce<Record<string, number>>((counts, s) => {
+        counts[s.status] = (counts[s.status] || 0) + 1;
+        return counts;
+    }, {});
+    const unmarkedCount = statusCounts.unmarked || 0;
+    const todayPresence = attendancePercentage(students.map(s => s.status), statusOptions);
 
     return (
         <div className="container mx-auto py-6 px-4 max-w-2xl">
@@ -284,14 +623,82 @@ export default function Attendance() {
                 {/* Header */}
                 <div className="flex items-center justify-between">
                     <h1 className="text-2xl font-bold">Attendance</h1>
-                    {hasChanges && (
-                        <Button onClick={saveAttendance} disabled={isSaving}>
-                            {isSaving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
-                            Save
-                        </Button>
-                    )}
+                    <div className="flex items-center gap-2">
+                        {isPrincipal && currentSchool && (
+                            <AttendanceStatusDialog
+                                schoolId={currentSchool.school_id}
+                                onChange={() => setStatusesVersion(v => v + 1)}
+                            />
+                        )}
+                        {isPrincipal && currentClass && currentSchool && (
+                            <TimetableDialog
+                                classId={currentClass.id}
+                                className={currentClass.name}
+                                schoolId={currentSchool.school_id}
+                                mode={currentClass.attendance_mode || 'daily'}
+                                onChange={() => setClassesVersion(v => v + 1)}
+                            />
+                        )}
+                        {currentClass && currentSchool && isOnline && (
+                            <AttendanceRegisterDialog
+                                schoolId={currentSchool.school_id}
+                                classId={currentClass.id}
+                                className={currentClass.name}
+                                statusOptions={statusOptions}
+                            />
+                        )}
+                        {hasChanges && (
+                            <Button onClick={saveAttendance} disabled={isSaving || (isPeriodMode && !selectedPeriod)}>
+                                {isSaving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+                                Save
+                            </Button>
+                        )}
+                    </div>
                 </div>
 
+                {/* Offline / Sync Queue */}
+                {(!isOnline || isOfflineData || queued.length > 0) && (
+                    <Alert>
+                        <CloudOff className="h-4 w-4" />
+                        <AlertDescription className="space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                                <span>
+                                    {!isOnline || isOfflineData
+                                        ? 'You are offline. Attendance is saved on this device and synced when you reconnect.'
+                                        : `${queued.length} attendance sheet(s) saved offline are waiting to sync.`}
+                                </span>
+                                {isOnline && queued.some(q => q.state !== 'conflict') && (
+                                    <Button size="sm" variant="outline" onClick={runSync} disabled={isSyncing}>
+                                        <RefreshCw className={cn("h-4 w-4 mr-1", isSyncing && "animate-spin")} />
+                                        Sync
+                                    </Button>
+                                )}
+                            </div>
+                            {queued.filter(q => q.state !== 'pending').map(q => (
+                                <div key={q.key} className="flex flex-wrap items-center justify-between gap-2 rounded border p-2">
+                                    <span className="text-sm">
+                                        {q.class_name} · {format(new Date(`${q.date}T00:00:00`), 'MMM d')}
+                                        {q.period_number ? ` · Period ${q.period_number}` : ''}:{' '}
+                                        {q.state === 'conflict'
+                                            ? `${q.conflict?.marked_by_others} student(s) were marked by someone else after you saved offline`
+                                            : q.error}
+                                    </span>
+                                    <div className="flex gap-1">
+                                        {q.state === 'conflict' && (
+                                            <Button size="sm" onClick={() => handleResolve(q, 'mine')}>
+                                                Keep Mine
+                                            </Button>
+                                        )}
+                                        <Button size="sm" variant="outline" onClick={() => handleResolve(q, 'theirs')}>
+                                            {q.state === 'conflict' ? 'Keep Theirs' : 'Discard'}
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
+                        </AlertDescription>
+                    </Alert>
+                )}
+
                 {/* Class & Date Selection */}
                 <div className="grid grid-cols-2 gap-4">
                     <Select value={selectedClass} onValueChange={setSelectedClass}>
@@ -332,6 +739,35 @@ export default function Attendance() {
                     </div>
                 </div>
 
+                {/* Period Selection */}
+                {isPeriodMode && (
+                    periods.length === 0 ? (
+                        <Alert>
+                            <AlertDescription>
+                                No periods are scheduled for this class on {format(selectedDate, 'EEEE')}.
+                            </AlertDescription>
+                        </Alert>
+                    ) : (
+                        <Select
+                            value={selectedPeriod ? String(selectedPeriod) : ''}
+                            onValueChange={(value) => setSelectedPeriod(Number(value))}
+                        >
+                            <SelectTrigger>
+                                <SelectValue placeholder="Select Period" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {periods.map(p => (
+                                    <SelectItem key={p.period_number} value={String(p.period_number)}>
+                                        Period {p.period_number} · {p.subject}
+                                        {p.start_time ? ` (${p.start_time.slice(0, 5)})` : ''}
+                                        {p.teacher_id === user?.id ? ' · yours' : ''}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    )
+                )}
+
                 {/* Quick Actions */}
                 <div className="flex gap-2">
                     <Button variant="outline" size="sm" onClick={() => markAll('present')} className="flex-1">
@@ -343,19 +779,17 @@ export default function Attendance() {
                 </div>
 
                 {/* Stats Bar */}
-                <div className="flex gap-2 text-sm">
-                    <Badge variant="default" className="bg-green-500">
-                        Present: {stats.present}
-                    </Badge>
-                    <Badge variant="destructive">
-                        Absent: {stats.absent}
-                    </Badge>
-                    <Badge variant="secondary">
-                        Late: {stats.late}
-                    </Badge>
-                    {stats.unmarked > 0 && (
+                <div className="flex flex-wrap gap-2 text-sm">
+                    {markableStatuses
+                        .filter(o => o.is_system || statusCounts[o.code])
+                        .map(o => (
+                            <Badge key={o.code} variant="default" className={STATUS_COLORS[o.color]?.badge}>
+                                {o.label}: {statusCounts[o.code] || 0}
+                            </Badge>
+                        ))}
+                    {unmarkedCount > 0 && (
                         <Badge variant="outline">
-                            Unmarked: {stats.unmarked}
+                            Unmarked: {unmarkedCount}
                         </Badge>
                     )}
                 </div>
@@ -425,7 +859,7 @@ export default function Attendance() {
                                     <div className="mt-4 grid grid-cols-2 gap-4 text-center">
                                         <div className="p-2 bg-muted rounded">
                                             <div className="text-xl font-bold text-green-600">
-                                                {Math.round((stats.present / (students.length || 1)) * 100)}%
+                                                {todayPresence === null ? '-' : `${Math.round(todayPresence)}%`}
                                             </div>
                                             <div className="text-xs text-muted-foreground">Today's Presence</div>
                                         </div>
@@ -475,12 +909,34 @@ export default function Attendance() {
                             </Card>
                         </div>
 
+                        {isPeriodMode && periodSummary.length > 0 && (
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="text-lg">Attendance by Period</CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                    <div className="h-[200px] w-full">
+                                        <ResponsiveContainer width="100%" height="100%">
+                                            <BarChart data={periodSummary.map(p => ({ ...p, label: `P${p.period_number}` }))}>
+                                                <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                                                <YAxis domain={[0, 100]} />
+                                                <Tooltip />
+                                                <Bar dataKey="attendance_percentage" fill="#2563eb" radius={[4, 4, 0, 0]} name="Attendance %" />
+                                            </BarChart>
+                                        </ResponsiveContainer>
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        )}
+
                         <div className="space-y-2">
                             {students.map((student) => (
                                 <MemoizedStudentCard
                                     key={student.student_id}
                                     student={student}
+                                    options={markableStatuses}
                                     onMark={markAttendance}
+                                    onDetail={updateDetail}
                                 />
                             ))}
                         </div>
@@ -5,6 +5,8 @@ import { Users, UserCheck, CreditCard, TrendingUp, DollarSign, Receipt, LayoutDa
 import { useCurrency } from '@/contexts/CurrencyContext';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import SystemStatus from '@/components/SystemStatus';
+import { AttendanceAlertsCard } from '@/components/AttendanceAlertsCard';
+import { StaffCheckInCard } from '@/components/StaffCheckInCard';
 import { AIChatBox } from '@/components/ai/AIChatBox';
 import { useFinancialData } from '@/hooks/useFinancialData';
 import { useRole } from '@/contexts/RoleContext';
@@ -538,6 +540,14 @@ const Dashboard = () => {
         </Card>
       </div>
 
+      {/* Own check-in, for users with a staff record */}
+      {currentSchool && <StaffCheckInCard schoolId={currentSchool.school_id} />}
+
+      {/* Absenteeism */}
+      {isPrincipal && currentSchool && (
+        <AttendanceAlertsCard schoolId={currentSchool.school_id} canConfigure />
+      )}
+
       {/* AI Assistant Floating Button */}
       <AIChatBox />
     </div>
@@ -10,12 +10,15 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Edit, Trash2, Receipt, Search, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Plus, Edit, Trash2, Receipt, Search, ChevronLeft, ChevronRight, AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useCurrency } from '@/contexts/CurrencyContext';
 import { ExpenseBatchImport } from '@/components/ExpenseBatchImport';
 import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useRole } from '@/contexts/RoleContext';
+import { BudgetCheck, checkExpenseBudget } from '@/services/expenseBudgetService';
 
 const ITEMS_PER_PAGE = 20;
 
@@ -38,6 +41,7 @@ type Expense = {
 
 const Expenses = () => {
   const { user } = useAuth();
+  const { currentSchool } = useRole();
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -52,6 +56,7 @@ const Expenses = () => {
   const [debouncedSearch, setDebouncedSearch] = useState(searchQuery);
   const [currentPage, setCurrentPage] = useState(parseInt(searchParams.get('page') || '1', 10));
   const [totalCount, setTotalCount] = useState(0);
+  const [budgetCheck, setBudgetCheck] = useState<BudgetCheck | null>(null);
 
   const form = useForm<z.infer<typeof expenseSchema>>({
     resolver: zodResolver(expenseSchema),
@@ -63,6 +68,37 @@ const Expenses = () => {
     },
   });
 
+  const watchedCategory = form.watch('category');
+  const watchedAmount = form.watch('amount');
+  const watchedDate = form.watch('expense_date');
+
+  // Warn when the entry would take its category over budget (not blocking)
+  useEffect(() => {
+    if (!isDialogOpen || !currentSchool || !watchedCategory.trim() || !watchedDate || !(watchedAmount > 0)) {
+      setBudgetCheck(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const { data } = await checkExpenseBudget(
+        currentSchool.school_id,
+        watchedCategory,
+        watchedDate,
+        watchedAmount,
+        editingExpense?.id
+      );
+      setBudgetCheck(data);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [isDialogOpen, currentSchool, watchedCategory, watchedAmount, watchedDate, editingExpense]);
+
+  const budgetWindow = (check: BudgetCheck) => {
+    const date = new Date(`${watchedDate}T00:00:00`);
+    return check.period === 'monthly'
+      ? `${date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })} budget`
+      : `${date.getFullYear()} budget`;
+  };
+
   // Debounce search input
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -172,14 +208,13 @@ const Expenses = () => {
   const onSubmit = async (data: z.infer<typeof expenseSchema>) => {
     if (!user) return;
     try {
-      const receiptNumber = `EXP-${Date.now()}`;
+      // receipt_number is allocated by the database (per-school sequence)
       const payload = {
         description: data.description,
         amount: data.amount,
         category: data.category,
         expense_date: data.expense_date,
         vendor: data.description,
-        receipt_number: receiptNumber,
         user_id: user.id,
       };
 
@@ -439,6 +474,16 @@ const Expenses = () => {
                       </FormItem>
                     )}
                   />
+                  {budgetCheck && budgetCheck.spent_after > budgetCheck.budget_amount && (
+                    <Alert variant="destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>
+                        This takes {budgetCheck.category} to {formatAmount(budgetCheck.spent_after)} against
+                        its {budgetWindow(budgetCheck)} of {formatAmount(budgetCheck.budget_amount)},{' '}
+                        {formatAmount(budgetCheck.spent_after - budgetCheck.budget_amount)} over.
+                      </AlertDescription>
+                    </Alert>
+                  )}
                   <div className="flex justify-end space-x-2 pt-4">
                     <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                       Cancel
@@ -0,0 +1,412 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { StudentSearchSelect } from '@/components/ui/StudentSearchSelect';
+import { FamilyPaymentDialog } from '@/components/FamilyPaymentDialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useRole } from '@/contexts/RoleContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { Plus, Edit, Trash2, Search, Wallet, X, HeartHandshake, KeyRound } from 'lucide-react';
+import { Family, FamilyInput, createParentInvite, deleteFamily, fetchFamilies, saveFamily } from '@/services/familyService';
+
+const EMPTY_FAMILY: FamilyInput = {
+  name: '',
+  guardian_name: '',
+  phone: '',
+  alt_phone: '',
+  email: '',
+  address: '',
+};
+
+const Families = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { formatAmount } = useCurrency();
+  const { isPrincipal, isAccountant, canCollectFees } = useRole();
+  const { data: financialData, refresh: refreshFinancialData } = useFinancialData();
+
+  const [families, setFamilies] = useState<Family[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [folderOutstanding, setFolderOutstanding] = useState<Map<string, number>>(new Map());
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingFamily, setEditingFamily] = useState<Family | null>(null);
+  const [form, setForm] = useState<FamilyInput>(EMPTY_FAMILY);
+  const [members, setMembers] = useState<{ id: string; name: string }[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const [payingFamily, setPayingFamily] = useState<Family | null>(null);
+  const [parentInvite, setParentInvite] = useState<{ family: string; code: string; expires_at: string } | null>(null);
+  const feeStudents = useMemo(() => financialData?.fees?.students || [], [financialData]);
+
+  const canManage = isPrincipal || isAccountant;
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const loadFamilies = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await fetchFamilies(debouncedSearch);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch families', variant: 'destructive' });
+    }
+    setFamilies(data);
+
+    // Fee folder dues per child, for the combined outstanding column
+    const studentIds = data.flatMap(f => f.students.map(s => s.id));
+    const outstanding = new Map<string, number>();
+    if (studentIds.length > 0) {
+      const { data: folders } = await supabase
+        .from('fee_folders')
+        .select('student_id, amount_due, amount_paid')
+        .in('student_id', studentIds)
+        .neq('status', 'paid');
+      for (const folder of folders || []) {
+        const due = Math.max(Number(folder.amount_due) - Number(folder.amount_paid || 0), 0);
+        outstanding.set(folder.student_id, (outstanding.get(folder.student_id) || 0) + due);
+      }
+    }
+    setFolderOutstanding(outstanding);
+    setLoading(false);
+  }, [debouncedSearch, toast]);
+
+  useEffect(() => {
+    loadFamilies();
+  }, [loadFamilies]);
+
+  // Tuition still owed (advances are not netted against siblings) plus fee folder dues
+  const getFamilyOutstanding = (family: Family) =>
+    family.students
+      .filter(s => !s.is_archived)
+      .reduce((sum, s) => {
+        const tuition = feeStudents.find(f => f.student_id === s.id)?.remaining_fee || 0;
+        return sum + Math.max(tuition, 0) + (folderOutstanding.get(s.id) || 0);
+      }, 0);
+
+  const openDialog = (family: Family | null) => {
+    setEditingFamily(family);
+    setForm(family ? {
+      name: family.name,
+      guardian_name: family.guardian_name || '',
+      phone: family.phone || '',
+      alt_phone: family.alt_phone || '',
+      email: family.email || '',
+      address: family.address || '',
+    } : EMPTY_FAMILY);
+    setMembers(family ? family.students.map(s => ({ id: s.id, name: s.name })) : []);
+    setIsDialogOpen(true);
+  };
+
+  const addMember = (studentId: string, studentName?: string) => {
+    if (!studentId || members.some(m => m.id === studentId)) return;
+    setMembers([...members, { id: studentId, name: studentName || 'Student' }]);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (!form.name.trim()) {
+      toast({ title: 'Error', description: 'Family name is required', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveFamily(form, members.map(m => m.id), user.id, editingFamily?.id);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: `Family ${editingFamily ? 'updated' : 'added'} successfully` });
+    setIsDialogOpen(false);
+    loadFamilies();
+  };
+
+  const handleDelete = async (family: Family) => {
+    if (!confirm(`Delete ${family.name}? The children stay enrolled and are only unlinked.`)) return;
+
+    const { error } = await deleteFamily(family.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: 'Family deleted successfully' });
+    loadFamilies();
+  };
+
+  const handleInviteParent = async (family: Family) => {
+    const { data, error } = await createParentInvite(family.id);
+    if (error || !data) {
+      toast({ title: 'Error', description: error?.message || 'Failed to create invite', variant: 'destructive' });
+      return;
+    }
+    setParentInvite({ family: family.name, ...data });
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex justify-between items-center">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <HeartHandshake className="w-8 h-8 text-primary" />
+            <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              Families
+            </h1>
+          </div>
+          <p className="text-muted-foreground">Siblings grouped by guardian, with combined dues and payments</p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openDialog(null)} className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Family
+          </Button>
+        )}
+      </div>
+
+      <div className="relative max-w-md">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+        <Input
+          placeholder="Search by guardian name or phone..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+        <CardHeader>
+          <CardTitle>Families List</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Family</TableHead>
+                  <TableHead>Guardian</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Children</TableHead>
+                  <TableHead>Outstanding</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading && families.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : families.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      {debouncedSearch ? 'No families match your search' : 'No families found'}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  families.map((family) => (
+                    <TableRow key={family.id}>
+                      <TableCell className="font-medium">{family.name}</TableCell>
+                      <TableCell>{family.guardian_name || '-'}</TableCell>
+                      <TableCell>
+                        {family.phone || '-'}
+                        {family.alt_phone && <p className="text-xs text-muted-foreground">{family.alt_phone}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {family.students.map(student => (
+                            <Badge key={student.id} variant={student.is_archived ? 'outline' : 'secondary'}>
+                              {student.name}{student.class ? ` (${student.class})` : ''}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-semibold text-primary">{formatAmount(getFamilyOutstanding(family))}</TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          {canCollectFees && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={!family.students.some(s => !s.is_archived)}
+                              onClick={() => setPayingFamily(family)}
+                            >
+                              <Wallet className="w-4 h-4 mr-1" />
+                              Collect
+                            </Button>
+                          )}
+                          {isPrincipal && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Invite parent"
+                              onClick={() => handleInviteParent(family)}
+                            >
+                              <KeyRound className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {canManage && (
+                            <>
+                              <Button variant="outline" size="sm" onClick={() => openDialog(family)}>
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDelete(family)}
+                                className="text-destructive hover:text-destructive"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingFamily ? 'Edit Family' : 'Add New Family'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="family-name">Family Name</Label>
+              <Input id="family-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="family-guardian">Guardian Name</Label>
+                <Input
+                  id="family-guardian"
+                  value={form.guardian_name || ''}
+                  onChange={(e) => setForm({ ...form, guardian_name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="family-email">Email</Label>
+                <Input
+                  id="family-email"
+                  type="email"
+                  value={form.email || ''}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="family-phone">Phone</Label>
+                <Input id="family-phone" value={form.phone || ''} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="family-alt-phone">Alternate Phone</Label>
+                <Input
+                  id="family-alt-phone"
+                  value={form.alt_phone || ''}
+                  onChange={(e) => setForm({ ...form, alt_phone: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="family-address">Address</Label>
+              <Textarea
+                id="family-address"
+                rows={2}
+                value={form.address || ''}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Children</Label>
+              <div className="flex flex-wrap gap-2">
+                {members.map(member => (
+                  <Badge key={member.id} variant="secondary" className="gap-1">
+                    {member.name}
+                    <button
+                      type="button"
+                      aria-label={`Remove ${member.name}`}
+                      onClick={() => setMembers(members.filter(m => m.id !== member.id))}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+              <StudentSearchSelect
+                key={members.length}
+                value=""
+                onChange={addMember}
+                placeholder="Add a child by name or guardian phone..."
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+              >
+                {saving ? 'Saving...' : editingFamily ? 'Update Family' : 'Add Family'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!parentInvite} onOpenChange={(open) => !open && setParentInvite(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Parent Invite Code</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 text-center">
+            <p className="text-sm text-muted-foreground">
+              Share this code with the parent of {parentInvite?.family}. After signing in they can see only these children.
+            </p>
+            <p className="text-2xl font-mono font-bold tracking-widest">{parentInvite?.code}</p>
+            <p className="text-xs text-muted-foreground break-all">
+              Redeem at {window.location.origin}/join?code={parentInvite?.code}
+            </p>
+            {parentInvite?.expires_at && (
+              <p className="text-xs text-muted-foreground">
+                Expires {new Date(parentInvite.expires_at).toLocaleDateString()}
+              </p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <FamilyPaymentDialog
+        family={payingFamily}
+        feeStudents={feeStudents}
+        onClose={() => setPayingFamily(null)}
+        onComplete={() => {
+          refreshFinancialData();
+          loadFamilies();
+        }}
+      />
+    </div>
+  );
+};
+
+export default Families;
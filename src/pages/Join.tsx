@@ -0,0 +1,294 @@
+/**
+ * Join Page
+ *
+ * Redeems a parent invitation code (created on the Families page):
+ * 1. Parent signs in, or creates an account with the code
+ * 2. Signed in, they submit the code
+ * 3. The school adds them as a parent of that family and they go to /parent
+ */
+
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useRole } from '@/contexts/RoleContext';
+import { redeemParentInvite } from '@/services/familyService';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Users } from 'lucide-react';
+import { z } from 'zod';
+
+const signInSchema = z.object({
+    code: z.string().trim().min(1, 'Enter your invite code'),
+    email: z.string().email('Invalid email address'),
+    password: z.string().min(6, 'Password must be at least 6 characters'),
+});
+
+const signUpSchema = signInSchema.extend({
+    name: z.string().min(2, 'Name must be at least 2 characters'),
+});
+
+const Join = () => {
+    const { user, signIn, signUp, signOut, loading } = useAuth();
+    const { refreshRoles } = useRole();
+    const navigate = useNavigate();
+    const [searchParams] = useSearchParams();
+    const [code, setCode] = useState(searchParams.get('code') ?? '');
+    const [isLoading, setIsLoading] = useState(false);
+    const [errors, setErrors] = useState<Record<string, string>>({});
+
+    // Code typed at sign up, carried through the email confirmation
+    const inviteCode = code || (user?.user_metadata?.invite_code as string | undefined) || '';
+
+    const collectErrors = (error: z.ZodError) => {
+        const fieldErrors: Record<string, string> = {};
+        error.errors.forEach((err) => {
+            if (err.path[0]) {
+                fieldErrors[err.path[0] as string] = err.message;
+            }
+        });
+        setErrors(fieldErrors);
+    };
+
+    const handleSignIn = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setErrors({});
+
+        const formData = new FormData(e.currentTarget);
+        const parsed = signInSchema.safeParse({
+            code: inviteCode,
+            email: formData.get('email') as string,
+            password: formData.get('password') as string,
+        });
+        if (!parsed.success) {
+            collectErrors(parsed.error);
+            return;
+        }
+
+        setIsLoading(true);
+        await signIn(parsed.data.email, parsed.data.password);
+        setIsLoading(false);
+    };
+
+    const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setErrors({});
+
+        const formData = new FormData(e.currentTarget);
+        const parsed = signUpSchema.safeParse({
+            code: inviteCode,
+            name: formData.get('name') as string,
+            email: formData.get('email') as string,
+            password: formData.get('password') as string,
+        });
+        if (!parsed.success) {
+            collectErrors(parsed.error);
+            return;
+        }
+
+        setIsLoading(true);
+        await signUp(parsed.data.email, parsed.data.password, parsed.data.name, parsed.data.code.toUpperCase());
+        setIsLoading(false);
+    };
+
+    const handleRedeem = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setErrors({});
+
+        if (!inviteCode.trim()) {
+            setErrors({ code: 'Enter your invite code' });
+            return;
+        }
+
+        setIsLoading(true);
+        const { error } = await redeemParentInvite(inviteCode);
+        if (error) {
+            setErrors({ form: error.message });
+            setIsLoading(false);
+            return;
+        }
+
+        await refreshRoles();
+        setIsLoading(false);
+        navigate('/parent', { replace: true });
+    };
+
+    if (loading) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+        );
+    }
+
+    const codeField = (
+        <div className="space-y-2">
+            <Label htmlFor="join-code">Invite Code</Label>
+            <Input
+                id="join-code"
+                value={inviteCode}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="Code from your school"
+                className={`font-mono tracking-widest ${errors.code ? 'border-destructive' : ''}`}
+                autoComplete="off"
+            />
+            {errors.code && (
+                <p className="text-sm text-destructive">{errors.code}</p>
+            )}
+        </div>
+    );
+
+    const formError = errors.form && (
+        <div className="p-3 rounded bg-destructive/10 text-destructive text-sm font-medium">
+            {errors.form}
+        </div>
+    );
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+            <Card className="w-full max-w-md shadow-card border-0 bg-card/50 backdrop-blur-sm">
+                <CardHeader className="text-center space-y-4">
+                    <div className="mx-auto w-12 h-12 bg-gradient-to-r from-primary to-primary-glow rounded-xl flex items-center justify-center">
+                        <Users className="w-6 h-6 text-primary-foreground" />
+                    </div>
+                    <div>
+                        <CardTitle className="text-2xl font-bold">Join as a Parent</CardTitle>
+                        <CardDescription className="text-muted-foreground">
+                            Use the invite code your school gave you to see your children's records
+                        </CardDescription>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {user ? (
+                        <form onSubmit={handleRedeem} className="space-y-4">
+                            {formError}
+                            <p className="text-sm text-muted-foreground">
+                                Signed in as <span className="font-medium text-foreground">{user.email}</span>
+                            </p>
+                            {codeField}
+                            <Button
+                                type="submit"
+                                className="w-full bg-gradient-to-r from-primary to-primary-glow hover:opacity-90 transition-opacity"
+                                disabled={isLoading}
+                            >
+                                {isLoading ? 'Joining...' : 'Join'}
+                            </Button>
+                            <Button type="button" variant="ghost" className="w-full" onClick={() => signOut()}>
+                                Use a different account
+                            </Button>
+                        </form>
+                    ) : (
+                        <Tabs defaultValue="signup" className="w-full">
+                            <TabsList className="grid w-full grid-cols-2 mb-6">
+                                <TabsTrigger value="signup">Create Account</TabsTrigger>
+                                <TabsTrigger value="signin">I Have an Account</TabsTrigger>
+                            </TabsList>
+
+                            <TabsContent value="signup">
+                                <form onSubmit={handleSignUp} className="space-y-4">
+                                    {formError}
+                                    {codeField}
+                                    <div className="space-y-2">
+                                        <Label htmlFor="join-name">Full Name</Label>
+                                        <Input
+                                            id="join-name"
+                                            name="name"
+                                            type="text"
+                                            placeholder="Enter your full name"
+                                            className={errors.name ? 'border-destructive' : ''}
+                                            required
+                                        />
+                                        {errors.name && (
+                                            <p className="text-sm text-destructive">{errors.name}</p>
+                                        )}
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label htmlFor="join-signup-email">Email</Label>
+                                        <Input
+                                            id="join-signup-email"
+                                            name="email"
+                                            type="email"
+                                            placeholder="Enter your email"
+                                            className={errors.email ? 'border-destructive' : ''}
+                                            required
+                                        />
+                                        {errors.email && (
+                                            <p className="text-sm text-destructive">{errors.email}</p>
+                                        )}
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label htmlFor="join-signup-password">Password</Label>
+                                        <Input
+                                            id="join-signup-password"
+                                            name="password"
+                                            type="password"
+                                            placeholder="Create a password"
+                                            className={errors.password ? 'border-destructive' : ''}
+                                            required
+                                        />
+                                        {errors.password && (
+                                            <p className="text-sm text-destructive">{errors.password}</p>
+                                        )}
+                                    </div>
+                                    <Button
+                                        type="submit"
+                                        className="w-full bg-gradient-to-r from-primary to-primary-glow hover:opacity-90 transition-opacity"
+                                        disabled={isLoading}
+                                    >
+                                        {isLoading ? 'Creating account...' : 'Create Account'}
+                                    </Button>
+                                </form>
+                            </TabsContent>
+
+                            <TabsContent value="signin">
+                                <form onSubmit={handleSignIn} className="space-y-4">
+                                    {formError}
+                                    {codeField}
+                                    <div className="space-y-2">
+                                        <Label htmlFor="join-signin-email">Email</Label>
+                                        <Input
+                                            id="join-signin-email"
+                                            name="email"
+                                            type="email"
+                                            placeholder="Enter your email"
+                                            className={errors.email ? 'border-destructive' : ''}
+                                            required
+                                        />
+                                        {errors.email && (
+                                            <p className="text-sm text-destructive">{errors.email}</p>
+                                        )}
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label htmlFor="join-signin-password">Password</Label>
+                                        <Input
+                                            id="join-signin-password"
+                                            name="password"
+                                            type="password"
+                                            placeholder="Enter your password"
+                                            className={errors.password ? 'border-destructive' : ''}
+                                            required
+                                        />
+                                        {errors.password && (
+                                            <p className="text-sm text-destructive">{errors.password}</p>
+                                        )}
+                                    </div>
+                                    <Button
+                                        type="submit"
+                                        className="w-full bg-gradient-to-r from-primary to-primary-glow hover:opacity-90 transition-opacity"
+                                        disabled={isLoading}
+                                    >
+                                        {isLoading ? 'Signing in...' : 'Sign In'}
+                                    </Button>
+                                </form>
+                            </TabsContent>
+                        </Tabs>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default Join;
@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useRole } from '@/contexts/RoleContext';
+import { LeaveRequestDialog } from '@/components/LeaveRequestDialog';
+import { AttendanceStatusOption, fetchAttendanceStatuses } from '@/services/attendanceStatusService';
+import {
+  LEAVE_STATUS_LABELS,
+  LEAVE_STATUS_VARIANTS,
+  LeaveRequestStatus,
+  StudentLeaveRequest,
+  cancelLeaveRequest,
+  decideLeaveRequest,
+  fetchLeaveRequests,
+  formatLeaveDates,
+} from '@/services/studentLeaveService';
+import { CalendarOff, Check, X } from 'lucide-react';
+
+type LeaveFilter = LeaveRequestStatus | 'all';
+
+const LeaveRequests = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { currentSchool, isPrincipal } = useRole();
+
+  const [filter, setFilter] = useState<LeaveFilter>('pending');
+  const [requests, setRequests] = useState<StudentLeaveRequest[]>([]);
+  const [statusOptions, setStatusOptions] = useState<AttendanceStatusOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deciding, setDeciding] = useState<{ request: StudentLeaveRequest; approve: boolean } | null>(null);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadRequests = useCallback(async () => {
+    if (!currentSchool) return;
+    const { data, error } = await fetchLeaveRequests(
+      currentSchool.school_id,
+      filter === 'all' ? {} : { status: filter }
+    );
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch leave requests', variant: 'destructive' });
+    }
+    setRequests(data);
+    setLoading(false);
+  }, [currentSchool, filter, toast]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  useEffect(() => {
+    if (!currentSchool) return;
+    fetchAttendanceStatuses(currentSchool.school_id, true).then(({ data }) => setStatusOptions(data));
+  }, [currentSchool]);
+
+  const statusLabel = (code: string) => statusOptions.find(o => o.code === code)?.label || code;
+
+  const openDecision = (request: StudentLeaveRequest, approve: boolean) => {
+    setNote('');
+    setDeciding({ request, approve });
+  };
+
+  const handleDecide = async () => {
+    if (!deciding) return;
+    setSaving(true);
+    const { error } = await decideLeaveRequest(deciding.request.id, deciding.approve, note.trim() || undefined);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: `Leave ${deciding.approve ? 'approved' : 'rejected'}` });
+    setDeciding(null);
+    loadRequests();
+  };
+
+  const handleCancel = async (request: StudentLeaveRequest) => {
+    const { error } = await cancelLeaveRequest(request.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: 'Leave request cancelled' });
+    loadRequests();
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <CalendarOff className="w-8 h-8 text-primary" />
+            <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              Leave Requests
+            </h1>
+          </div>
+          <p className="text-muted-foreground">Planned student absences, approved by the class teacher or principal</p>
+        </div>
+        {currentSchool && <LeaveRequestDialog schoolId={currentSchool.school_id} onSubmitted={loadRequests} />}
+      </div>
+
+      <Tabs value={filter} onValueChange={(value) => setFilter(value as LeaveFilter)}>
+        <TabsList>
+          <TabsTrigger value="pending">Pending</TabsTrigger>
+          <TabsTrigger value="approved">Approved</TabsTrigger>
+          <TabsTrigger value="rejected">Rejected</TabsTrigger>
+          <TabsTrigger value="all">All</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+        <CardHeader>
+          <CardTitle>{filter === 'all' ? 'All Requests' : `${LEAVE_STATUS_LABELS[filter]} Requests`}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Student</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Leave</TableHead>
+                <TableHead>Requested</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : requests.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">No leave requests</TableCell>
+                </TableRow>
+              ) : (
+                requests.map(request => (
+                  <TableRow key={request.id}>
+                    <TableCell>
+                      <p className="font-medium">{request.student_name}</p>
+                      <p className="text-xs text-muted-foreground">{request.class_name || 'No class'}</p>
+                    </TableCell>
+                    <TableCell>{formatLeaveDates(request)}</TableCell>
+                    <TableCell>
+                      <p>{statusLabel(request.attendance_status)}</p>
+                      <p className="text-xs text-muted-foreground capitalize">
+                        {request.reason_code.replace(/_/g, ' ')}{request.notes ? ` · ${request.notes}` : ''}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <p>{new Date(request.created_at).toLocaleDateString()}</p>
+                      <p className="text-xs text-muted-foreground">{request.requested_by_guardian ? 'By parent' : 'By staff'}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={LEAVE_STATUS_VARIANTS[request.status]} title={request.decision_note || undefined}>
+                        {LEAVE_STATUS_LABELS[request.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {request.status === 'pending' && (
+                        <div className="flex justify-end gap-1">
+                          <Button size="sm" variant="outline" onClick={() => openDecision(request, true)}>
+                            <Check className="w-4 h-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => openDecision(request, false)}>
+                            <X className="w-4 h-4 mr-1" />
+                            Reject
+                          </Button>
+                          {(isPrincipal || request.requested_by === user?.id) && (
+                            <Button size="sm" variant="ghost" onClick={() => handleCancel(request)}>
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={deciding !== null} onOpenChange={(open) => !open && setDeciding(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{deciding?.approve ? 'Approve Leave' : 'Reject Leave'}</DialogTitle>
+            <DialogDescription>
+              {deciding && `${deciding.request.student_name}, ${formatLeaveDates(deciding.request)}. `}
+              {deciding?.approve && 'Days already marked absent in this range become excused.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="leave-decision-note">Note (optional)</Label>
+              <Textarea
+                id="leave-decision-note"
+                rows={3}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setDeciding(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant={deciding?.approve ? 'default' : 'destructive'}
+                onClick={handleDecide}
+                disabled={saving}
+              >
+                {saving ? 'Saving...' : deciding?.approve ? 'Approve' : 'Reject'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default LeaveRequests;
@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useRole } from '@/contexts/RoleContext';
+import { StaffCheckInCard } from '@/components/StaffCheckInCard';
+import {
+  LEAVE_STATUS_LABELS,
+  LEAVE_STATUS_VARIANTS,
+  formatLeaveDates,
+} from '@/services/studentLeaveService';
+import {
+  STAFF_LEAVE_TYPE_LABELS,
+  StaffLeaveBalance,
+  StaffLeaveRequest,
+  cancelStaffLeave,
+  fetchMyStaffAttendance,
+  fetchStaffLeaveBalances,
+  fetchStaffLeaveRequests,
+} from '@/services/staffAttendanceService';
+import { Clock } from 'lucide-react';
+
+const MyAttendance = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { currentSchool, isPrincipal } = useRole();
+  const year = new Date().getFullYear();
+
+  const [staffId, setStaffId] = useState<string | null>(null);
+  const [requests, setRequests] = useState<StaffLeaveRequest[]>([]);
+  const [balance, setBalance] = useState<StaffLeaveBalance | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    if (!currentSchool) return;
+    const { data: me, error } = await fetchMyStaffAttendance(currentSchool.school_id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch your attendance', variant: 'destructive' });
+    }
+    setStaffId(me?.staff_id || null);
+
+    if (me) {
+      const [{ data: leave, error: leaveError }, { data: balances }] = await Promise.all([
+        fetchStaffLeaveRequests(currentSchool.school_id, { staffId: me.staff_id }),
+        fetchStaffLeaveBalances(currentSchool.school_id, year, me.staff_id),
+      ]);
+      if (leaveError) {
+        toast({ title: 'Error', description: 'Failed to fetch leave requests', variant: 'destructive' });
+      }
+      setRequests(leave);
+      setBalance(balances[0] || null);
+    }
+    setLoading(false);
+  }, [currentSchool, year, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleCancel = async (request: StaffLeaveRequest) => {
+    const { error } = await cancelStaffLeave(request.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: 'Leave request cancelled' });
+    load();
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <Clock className="w-8 h-8 text-primary" />
+          <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+            My Attendance & Leave
+          </h1>
+        </div>
+        <p className="text-muted-foreground">Check in and out, request leave and follow your requests</p>
+      </div>
+
+      {!loading && !staffId ? (
+        <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No staff record matches your email. Ask the principal to add you on the Staff page.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {currentSchool && <StaffCheckInCard schoolId={currentSchool.school_id} onLeaveSubmitted={load} />}
+
+          {balance && (
+            <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+              <CardHeader>
+                <CardTitle>Leave Balance {year}</CardTitle>
+                <CardDescription>Approved working days against the annual allowance. Leave counts toward the year it starts in.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Leave</TableHead>
+                      <TableHead className="text-right">Allowance</TableHead>
+                      <TableHead className="text-right">Used</TableHead>
+                      <TableHead className="text-right">Pending</TableHead>
+                      <TableHead className="text-right">Remaining</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(['casual', 'sick', 'unpaid'] as const).map(type => (
+                      <TableRow key={type}>
+                        <TableCell className="font-medium">{STAFF_LEAVE_TYPE_LABELS[type]}</TableCell>
+                        <TableCell className="text-right">{balance.balances[type].allowance ?? '-'}</TableCell>
+                        <TableCell className="text-right">{balance.balances[type].used}</TableCell>
+                        <TableCell className="text-right">{balance.balances[type].pending}</TableCell>
+                        <TableCell className="text-right">{balance.balances[type].remaining ?? '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+            <CardHeader>
+              <CardTitle>My Leave Requests</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Leave</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead className="text-right">Days</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                    </TableRow>
+                  ) : requests.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">No leave requests</TableCell>
+                    </TableRow>
+                  ) : (
+                    requests.map(request => (
+                      <TableRow key={request.id}>
+                        <TableCell>
+                          <p className="font-medium">{STAFF_LEAVE_TYPE_LABELS[request.leave_type]}</p>
+                          {request.reason && <p className="text-xs text-muted-foreground">{request.reason}</p>}
+                        </TableCell>
+                        <TableCell>{formatLeaveDates(request)}</TableCell>
+                        <TableCell className="text-right">{request.days}</TableCell>
+                        <TableCell>
+                          <Badge variant={LEAVE_STATUS_VARIANTS[request.status]} title={request.decision_note || undefined}>
+                            {LEAVE_STATUS_LABELS[request.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {request.status === 'pending' && (isPrincipal || request.requested_by === user?.id) && (
+                            <Button size="sm" variant="ghost" onClick={() => handleCancel(request)}>
+                              Cancel
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MyAttendance;
@@ -0,0 +1,235 @@
+/**
+ * My Classes Page
+ *
+ * A teacher's assigned classes (classes.teacher_id) with roster,
+ * today's attendance and each student's attendance percentage.
+ */
+
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, BookOpen, ClipboardCheck, ChevronDown, ChevronUp, Phone } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useRole } from '@/contexts/RoleContext';
+import { useToast } from '@/hooks/use-toast';
+import { AttendanceStatusOption, STATUS_COLORS, fetchAttendanceStatuses } from '@/services/attendanceStatusService';
+import { AttendanceAlertsCard } from '@/components/AttendanceAlertsCard';
+import { StaffCheckInCard } from '@/components/StaffCheckInCard';
+import {
+    StudentAttendanceRank,
+    TeacherClass,
+    fetchAttendanceOn,
+    fetchAttendanceRanking,
+    fetchTeacherClasses,
+} from '@/services/teacherClassService';
+
+export default function MyClasses() {
+    const { user } = useAuth();
+    const { currentSchool, isLoading: roleLoading } = useRole();
+    const { toast } = useToast();
+
+    const [classes, setClasses] = useState<TeacherClass[]>([]);
+    const [statusOptions, setStatusOptions] = useState<AttendanceStatusOption[]>([]);
+    const [todayStatus, setTodayStatus] = useState<Map<string, string>>(new Map());
+    const [rankings, setRankings] = useState<Record<string, Map<string, StudentAttendanceRank>>>({});
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    useEffect(() => {
+        async function load() {
+            if (roleLoading) return;
+            if (!currentSchool || !user) {
+                setIsLoading(false);
+                return;
+            }
+
+            const { data, error } = await fetchTeacherClasses(currentSchool.school_id, user.id);
+            if (error) {
+                toast({ title: 'Error loading classes', description: error.message, variant: 'destructive' });
+            }
+            setClasses(data);
+            setExpanded(current => current || (data.length === 1 ? data[0].id : null));
+
+            const [{ data: statuses }, { data: options }] = await Promise.all([
+                fetchAttendanceOn(data.map(c => c.id), today),
+                fetchAttendanceStatuses(currentSchool.school_id, true),
+            ]);
+            setTodayStatus(statuses);
+            setStatusOptions(options);
+            setIsLoading(false);
+        }
+
+        load();
+    }, [currentSchool, user, roleLoading, today, toast]);
+
+    // Percentages are loaded when a roster is opened
+    useEffect(() => {
+        if (!expanded || rankings[expanded]) return;
+        fetchAttendanceRanking(expanded).then(({ data }) => {
+            setRankings(prev => ({ ...prev, [expanded]: data }));
+        });
+    }, [expanded, rankings]);
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center py-24">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                    <BookOpen className="w-8 h-8 text-primary" />
+                    <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+                        My Classes
+                    </h1>
+                </div>
+                <p className="text-muted-foreground">Classes assigned to you, with today's attendance</p>
+            </div>
+
+            {currentSchool && <StaffCheckInCard schoolId={currentSchool.school_id} />}
+
+            {currentSchool && classes.length > 0 && (
+                <AttendanceAlertsCard schoolId={currentSchool.school_id} canConfigure={false} />
+            )}
+
+            {classes.length === 0 ? (
+                <Card>
+                    <CardContent className="py-12 text-center text-muted-foreground">
+                        No classes are assigned to you yet. Ask your principal to assign you as class teacher.
+                    </CardContent>
+                </Card>
+            ) : (
+                classes.map(cls => {
+                    const marked = cls.students.filter(s => todayStatus.has(s.id));
+                    const counts = marked.reduce<Record<string, number>>((acc, s) => {
+                        const status = todayStatus.get(s.id) || '';
+                        acc[status] = (acc[status] || 0) + 1;
+                        return acc;
+                    }, {});
+                    const ranking = rankings[cls.id];
+                    const isOpen = expanded === cls.id;
+
+                    return (
+                        <Card key={cls.id} className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+                            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                                <div className="space-y-1">
+                                    <CardTitle>{cls.name}{cls.section ? ` - ${cls.section}` : ''}</CardTitle>
+                                    <p className="text-sm text-muted-foreground">
+                                        {cls.students.length} students
+                                        {cls.academic_year ? ` · ${cls.academic_year}` : ''}
+                                    </p>
+                                    <div className="flex flex-wrap gap-2 pt-1">
+                                        {statusOptions
+                                            .filter(o => o.is_system || counts[o.code])
+                                            .map(o => (
+                                                <Badge key={o.code} className={STATUS_COLORS[o.color]?.badge}>
+                                                    {o.label} {counts[o.code] || 0}
+                                                </Badge>
+                                            ))}
+                                        <Badge variant="outline">Unmarked {cls.students.length - marked.length}</Badge>
+                                    </div>
+                                </div>
+                                <div className="flex gap-2">
+                                    <Button asChild size="sm">
+                                        <Link to={`/attendance?class=${cls.id}`}>
+                                            <ClipboardCheck className="w-4 h-4 mr-1" />
+                                            {marked.length > 0 ? 'Update Attendance' : 'Mark Attendance'}
+                                        </Link>
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => setExpanded(isOpen ? null : cls.id)}
+                                    >
+                                        Roster
+                                        {isOpen ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+                                    </Button>
+                                </div>
+                            </CardHeader>
+
+                            {isOpen && (
+                                <CardContent>
+                                    <div className="overflow-x-auto">
+                                        <Table>
+                                            <TableHeader>
+                                                <TableRow>
+                                                    <TableHead>Student</TableHead>
+                                                    <TableHead>ID</TableHead>
+                                                    <TableHead>Today</TableHead>
+                                                    <TableHead>Attendance</TableHead>
+                                                    <TableHead>Guardian</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {cls.students.length === 0 ? (
+                                                    <TableRow>
+                                                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                                                            No students enrolled
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ) : (
+                                                    cls.students.map(student => {
+                                                        const status = todayStatus.get(student.id);
+                                                        const option = statusOptions.find(o => o.code === status);
+                                                        const rank = ranking?.get(student.id);
+                                                        return (
+                                                            <TableRow key={student.id}>
+                                                                <TableCell className="font-medium">{student.name}</TableCell>
+                                                                <TableCell>{student.student_id}</TableCell>
+                                                                <TableCell>
+                                                                    {status ? (
+                                                                        <Badge className={`capitalize ${option ? STATUS_COLORS[option.color]?.badge : ''}`}>
+                                                                            {option?.label || status}
+                                                                        </Badge>
+                                                                    ) : (
+                                                                        <Badge variant="outline">Unmarked</Badge>
+                                                                    )}
+                                                                </TableCell>
+                                                                <TableCell>
+                                                                    {!ranking ? (
+                                                                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                                                                    ) : rank ? (
+                                                                        <span className={rank.attendance_percentage < 75 ? 'text-destructive font-medium' : ''}>
+                                                                            {rank.attendance_percentage.toFixed(1)}%
+                                                                            <span className="text-xs text-muted-foreground"> (#{rank.rank})</span>
+                                                                        </span>
+                                                                    ) : (
+                                                                        '-'
+                                                                    )}
+                                                                </TableCell>
+                                                                <TableCell>
+                                                                    {student.guardian_phone ? (
+                                                                        <a href={`tel:${student.guardian_phone}`} className="inline-flex items-center gap-1 text-primary hover:underline">
+                                                                            <Phone className="w-3 h-3" />
+                                                                            {student.guardian_name || student.guardian_phone}
+                                                                        </a>
+                                                                    ) : (
+                                                                        student.guardian_name || '-'
+                                                                    )}
+                                                                </TableCell>
+                                                        </TableRow>
+                                                        );
+                                                    })
+                                                )}
+                                            </TableBody>
+                                        </Table>
+                                    </div>
+                                </CardContent>
+                            )}
+                        </Card>
+                    );
+                })
+            )}
+        </div>
+    );
+}
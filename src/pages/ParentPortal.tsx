@@ -0,0 +1,389 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useRole } from '@/contexts/RoleContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { downloadReceipt } from '@/lib/receiptGenerator';
+import { ReceiptBranding, fetchReceiptBranding } from '@/services/receiptSettingsService';
+import { getReceiptVerificationUrl, signReceipt } from '@/services/receiptVerificationService';
+import { PAYMENT_STATUS_LABELS, PaymentStatus } from '@/services/paymentReversalService';
+import { ChildAccount, ChildPayment, ParentChild, fetchChildAccount, fetchParentChildren } from '@/services/parentPortalService';
+import {
+  AttendanceStatusOption,
+  STATUS_COLORS,
+  attendancePercentage,
+  fetchAttendanceStatuses,
+} from '@/services/attendanceStatusService';
+import {
+  LEAVE_STATUS_LABELS,
+  LEAVE_STATUS_VARIANTS,
+  StudentLeaveRequest,
+  cancelLeaveRequest,
+  fetchLeaveRequests,
+  formatLeaveDates,
+} from '@/services/studentLeaveService';
+import { LeaveRequestDialog } from '@/components/LeaveRequestDialog';
+import { Download, Wallet, Calendar, FolderOpen, Users } from 'lucide-react';
+
+// Attendance shown on the portal
+const ATTENDANCE_DAYS = 30;
+
+const ParentPortal = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { currentSchool } = useRole();
+  const { formatAmount } = useCurrency();
+  const { data: financialData } = useFinancialData();
+
+  const [children, setChildren] = useState<ParentChild[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [account, setAccount] = useState<ChildAccount>({ attendance: [], folders: [], payments: [] });
+  const [loading, setLoading] = useState(true);
+  const [receiptBranding, setReceiptBranding] = useState<ReceiptBranding | undefined>();
+  const [statusOptions, setStatusOptions] = useState<AttendanceStatusOption[]>([]);
+  const [leaveRequests, setLeaveRequests] = useState<StudentLeaveRequest[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchParentChildren(user.id).then(({ data, error }) => {
+      if (error) {
+        toast({ title: 'Error', description: 'Failed to load your children', variant: 'destructive' });
+      }
+      setChildren(data);
+      setSelectedId(current => current || data[0]?.id || '');
+      setLoading(false);
+    });
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (!currentSchool) return;
+    fetchReceiptBranding(currentSchool.school_id).then(({ data, error }) => {
+      if (!error) setReceiptBranding(data);
+    });
+    fetchAttendanceStatuses(currentSchool.school_id, true).then(({ data }) => setStatusOptions(data));
+  }, [currentSchool]);
+
+  const loadAccount = useCallback(async () => {
+    if (!selectedId) return;
+    const from = new Date();
+    from.setDate(from.getDate() - ATTENDANCE_DAYS);
+    const { data, error } = await fetchChildAccount(selectedId, from.toISOString().split('T')[0]);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to load account details', variant: 'destructive' });
+    }
+    setAccount(data);
+  }, [selectedId, toast]);
+
+  useEffect(() => {
+    loadAccount();
+  }, [loadAccount]);
+
+  const loadLeave = useCallback(async () => {
+    if (!selectedId || !currentSchool) return;
+    const { data, error } = await fetchLeaveRequests(currentSchool.school_id, { studentId: selectedId });
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to load leave requests', variant: 'destructive' });
+    }
+    setLeaveRequests(data);
+  }, [selectedId, currentSchool, toast]);
+
+  useEffect(() => {
+    loadLeave();
+  }, [loadLeave]);
+
+  const handleCancelLeave = async (request: StudentLeaveRequest) => {
+    const { error } = await cancelLeaveRequest(request.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: 'Leave request cancelled' });
+    loadLeave();
+  };
+
+  const child = children.find(c => c.id === selectedId);
+  const feeData = financialData?.fees?.students.find(s => s.student_id === selectedId);
+  const folderOutstanding = account.folders.reduce(
+    (sum, f) => sum + Math.max(Number(f.amount_due) - Number(f.amount_paid || 0), 0),
+    0
+  );
+  const tuitionRemaining = feeData?.remaining_fee || 0;
+  // Weighted by each status's credit (half days count half, excused days are left out)
+  const rate = attendancePercentage(account.attendance.map(a => a.status), statusOptions);
+  const attendanceRate = rate === null ? null : Math.round(rate);
+  const excusedDays = account.attendance.filter(a =>
+    statusOptions.find(o => o.code === a.status)?.credit === null
+  ).length;
+  const statusOption = (code: string) => statusOptions.find(o => o.code === code);
+
+  const handleDownloadReceipt = async (payment: ChildPayment) => {
+    if (!child) return;
+    const receiptNumber = payment.receipt_number || `PAY-${payment.id.substring(0, 8)}`;
+    const { data: token } = payment.receipt_number ? await signReceipt(payment.id) : { data: null };
+    await downloadReceipt({
+      receiptNumber,
+      studentName: child.name,
+      amount: Number(payment.amount),
+      paymentDate: payment.payment_date,
+      paymentMethod: payment.payment_method,
+      currency: payment.currency || 'USD',
+      description: payment.description || 'School Fee Payment',
+      branding: receiptBranding,
+      verification: token ? { token, url: getReceiptVerificationUrl(receiptNumber, token) } : undefined,
+    });
+    toast({ title: 'Success', description: 'Receipt downloaded successfully' });
+  };
+
+  if (!loading && children.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-24 space-y-2 text-center">
+        <Users className="w-10 h-10 text-muted-foreground" />
+        <h2 className="text-xl font-semibold">No children linked</h2>
+        <p className="text-muted-foreground max-w-md">
+          Ask the school office for a parent invite code for your family.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <Users className="w-8 h-8 text-primary" />
+          <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+            My Children
+          </h1>
+        </div>
+        <p className="text-muted-foreground">Attendance, leave, fees and receipts</p>
+      </div>
+
+      {children.length > 1 && (
+        <Tabs value={selectedId} onValueChange={setSelectedId}>
+          <TabsList>
+            {children.map(c => (
+              <TabsTrigger key={c.id} value={c.id}>{c.name}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      )}
+
+      {child && (
+        <>
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">Fee Balance</CardTitle>
+                <Wallet className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-primary">
+                  {formatAmount(Math.max(tuitionRemaining, 0) + folderOutstanding)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {tuitionRemaining < 0
+                    ? `${formatAmount(-tuitionRemaining)} tuition paid in advance`
+                    : `Tuition ${formatAmount(tuitionRemaining)} · Other fees ${formatAmount(folderOutstanding)}`}
+                </p>
+              </CardContent>
+            </Card>
+            <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">Attendance ({ATTENDANCE_DAYS} days)</CardTitle>
+                <Calendar className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{attendanceRate === null ? '-' : `${attendanceRate}%`}</div>
+                <p className="text-xs text-muted-foreground">
+                  {account.attendance.length} marked days{excusedDays > 0 ? `, ${excusedDays} excused` : ''}
+                </p>
+              </CardContent>
+            </Card>
+            <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">Class</CardTitle>
+                <FolderOpen className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{child.class || '-'}</div>
+                <p className="text-xs text-muted-foreground">Student ID {child.student_id}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+            <CardHeader>
+              <CardTitle>Fee Folders</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fee</TableHead>
+                    <TableHead>Due Date</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Paid</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {account.folders.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">No fee folders</TableCell>
+                    </TableRow>
+                  ) : (
+                    account.folders.map(folder => (
+                      <TableRow key={folder.id}>
+                        <TableCell className="font-medium">{folder.folder_name}</TableCell>
+                        <TableCell>{new Date(folder.due_date).toLocaleDateString()}</TableCell>
+                        <TableCell>{formatAmount(Number(folder.amount_due))}</TableCell>
+                        <TableCell>{formatAmount(Number(folder.amount_paid || 0))}</TableCell>
+                        <TableCell>
+                          <Badge variant={folder.status === 'paid' ? 'default' : 'outline'} className="capitalize">
+                            {folder.status}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+            <CardHeader>
+              <CardTitle>Payments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Receipt</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Receipt</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {account.payments.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">No payments yet</TableCell>
+                    </TableRow>
+                  ) : (
+                    account.payments.map(payment => (
+                      <TableRow key={payment.id}>
+                        <TableCell>{new Date(payment.payment_date).toLocaleDateString()}</TableCell>
+                        <TableCell>{payment.receipt_number || '-'}</TableCell>
+                        <TableCell className={Number(payment.amount) < 0 ? 'text-destructive' : 'font-semibold'}>
+                          {formatAmount(Number(payment.amount))}
+                        </TableCell>
+                        <TableCell className="capitalize">{payment.payment_method.replace('_', ' ')}</TableCell>
+                        <TableCell>
+                          {payment.entry_type !== 'payment' ? (
+                            <Badge variant="destructive" className="capitalize">{payment.entry_type}</Badge>
+                          ) : (
+                            <Badge variant="outline">{PAYMENT_STATUS_LABELS[payment.status as PaymentStatus] || payment.status}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {payment.entry_type === 'payment' && payment.status === 'active' && (
+                            <Button variant="outline" size="sm" onClick={() => handleDownloadReceipt(payment)}>
+                              <Download className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Leave Requests</CardTitle>
+              {currentSchool && (
+                <LeaveRequestDialog
+                  schoolId={currentSchool.school_id}
+                  studentId={child.id}
+                  studentName={child.name}
+                  onSubmitted={loadLeave}
+                />
+              )}
+            </CardHeader>
+            <CardContent>
+              {leaveRequests.length === 0 ? (
+                <p className="text-center text-muted-foreground">No leave requested</p>
+              ) : (
+                <div className="space-y-2">
+                  {leaveRequests.map(request => (
+                    <div key={request.id} className="flex items-center justify-between gap-2 p-3 rounded-lg bg-muted/50">
+                      <div>
+                        <p className="font-medium">{formatLeaveDates(request)}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {statusOption(request.attendance_status)?.label || request.attendance_status}
+                          {' · '}
+                          <span className="capitalize">{request.reason_code.replace(/_/g, ' ')}</span>
+                          {request.decision_note ? ` · ${request.decision_note}` : ''}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={LEAVE_STATUS_VARIANTS[request.status]}>{LEAVE_STATUS_LABELS[request.status]}</Badge>
+                        {request.status === 'pending' && request.requested_by === user?.id && (
+                          <Button variant="ghost" size="sm" onClick={() => handleCancelLeave(request)}>
+                            Cancel
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+            <CardHeader>
+              <CardTitle>Recent Attendance</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {account.attendance.length === 0 ? (
+                <p className="text-center text-muted-foreground">No attendance marked in the last {ATTENDANCE_DAYS} days</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {account.attendance.map(entry => {
+                    const option = statusOption(entry.status);
+                    const badge = option ? STATUS_COLORS[option.color]?.badge : undefined;
+                    return (
+                      <Badge
+                        key={entry.date}
+                        className={`capitalize ${badge || ''}`}
+                        variant={badge ? 'default' : 'outline'}
+                        title={entry.notes || undefined}
+                      >
+                        {new Date(entry.date).toLocaleDateString()} · {option?.label || entry.status}
+                        {entry.reason_code ? ` (${entry.reason_code.replace(/_/g, ' ')})` : ''}
+                      </Badge>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ParentPortal;
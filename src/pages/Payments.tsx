@@ -11,14 +11,35 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Edit, Trash2, Wallet, Download, Search, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Plus, Edit, Ban, Undo2, Wallet, Download, Search, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import { useCurrency } from '@/contexts/CurrencyContext';
 import { downloadReceipt } from '@/lib/receiptGenerator';
 import { PaymentBatchImport } from '@/components/PaymentBatchImport';
 import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { StudentSearchSelect } from '@/components/ui/StudentSearchSelect';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { useRole } from '@/contexts/RoleContext';
+import { quoteFilterValue } from '@/lib/utils';
+import { ReceiptSettingsDialog } from '@/components/ReceiptSettingsDialog';
+import { ReceiptBranding, fetchReceiptBranding } from '@/services/receiptSettingsService';
+import { getReceiptVerificationUrl, signReceipt } from '@/services/receiptVerificationService';
+import { PaymentReversalDialog, PaymentReversalMode } from '@/components/PaymentReversalDialog';
+import { PaymentAllocationEditor } from '@/components/PaymentAllocationEditor';
+import {
+  AllocationLine,
+  AllocationTarget,
+  allocationKey,
+  autoAllocate,
+  fetchAllocationTargets,
+  fetchReceiptSnapshot,
+  getSettledConcessions,
+  recordPayment,
+  savePaymentAllocations,
+} from '@/services/paymentAllocationService';
+import { PAYMENT_STATUS_LABELS, PaymentEntryType, PaymentStatus, isReversible } from '@/services/paymentReversalService';
 
 const ITEMS_PER_PAGE = 20;
 
@@ -42,6 +63,9 @@ type Payment = {
   description?: string;
   receipt_number?: string;
   created_at: string;
+  entry_type: PaymentEntryType;
+  status: PaymentStatus;
+  reversal_reason?: string | null;
   students?: { name: string };
 };
 
@@ -56,6 +80,39 @@ const Payments = () => {
   const { toast } = useToast();
   const { formatAmount, currency } = useCurrency();
 
+  // Charges, concessions and outstanding per student (server-derived) for the receipt
+  const { data: financialData, refresh: refreshFinancialData } = useFinancialData();
+  const getStudentFeeData = (studentId: string) =>
+    financialData?.fees?.students.find(s => s.student_id === studentId) || null;
+
+  // How the payment in the dialog is split across tuition and fee folders
+  const [allocationTargets, setAllocationTargets] = useState<AllocationTarget[]>([]);
+  const [allocationLines, setAllocationLines] = useState<AllocationLine[]>([]);
+  const [allocationOverridden, setAllocationOverridden] = useState(false);
+
+  // School name, logo and template printed on receipts
+  const { currentSchool, isPrincipal, isAccountant } = useRole();
+  const [receiptBranding, setReceiptBranding] = useState<ReceiptBranding | undefined>();
+  const loadReceiptBranding = useCallback(async () => {
+    if (!currentSchool) return;
+    const { data, error } = await fetchReceiptBranding(currentSchool.school_id);
+    if (!error) setReceiptBranding(data);
+  }, [currentSchool]);
+
+  useEffect(() => {
+    loadReceiptBranding();
+  }, [loadReceiptBranding]);
+
+  // Payments are never deleted: principals and accountants void or refund them
+  const canReverse = isPrincipal || isAccountant;
+  const [reversal, setReversal] = useState<{ mode: PaymentReversalMode; payments: Payment[] }>({ mode: 'void', payments: [] });
+
+  // Signed code printed on the receipt; receipts still print if signing is unavailable
+  const getReceiptVerification = async (paymentId: string, receiptNumber: string) => {
+    const { data: token } = await signReceipt(paymentId);
+    return token ? { token, url: getReceiptVerificationUrl(receiptNumber, token) } : undefined;
+  };
+
   // Pagination & Search state
   const [searchParams, setSearchParams] = useSearchParams();
   const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '');
@@ -75,6 +132,47 @@ const Payments = () => {
     },
   });
 
+  const watchedStudentId = form.watch('student_id');
+  const watchedAmount = form.watch('amount');
+  const watchedCategory = form.watch('category');
+
+  // Load what the selected student owes; keep an edited payment's own split
+  useEffect(() => {
+    if (!isDialogOpen || !watchedStudentId) {
+      setAllocationTargets([]);
+      setAllocationLines([]);
+      return;
+    }
+
+    const feeData = financialData?.fees?.students.find(s => s.student_id === watchedStudentId) || null;
+    const current = editingPayment && editingPayment.student_id === watchedStudentId
+      ? { id: editingPayment.id, amount: Number(editingPayment.amount), category: editingPayment.category || 'school_fee' }
+      : undefined;
+
+    fetchAllocationTargets(watchedStudentId, feeData, current).then(({ data, error }) => {
+      if (error) {
+        toast({ title: 'Error', description: 'Failed to load fee folders for allocation', variant: 'destructive' });
+      }
+      setAllocationTargets(data.targets);
+      setAllocationLines(data.lines);
+      setAllocationOverridden(Boolean(current));
+    });
+  }, [isDialogOpen, watchedStudentId, editingPayment, financialData, toast]);
+
+  // Oldest-due-first until the user edits a line
+  useEffect(() => {
+    if (allocationOverridden) return;
+    setAllocationLines(autoAllocate(Number(watchedAmount) || 0, allocationTargets, watchedCategory));
+  }, [allocationOverridden, allocationTargets, watchedAmount, watchedCategory]);
+
+  const getAllocationSummary = (lines: AllocationLine[]) =>
+    lines
+      .filter(l => l.amount > 0)
+      .map(l => ({
+        label: allocationTargets.find(t => allocationKey(t.fee_folder_id) === allocationKey(l.fee_folder_id))?.label || 'Other',
+        amount: l.amount,
+      }));
+
   // Debounce search input
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -102,10 +200,11 @@ const Payments = () => {
       // Pre-fetch student IDs if searching by name (to duplicate ILIKE behavior on foreign table)
       let matchingStudentIds: string[] = [];
       if (debouncedSearch && debouncedSearch.trim()) {
+        const pattern = quoteFilterValue(`%${debouncedSearch.trim()}%`);
         const { data: students } = await supabase
           .from('students')
           .select('id')
-          .ilike('name', `%${debouncedSearch.trim()}%`)
+          .or(`name.ilike.${pattern},guardian_phone.ilike.${pattern}`)
           .limit(50); // Reasonable limit for ID list
 
         if (students) matchingStudentIds = students.map(s => s.id);
@@ -117,7 +216,7 @@ const Payments = () => {
         .select('*', { count: 'exact', head: true });
 
       if (debouncedSearch) {
-        const searchTerm = `%${debouncedSearch.trim()}%`;
+        const searchTerm = quoteFilterValue(`%${debouncedSearch.trim()}%`);
         let orConditions = `receipt_number.ilike.${searchTerm},category.ilike.${searchTerm},payment_method.ilike.${searchTerm}`;
 
         if (matchingStudentIds.length > 0) {
@@ -145,6 +244,9 @@ const Payments = () => {
           description,
           receipt_number,
           created_at,
+          entry_type,
+          status,
+          reversal_reason,
           students!payments_student_id_fkey (
             name
           )
@@ -153,7 +255,7 @@ const Payments = () => {
         .range(from, to);
 
       if (debouncedSearch) {
-        const searchTerm = `%${debouncedSearch.trim()}%`;
+        const searchTerm = quoteFilterValue(`%${debouncedSearch.trim()}%`);
         let orConditions = `receipt_number.ilike.${searchTerm},category.ilike.${searchTerm},payment_method.ilike.${searchTerm}`;
 
         if (matchingStudentIds.length > 0) {
@@ -165,7 +267,7 @@ const Payments = () => {
 
       const { data, error } = await query;
       if (error) throw error;
-      setPayments(data || []);
+      setPayments((data || []) as Payment[]);
 
     } catch (error) {
       console.error('Error fetching payments:', error);
@@ -228,23 +330,15 @@ const Payments = () => {
 
   const onSubmit = async (data: z.infer<typeof paymentSchema>) => {
     if (!user) return;
-    try {
-      const receiptNumber = `PAY-${Date.now()}`;
 
-      // Check for duplicate receipt number (only for new payments)
-      if (!editingPayment) {
-        const { data: existing } = await supabase
-          .from('payments')
-          .select('id')
-          .eq('receipt_number', receiptNumber)
-          .maybeSingle();
-
-        if (existing) {
-          toast({ title: 'Error', description: 'A payment with this receipt number already exists', variant: 'destructive' });
-          return;
-        }
-      }
+    const allocated = allocationLines.reduce((sum, l) => sum + l.amount, 0);
+    if (allocated > data.amount + 0.005) {
+      toast({ title: 'Error', description: 'Allocated amounts exceed the payment amount', variant: 'destructive' });
+      return;
+    }
 
+    try {
+      // receipt_number is allocated by the database (per-school sequence)
       const payload = {
         student_id: data.student_id,
         amount: data.amount,
@@ -252,7 +346,6 @@ const Payments = () => {
         payment_method: data.payment_method,
         category: data.category,
         currency: currency.code,
-        receipt_number: receiptNumber,
         user_id: user.id,
       };
 
@@ -263,54 +356,45 @@ const Payments = () => {
           .eq('id', editingPayment.id);
 
         if (error) throw error;
+
+        const { error: allocationError } = await savePaymentAllocations(editingPayment.id, allocationLines);
+        if (allocationError) throw allocationError;
+
         toast({ title: 'Success', description: 'Payment updated successfully' });
+        refreshFinancialData();
       } else {
-        // Add payment
-        const { error: paymentError } = await supabase
-          .from('payments')
-          .insert([payload]);
+        // Add payment, split across tuition and fee folders in the same transaction
+        // (fee folder balances follow server-side)
+        const { data: inserted, error: paymentError } = await recordPayment(payload, allocationLines);
+        if (paymentError || !inserted) throw paymentError || new Error('Failed to record payment');
 
-        if (paymentError) throw paymentError;
+        // Tuition share: tuition lines, plus the unallocated rest of a school fee payment
+        const tuitionPaid = allocationLines.filter(l => l.fee_folder_id === null).reduce((sum, l) => sum + l.amount, 0)
+          + (data.category === 'school_fee' ? data.amount - allocated : 0);
 
         // Generate and download receipt
         const student = students.find(s => s.id === data.student_id);
+        const feeData = getStudentFeeData(data.student_id);
+        const remaining = tuitionPaid > 0 ? feeData?.remaining_fee : undefined;
         if (student) {
           downloadReceipt({
-            receiptNumber,
+            receiptNumber: inserted.receipt_number,
             studentName: student.name,
             amount: data.amount,
             paymentDate: data.payment_date,
             paymentMethod: data.payment_method,
             currency: currency.code,
             description: `School Fee Payment`,
+            discounts: getSettledConcessions(feeData, feeData?.total_paid || 0, tuitionPaid),
+            allocations: getAllocationSummary(allocationLines),
+            balanceAfter: remaining !== undefined ? remaining - tuitionPaid : undefined,
+            branding: receiptBranding,
+            verification: await getReceiptVerification(inserted.payment_id, inserted.receipt_number),
           });
         }
 
-        // Update fee folder - find pending fee folders and update them
-        const { data: feeFolders } = await supabase
-          .from('fee_folders')
-          .select('id, amount_paid, amount_due')
-          .eq('student_id', data.student_id)
-          .neq('status', 'paid')
-          .order('due_date', { ascending: true })
-          .limit(1);
-
-        if (feeFolders && feeFolders.length > 0) {
-          const folder = feeFolders[0];
-          const newAmountPaid = Number(folder.amount_paid || 0) + data.amount;
-          const amountDue = Number(folder.amount_due);
-          const newStatus = newAmountPaid >= amountDue ? 'paid' : newAmountPaid > 0 ? 'partial' : 'pending';
-
-          await supabase
-            .from('fee_folders')
-            .update({
-              amount_paid: newAmountPaid,
-              status: newStatus,
-            })
-            .eq('id', folder.id);
-        }
-
         toast({ title: 'Success', description: 'Payment added and fees updated successfully' });
+        refreshFinancialData();
       }
 
       setIsDialogOpen(false);
@@ -334,28 +418,19 @@ const Payments = () => {
     }
   };
 
-  const handleBulkDelete = async () => {
-    if (selectedPayments.size === 0) {
-      toast({ title: 'No Selection', description: 'Please select payments to delete', variant: 'destructive' });
+  const handleBulkVoid = () => {
+    const selected = payments.filter(p => selectedPayments.has(p.id) && isReversible(p));
+    if (selected.length === 0) {
+      toast({ title: 'No Selection', description: 'Please select active payments to void', variant: 'destructive' });
       return;
     }
+    setReversal({ mode: 'void', payments: selected });
+  };
 
-    if (!confirm(`Are you sure you want to delete ${selectedPayments.size} payment(s)?`)) return;
-
-    try {
-      const { error } = await supabase
-        .from('payments')
-        .delete()
-        .in('id', Array.from(selectedPayments));
-
-      if (error) throw error;
-      toast({ title: 'Success', description: `Deleted ${selectedPayments.size} payment(s) successfully` });
-      setSelectedPayments(new Set());
-      fetchPayments();
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'An error occurred';
-      toast({ title: 'Error', description: errorMessage, variant: 'destructive' });
-    }
+  const handleReversalComplete = () => {
+    setSelectedPayments(new Set());
+    fetchPayments();
+    refreshFinancialData();
   };
 
   const togglePaymentSelection = (id: string) => {
@@ -369,10 +444,11 @@ const Payments = () => {
   };
 
   const toggleSelectAll = () => {
-    if (selectedPayments.size === payments.length) {
+    const reversible = payments.filter(isReversible);
+    if (selectedPayments.size === reversible.length) {
       setSelectedPayments(new Set());
     } else {
-      setSelectedPayments(new Set(payments.map(p => p.id)));
+      setSelectedPayments(new Set(reversible.map(p => p.id)));
     }
   };
 
@@ -389,44 +465,31 @@ const Payments = () => {
     setIsDialogOpen(true);
   };
 
-  const handleDownloadReceipt = (payment: Payment) => {
+  const handleDownloadReceipt = async (payment: Payment) => {
     const student = students.find(s => s.id === payment.student_id);
     if (student) {
-      downloadReceipt({
-        receiptNumber: payment.receipt_number || `PAY-${payment.id.substring(0, 8)}`,
+      const receiptNumber = payment.receipt_number || `PAY-${payment.id.substring(0, 8)}`;
+      // Same split and balance the receipt printed when the payment was recorded
+      const feeData = getStudentFeeData(payment.student_id);
+      const { data: snapshot } = await fetchReceiptSnapshot(payment, feeData);
+      await downloadReceipt({
+        receiptNumber,
         studentName: student.name,
         amount: Number(payment.amount),
         paymentDate: payment.payment_date,
         paymentMethod: payment.payment_method,
         currency: payment.currency || 'USD',
         description: payment.description || 'School Fee Payment',
+        discounts: snapshot.concessions,
+        allocations: snapshot.allocations,
+        balanceAfter: snapshot.balanceAfter,
+        branding: receiptBranding,
+        verification: payment.receipt_number ? await getReceiptVerification(payment.id, receiptNumber) : undefined,
       });
       toast({ title: 'Success', description: 'Receipt downloaded successfully' });
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this payment?')) return;
-
-    try {
-      const { error } = await supabase
-        .from('payments')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
-      toast({ title: 'Success', description: 'Payment deleted successfully' });
-      fetchPayments();
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to delete payment';
-      toast({
-        title: 'Error',
-        description: errorMessage,
-        variant: 'destructive',
-      });
-    }
-  };
-
   const handleDialogChange = (open: boolean) => {
     setIsDialogOpen(open);
     if (!open) {
@@ -508,6 +571,9 @@ const Payments = () => {
           <p className="text-muted-foreground">Track student fee payments</p>
         </div>
         <div className="flex gap-2">
+          {isPrincipal && currentSchool && (
+            <ReceiptSettingsDialog schoolId={currentSchool.school_id} onSettingsChange={loadReceiptBranding} />
+          )}
           <PaymentBatchImport onImportComplete={fetchPayments} />
           <Dialog open={isDialogOpen} onOpenChange={handleDialogChange}>
             <DialogTrigger asChild>
@@ -516,7 +582,7 @@ const Payments = () => {
                 Add Payment
               </Button>
             </DialogTrigger>
-            <DialogContent className="max-w-lg">
+            <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>{editingPayment ? 'Edit Payment' : 'Add New Payment'}</DialogTitle>
               </DialogHeader>
@@ -623,6 +689,19 @@ const Payments = () => {
                       </FormItem>
                     )}
                   />
+                  {watchedStudentId && allocationTargets.length > 0 && (
+                    <PaymentAllocationEditor
+                      amount={Number(watchedAmount) || 0}
+                      category={watchedCategory}
+                      targets={allocationTargets}
+                      lines={allocationLines}
+                      onChange={(lines) => {
+                        setAllocationLines(lines);
+                        setAllocationOverridden(true);
+                      }}
+                      onAutoAllocate={() => setAllocationOverridden(false)}
+                    />
+                  )}
                   <div className="flex justify-end space-x-2 pt-4">
                     <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                       Cancel
@@ -658,15 +737,15 @@ const Payments = () => {
                 Showing {payments.length} of {totalCount} payments
               </span>
             </div>
-            {selectedPayments.size > 0 && (
+            {canReverse && selectedPayments.size > 0 && (
               <Button
                 variant="destructive"
                 size="sm"
-                onClick={handleBulkDelete}
+                onClick={handleBulkVoid}
                 className="gap-2"
               >
-                <Trash2 className="h-4 w-4" />
-                Delete ({selectedPayments.size})
+                <Ban className="h-4 w-4" />
+                Void ({selectedPayments.size})
               </Button>
             )}
           </div>
@@ -677,10 +756,12 @@ const Payments = () => {
               <TableHeader>
                 <TableRow>
                   <TableHead className="w-12">
-                    <Checkbox
-                      checked={selectedPayments.size === payments.length && payments.length > 0}
-                      onCheckedChange={toggleSelectAll}
-                    />
+                    {canReverse && (
+                      <Checkbox
+                        checked={selectedPayments.size > 0 && selectedPayments.size === payments.filter(isReversible).length}
+                        onCheckedChange={toggleSelectAll}
+                      />
+                    )}
                   </TableHead>
                   <TableHead>Student</TableHead>
                   <TableHead>Amount Paid</TableHead>
@@ -700,50 +781,83 @@ const Payments = () => {
                   </TableRow>
                 ) : (
                   payments.map((payment) => (
-                    <TableRow key={payment.id}>
+                    <TableRow key={payment.id} className={payment.status === 'voided' ? 'opacity-60' : undefined}>
                       <TableCell>
-                        <Checkbox
-                          checked={selectedPayments.has(payment.id)}
-                          onCheckedChange={() => togglePaymentSelection(payment.id)}
-                        />
+                        {canReverse && isReversible(payment) && (
+                          <Checkbox
+                            checked={selectedPayments.has(payment.id)}
+                            onCheckedChange={() => togglePaymentSelection(payment.id)}
+                          />
+                        )}
                       </TableCell>
                       <TableCell className="font-medium">
                         {payment.students?.name || 'Unknown Student'}
+                        {payment.entry_type !== 'payment' && payment.reversal_reason && (
+                          <p className="text-xs font-normal text-muted-foreground">{payment.reversal_reason}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className={`font-semibold ${Number(payment.amount) < 0 ? 'text-destructive' : 'text-primary'}`}>
+                        <div className="flex items-center gap-2">
+                          {formatAmount(Number(payment.amount))}
+                          {payment.entry_type !== 'payment' ? (
+                            <Badge variant="destructive" className="capitalize">{payment.entry_type}</Badge>
+                          ) : payment.status !== 'active' && (
+                            <Badge variant="outline">{PAYMENT_STATUS_LABELS[payment.status]}</Badge>
+                          )}
+                        </div>
                       </TableCell>
-                      <TableCell className="font-semibold text-primary">{formatAmount(Number(payment.amount))}</TableCell>
                       <TableCell className="capitalize">
                         {(payment.category || 'school_fee').replace(/_/g, ' ')}
                       </TableCell>
                       <TableCell className="capitalize">{payment.payment_method.replace('_', ' ')}</TableCell>
                       <TableCell>{new Date(payment.payment_date).toLocaleDateString()}</TableCell>
                       <TableCell>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleDownloadReceipt(payment)}
-                          className="text-primary hover:text-primary"
-                        >
-                          <Download className="w-4 h-4 mr-1" />
-                          Download
-                        </Button>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex space-x-2">
+                        {payment.entry_type === 'payment' && payment.status !== 'voided' ? (
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => handleEdit(payment)}
+                            onClick={() => handleDownloadReceipt(payment)}
+                            className="text-primary hover:text-primary"
                           >
-                            <Edit className="w-4 h-4" />
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDelete(payment.id)}
-                            className="text-destructive hover:text-destructive"
-                          >
-                            <Trash2 className="w-4 h-4" />
+                            <Download className="w-4 h-4 mr-1" />
+                            Download
                           </Button>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">{payment.receipt_number}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          {payment.entry_type === 'payment' && payment.status === 'active' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEdit(payment)}
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {canReverse && isReversible(payment) && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Refund"
+                                onClick={() => setReversal({ mode: 'refund', payments: [payment] })}
+                              >
+                                <Undo2 className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Void"
+                                onClick={() => setReversal({ mode: 'void', payments: [payment] })}
+                                className="text-destructive hover:text-destructive"
+                              >
+                                <Ban className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -783,6 +897,13 @@ const Payments = () => {
           )}
         </CardContent>
       </Card>
+
+      <PaymentReversalDialog
+        mode={reversal.mode}
+        payments={reversal.payments}
+        onClose={() => setReversal(prev => ({ ...prev, payments: [] }))}
+        onComplete={handleReversalComplete}
+      />
     </div>
   );
 };
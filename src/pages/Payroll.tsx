@@ -0,0 +1,464 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useRole } from '@/contexts/RoleContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { DeductionItemsDialog } from '@/components/DeductionItemsDialog';
+import {
+  DeductionItem,
+  PAYROLL_STATUS_LABELS,
+  PayrollLine,
+  PayrollRun,
+  createPayrollRun,
+  deletePayrollRun,
+  fetchPayrollLines,
+  fetchPayrollRuns,
+  finalizePayrollRun,
+  updatePayrollLine,
+} from '@/services/payrollService';
+import { format } from 'date-fns';
+import { CheckCircle, ListPlus, Loader2, Plus, Save, Trash2, Wallet } from 'lucide-react';
+
+type LineValue = { bonus: number; deductions: number; deduction_items: DeductionItem[] };
+type LineEdits = Record<string, LineValue>;
+
+const monthTitle = (run: Pick<PayrollRun, 'period_start'>) =>
+  format(new Date(`${run.period_start}T00:00:00`), 'MMMM yyyy');
+
+const Payroll = () => {
+  const { toast } = useToast();
+  const { currentSchool } = useRole();
+  const { formatAmount } = useCurrency();
+
+  const [runs, setRuns] = useState<PayrollRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [creating, setCreating] = useState(false);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [lines, setLines] = useState<PayrollLine[]>([]);
+  const [linesLoading, setLinesLoading] = useState(false);
+  const [edits, setEdits] = useState<LineEdits>({});
+  const [savingLine, setSavingLine] = useState<string | null>(null);
+  const [itemising, setItemising] = useState<PayrollLine | null>(null);
+  const [finalizeOpen, setFinalizeOpen] = useState(false);
+  const [paymentDate, setPaymentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [finalizing, setFinalizing] = useState(false);
+
+  const selectedRun = runs.find(r => r.id === selectedRunId) || null;
+  const isDraft = selectedRun?.status === 'draft';
+
+  const loadRuns = useCallback(async () => {
+    if (!currentSchool) return;
+    const { data, error } = await fetchPayrollRuns(currentSchool.school_id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch payroll runs', variant: 'destructive' });
+    }
+    setRuns(data);
+    setLoading(false);
+  }, [currentSchool, toast]);
+
+  const loadLines = useCallback(async (runId: string) => {
+    setLinesLoading(true);
+    const { data, error } = await fetchPayrollLines(runId);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch payroll lines', variant: 'destructive' });
+    }
+    setLines(data);
+    setEdits({});
+    setLinesLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  useEffect(() => {
+    if (selectedRunId) loadLines(selectedRunId);
+    else setLines([]);
+  }, [selectedRunId, loadLines]);
+
+  const handleCreate = async () => {
+    if (!currentSchool || !month) return;
+    setCreating(true);
+    const { data, error } = await createPayrollRun(currentSchool.school_id, `${month}-01`);
+    setCreating(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: 'Payroll run drafted' });
+    await loadRuns();
+    setSelectedRunId(data);
+  };
+
+  const lineValue = (line: PayrollLine): LineValue =>
+    edits[line.id] || { bonus: line.bonus, deductions: line.deductions, deduction_items: line.deduction_items };
+
+  const setLineValue = (line: PayrollLine, changes: Partial<LineValue>) => {
+    setEdits(prev => ({ ...prev, [line.id]: { ...lineValue(line), ...changes } }));
+  };
+
+  const applyDeductionItems = (line: PayrollLine, items: DeductionItem[]) => {
+    setLineValue(line, {
+      deduction_items: items,
+      deductions: items.length > 0 ? items.reduce((sum, item) => sum + item.amount, 0) : lineValue(line).deductions,
+    });
+  };
+
+  const isLineChanged = (line: PayrollLine) => {
+    const edit = edits[line.id];
+    return !!edit && (
+      edit.bonus !== line.bonus
+      || edit.deductions !== line.deductions
+      || JSON.stringify(edit.deduction_items) !== JSON.stringify(line.deduction_items)
+    );
+  };
+
+  const handleSaveLine = async (line: PayrollLine) => {
+    const { bonus, deductions, deduction_items } = lineValue(line);
+    if (bonus < 0 || deductions < 0) {
+      toast({ title: 'Error', description: 'Bonus and deductions cannot be negative', variant: 'destructive' });
+      return;
+    }
+    if (line.amount + bonus - deductions < 0) {
+      toast({ title: 'Error', description: 'Deductions exceed the salary', variant: 'destructive' });
+      return;
+    }
+
+    setSavingLine(line.id);
+    const { error } = await updatePayrollLine(line.id, bonus, deductions, deduction_items);
+    setSavingLine(null);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    // Unpaid leave is recomputed on save, so take the stored line back
+    const saved = selectedRunId
+      ? (await fetchPayrollLines(selectedRunId)).data.find(l => l.id === line.id)
+      : undefined;
+    setLines(prev => prev.map(l => (
+      l.id === line.id
+        ? saved || { ...l, bonus, deductions, deduction_items, net_amount: l.amount + bonus - deductions }
+        : l
+    )));
+    setEdits(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== line.id)));
+    loadRuns();
+  };
+
+  const handleFinalize = async () => {
+    if (!selectedRun) return;
+    if (lines.some(isLineChanged)) {
+      toast({ title: 'Error', description: 'Save the edited lines first', variant: 'destructive' });
+      return;
+    }
+
+    setFinalizing(true);
+    const { error } = await finalizePayrollRun(selectedRun.id, paymentDate);
+    setFinalizing(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: `Payroll for ${monthTitle(selectedRun)} finalised` });
+    setFinalizeOpen(false);
+    loadRuns();
+  };
+
+  const handleDelete = async (run: PayrollRun) => {
+    if (!confirm(`Delete the draft payroll for ${monthTitle(run)}?`)) return;
+    const { error } = await deletePayrollRun(run.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: 'Draft payroll deleted' });
+    if (selectedRunId === run.id) setSelectedRunId(null);
+    loadRuns();
+  };
+
+  const totals = lines.reduce(
+    (sum, line) => {
+      const { bonus, deductions } = lineValue(line);
+      return {
+        amount: sum.amount + line.amount,
+        bonus: sum.bonus + bonus,
+        deductions: sum.deductions + deductions,
+        net: sum.net + line.amount + bonus - deductions,
+      };
+    },
+    { amount: 0, bonus: 0, deductions: 0, net: 0 }
+  );
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Wallet className="w-8 h-8 text-primary" />
+            <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              Payroll
+            </h1>
+          </div>
+          <p className="text-muted-foreground">Monthly salary runs drafted from staff salaries</p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="payroll-month">Month</Label>
+            <Input
+              id="payroll-month"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="w-40"
+            />
+          </div>
+          <Button
+            onClick={handleCreate}
+            disabled={creating || !month}
+            className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+          >
+            {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Draft Payroll
+          </Button>
+        </div>
+      </div>
+
+      <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+        <CardHeader>
+          <CardTitle>Payroll Runs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Month</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Staff</TableHead>
+                <TableHead className="text-right">Net Total</TableHead>
+                <TableHead>Paid On</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : runs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">No payroll runs yet</TableCell>
+                </TableRow>
+              ) : (
+                runs.map(run => (
+                  <TableRow
+                    key={run.id}
+                    className={run.id === selectedRunId ? 'bg-muted/50' : 'cursor-pointer'}
+                    onClick={() => setSelectedRunId(run.id)}
+                  >
+                    <TableCell className="font-medium">{monthTitle(run)}</TableCell>
+                    <TableCell>
+                      <Badge variant={run.status === 'draft' ? 'secondary' : 'default'}>
+                        {PAYROLL_STATUS_LABELS[run.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{run.staff_count}</TableCell>
+                    <TableCell className="text-right">{formatAmount(run.total_net)}</TableCell>
+                    <TableCell>
+                      {run.payment_date ? new Date(`${run.payment_date}T00:00:00`).toLocaleDateString() : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {run.status === 'draft' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(run);
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selectedRun && (
+        <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+          <CardHeader className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>{monthTitle(selectedRun)}</CardTitle>
+              <CardDescription>
+                {isDraft
+                  ? 'Approved unpaid leave is already deducted. Adjust bonuses and deductions, then finalise to record the salaries as paid.'
+                  : `Finalised and paid on ${new Date(`${selectedRun.payment_date}T00:00:00`).toLocaleDateString()}.`}
+              </CardDescription>
+            </div>
+            {isDraft && (
+              <Button onClick={() => setFinalizeOpen(true)} disabled={lines.length === 0}>
+                <CheckCircle className="w-4 h-4 mr-2" />
+                Finalise
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Staff</TableHead>
+                  <TableHead className="text-right">Salary</TableHead>
+                  <TableHead className="text-right">Bonus</TableHead>
+                  <TableHead className="text-right">Deductions</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  {isDraft && <TableHead className="w-12" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {linesLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={isDraft ? 6 : 5} className="text-center text-muted-foreground">Loading...</TableCell>
+                  </TableRow>
+                ) : (
+                  lines.map(line => {
+                    const { bonus, deductions, deduction_items: deductionItems } = lineValue(line);
+                    const prorated = line.pay_period_start !== selectedRun.period_start;
+                    return (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          <p className="font-medium">{line.staff_name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {[line.staff_code, line.position].filter(Boolean).join(' · ')}
+                            {prorated && ` · from ${new Date(`${line.pay_period_start}T00:00:00`).toLocaleDateString()}`}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(line.amount)}</TableCell>
+                        <TableCell className="text-right">
+                          {isDraft ? (
+                            <Input
+                              type="number"
+                              min={0}
+                              value={bonus}
+                              onChange={(e) => setLineValue(line, { bonus: Number(e.target.value) || 0 })}
+                              className="w-28 ml-auto text-right"
+                            />
+                          ) : formatAmount(bonus)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {isDraft ? (
+                            <div className="flex items-center justify-end gap-1">
+                              {deductionItems.length > 0 ? (
+                                <span title={deductionItems.map(item => `${item.label}: ${formatAmount(item.amount)}`).join('\n')}>
+                                  {formatAmount(deductions)}
+                                </span>
+                              ) : (
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  value={deductions}
+                                  onChange={(e) => setLineValue(line, { deductions: Number(e.target.value) || 0 })}
+                                  className="w-28 text-right"
+                                />
+                              )}
+                              <Button size="sm" variant="ghost" title="Itemise deductions" onClick={() => setItemising(line)}>
+                                <ListPlus className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          ) : formatAmount(deductions)}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatAmount(line.amount + bonus - deductions)}
+                        </TableCell>
+                        {isDraft && (
+                          <TableCell>
+                            {isLineChanged(line) && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleSaveLine(line)}
+                                disabled={savingLine === line.id}
+                              >
+                                {savingLine === line.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                              </Button>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+              {lines.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.amount)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.bonus)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.deductions)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.net)}</TableCell>
+                    {isDraft && <TableCell />}
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <DeductionItemsDialog
+        staffName={itemising?.staff_name || ''}
+        items={itemising ? lineValue(itemising).deduction_items : null}
+        onClose={() => setItemising(null)}
+        onApply={(items) => itemising && applyDeductionItems(itemising, items)}
+      />
+
+      <Dialog open={finalizeOpen} onOpenChange={setFinalizeOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Finalise Payroll</DialogTitle>
+            <DialogDescription>
+              {selectedRun && `${monthTitle(selectedRun)}: ${lines.length} staff, ${formatAmount(totals.net)} net. `}
+              Finalised runs can no longer be edited.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="payroll-payment-date">Payment Date</Label>
+              <Input
+                id="payroll-payment-date"
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setFinalizeOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleFinalize} disabled={finalizing || !paymentDate}>
+                {finalizing ? 'Finalising...' : 'Finalise'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Payroll;
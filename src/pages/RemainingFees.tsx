@@ -12,7 +12,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Edit, Trash2, CreditCard, FolderOpen, Search, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Plus, Edit, Trash2, CreditCard, FolderOpen, Search, ChevronLeft, ChevronRight, BadgePercent, Gavel } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useCurrency } from '@/contexts/CurrencyContext';
 import { useSearchParams } from 'react-router-dom';
@@ -20,6 +20,11 @@ import { StudentSearchSelect } from '@/components/ui/StudentSearchSelect';
 import { useFinancialData } from '@/hooks/useFinancialData';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useRole } from '@/contexts/RoleContext';
+import { LateFeeRulesDialog } from '@/components/LateFeeRulesDialog';
+import { FeeProrationToggle } from '@/components/FeeProrationToggle';
+import { FeeFolderPenalty, fetchFeeFolderPenalties, waiveFeeFolderPenalty } from '@/services/lateFeeService';
 
 const ITEMS_PER_PAGE = 20;
 
@@ -56,9 +61,17 @@ const RemainingFees = () => {
   const [selectedFeeFolders, setSelectedFeeFolders] = useState<Set<string>>(new Set());
   const { toast } = useToast();
   const { formatAmount } = useCurrency();
+  const { isPrincipal, currentSchool } = useRole();
+
+  // Late fee penalties (derived server-side from due_date + school rules)
+  const [penalties, setPenalties] = useState<Map<string, FeeFolderPenalty>>(new Map());
+  const [waivingFolder, setWaivingFolder] = useState<FeeFolder | null>(null);
+  const [waiveReason, setWaiveReason] = useState('');
+  const [waiving, setWaiving] = useState(false);
 
   // Derived financial data (time-based, server-driven)
-  const { data: financialData } = useFinancialData();
+  const { data: financialData, refresh: refreshFinancialData } = useFinancialData();
+  const discountedStudents = (financialData?.fees?.students || []).filter((s) => s.discount_amount > 0);
 
   // Pagination & Search state
   const [searchParams, setSearchParams] = useSearchParams();
@@ -150,6 +163,14 @@ const RemainingFees = () => {
       );
       setTotalFolderRemaining(totalRemaining);
 
+      const { data: penaltyMap, error: penaltyError } = await fetchFeeFolderPenalties(
+        foldersWithRemaining.map(f => f.id)
+      );
+      if (penaltyError) {
+        toast({ title: 'Error', description: 'Failed to calculate late fees', variant: 'destructive' });
+      }
+      setPenalties(penaltyMap);
+
       // Fetch paginated data with remaining > 0
       let query = supabase
         .from('fee_folders')
@@ -234,6 +255,30 @@ const RemainingFees = () => {
     }
   };
 
+  const totalPenalty = Array.from(penalties.values()).reduce((sum, p) => sum + p.penalty, 0);
+
+  const handleWaivePenalty = async () => {
+    if (!waivingFolder) return;
+    if (!waiveReason.trim()) {
+      toast({ title: 'Error', description: 'Please give a reason for the waiver', variant: 'destructive' });
+      return;
+    }
+
+    setWaiving(true);
+    const { data: waived, error } = await waiveFeeFolderPenalty(waivingFolder.id, waiveReason);
+    setWaiving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: `Late fee of ${formatAmount(waived)} waived` });
+    setWaivingFolder(null);
+    setWaiveReason('');
+    fetchFeeFolders();
+  };
+
   // Mode state and effect handled above
 
   const onSubmit = async (data: z.infer<typeof feeFolderSchema>) => {
@@ -678,7 +723,7 @@ const RemainingFees = () => {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid gap-6 md:grid-cols-2">
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
         <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card hover-lift">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">Student Outstanding Fees</CardTitle>
@@ -689,6 +734,9 @@ const RemainingFees = () => {
               {formatAmount(financialData?.fees?.total_remaining || 0)}
             </div>
             <p className="text-xs text-muted-foreground">Derived from server date</p>
+            {isPrincipal && currentSchool && (
+              <FeeProrationToggle schoolId={currentSchool.school_id} onChange={refreshFinancialData} />
+            )}
           </CardContent>
         </Card>
 
@@ -702,8 +750,75 @@ const RemainingFees = () => {
             <p className="text-xs text-muted-foreground">Across {totalCount} folders with balance</p>
           </CardContent>
         </Card>
+
+        <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card hover-lift">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Late Fees Accrued</CardTitle>
+            <Gavel className="h-4 w-4 text-orange-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{formatAmount(totalPenalty)}</div>
+            <p className="text-xs text-muted-foreground">On {penalties.size} overdue folders, net of waivers</p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card hover-lift">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Concessions Applied</CardTitle>
+            <BadgePercent className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">
+              {formatAmount(financialData?.fees?.total_discount || 0)}
+            </div>
+            <p className="text-xs text-muted-foreground">Already deducted from student outstanding</p>
+          </CardContent>
+        </Card>
       </div>
 
+      {/* Per-student concessions (sibling, scholarship, staff child, ...) */}
+      {discountedStudents.length > 0 && (
+        <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card hover-lift">
+          <CardHeader>
+            <CardTitle>Concessions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Gross Fee</TableHead>
+                    <TableHead>Concessions</TableHead>
+                    <TableHead>Expected Fee</TableHead>
+                    <TableHead>Remaining</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {discountedStudents.map((s) => (
+                    <TableRow key={s.student_id}>
+                      <TableCell className="font-medium">{s.name}</TableCell>
+                      <TableCell>{formatAmount(s.gross_fee)}</TableCell>
+                      <TableCell>
+                        {s.discounts.map((d, index) => (
+                          <div key={index} className="text-sm text-green-600">
+                            {d.label}: -{formatAmount(d.amount)}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="font-semibold">{formatAmount(s.expected_fee)}</TableCell>
+                      <TableCell className={`font-semibold ${s.remaining_fee < 0 ? 'text-green-600' : 'text-orange-600'}`}>
+                        {formatAmount(s.remaining_fee)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card hover-lift">
         <CardHeader>
           <div className="flex justify-between items-center">
@@ -713,17 +828,22 @@ const RemainingFees = () => {
                 Showing {feeFolders.length} of {totalCount} with outstanding balance
               </span>
             </div>
-            {selectedFeeFolders.size > 0 && (
-              <Button
-                variant="destructive"
-                size="sm"
-                onClick={handleBulkDelete}
-                className="gap-2"
-              >
-                <Trash2 className="h-4 w-4" />
-                Delete ({selectedFeeFolders.size})
-              </Button>
-            )}
+            <div className="flex gap-2">
+              {isPrincipal && currentSchool && (
+                <LateFeeRulesDialog schoolId={currentSchool.school_id} onRulesChange={fetchFeeFolders} />
+              )}
+              {selectedFeeFolders.size > 0 && (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={handleBulkDelete}
+                  className="gap-2"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Delete ({selectedFeeFolders.size})
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -743,6 +863,7 @@ const RemainingFees = () => {
                   <TableHead>Amount Due</TableHead>
                   <TableHead>Amount Paid</TableHead>
                   <TableHead>Remaining</TableHead>
+                  <TableHead>Late Fee</TableHead>
                   <TableHead>Due Date</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Actions</TableHead>
@@ -751,7 +872,7 @@ const RemainingFees = () => {
               <TableBody>
                 {feeFolders.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={10} className="text-center text-muted-foreground">
+                    <TableCell colSpan={11} className="text-center text-muted-foreground">
                       {debouncedSearch ? 'No fee folders match your search' : 'No outstanding fee folders found'}
                     </TableCell>
                   </TableRow>
@@ -774,6 +895,20 @@ const RemainingFees = () => {
                       <TableCell className={folder.remaining_amount! > 0 ? 'text-destructive font-semibold' : 'text-green-600 font-semibold'}>
                         {formatAmount(folder.remaining_amount!)}
                       </TableCell>
+                      <TableCell>
+                        {penalties.has(folder.id) ? (
+                          <div>
+                            <span className="font-semibold text-orange-600">
+                              {formatAmount(penalties.get(folder.id)!.penalty)}
+                            </span>
+                            <div className="text-xs text-muted-foreground">
+                              {penalties.get(folder.id)!.days_overdue} days late
+                              {penalties.get(folder.id)!.waived_amount > 0 &&
+                                ` · ${formatAmount(penalties.get(folder.id)!.waived_amount)} waived`}
+                            </div>
+                          </div>
+                        ) : '-'}
+                      </TableCell>
                       <TableCell>
                         {folder.due_date ? new Date(folder.due_date).toLocaleDateString() : '-'}
                       </TableCell>
@@ -791,6 +926,16 @@ const RemainingFees = () => {
                           >
                             <Edit className="w-4 h-4" />
                           </Button>
+                          {isPrincipal && (penalties.get(folder.id)?.penalty ?? 0) > 0 && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Waive late fee"
+                              onClick={() => setWaivingFolder(folder)}
+                            >
+                              <Gavel className="w-4 h-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="outline"
                             size="sm"
@@ -838,6 +983,47 @@ const RemainingFees = () => {
           )}
         </CardContent>
       </Card>
+
+      {/* Waive late fee (principal only) */}
+      <Dialog
+        open={!!waivingFolder}
+        onOpenChange={(open) => { if (!open) { setWaivingFolder(null); setWaiveReason(''); } }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Waive Late Fee</DialogTitle>
+            <DialogDescription>
+              {waivingFolder && (
+                <>
+                  Waive {formatAmount(penalties.get(waivingFolder.id)?.penalty ?? 0)} on "{waivingFolder.folder_name}" for{' '}
+                  {waivingFolder.students?.name || 'Unknown Student'}. The waiver is recorded in the audit log.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="waive-reason">Reason</Label>
+            <Textarea
+              id="waive-reason"
+              placeholder="e.g., Parent paid on time, bank transfer delayed"
+              value={waiveReason}
+              onChange={(e) => setWaiveReason(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button variant="outline" onClick={() => { setWaivingFolder(null); setWaiveReason(''); }}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleWaivePenalty}
+              disabled={waiving}
+              className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+            >
+              {waiving ? 'Waiving...' : 'Waive Late Fee'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -5,6 +5,8 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContaine
 import { TrendingUp, TrendingDown, DollarSign, Receipt, CreditCard, BarChart3 } from 'lucide-react';
 import { useCurrency } from '@/contexts/CurrencyContext';
 import { useFinancialData } from '@/hooks/useFinancialData';
+import { useRole } from '@/contexts/RoleContext';
+import { BudgetVarianceCard } from '@/components/BudgetVarianceCard';
 
 interface ReportData {
   totalIncome: number;
@@ -38,6 +40,7 @@ const Reports = () => {
   });
   const [loading, setLoading] = useState(true);
   const { formatAmount } = useCurrency();
+  const { currentSchool, isPrincipal } = useRole();
 
   // Derived financial data (time-based, server-driven)
   const { data: financialData } = useFinancialData();
@@ -137,7 +140,7 @@ const Reports = () => {
       ] = await Promise.all([
         supabase.from('students').select('paid_fee').limit(1000),
         supabase.from('expenses').select('amount, category').limit(1000),
-        supabase.from('salaries').select('net_amount').limit(500),
+        supabase.from('salaries').select('net_amount').eq('status', 'paid').limit(500),
         supabase.from('fee_folders').select('amount_due').limit(500),
         supabase.from('staff').select('expected_salary_expense').limit(500)
       ]);
@@ -422,6 +425,9 @@ const Reports = () => {
         </Card>
       </div>
 
+      {/* Budget variance */}
+      {currentSchool && <BudgetVarianceCard schoolId={currentSchool.school_id} canConfigure={isPrincipal} />}
+
       {/* Payment Methods */}
       <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card hover-lift">
         <CardHeader>
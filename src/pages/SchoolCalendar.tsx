@@ -0,0 +1,263 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useRole } from '@/contexts/RoleContext';
+import { CalendarEventDialog } from '@/components/CalendarEventDialog';
+import { downloadICalendar, parseICalendar } from '@/lib/icalendar';
+import { WEEKDAY_LABELS } from '@/services/periodAttendanceService';
+import {
+  CALENDAR_EVENT_LABELS,
+  CalendarEvent,
+  SchoolCalendar as SchoolCalendarData,
+  deleteCalendarEvent,
+  fetchSchoolCalendar,
+  importCalendarEvents,
+  saveWeeklyOffs,
+} from '@/services/schoolCalendarService';
+import { CalendarDays, Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 7];
+
+const formatEventDates = (event: CalendarEvent) =>
+  event.start_date === event.end_date
+    ? new Date(`${event.start_date}T00:00:00`).toLocaleDateString()
+    : `${new Date(`${event.start_date}T00:00:00`).toLocaleDateString()} - ${new Date(`${event.end_date}T00:00:00`).toLocaleDateString()}`;
+
+const SchoolCalendar = () => {
+  const { toast } = useToast();
+  const { currentSchool } = useRole();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [calendar, setCalendar] = useState<SchoolCalendarData>({ weeklyOffs: [], events: [] });
+  const [weeklyOffs, setWeeklyOffs] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingOffs, setSavingOffs] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [editing, setEditing] = useState<CalendarEvent | null>(null);
+
+  const loadCalendar = useCallback(async () => {
+    if (!currentSchool) return;
+    const { data, error } = await fetchSchoolCalendar(currentSchool.school_id);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch the school calendar', variant: 'destructive' });
+    }
+    setCalendar(data);
+    setWeeklyOffs(data.weeklyOffs);
+    setLoading(false);
+  }, [currentSchool, toast]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  const offsChanged = [...weeklyOffs].sort((a, b) => a - b).join(',') !== [...calendar.weeklyOffs].sort((a, b) => a - b).join(',');
+
+  const toggleWeeklyOff = (day: number, checked: boolean) => {
+    setWeeklyOffs(prev => (checked ? [...prev, day] : prev.filter(d => d !== day)));
+  };
+
+  const handleSaveWeeklyOffs = async () => {
+    if (!currentSchool) return;
+    if (weeklyOffs.length === 7) {
+      toast({ title: 'Error', description: 'At least one day of the week must be a working day', variant: 'destructive' });
+      return;
+    }
+
+    setSavingOffs(true);
+    const { error } = await saveWeeklyOffs(currentSchool.school_id, [...weeklyOffs].sort((a, b) => a - b));
+    setSavingOffs(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: 'Weekly offs saved successfully' });
+    loadCalendar();
+  };
+
+  const handleAdd = () => {
+    if (!currentSchool) return;
+    const today = new Date().toISOString().split('T')[0];
+    setEditing({
+      school_id: currentSchool.school_id,
+      title: '',
+      event_type: 'holiday',
+      start_date: today,
+      end_date: today,
+      description: null,
+    });
+  };
+
+  const handleDelete = async (event: CalendarEvent) => {
+    if (!event.id || !confirm(`Delete "${event.title}"?`)) return;
+    const { error } = await deleteCalendarEvent(event.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: 'Event deleted successfully' });
+    loadCalendar();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !currentSchool) return;
+
+    setImporting(true);
+    try {
+      const events = parseICalendar(await file.text());
+      if (events.length === 0) {
+        toast({ title: 'Error', description: 'No events found in the file', variant: 'destructive' });
+        return;
+      }
+
+      const { data, error } = await importCalendarEvents(currentSchool.school_id, events);
+      if (error) {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Success', description: `Imported ${data} event${data === 1 ? '' : 's'}` });
+      loadCalendar();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!currentSchool) return;
+    downloadICalendar(calendar.events, `${currentSchool.school_name} Calendar`);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <CalendarDays className="w-8 h-8 text-primary" />
+            <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              School Calendar
+            </h1>
+          </div>
+          <p className="text-muted-foreground">Holidays, exams, terms and weekly offs used for working days</p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+            <Upload className="w-4 h-4 mr-2" />
+            {importing ? 'Importing...' : 'Import .ics'}
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={calendar.events.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export .ics
+          </Button>
+          <Button onClick={handleAdd} className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Event
+          </Button>
+        </div>
+      </div>
+
+      <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+        <CardHeader>
+          <CardTitle>Weekly Offs</CardTitle>
+          <CardDescription>Days the school is closed every week. They are not counted as working days.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div className="flex flex-wrap gap-4">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`weekly-off-${day}`}
+                  checked={weeklyOffs.includes(day)}
+                  onCheckedChange={(checked) => toggleWeeklyOff(day, checked === true)}
+                  disabled={loading}
+                />
+                <Label htmlFor={`weekly-off-${day}`}>{WEEKDAY_LABELS[day]}</Label>
+              </div>
+            ))}
+          </div>
+          <Button onClick={handleSaveWeeklyOffs} disabled={!offsChanged || savingOffs}>
+            {savingOffs ? 'Saving...' : 'Save'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+        <CardHeader>
+          <CardTitle>Events</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : calendar.events.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">No events yet</TableCell>
+                </TableRow>
+              ) : (
+                calendar.events.map(event => (
+                  <TableRow key={event.id}>
+                    <TableCell>
+                      <p className="font-medium">{event.title}</p>
+                      {event.description && <p className="text-xs text-muted-foreground">{event.description}</p>}
+                    </TableCell>
+                    <TableCell>{formatEventDates(event)}</TableCell>
+                    <TableCell>
+                      <Badge variant={event.event_type === 'holiday' ? 'default' : 'secondary'}>
+                        {CALENDAR_EVENT_LABELS[event.event_type]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" variant="ghost" onClick={() => setEditing(event)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(event)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {currentSchool && (
+        <CalendarEventDialog
+          schoolId={currentSchool.school_id}
+          event={editing}
+          onClose={() => setEditing(null)}
+          onSaved={loadCalendar}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SchoolCalendar;
@@ -20,6 +20,7 @@ import { BulkEditStaff } from '@/components/BulkEditStaff';
 import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { StaffInviteDialog } from '@/components/StaffInviteDialog';
+import { StaffSalaryHistoryDialog } from '@/components/StaffSalaryHistoryDialog';
 
 const ITEMS_PER_PAGE = 20;
 
@@ -43,6 +44,8 @@ type Staff = z.infer<typeof staffSchema> & {
   salary: number;
   salary_type: string;
   position: string;
+  staff_id?: string;
+  department?: string | null;
   last_active_at?: string;
 };
 
@@ -648,6 +651,9 @@ const Staff = () => {
                             <Button variant="outline" size="sm" onClick={() => handleEdit(staffMember)}>
                               <Edit className="w-4 h-4" />
                             </Button>
+                            {currentSchool && (
+                              <StaffSalaryHistoryDialog schoolId={currentSchool.school_id} staff={staffMember} />
+                            )}
                             <Button
                               variant="outline"
                               size="sm"
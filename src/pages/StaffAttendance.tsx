@@ -0,0 +1,564 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useRole } from '@/contexts/RoleContext';
+import { StaffLeaveRequestDialog } from '@/components/StaffLeaveRequestDialog';
+import { StaffLeaveAllowancesDialog } from '@/components/StaffLeaveAllowancesDialog';
+import {
+  LEAVE_STATUS_LABELS,
+  LEAVE_STATUS_VARIANTS,
+  LeaveRequestStatus,
+  formatLeaveDates,
+} from '@/services/studentLeaveService';
+import {
+  STAFF_ATTENDANCE_STATUS_LABELS,
+  STAFF_LEAVE_TYPE_LABELS,
+  StaffAttendanceEntry,
+  StaffAttendanceRow,
+  StaffLeaveBalance,
+  StaffLeaveRequest,
+  cancelStaffLeave,
+  decideStaffLeave,
+  fetchStaffAttendance,
+  fetchStaffLeaveBalances,
+  fetchStaffLeaveRequests,
+  saveStaffAttendance,
+} from '@/services/staffAttendanceService';
+import { format } from 'date-fns';
+import { Check, CheckCheck, Save, UserCheck, X } from 'lucide-react';
+
+type LeaveFilter = LeaveRequestStatus | 'all';
+type RowValue = Pick<StaffAttendanceEntry, 'status' | 'notes'> & { check_in: string; check_out: string };
+
+const UNMARKED = 'unmarked';
+
+const toTime = (value: string | null) => (value ? format(new Date(value), 'HH:mm') : '');
+
+const toTimestamp = (date: string, time: string) => (time ? new Date(`${date}T${time}`).toISOString() : null);
+
+const rowValue = (row: StaffAttendanceRow): RowValue => ({
+  status: row.status === 'on_leave' ? null : row.status,
+  check_in: toTime(row.check_in_at),
+  check_out: toTime(row.check_out_at),
+  notes: row.notes,
+});
+
+const StaffAttendance = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { currentSchool, isPrincipal } = useRole();
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  // Register
+  const [date, setDate] = useState(today);
+  const [rows, setRows] = useState<StaffAttendanceRow[]>([]);
+  const [edits, setEdits] = useState<Record<string, RowValue>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Leave
+  const [filter, setFilter] = useState<LeaveFilter>('pending');
+  const [requests, setRequests] = useState<StaffLeaveRequest[]>([]);
+  const [requestsLoading, setRequestsLoading] = useState(true);
+  const [deciding, setDeciding] = useState<{ request: StaffLeaveRequest; approve: boolean } | null>(null);
+  const [note, setNote] = useState('');
+  const [decidingSaving, setDecidingSaving] = useState(false);
+
+  // Balances
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [balances, setBalances] = useState<StaffLeaveBalance[]>([]);
+  const [balancesLoading, setBalancesLoading] = useState(true);
+
+  const loadRegister = useCallback(async () => {
+    if (!currentSchool) return;
+    setLoading(true);
+    const { data, error } = await fetchStaffAttendance(currentSchool.school_id, date);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch staff attendance', variant: 'destructive' });
+    }
+    setRows(data);
+    setEdits({});
+    setLoading(false);
+  }, [currentSchool, date, toast]);
+
+  const loadRequests = useCallback(async () => {
+    if (!currentSchool) return;
+    const { data, error } = await fetchStaffLeaveRequests(
+      currentSchool.school_id,
+      filter === 'all' ? {} : { status: filter }
+    );
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch leave requests', variant: 'destructive' });
+    }
+    setRequests(data);
+    setRequestsLoading(false);
+  }, [currentSchool, filter, toast]);
+
+  const loadBalances = useCallback(async () => {
+    if (!currentSchool) return;
+    const { data, error } = await fetchStaffLeaveBalances(currentSchool.school_id, year);
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch leave balances', variant: 'destructive' });
+    }
+    setBalances(data);
+    setBalancesLoading(false);
+  }, [currentSchool, year, toast]);
+
+  useEffect(() => {
+    loadRegister();
+  }, [loadRegister]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  useEffect(() => {
+    loadBalances();
+  }, [loadBalances]);
+
+  const valueOf = (row: StaffAttendanceRow) => edits[row.staff_id] || rowValue(row);
+
+  const updateRow = (row: StaffAttendanceRow, changes: Partial<RowValue>) => {
+    setEdits(prev => ({ ...prev, [row.staff_id]: { ...valueOf(row), ...changes } }));
+  };
+
+  const markAllPresent = () => {
+    const unmarked = rows.filter(row => row.status === null && !valueOf(row).status);
+    setEdits(prev => ({
+      ...prev,
+      ...Object.fromEntries(unmarked.map(row => [row.staff_id, { ...valueOf(row), status: 'present' as const }])),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!currentSchool) return;
+    const entries: StaffAttendanceEntry[] = Object.entries(edits).map(([staffId, value]) => ({
+      staff_id: staffId,
+      status: value.status,
+      check_in_at: toTimestamp(date, value.check_in),
+      check_out_at: toTimestamp(date, value.check_out),
+      notes: value.notes,
+    }));
+
+    setSaving(true);
+    const { error } = await saveStaffAttendance(currentSchool.school_id, date, entries);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Staff attendance saved successfully' });
+    loadRegister();
+  };
+
+  const openDecision = (request: StaffLeaveRequest, approve: boolean) => {
+    setNote('');
+    setDeciding({ request, approve });
+  };
+
+  const handleDecide = async () => {
+    if (!deciding) return;
+    setDecidingSaving(true);
+    const { error } = await decideStaffLeave(deciding.request.id, deciding.approve, note.trim() || undefined);
+    setDecidingSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: `Leave ${deciding.approve ? 'approved' : 'rejected'}` });
+    setDeciding(null);
+    loadRequests();
+    loadBalances();
+    loadRegister();
+  };
+
+  const handleCancel = async (request: StaffLeaveRequest) => {
+    const { error } = await cancelStaffLeave(request.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: 'Leave request cancelled' });
+    loadRequests();
+    loadBalances();
+  };
+
+  const onLeaveSubmitted = () => {
+    loadRequests();
+    loadBalances();
+  };
+
+  const counts = rows.reduce<Record<string, number>>((acc, row) => {
+    const status = row.status === 'on_leave' ? 'on_leave' : valueOf(row).status || UNMARKED;
+    acc[status] = (acc[status] || 0) + 1;
+    return acc;
+  }, {});
+  const dirty = Object.keys(edits).length > 0;
+  const staffOptions = rows.map(row => ({ id: row.staff_id, name: row.staff_name }));
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <UserCheck className="w-8 h-8 text-primary" />
+            <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              Staff Attendance
+            </h1>
+          </div>
+          <p className="text-muted-foreground">Daily check-in and check-out, leave requests and annual balances</p>
+        </div>
+        {currentSchool && staffOptions.length > 0 && (
+          <StaffLeaveRequestDialog schoolId={currentSchool.school_id} staff={staffOptions} onSubmitted={onLeaveSubmitted} />
+        )}
+      </div>
+
+      <Tabs defaultValue="register">
+        <TabsList>
+          <TabsTrigger value="register">Register</TabsTrigger>
+          <TabsTrigger value="leave">Leave Requests</TabsTrigger>
+          <TabsTrigger value="balances">Balances</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="register">
+          <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+            <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-end md:justify-between">
+              <div className="space-y-1">
+                <CardTitle>Daily Register</CardTitle>
+                <CardDescription>
+                  {(['present', 'half_day', 'absent', 'on_leave'] as const)
+                    .map(status => `${counts[status] || 0} ${STAFF_ATTENDANCE_STATUS_LABELS[status].toLowerCase()}`)
+                    .join(' · ')}
+                  {counts[UNMARKED] ? ` · ${counts[UNMARKED]} not marked` : ''}
+                </CardDescription>
+              </div>
+              <div className="flex items-end gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="staff-attendance-date">Date</Label>
+                  <Input
+                    id="staff-attendance-date"
+                    type="date"
+                    value={date}
+                    max={today}
+                    onChange={(e) => e.target.value && setDate(e.target.value)}
+                    className="w-44"
+                  />
+                </div>
+                <Button variant="outline" onClick={markAllPresent} disabled={!counts[UNMARKED]} className="gap-2">
+                  <CheckCheck className="w-4 h-4" />
+                  Mark All Present
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={!dirty || saving}
+                  className="gap-2 bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+                >
+                  <Save className="w-4 h-4" />
+                  {saving ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Staff</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Check In</TableHead>
+                    <TableHead>Check Out</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">Loading...</TableCell>
+                    </TableRow>
+                  ) : rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">No active staff</TableCell>
+                    </TableRow>
+                  ) : (
+                    rows.map(row => {
+                      const value = valueOf(row);
+                      return (
+                        <TableRow key={row.staff_id}>
+                          <TableCell>
+                            <p className="font-medium">{row.staff_name}</p>
+                            <p className="text-xs text-muted-foreground">{row.staff_code} · {row.position}</p>
+                          </TableCell>
+                          {row.status === 'on_leave' ? (
+                            <TableCell colSpan={4}>
+                              <Badge variant="secondary">
+                                On {row.leave_type ? `${STAFF_LEAVE_TYPE_LABELS[row.leave_type].toLowerCase()} ` : ''}leave
+                              </Badge>
+                            </TableCell>
+                          ) : (
+                            <>
+                              <TableCell>
+                                <Select
+                                  value={value.status || UNMARKED}
+                                  onValueChange={(status) => updateRow(row, {
+                                    status: status === UNMARKED ? null : status as StaffAttendanceEntry['status'],
+                                  })}
+                                >
+                                  <SelectTrigger className="w-32">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value={UNMARKED}>Not marked</SelectItem>
+                                    {(['present', 'half_day', 'absent'] as const).map(status => (
+                                      <SelectItem key={status} value={status}>{STAFF_ATTENDANCE_STATUS_LABELS[status]}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  type="time"
+                                  value={value.check_in}
+                                  disabled={!value.status || value.status === 'absent'}
+                                  onChange={(e) => updateRow(row, { check_in: e.target.value })}
+                                  className="w-28"
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  type="time"
+                                  value={value.check_out}
+                                  disabled={!value.status || value.status === 'absent'}
+                                  onChange={(e) => updateRow(row, { check_out: e.target.value })}
+                                  className="w-28"
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  value={value.notes || ''}
+                                  disabled={!value.status}
+                                  onChange={(e) => updateRow(row, { notes: e.target.value })}
+                                />
+                              </TableCell>
+                            </>
+                          )}
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="leave" className="space-y-4">
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as LeaveFilter)}>
+            <TabsList>
+              <TabsTrigger value="pending">Pending</TabsTrigger>
+              <TabsTrigger value="approved">Approved</TabsTrigger>
+              <TabsTrigger value="rejected">Rejected</TabsTrigger>
+              <TabsTrigger value="all">All</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+            <CardHeader>
+              <CardTitle>{filter === 'all' ? 'All Requests' : `${LEAVE_STATUS_LABELS[filter]} Requests`}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Staff</TableHead>
+                    <TableHead>Leave</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead className="text-right">Days</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requestsLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">Loading...</TableCell>
+                    </TableRow>
+                  ) : requests.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">No leave requests</TableCell>
+                    </TableRow>
+                  ) : (
+                    requests.map(request => (
+                      <TableRow key={request.id}>
+                        <TableCell className="font-medium">{request.staff_name}</TableCell>
+                        <TableCell>
+                          <p>{STAFF_LEAVE_TYPE_LABELS[request.leave_type]}</p>
+                          {request.reason && <p className="text-xs text-muted-foreground">{request.reason}</p>}
+                        </TableCell>
+                        <TableCell>{formatLeaveDates(request)}</TableCell>
+                        <TableCell className="text-right">{request.days}</TableCell>
+                        <TableCell>
+                          <Badge variant={LEAVE_STATUS_VARIANTS[request.status]} title={request.decision_note || undefined}>
+                            {LEAVE_STATUS_LABELS[request.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {request.status === 'pending' && (
+                            <div className="flex justify-end gap-1">
+                              {isPrincipal && (
+                                <>
+                                  <Button size="sm" variant="outline" onClick={() => openDecision(request, true)}>
+                                    <Check className="w-4 h-4 mr-1" />
+                                    Approve
+                                  </Button>
+                                  <Button size="sm" variant="outline" onClick={() => openDecision(request, false)}>
+                                    <X className="w-4 h-4 mr-1" />
+                                    Reject
+                                  </Button>
+                                </>
+                              )}
+                              {(isPrincipal || request.requested_by === user?.id) && (
+                                <Button size="sm" variant="ghost" onClick={() => handleCancel(request)}>
+                                  Cancel
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="balances">
+          <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+            <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-end md:justify-between">
+              <div className="space-y-1">
+                <CardTitle>Leave Balances</CardTitle>
+                <CardDescription>Approved working days against the annual allowance. Leave counts toward the year it starts in.</CardDescription>
+              </div>
+              <div className="flex items-end gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="staff-leave-year">Year</Label>
+                  <Input
+                    id="staff-leave-year"
+                    type="number"
+                    value={year}
+                    onChange={(e) => Number(e.target.value) && setYear(Number(e.target.value))}
+                    className="w-28"
+                  />
+                </div>
+                {isPrincipal && currentSchool && (
+                  <StaffLeaveAllowancesDialog schoolId={currentSchool.school_id} onAllowancesChange={loadBalances} />
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Staff</TableHead>
+                    <TableHead className="text-right">Casual</TableHead>
+                    <TableHead className="text-right">Sick</TableHead>
+                    <TableHead className="text-right">Unpaid</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {balancesLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">Loading...</TableCell>
+                    </TableRow>
+                  ) : balances.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">No active staff</TableCell>
+                    </TableRow>
+                  ) : (
+                    balances.map(balance => (
+                      <TableRow key={balance.staff_id}>
+                        <TableCell className="font-medium">{balance.staff_name}</TableCell>
+                        {(['casual', 'sick'] as const).map(type => {
+                          const b = balance.balances[type];
+                          return (
+                            <TableCell key={type} className="text-right">
+                              <p className={b.remaining !== null && b.remaining <= 0 ? 'text-destructive font-medium' : 'font-medium'}>
+                                {b.remaining ?? '-'} left
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {b.used} of {b.allowance ?? '-'} used{b.pending > 0 ? ` · ${b.pending} pending` : ''}
+                              </p>
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell className="text-right">
+                          <p className="font-medium">{balance.balances.unpaid.used} days</p>
+                          {balance.balances.unpaid.pending > 0 && (
+                            <p className="text-xs text-muted-foreground">{balance.balances.unpaid.pending} pending</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={deciding !== null} onOpenChange={(open) => !open && setDeciding(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{deciding?.approve ? 'Approve Leave' : 'Reject Leave'}</DialogTitle>
+            <DialogDescription>
+              {deciding && `${deciding.request.staff_name}, ${STAFF_LEAVE_TYPE_LABELS[deciding.request.leave_type].toLowerCase()} leave, ${formatLeaveDates(deciding.request)}. `}
+              {deciding?.approve && deciding.request.leave_type === 'unpaid' && 'These days are deducted from the salary in payroll.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="staff-leave-decision-note">Note (optional)</Label>
+              <Textarea
+                id="staff-leave-decision-note"
+                rows={3}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setDeciding(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant={deciding?.approve ? 'default' : 'destructive'}
+                onClick={handleDecide}
+                disabled={decidingSaving}
+              >
+                {decidingSaving ? 'Saving...' : deciding?.approve ? 'Approve' : 'Reject'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default StaffAttendance;
@@ -0,0 +1,187 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useFinancialData } from '@/hooks/useFinancialData';
+import { downloadStatement } from '@/lib/statementGenerator';
+import { buildStudentLedger, fetchStudentLedgerSource, StudentLedgerSource } from '@/services/ledgerService';
+import { ArrowLeft, BookOpen, Download, Loader2 } from 'lucide-react';
+
+const StudentLedger = () => {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { formatAmount, currency } = useCurrency();
+  const { data: financialData, isLoading: feesLoading } = useFinancialData();
+
+  const [loading, setLoading] = useState(true);
+  const [source, setSource] = useState<StudentLedgerSource | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    setLoading(true);
+    fetchStudentLedgerSource(id).then(({ data, error }) => {
+      if (error) {
+        toast({ title: 'Error', description: 'Failed to load student ledger', variant: 'destructive' });
+      }
+      setSource(data);
+      setLoading(false);
+    });
+  }, [id, toast]);
+
+  const feeData = useMemo(
+    () => financialData?.fees?.students.find(s => s.student_id === id) || null,
+    [financialData, id]
+  );
+
+  const entries = useMemo(
+    () => (source ? buildStudentLedger(feeData, source) : []),
+    [feeData, source]
+  );
+
+  const totals = useMemo(() => entries.reduce(
+    (acc, entry) => ({ debit: acc.debit + entry.debit, credit: acc.credit + entry.credit }),
+    { debit: 0, credit: 0 }
+  ), [entries]);
+
+  const closingBalance = entries.length > 0 ? entries[entries.length - 1].balance : 0;
+  const student = source?.student;
+
+  const handleDownload = () => {
+    if (!student) return;
+    downloadStatement({
+      studentName: student.name,
+      studentCode: student.student_id,
+      className: student.class,
+      guardianName: student.guardian_name,
+      currency: currency.code,
+      entries,
+    });
+  };
+
+  if (loading || feesLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!student) {
+    return (
+      <div className="space-y-4">
+        <Button variant="outline" asChild>
+          <Link to="/students"><ArrowLeft className="w-4 h-4 mr-2" />Back to Students</Link>
+        </Button>
+        <p className="text-muted-foreground">Student not found.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <BookOpen className="w-8 h-8 text-primary" />
+            <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              {student.name}
+            </h1>
+          </div>
+          <p className="text-muted-foreground">
+            Statement of account{student.class ? ` · ${student.class}` : ''}{feeData?.is_archived ? ' · Archived' : ''}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/students"><ArrowLeft className="w-4 h-4 mr-2" />Back</Link>
+          </Button>
+          <Button onClick={handleDownload} disabled={entries.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Download Statement
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Total Charged</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatAmount(totals.debit)}</div>
+          </CardContent>
+        </Card>
+        <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Total Credited</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{formatAmount(totals.credit)}</div>
+            <p className="text-xs text-muted-foreground">Payments and concessions</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              {closingBalance < 0 ? 'Balance in Credit' : 'Balance Due'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${closingBalance > 0 ? 'text-destructive' : 'text-green-600'}`}>
+              {formatAmount(Math.abs(closingBalance))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-gradient-to-br from-card via-card to-accent/5 border-0 shadow-card">
+        <CardHeader>
+          <CardTitle>Ledger</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No charges or payments recorded for this student
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((entry, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{entry.date ? new Date(entry.date).toLocaleDateString() : '-'}</TableCell>
+                      <TableCell>{entry.description}</TableCell>
+                      <TableCell className="text-muted-foreground">{entry.reference || '-'}</TableCell>
+                      <TableCell className="text-right">{entry.debit ? formatAmount(entry.debit) : ''}</TableCell>
+                      <TableCell className="text-right text-green-600">{entry.credit ? formatAmount(entry.credit) : ''}</TableCell>
+                      <TableCell className={`text-right font-medium ${entry.balance > 0 ? 'text-destructive' : ''}`}>
+                        {formatAmount(entry.balance)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StudentLedger;
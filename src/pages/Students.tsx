@@ -1,4 +1,5 @@
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,19 +13,26 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Edit, Trash2, GraduationCap, Search, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Plus, Edit, Trash2, GraduationCap, Search, ChevronLeft, ChevronRight, BookOpen } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useCurrency } from '@/contexts/CurrencyContext';
 import { StudentBatchImport } from '@/components/StudentBatchImport';
 import { BulkEditStudents } from '@/components/BulkEditStudents';
 import { useAuth } from '@/hooks/useAuth';
 import { useFinancialData } from '@/hooks/useFinancialData';
+import { FeePlanManager } from '@/components/FeePlanManager';
+import { StudentDiscountsDialog } from '@/components/StudentDiscountsDialog';
+import { FeePlan, fetchFeePlans, getPlanTotal } from '@/services/feePlanService';
+
+// Select sentinel for "no fee plan" (Radix Select items cannot use an empty value)
+const NO_FEE_PLAN = 'none';
 
 const studentSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
   class: z.string().min(1, 'Class is required'),
   fee_amount: z.number().min(0, 'Fee amount must be positive'),
   fee_type: z.enum(['monthly', 'annually']),
+  fee_plan_id: z.string().optional(),
   guardian_name: z.string().min(2, 'Guardian name is required'),
   guardian_phone: z.string().min(10, 'Guardian phone is required'),
   join_date: z.string().min(1, 'Joining date is required'),
@@ -34,8 +42,9 @@ const studentSchema = z.object({
   date_of_birth: z.string().optional().or(z.literal('')),
 });
 
-type Student = z.infer<typeof studentSchema> & {
+type Student = Omit<z.infer<typeof studentSchema>, 'fee_plan_id'> & {
   id: string;
+  fee_plan_id?: string | null;
   created_at?: string;
   updated_at?: string;
   payment_status?: string;
@@ -50,6 +59,7 @@ const Students = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
   const [selectedStudents, setSelectedStudents] = useState<Set<string>>(new Set());
+  const [feePlans, setFeePlans] = useState<FeePlan[]>([]);
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -67,18 +77,19 @@ const Students = () => {
   const { formatAmount } = useCurrency();
 
   // Derived financial data (time-based, server-driven)
-  const { data: financialData } = useFinancialData();
+  const { data: financialData, refresh: refreshFinancialData } = useFinancialData();
 
   // Build lookup map for per-student derived fees (from database trigger)
   // Frontend is READ-ONLY - all values come from the server
   const derivedFeesMap = useMemo(() => {
-    const map = new Map<string, { remaining_fee: number; status: string; total_paid: number }>();
+    const map = new Map<string, { remaining_fee: number; status: string; total_paid: number; discount_amount: number }>();
     if (financialData?.fees?.students) {
       for (const s of financialData.fees.students) {
         map.set(s.student_id, {
           remaining_fee: s.remaining_fee,
           status: s.status,
-          total_paid: s.total_paid
+          total_paid: s.total_paid,
+          discount_amount: s.discount_amount
         });
       }
     }
@@ -94,6 +105,7 @@ const Students = () => {
       class: '',
       fee_amount: 0,
       fee_type: 'monthly',
+      fee_plan_id: NO_FEE_PLAN,
       guardian_name: '',
       guardian_phone: '',
       join_date: new Date().toISOString().split('T')[0],
@@ -114,6 +126,19 @@ const Students = () => {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  const loadFeePlans = useCallback(async () => {
+    const { data, error } = await fetchFeePlans();
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch fee plans', variant: 'destructive' });
+      return;
+    }
+    setFeePlans(data);
+  }, [toast]);
+
+  useEffect(() => {
+    loadFeePlans();
+  }, [loadFeePlans]);
+
   // Fetch students with memoized callback
   const fetchStudents = useCallback(async () => {
     // Guard: prevent query without auth
@@ -131,11 +156,11 @@ const Students = () => {
         .eq('user_id', user.id)  // Defense-in-depth: explicit tenant filter
         .order('created_at', { ascending: false });
 
-      // Server-side ILIKE search across name, class, guardian_name
+      // Server-side ILIKE search across name, class, guardian_name, guardian_phone
       // Applied BEFORE pagination
       if (debouncedSearch && debouncedSearch.trim()) {
         const searchTerm = `%${debouncedSearch.trim()}%`;
-        query = query.or(`name.ilike.${searchTerm},class.ilike.${searchTerm},guardian_name.ilike.${searchTerm}`);
+        query = query.or(`name.ilike.${searchTerm},class.ilike.${searchTerm},guardian_name.ilike.${searchTerm},guardian_phone.ilike.${searchTerm}`);
       }
 
       query = query.range(from, to);
@@ -184,6 +209,7 @@ const Students = () => {
         class: data.class,
         fee_amount: data.fee_amount,
         fee_type: data.fee_type,
+        fee_plan_id: data.fee_plan_id && data.fee_plan_id !== NO_FEE_PLAN ? data.fee_plan_id : null,
         guardian_name: data.guardian_name,
         guardian_phone: data.guardian_phone,
         join_date: data.join_date,
@@ -311,6 +337,7 @@ const Students = () => {
       class: student.class || '',
       fee_amount: Number(student.fee_amount || 0),
       fee_type: student.fee_type as 'monthly' | 'annually',
+      fee_plan_id: student.fee_plan_id || NO_FEE_PLAN,
       guardian_name: student.guardian_name || '',
       guardian_phone: student.guardian_phone || '',
       join_date: student.join_date || new Date().toISOString().split('T')[0],
@@ -409,8 +436,9 @@ const Students = () => {
           <p className="text-muted-foreground">Manage student enrollment and information</p>
         </div>
         <div className="flex gap-2">
+          <FeePlanManager plans={feePlans} onPlansChange={loadFeePlans} />
           <BulkEditStudents students={students} onEditComplete={fetchStudents} />
-          <StudentBatchImport onImportComplete={fetchStudents} />
+          <StudentBatchImport onImportComplete={fetchStudents} feePlans={feePlans} />
           <Dialog open={isDialogOpen} onOpenChange={handleDialogChange}>
             <DialogTrigger asChild>
               <Button className="bg-gradient-to-r from-primary to-primary-glow hover:opacity-90">
@@ -493,6 +521,32 @@ const Students = () => {
                       )}
                     />
                   </div>
+                  <FormField
+                    control={form.control}
+                    name="fee_plan_id"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fee Plan (Optional)</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value || NO_FEE_PLAN}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select fee plan" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_FEE_PLAN}>No plan (use fee type and amount)</SelectItem>
+                            {feePlans.map(plan => (
+                              <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          When a plan is selected, fees are billed from its installment schedule instead of the fee type.
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <FormField
                     control={form.control}
                     name="guardian_name"
@@ -621,7 +675,7 @@ const Students = () => {
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search students by name, ID, email, class, or guardian..."
+                placeholder="Search students by name, ID, email, class, or guardian name/phone..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-9"
@@ -680,10 +734,24 @@ const Students = () => {
                       <TableCell>{student.class || '-'}</TableCell>
                       <TableCell>{student.guardian_name || '-'}</TableCell>
                       <TableCell className="font-semibold text-primary">
-                        {formatAmount(Number((student as any).total_fee || student.fee_amount || 0))}
+                        {(() => {
+                          const plan = feePlans.find(p => p.id === student.fee_plan_id);
+                          if (!plan) return formatAmount(Number((student as any).total_fee || student.fee_amount || 0));
+                          return (
+                            <div>
+                              {formatAmount(getPlanTotal(plan))}
+                              <div className="text-xs font-normal text-muted-foreground">{plan.name}</div>
+                            </div>
+                          );
+                        })()}
                       </TableCell>
                       <TableCell className={`font-semibold ${(derivedFeesMap.get(student.id)?.remaining_fee ?? 0) < 0 ? 'text-green-600' : 'text-orange-600'}`}>
                         {formatAmount(derivedFeesMap.get(student.id)?.remaining_fee ?? 0)}
+                        {(derivedFeesMap.get(student.id)?.discount_amount ?? 0) > 0 && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            after {formatAmount(derivedFeesMap.get(student.id)?.discount_amount ?? 0)} concessions
+                          </div>
+                        )}
                       </TableCell>
 
                       <TableCell>
@@ -708,6 +776,12 @@ const Students = () => {
                           <Button variant="outline" size="sm" onClick={() => handleEdit(student)}>
                             <Edit className="w-4 h-4" />
                           </Button>
+                          <StudentDiscountsDialog student={{ id: student.id, name: student.name || '' }} onDiscountsChange={refreshFinancialData} />
+                          <Button variant="outline" size="sm" asChild title="Statement of account">
+                            <Link to={`/students/${student.id}/ledger`}>
+                              <BookOpen className="w-4 h-4" />
+                            </Link>
+                          </Button>
                           <Button
                             variant="outline"
                             size="sm"
@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ReceiptVerification, verifyReceipt } from '@/services/receiptVerificationService';
+import { PAYMENT_STATUS_LABELS } from '@/services/paymentReversalService';
+import { CheckCircle2, ShieldCheck, XCircle } from 'lucide-react';
+
+// Public page: opened from the QR code on a receipt, no login required
+const VerifyReceipt = () => {
+  const [searchParams] = useSearchParams();
+  const [receiptNumber, setReceiptNumber] = useState(searchParams.get('r') || '');
+  const [token, setToken] = useState(searchParams.get('t') || '');
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<ReceiptVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerify = useCallback(async (number: string, code: string) => {
+    if (!number.trim() || !code.trim()) return;
+    setChecking(true);
+    setError(null);
+    setResult(null);
+
+    const { data, error } = await verifyReceipt(number, code);
+    if (error) setError(error.message);
+    setResult(data);
+    setChecking(false);
+  }, []);
+
+  // Scanned QR codes carry both values, so check straight away
+  useEffect(() => {
+    const number = searchParams.get('r');
+    const code = searchParams.get('t');
+    if (number && code) handleVerify(number, code);
+  }, [searchParams, handleVerify]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <Card className="w-full max-w-md shadow-card border-0 bg-card/50 backdrop-blur-sm">
+        <CardHeader className="text-center space-y-4">
+          <div className="mx-auto w-12 h-12 bg-gradient-to-r from-primary to-primary-glow rounded-xl flex items-center justify-center">
+            <ShieldCheck className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <div>
+            <CardTitle className="text-2xl">Verify Receipt</CardTitle>
+            <CardDescription>Enter the receipt number and verification code printed on the receipt</CardDescription>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleVerify(receiptNumber, token);
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="receipt-number">Receipt Number</Label>
+              <Input id="receipt-number" value={receiptNumber} onChange={(e) => setReceiptNumber(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="receipt-token">Verification Code</Label>
+              <Input id="receipt-token" value={token} onChange={(e) => setToken(e.target.value)} />
+            </div>
+            <Button
+              type="submit"
+              className="w-full bg-gradient-to-r from-primary to-primary-glow hover:opacity-90"
+              disabled={checking || !receiptNumber.trim() || !token.trim()}
+            >
+              {checking ? 'Checking...' : 'Verify'}
+            </Button>
+          </form>
+
+          {error && <p className="text-sm text-destructive text-center">{error}</p>}
+
+          {result?.valid && (
+            <div className="rounded-md border border-green-200 bg-green-50 dark:bg-green-950 dark:border-green-900 p-4 space-y-1">
+              <div className="flex items-center gap-2 font-medium text-green-700 dark:text-green-300">
+                <CheckCircle2 className="w-5 h-5" />
+                Genuine receipt
+              </div>
+              {result.school_name && <p className="text-sm">Issued by {result.school_name}</p>}
+              <p className="text-sm">
+                {result.currency} {result.amount?.toFixed(2)} paid on{' '}
+                {result.payment_date ? new Date(result.payment_date).toLocaleDateString() : '-'}
+              </p>
+              {result.status === 'partially_refunded' && (
+                <p className="text-sm text-muted-foreground">Part of this payment has since been refunded.</p>
+              )}
+            </div>
+          )}
+
+          {result && !result.valid && result.status && (
+            <div className="rounded-md border border-red-200 bg-red-50 dark:bg-red-950 dark:border-red-900 p-4">
+              <div className="flex items-center gap-2 font-medium text-red-700 dark:text-red-300">
+                <XCircle className="w-5 h-5" />
+                {PAYMENT_STATUS_LABELS[result.status]} receipt
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                This receipt was issued{result.school_name ? ` by ${result.school_name}` : ''}, but the payment
+                has been {result.status === 'voided' ? 'voided' : 'refunded in full'} and no longer counts.
+              </p>
+            </div>
+          )}
+
+          {result && !result.valid && !result.status && (
+            <div className="rounded-md border border-red-200 bg-red-50 dark:bg-red-950 dark:border-red-900 p-4">
+              <div className="flex items-center gap-2 font-medium text-red-700 dark:text-red-300">
+                <XCircle className="w-5 h-5" />
+                No matching payment
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                The receipt number or code is wrong, or the payment was not recorded by the school.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyReceipt;
@@ -0,0 +1,147 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type AcademicYear = Tables<'academic_years'>;
+
+export type PromotionDecision = 'promote' | 'hold' | 'graduate';
+
+export interface YearClass {
+    id: string;
+    name: string;
+    grade: string | null;
+    section: string | null;
+    academic_year: string | null;
+    is_active: boolean | null;
+}
+
+export interface RolloverCandidate {
+    student_id: string;
+    student_name: string;
+    class_id: string;
+    class_name: string;
+    balance: number;                           // Carried into the new year (negative = advance credit)
+}
+
+export interface RolloverRequest {
+    fromYear: string;
+    toYear: string;
+    startDate: string;                         // First day of a month, no later than the current month
+    classMap: Record<string, string | null>;  // from class id -> class it promotes into (null = graduates)
+    decisions: Record<string, PromotionDecision>;
+}
+
+export interface RolloverSummary {
+    classes_created: number;
+    promoted: number;
+    held_back: number;
+    graduated: number;
+    balance_carried: number;
+}
+
+/**
+ * Fetch the academic years recorded for a school (newest first)
+ * @param schoolId - School id
+ * @returns Promise with academic years and error
+ */
+export async function fetchAcademicYears(
+    schoolId: string
+): Promise<{ data: AcademicYear[]; error: Error | null }> {
+    const { data, error } = await supabase
+        .from('academic_years')
+        .select('*')
+        .eq('school_id', schoolId)
+        .order('created_at', { ascending: false });
+
+    return { data: data || [], error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Fetch every class of a school across all academic years
+ * @param schoolId - School id
+ * @returns Promise with classes and error
+ */
+export async function fetchSchoolClasses(
+    schoolId: string
+): Promise<{ data: YearClass[]; error: Error | null }> {
+    const { data, error } = await supabase
+        .from('classes')
+        .select('id, name, grade, section, academic_year, is_active')
+        .eq('school_id', schoolId)
+        .order('name');
+
+    return { data: data || [], error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Students who will be promoted out of an academic year (principal only), with the
+ * balance each carries: calculate-remaining-fees as of the new year's start, i.e.
+ * charges and payments dated before it
+ * @param schoolId - School id
+ * @param fromYear - Academic year being closed
+ * @param startDate - Start of the new year (YYYY-MM-DD)
+ * @returns Promise with candidates and error
+ */
+export async function fetchRolloverCandidates(
+    schoolId: string,
+    fromYear: string,
+    startDate: string
+): Promise<{ data: RolloverCandidate[]; error: Error | null }> {
+    const [{ data, error }, { data: fees, error: feesError }] = await Promise.all([
+        supabase.rpc('get_rollover_candidates', {
+            p_school_id: schoolId,
+            p_from_year: fromYear,
+        }),
+        supabase.functions.invoke('calculate-remaining-fees', {
+            body: { as_of: startDate, school_id: schoolId },
+        }),
+    ]);
+
+    if (error) return { data: [], error: new Error(error.message) };
+    if (feesError || fees?.error) {
+        return { data: [], error: new Error(fees?.error || feesError?.message || 'Failed to calculate balances') };
+    }
+
+    const balances = new Map<string, number>(
+        ((fees?.students || []) as { student_id: string; remaining_fee: number }[])
+            .map(s => [s.student_id, Number(s.remaining_fee || 0)])
+    );
+
+    return {
+        data: (data || []).map(row => ({
+            student_id: row.student_id,
+            student_name: row.student_name,
+            class_id: row.class_id,
+            class_name: row.class_name,
+            balance: balances.get(row.student_id) ?? 0,
+        })),
+        error: null,
+    };
+}
+
+/**
+ * Close an academic year: create next year's classes, promote / hold back / graduate
+ * students and carry their outstanding balances forward. Runs in the rollover-academic-year
+ * edge function, which computes the balances itself; the rollover is one transaction.
+ * @param schoolId - School id
+ * @param request - Rollover choices from the wizard
+ * @returns Promise with the rollover summary and error
+ */
+export async function rolloverAcademicYear(
+    schoolId: string,
+    request: RolloverRequest
+): Promise<{ data: RolloverSummary | null; error: Error | null }> {
+    const { data, error } = await supabase.functions.invoke('rollover-academic-year', {
+        body: {
+            school_id: schoolId,
+            from_year: request.fromYear,
+            to_year: request.toYear.trim(),
+            start_date: request.startDate,
+            class_map: request.classMap,
+            decisions: request.decisions,
+        },
+    });
+
+    if (error) return { data: null, error: new Error(error.message) };
+    if (!data?.ok) return { data: null, error: new Error(data?.error || 'Failed to close the academic year') };
+    return { data: data.summary as RolloverSummary, error: null };
+}
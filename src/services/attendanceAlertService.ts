@@ -0,0 +1,122 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+
+export interface AttendanceAlertRules {
+    enabled: boolean;
+    min_percentage: number;        // Alert below this attendance percentage ...
+    window_days: number;           // ... over the last N days
+    consecutive_absences: number;  // Alert after N absences in a row
+}
+
+export interface AttendanceAlert {
+    student_id: string;
+    student_name: string;
+    class_id: string;
+    class_name: string;
+    attendance_percentage: number | null;
+    previous_percentage: number | null;  // Window before the current one (trend)
+    marked_days: number;
+    consecutive_absences: number;
+    last_present_date: string | null;
+    below_threshold: boolean;
+    absence_streak: boolean;
+}
+
+export const DEFAULT_ATTENDANCE_ALERT_RULES: AttendanceAlertRules = {
+    enabled: true,
+    min_percentage: 75,
+    window_days: 30,
+    consecutive_absences: 3,
+};
+
+/**
+ * Read attendance alert thresholds from a school's settings JSON, falling back to defaults
+ * @param settings - schools.settings value
+ */
+export function parseAttendanceAlertRules(settings: Json | null): AttendanceAlertRules {
+    const raw = settings && typeof settings === 'object' && !Array.isArray(settings)
+        ? settings.attendance_alerts
+        : null;
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return DEFAULT_ATTENDANCE_ALERT_RULES;
+
+    return {
+        enabled: raw.enabled !== false,
+        min_percentage: Number(raw.min_percentage) || DEFAULT_ATTENDANCE_ALERT_RULES.min_percentage,
+        window_days: Number(raw.window_days) || DEFAULT_ATTENDANCE_ALERT_RULES.window_days,
+        consecutive_absences: Number(raw.consecutive_absences) || DEFAULT_ATTENDANCE_ALERT_RULES.consecutive_absences,
+    };
+}
+
+/**
+ * Fetch the attendance alert thresholds configured for a school
+ * @param schoolId - School id
+ * @returns Promise with rules (defaults when not configured) and error
+ */
+export async function fetchAttendanceAlertRules(
+    schoolId: string
+): Promise<{ data: AttendanceAlertRules; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('schools')
+            .select('settings')
+            .eq('id', schoolId)
+            .single();
+
+        if (error) throw error;
+
+        return { data: parseAttendanceAlertRules(data?.settings ?? null), error: null };
+    } catch (error) {
+        console.error('Error fetching attendance alert rules:', error);
+        return { data: DEFAULT_ATTENDANCE_ALERT_RULES, error: error as Error };
+    }
+}
+
+/**
+ * Save attendance alert thresholds for a school (principal only, enforced server-side)
+ * @param schoolId - School id
+ * @param rules - New rules
+ * @returns Promise with error (null on success)
+ */
+export async function saveAttendanceAlertRules(
+    schoolId: string,
+    rules: AttendanceAlertRules
+): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('set_attendance_alert_rules', {
+        p_school_id: schoolId,
+        p_rules: {
+            enabled: rules.enabled,
+            min_percentage: rules.min_percentage,
+            window_days: rules.window_days,
+            consecutive_absences: rules.consecutive_absences,
+        },
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Fetch at-risk students. Principals get the whole school, teachers their own classes.
+ * @param schoolId - School id
+ * @param classId - Limit to one class
+ * @returns Promise with alerts (streaks first, then lowest percentage) and error
+ */
+export async function fetchAttendanceAlerts(
+    schoolId: string,
+    classId?: string
+): Promise<{ data: AttendanceAlert[]; error: Error | null }> {
+    const { data, error } = await supabase.rpc('get_attendance_alerts', {
+        p_school_id: schoolId,
+        ...(classId ? { p_class_id: classId } : {}),
+    });
+
+    if (error) return { data: [], error: new Error(error.message) };
+    return {
+        data: (data || []).map(row => ({
+            ...row,
+            attendance_percentage: row.attendance_percentage === null ? null : Number(row.attendance_percentage),
+            previous_percentage: row.previous_percentage === null ? null : Number(row.previous_percentage),
+            marked_days: Number(row.marked_days) || 0,
+        })),
+        error: null,
+    };
+}
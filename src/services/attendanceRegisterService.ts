@@ -0,0 +1,205 @@
+import { supabase } from '@/integrations/supabase/client';
+import { format, eachDayOfInterval, endOfMonth, startOfMonth } from 'date-fns';
+import { AttendanceStatusOption, attendancePercentage } from '@/services/attendanceStatusService';
+import { SchoolCalendar, nonWorkingReason } from '@/services/schoolCalendarService';
+
+export interface RegisterDay {
+    date: string;               // YYYY-MM-DD
+    day: number;                // Day of month
+    weekday: string;            // Mon, Tue, ...
+    holiday: string | null;     // Holiday title or weekly off name, or null on working days
+    taken: boolean;             // Attendance was taken for the class
+}
+
+export interface RegisterStudent {
+    student_id: string;
+    student_name: string;
+    marks: string[];            // One per day: status mark, 'H' on holidays, '' when not marked
+    present: number;            // Weighted by credit (half days count half)
+    absent: number;
+    excused: number;
+    percentage: number | null;
+}
+
+export interface AttendanceRegister {
+    className: string;
+    month: string;              // YYYY-MM
+    days: RegisterDay[];
+    students: RegisterStudent[];
+    presentPerDay: number[];    // Weighted presence per day
+    workingDays: number;        // Working days on the school calendar, up to today
+    holidays: number;
+    legend: { mark: string; label: string }[];
+}
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Short register mark for a status: initials of its label (Present -> P, Half Day -> HD)
+ * @param option - Attendance status
+ */
+export function statusMark(option: Pick<AttendanceStatusOption, 'code' | 'label'>): string {
+    const initials = option.label
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(word => word[0].toUpperCase())
+        .join('');
+    return initials || option.code.slice(0, 2).toUpperCase();
+}
+
+// The class's attendance rows in a date range, paged past the API row limit
+async function fetchMarks(classId: string, start: string, end: string) {
+    const rows: { student_id: string; date: string; status: string; students: { name: string } | null }[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from('attendance')
+            .select('student_id, date, status, students(name)')
+            .eq('class_id', classId)
+            .gte('date', start)
+            .lte('date', end)
+            .order('date')
+            .order('student_id')
+            .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) return rows;
+    }
+}
+
+/**
+ * Build a class's monthly attendance register: students as rows, days as columns.
+ * Rows are the students marked in the class that month, including those who have
+ * since left, plus the current roster. Days after today are left blank.
+ * @param classId - Class id
+ * @param className - Class name for the title
+ * @param month - Any date in the month
+ * @param options - The school's statuses (marks, credit)
+ * @param calendar - The school's weekly offs and holidays
+ * @returns Promise with the register and error
+ */
+export async function fetchAttendanceRegister(
+    classId: string,
+    className: string,
+    month: Date,
+    options: AttendanceStatusOption[],
+    calendar: SchoolCalendar
+): Promise<{ data: AttendanceRegister | null; error: Error | null }> {
+    try {
+        const today = format(new Date(), 'yyyy-MM-dd');
+        const dates = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) });
+        const byCode = new Map(options.map(o => [o.code, o]));
+
+        const days: RegisterDay[] = dates.map(d => {
+            const date = format(d, 'yyyy-MM-dd');
+            return {
+                date,
+                day: d.getDate(),
+                weekday: format(d, 'EEE'),
+                holiday: nonWorkingReason(date, calendar),
+                taken: false,
+            };
+        });
+
+        const start = days[0].date;
+        const end = days[days.length - 1].date;
+        const dayIndex = new Map(days.map((d, i) => [d.date, i]));
+
+        // Marks actually recorded for the class, plus today's roster of students
+        // enrolled by the end of the month
+        const [marks, { data: roster, error: rosterError }] = await Promise.all([
+            fetchMarks(classId, start, end),
+            supabase
+                .from('student_classes')
+                .select('student_id, enrolled_at, students(name, join_date, is_archived)')
+                .eq('class_id', classId)
+                .not('is_active', 'is', false),
+        ]);
+        if (rosterError) throw rosterError;
+
+        const students = new Map<string, { name: string; statuses: (string | null)[] }>();
+        const studentRow = (studentId: string, name: string) => {
+            const student = students.get(studentId) || { name, statuses: new Array(days.length).fill(null) };
+            students.set(studentId, student);
+            return student;
+        };
+
+        for (const entry of roster || []) {
+            const enrolled = (entry.enrolled_at || entry.students?.join_date || '').slice(0, 10);
+            if (!entry.students || entry.students.is_archived || enrolled > end) continue;
+            studentRow(entry.student_id, entry.students.name);
+        }
+
+        for (const mark of marks) {
+            const index = dayIndex.get(mark.date);
+            if (index === undefined) continue;
+            studentRow(mark.student_id, mark.students?.name || 'Unknown').statuses[index] = mark.status;
+            days[index].taken = true;
+        }
+
+        // Approved leave fills the school days the teacher has not marked yet
+        if (students.size > 0) {
+            const { data: leave, error: leaveError } = await supabase
+                .from('student_leave_requests')
+                .select('student_id, start_date, end_date, attendance_status')
+                .in('student_id', [...students.keys()])
+                .eq('status', 'approved')
+                .lte('start_date', end)
+                .gte('end_date', start);
+            if (leaveError) throw leaveError;
+
+            for (const request of leave || []) {
+                const student = students.get(request.student_id);
+                if (!student) continue;
+                days.forEach((day, i) => {
+                    if (day.holiday || day.date > today || student.statuses[i] !== null) return;
+                    if (day.date >= request.start_date && day.date <= request.end_date) {
+                        student.statuses[i] = request.attendance_status;
+                    }
+                });
+            }
+        }
+
+        const presentPerDay: number[] = new Array(days.length).fill(0);
+        const rows: RegisterStudent[] = [...students.entries()]
+            .map(([studentId, { name, statuses }]) => {
+                const marked = statuses.filter((s): s is string => s !== null);
+                statuses.forEach((s, i) => {
+                    presentPerDay[i] += (s && byCode.get(s)?.credit) || 0;
+                });
+                return {
+                    student_id: studentId,
+                    student_name: name,
+                    marks: statuses.map((s, i) => {
+                        if (days[i].holiday) return 'H';
+                        const option = s ? byCode.get(s) : undefined;
+                        return option ? statusMark(option) : s || '';
+                    }),
+                    present: marked.reduce((sum, s) => sum + (byCode.get(s)?.credit || 0), 0),
+                    absent: marked.filter(s => byCode.get(s)?.credit === 0).length,
+                    excused: marked.filter(s => byCode.get(s)?.credit === null).length,
+                    percentage: attendancePercentage(marked, options),
+                };
+            })
+            .sort((a, b) => a.student_name.localeCompare(b.student_name));
+
+        return {
+            data: {
+                className,
+                month: format(month, 'yyyy-MM'),
+                days,
+                students: rows,
+                presentPerDay,
+                workingDays: days.filter(d => !d.holiday && d.date <= today).length,
+                holidays: days.filter(d => d.holiday).length,
+                legend: [
+                    ...options.map(o => ({ mark: statusMark(o), label: o.label })),
+                    { mark: 'H', label: 'Holiday' },
+                ],
+            },
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error building attendance register:', error);
+        return { data: null, error: error as Error };
+    }
+}
@@ -0,0 +1,102 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface AttendanceStatusOption {
+    id?: string;
+    school_id: string;
+    code: string;
+    label: string;
+    credit: number | null;          // 1 attended, 0.5 half day, 0 absent, null excluded from percentage
+    requires_reason: boolean;
+    reason_codes: string[];         // empty: free-text reason
+    captures_time: boolean;         // record arrival time (late)
+    color: string;
+    sort_order: number;
+    is_system: boolean;
+    is_active: boolean;
+}
+
+/** Tailwind classes per status color: card (marking list) and badge */
+export const STATUS_COLORS: Record<string, { card: string; badge: string }> = {
+    green: { card: 'border-green-500 bg-green-50 dark:bg-green-950', badge: 'bg-green-500' },
+    red: { card: 'border-red-500 bg-red-50 dark:bg-red-950', badge: 'bg-red-500' },
+    yellow: { card: 'border-yellow-500 bg-yellow-50 dark:bg-yellow-950', badge: 'bg-yellow-500' },
+    orange: { card: 'border-orange-500 bg-orange-50 dark:bg-orange-950', badge: 'bg-orange-500' },
+    blue: { card: 'border-blue-500 bg-blue-50 dark:bg-blue-950', badge: 'bg-blue-500' },
+    purple: { card: 'border-purple-500 bg-purple-50 dark:bg-purple-950', badge: 'bg-purple-500' },
+    gray: { card: 'border-gray-400 bg-gray-50 dark:bg-gray-900', badge: 'bg-gray-500' },
+};
+
+/** Period-wise attendance only records these (attendance_periods.status) */
+export const PERIOD_STATUS_CODES = ['present', 'absent', 'late'];
+
+/**
+ * Fetch a school's attendance statuses in display order
+ * @param schoolId - School id
+ * @param includeInactive - Include disabled statuses (settings screen)
+ * @returns Promise with statuses and error
+ */
+export async function fetchAttendanceStatuses(
+    schoolId: string,
+    includeInactive = false
+): Promise<{ data: AttendanceStatusOption[]; error: Error | null }> {
+    let query = supabase
+        .from('attendance_statuses')
+        .select('id, school_id, code, label, credit, requires_reason, reason_codes, captures_time, color, sort_order, is_system, is_active')
+        .eq('school_id', schoolId)
+        .order('sort_order')
+        .order('label');
+
+    if (!includeInactive) query = query.eq('is_active', true);
+
+    const { data, error } = await query;
+    if (error) return { data: [], error: new Error(error.message) };
+    return {
+        data: (data || []).map(s => ({ ...s, credit: s.credit === null ? null : Number(s.credit) })),
+        error: null,
+    };
+}
+
+/**
+ * Create or update an attendance status (principal only, enforced by RLS).
+ * Codes cannot change once created; statuses are disabled rather than deleted.
+ * @param status - Status; updated when it has an id
+ * @returns Promise with error (null on success)
+ */
+export async function saveAttendanceStatus(status: AttendanceStatusOption): Promise<{ error: Error | null }> {
+    const payload = {
+        label: status.label.trim(),
+        credit: status.credit,
+        requires_reason: status.requires_reason,
+        reason_codes: status.reason_codes.map(r => r.trim()).filter(Boolean),
+        captures_time: status.captures_time,
+        color: status.color,
+        sort_order: status.sort_order,
+        is_active: status.is_active,
+    };
+
+    const { error } = status.id
+        ? await supabase.from('attendance_statuses').update(payload).eq('id', status.id)
+        : await supabase.from('attendance_statuses').insert([{ ...payload, school_id: status.school_id, code: status.code }]);
+
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Attendance percentage over a set of marked days, weighting each status by its credit.
+ * Excused statuses (null credit) and unknown codes are left out.
+ * @param statuses - Marked status codes
+ * @param options - The school's statuses
+ * @returns Percentage (0-100), or null when no day counts
+ */
+export function attendancePercentage(statuses: string[], options: AttendanceStatusOption[]): number | null {
+    const credits = new Map(options.map(o => [o.code, o.credit]));
+    let earned = 0;
+    let counted = 0;
+    for (const code of statuses) {
+        const credit = credits.get(code);
+        if (credit === null || credit === undefined) continue;
+        earned += credit;
+        counted += 1;
+    }
+    return counted > 0 ? (earned / counted) * 100 : null;
+}
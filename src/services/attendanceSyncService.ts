@@ -0,0 +1,166 @@
+import { supabase } from '@/integrations/supabase/client';
+import { markPeriodAttendance } from '@/services/periodAttendanceService';
+import {
+    QueuedAttendance,
+    QueuedAttendanceConflict,
+    deleteQueued,
+    getAllQueued,
+    putQueued,
+} from '@/lib/offlineAttendanceStore';
+
+export interface AttendanceSyncResult {
+    synced: number;
+    conflicts: number;
+    failed: number;
+}
+
+/**
+ * Whether an error means the request never reached the server
+ * (as opposed to being rejected by it)
+ * @param error - Error thrown or returned by supabase-js
+ */
+export function isNetworkError(error: unknown): boolean {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+    const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+    return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
+
+/**
+ * Latest time anyone saved this sheet, so a later sync can tell whether it changed meanwhile
+ * @param classId - Class id
+ * @param date - YYYY-MM-DD
+ * @param periodNumber - Period number, or null for daily attendance
+ * @returns Promise with the latest updated_at (null if nothing marked yet) and error
+ */
+export async function fetchAttendanceBaseline(
+    classId: string,
+    date: string,
+    periodNumber: number | null
+): Promise<{ data: string | null; error: Error | null }> {
+    const { data, error } = periodNumber
+        ? await supabase
+            .from('attendance_periods')
+            .select('updated_at')
+            .eq('class_id', classId)
+            .eq('date', date)
+            .eq('period_number', periodNumber)
+            .order('updated_at', { ascending: false })
+            .limit(1)
+        : await supabase
+            .from('attendance')
+            .select('updated_at')
+            .eq('class_id', classId)
+            .eq('date', date)
+            .order('updated_at', { ascending: false })
+            .limit(1);
+
+    if (error) return { data: null, error: new Error(error.message) };
+    return { data: data?.[0]?.updated_at ?? null, error: null };
+}
+
+/**
+ * Marks saved by other users after the queued sheet's baseline
+ * (userId is the sheet's owner, who is also the one syncing it)
+ */
+async function findConflict(item: QueuedAttendance, userId: string): Promise<QueuedAttendanceConflict | null> {
+    const base = item.period_number
+        ? supabase
+            .from('attendance_periods')
+            .select('student_id, status, marked_by, updated_at')
+            .eq('period_number', item.period_number)
+        : supabase
+            .from('attendance')
+            .select('student_id, status, marked_by, updated_at');
+
+    let query = base.eq('class_id', item.class_id).eq('date', item.date).neq('marked_by', userId);
+    if (item.baseline) query = query.gt('updated_at', item.baseline);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    if (!data || data.length === 0) return null;
+
+    return {
+        marked_by_others: data.length,
+        server: data.map(row => ({ student_id: row.student_id, status: row.status })),
+    };
+}
+
+async function pushQueued(item: QueuedAttendance): Promise<{ error: Error | null }> {
+    if (item.period_number) {
+        return markPeriodAttendance(item.class_id, item.date, item.period_number, item.attendance);
+    }
+    const { error } = await supabase.rpc('mark_attendance_bulk', {
+        p_class_id: item.class_id,
+        p_date: item.date,
+        p_attendance: item.attendance.map(a => ({
+            student_id: a.student_id,
+            status: a.status,
+            notes: a.notes,
+            reason_code: a.reason_code ?? null,
+            arrival_time: a.arrival_time ?? null,
+        })),
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Push the current user's queued attendance sheets. Sheets someone else marked
+ * since they were queued are held as conflicts until resolved with resolveQueuedConflict().
+ * Stops at the first network failure, leaving the rest queued. Sheets other users
+ * queued on the same device wait for them to sign in.
+ * @param userId - Current user's id
+ * @returns Promise with counts of synced, conflicting and failed sheets
+ */
+export async function syncAttendanceQueue(userId: string): Promise<AttendanceSyncResult> {
+    const result: AttendanceSyncResult = { synced: 0, conflicts: 0, failed: 0 };
+    const queued = await getAllQueued(userId);
+
+    for (const item of queued) {
+        if (item.state === 'conflict') {
+            result.conflicts += 1;
+            continue;
+        }
+
+        try {
+            const conflict = await findConflict(item, userId);
+            if (conflict) {
+                await putQueued({ ...item, state: 'conflict', conflict });
+                result.conflicts += 1;
+                continue;
+            }
+
+            const { error } = await pushQueued(item);
+            if (error) throw error;
+            await deleteQueued(item.key);
+            result.synced += 1;
+        } catch (error) {
+            if (isNetworkError(error)) break;
+            await putQueued({ ...item, state: 'failed', error: (error as Error).message });
+            result.failed += 1;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Resolve a conflicting sheet: overwrite with the queued marks, or drop them
+ * @param item - Queued sheet in conflict
+ * @param keep - 'mine' to push the queued marks, 'theirs' to discard them
+ * @returns Promise with error (null on success)
+ */
+export async function resolveQueuedConflict(
+    item: QueuedAttendance,
+    keep: 'mine' | 'theirs'
+): Promise<{ error: Error | null }> {
+    try {
+        if (keep === 'mine') {
+            const { error } = await pushQueued(item);
+            if (error) return { error };
+        }
+        await deleteQueued(item.key);
+        return { error: null };
+    } catch (error) {
+        return { error: error as Error };
+    }
+}
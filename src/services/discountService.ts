@@ -0,0 +1,117 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type StudentDiscountRow = Tables<'student_discounts'>;
+
+export type DiscountType = 'sibling' | 'scholarship' | 'staff_child' | 'other';
+
+export type DiscountValueType = 'percentage' | 'fixed';
+
+export interface StudentDiscount extends Omit<StudentDiscountRow, 'discount_type' | 'value_type'> {
+    discount_type: DiscountType;
+    value_type: DiscountValueType;
+    sibling_name: string | null;
+}
+
+export interface StudentDiscountInput {
+    discount_type: DiscountType;
+    value_type: DiscountValueType;
+    value: number;
+    sibling_student_id: string | null;
+    reason: string;
+    start_date: string;
+    end_date: string | null;
+}
+
+export const DISCOUNT_TYPES: { value: DiscountType; label: string }[] = [
+    { value: 'sibling', label: 'Sibling discount' },
+    { value: 'scholarship', label: 'Merit scholarship' },
+    { value: 'staff_child', label: 'Staff child waiver' },
+    { value: 'other', label: 'Other concession' },
+];
+
+/**
+ * Human-readable value of a discount, e.g. "10%" or the formatted fixed amount
+ * @param discount - Discount value and value type
+ * @param formatAmount - Currency formatter for fixed discounts
+ */
+export function describeDiscountValue(
+    discount: Pick<StudentDiscount, 'value' | 'value_type'>,
+    formatAmount: (amount: number) => string
+): string {
+    return discount.value_type === 'percentage'
+        ? `${Number(discount.value)}%`
+        : `${formatAmount(Number(discount.value))} / charge`;
+}
+
+/**
+ * Fetch all discounts for a student, newest first, with the linked sibling's name
+ * @param studentId - Student receiving the discount
+ * @returns Promise with discounts and error
+ */
+export async function fetchStudentDiscounts(
+    studentId: string
+): Promise<{ data: StudentDiscount[]; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('student_discounts')
+            .select('*, sibling:students!student_discounts_sibling_student_id_fkey(name)')
+            .eq('student_id', studentId)
+            .order('start_date', { ascending: false });
+
+        if (error) throw error;
+
+        return {
+            data: (data || []).map(({ sibling, ...row }) => ({
+                ...row,
+                discount_type: row.discount_type as DiscountType,
+                value_type: row.value_type as DiscountValueType,
+                sibling_name: sibling?.name ?? null,
+            })),
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error fetching student discounts:', error);
+        return {
+            data: [],
+            error: error as Error,
+        };
+    }
+}
+
+/**
+ * Add a discount / concession to a student
+ * @param userId - Owner (auth user id)
+ * @param studentId - Student receiving the discount
+ * @param discount - Discount details
+ * @returns Promise with error (null on success)
+ */
+export async function createStudentDiscount(
+    userId: string,
+    studentId: string,
+    discount: StudentDiscountInput
+): Promise<{ error: Error | null }> {
+    const { error } = await supabase.from('student_discounts').insert([{
+        user_id: userId,
+        student_id: studentId,
+        discount_type: discount.discount_type,
+        value_type: discount.value_type,
+        value: discount.value,
+        sibling_student_id: discount.discount_type === 'sibling' ? discount.sibling_student_id : null,
+        reason: discount.reason.trim() || null,
+        start_date: discount.start_date,
+        end_date: discount.end_date || null,
+    }]);
+
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Delete a student discount. Expected fees are recalculated on the next fetch.
+ * @param id - Discount id
+ * @returns Promise with error (null on success)
+ */
+export async function deleteStudentDiscount(id: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.from('student_discounts').delete().eq('id', id);
+    return { error: error ? new Error(error.message) : null };
+}
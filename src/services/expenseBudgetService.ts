@@ -0,0 +1,185 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type BudgetPeriod = 'monthly' | 'annual';
+
+export interface ExpenseBudget {
+    id: string;
+    category: string;
+    year: number;
+    period: BudgetPeriod;
+    amount: number;               // Per month for monthly budgets, per year otherwise
+}
+
+/** Budget vs actual for one category; budget fields are null for unbudgeted spending */
+export interface BudgetVariance {
+    budget_id: string | null;
+    category: string;
+    period: BudgetPeriod | null;
+    budget_amount: number | null;
+    annual_budget: number | null;
+    actual: number;               // Year to date
+    projected: number;            // Year-to-date actual extended to the full year
+    month_budget: number | null;
+    month_actual: number;         // Current month, or December for past years
+}
+
+/** Where an expense would leave its category's budget */
+export interface BudgetCheck {
+    category: string;
+    period: BudgetPeriod;
+    budget_amount: number;
+    spent: number;                // In the budget window, without this expense
+    spent_after: number;
+}
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+    monthly: 'Monthly',
+    annual: 'Annual',
+};
+
+/**
+ * Projected spend left in the budget; negative when the category is on track to overspend
+ * @param row - Variance row with a budget
+ */
+export function projectedVariance(row: BudgetVariance): number | null {
+    return row.annual_budget === null ? null : row.annual_budget - row.projected;
+}
+
+/**
+ * Fetch a school's expense budgets for a year, by category
+ * @param schoolId - School id
+ * @param year - Calendar year
+ * @returns Promise with budgets and error
+ */
+export async function fetchExpenseBudgets(
+    schoolId: string,
+    year: number
+): Promise<{ data: ExpenseBudget[]; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('expense_budgets')
+            .select('id, category, year, period, amount')
+            .eq('school_id', schoolId)
+            .eq('year', year)
+            .order('category');
+
+        if (error) throw error;
+
+        return {
+            data: (data || []).map(row => ({
+                ...row,
+                period: row.period as BudgetPeriod,
+                amount: Number(row.amount),
+            })),
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error fetching expense budgets:', error);
+        return { data: [], error: error as Error };
+    }
+}
+
+/**
+ * Set a category's budget for a year, replacing any existing one (principal only, enforced server-side)
+ * @param schoolId - School id
+ * @param budget - Category, year, period and amount
+ * @returns Promise with error (null on success)
+ */
+export async function saveExpenseBudget(
+    schoolId: string,
+    budget: Omit<ExpenseBudget, 'id'>
+): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('set_expense_budget', {
+        p_school_id: schoolId,
+        p_category: budget.category,
+        p_year: budget.year,
+        p_period: budget.period,
+        p_amount: budget.amount,
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Remove a budget (principal only)
+ * @param budgetId - Budget id
+ * @returns Promise with error (null on success)
+ */
+export async function deleteExpenseBudget(budgetId: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('delete_expense_budget', { p_budget_id: budgetId });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Fetch budget vs actual vs projected per category for a year
+ * @param schoolId - School id
+ * @param year - Calendar year
+ * @returns Promise with rows (budgeted categories first) and error
+ */
+export async function fetchBudgetVariance(
+    schoolId: string,
+    year: number
+): Promise<{ data: BudgetVariance[]; error: Error | null }> {
+    const { data, error } = await supabase.rpc('get_expense_budget_variance', {
+        p_school_id: schoolId,
+        p_year: year,
+    });
+    if (error) {
+        console.error('Error fetching budget variance:', error);
+        return { data: [], error: new Error(error.message) };
+    }
+
+    return {
+        data: (data || []).map(row => ({
+            budget_id: row.budget_id || null,
+            category: row.category,
+            period: (row.period as BudgetPeriod) || null,
+            budget_amount: row.budget_amount === null ? null : Number(row.budget_amount),
+            annual_budget: row.annual_budget === null ? null : Number(row.annual_budget),
+            actual: Number(row.actual || 0),
+            projected: Number(row.projected || 0),
+            month_budget: row.month_budget === null ? null : Number(row.month_budget),
+            month_actual: Number(row.month_actual || 0),
+        })),
+        error: null,
+    };
+}
+
+/**
+ * Check an expense against its category's budget
+ * @param schoolId - School id
+ * @param category - Expense category (matched case-insensitively)
+ * @param expenseDate - Expense date (YYYY-MM-DD); picks the budget year and month
+ * @param amount - Expense amount
+ * @param expenseId - Expense being edited, left out of the spent total
+ * @returns Promise with the check (null when the category has no budget) and error
+ */
+export async function checkExpenseBudget(
+    schoolId: string,
+    category: string,
+    expenseDate: string,
+    amount: number,
+    expenseId?: string
+): Promise<{ data: BudgetCheck | null; error: Error | null }> {
+    const { data, error } = await supabase.rpc('check_expense_budget', {
+        p_school_id: schoolId,
+        p_category: category,
+        p_expense_date: expenseDate,
+        p_amount: amount,
+        ...(expenseId ? { p_expense_id: expenseId } : {}),
+    });
+    if (error) return { data: null, error: new Error(error.message) };
+
+    const row = data?.[0];
+    return {
+        data: row
+            ? {
+                category: row.category,
+                period: row.period as BudgetPeriod,
+                budget_amount: Number(row.budget_amount),
+                spent: Number(row.spent),
+                spent_after: Number(row.spent_after),
+            }
+            : null,
+        error: null,
+    };
+}
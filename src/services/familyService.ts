@@ -0,0 +1,263 @@
+import { supabase } from '@/integrations/supabase/client';
+import { quoteFilterValue } from '@/lib/utils';
+import { AllocationLine, AllocationTarget, allocationKey } from '@/services/paymentAllocationService';
+
+export interface FamilyMember {
+    id: string;
+    name: string;
+    class: string | null;
+    student_id: string;
+    is_archived: boolean;
+}
+
+export interface Family {
+    id: string;
+    name: string;
+    guardian_name: string | null;
+    phone: string | null;
+    alt_phone: string | null;
+    email: string | null;
+    address: string | null;
+    students: FamilyMember[];
+}
+
+export type FamilyInput = Omit<Family, 'id' | 'students'>;
+
+/** One child's share of a family payment */
+export interface FamilyPaymentLine {
+    student_id: string;
+    amount: number;
+    allocations: AllocationLine[];
+}
+
+/** A child and what their share can be allocated to (from fetchAllocationTargets) */
+export interface FamilyChildTargets {
+    student_id: string;
+    name: string;
+    targets: AllocationTarget[];
+}
+
+export interface FamilyPaymentResult {
+    family_payment_id: string;
+    payments: { payment_id: string; student_id: string; receipt_number: string; amount: number }[];
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Fetch families with their children, optionally filtered by family name,
+ * guardian name or phone (punctuation in phone numbers is ignored)
+ * @param search - Search text
+ * @returns Promise with families and error
+ */
+export async function fetchFamilies(search = ''): Promise<{ data: Family[]; error: Error | null }> {
+    try {
+        let query = supabase
+            .from('families')
+            .select('id, name, guardian_name, phone, alt_phone, email, address, students(id, name, class, student_id, is_archived)')
+            .order('name')
+            .limit(100);
+
+        const term = search.trim();
+        if (term) {
+            const digits = term.replace(/\D/g, '');
+            const pattern = quoteFilterValue(`%${term}%`);
+            let conditions = `name.ilike.${pattern},guardian_name.ilike.${pattern},phone.ilike.${pattern},alt_phone.ilike.${pattern}`;
+            if (digits.length >= 3) conditions += `,phone_digits.ilike.%${digits}%`;
+            query = query.or(conditions);
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        return { data: (data || []) as Family[], error: null };
+    } catch (error) {
+        console.error('Error fetching families:', error);
+        return { data: [], error: error as Error };
+    }
+}
+
+/**
+ * Create or update a family and set which students belong to it
+ * @param family - Contact details
+ * @param studentIds - Children in the family (others currently linked are unlinked)
+ * @param userId - Owner for new families
+ * @param familyId - Existing family to update
+ * @returns Promise with family id and error
+ */
+export async function saveFamily(
+    family: FamilyInput,
+    studentIds: string[],
+    userId: string,
+    familyId?: string
+): Promise<{ data: string | null; error: Error | null }> {
+    try {
+        const payload = {
+            name: family.name.trim(),
+            guardian_name: family.guardian_name?.trim() || null,
+            phone: family.phone?.trim() || null,
+            alt_phone: family.alt_phone?.trim() || null,
+            email: family.email?.trim() || null,
+            address: family.address?.trim() || null,
+        };
+
+        let id = familyId;
+        if (id) {
+            const { error } = await supabase
+                .from('families')
+                .update({ ...payload, updated_at: new Date().toISOString() })
+                .eq('id', id);
+            if (error) throw error;
+        } else {
+            const { data, error } = await supabase
+                .from('families')
+                .insert([{ ...payload, user_id: userId }])
+                .select('id')
+                .single();
+            if (error) throw error;
+            id = data.id;
+        }
+
+        // Unlink children no longer in the family, then link the selected ones
+        let unlink = supabase.from('students').update({ family_id: null }).eq('family_id', id);
+        if (studentIds.length > 0) unlink = unlink.not('id', 'in', `(${studentIds.join(',')})`);
+        const { error: unlinkError } = await unlink;
+        if (unlinkError) throw unlinkError;
+
+        if (studentIds.length > 0) {
+            const { error: linkError } = await supabase
+                .from('students')
+                .update({ family_id: id })
+                .in('id', studentIds);
+            if (linkError) throw linkError;
+        }
+
+        return { data: id, error: null };
+    } catch (error) {
+        console.error('Error saving family:', error);
+        return { data: null, error: error as Error };
+    }
+}
+
+/**
+ * Delete a family. Its children stay, unlinked.
+ * @param familyId - Family id
+ * @returns Promise with error (null on success)
+ */
+export async function deleteFamily(familyId: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.from('families').delete().eq('id', familyId);
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Create an invitation code that adds a parent to this family (principal only,
+ * enforced server-side). The parent redeems it on the /join page.
+ * @param familyId - Family id
+ * @returns Promise with the code, its expiry and error
+ */
+export async function createParentInvite(
+    familyId: string
+): Promise<{ data: { code: string; expires_at: string } | null; error: Error | null }> {
+    const { data, error } = await supabase.rpc('create_parent_invite', { p_family_id: familyId });
+
+    if (error) return { data: null, error: new Error(error.message) };
+    return { data: data as unknown as { code: string; expires_at: string }, error: null };
+}
+
+/**
+ * Redeem a parent invitation code for the signed-in user. Adds them as a parent
+ * of the code's school and links them to its family; the code then stops working.
+ * @param code - Invitation code
+ * @returns Promise with the school and family joined, and error
+ */
+export async function redeemParentInvite(
+    code: string
+): Promise<{ data: { school_id: string; family_id: string } | null; error: Error | null }> {
+    const { data, error } = await supabase.rpc('redeem_parent_invite', { p_code: code });
+
+    if (error) return { data: null, error: new Error(error.message) };
+    return { data: data as unknown as { school_id: string; family_id: string }, error: null };
+}
+
+/**
+ * Split a family payment oldest-due-first across every child's tuition and fee
+ * folders. Anything left over goes to the first child as a tuition advance.
+ * @param amount - Total paid by the family
+ * @param children - Each child's allocation targets
+ */
+export function splitFamilyPayment(amount: number, children: FamilyChildTargets[]): FamilyPaymentLine[] {
+    const queue = children
+        .flatMap(child => child.targets.map(target => ({ student_id: child.student_id, target })))
+        .filter(item => item.target.outstanding > 0)
+        .sort((a, b) =>
+            (a.target.due_date || '9999-12-31').localeCompare(b.target.due_date || '9999-12-31'));
+
+    const lines = new Map<string, FamilyPaymentLine>(
+        children.map(child => [child.student_id, { student_id: child.student_id, amount: 0, allocations: [] }])
+    );
+
+    let remaining = roundMoney(amount);
+    for (const { student_id, target } of queue) {
+        if (remaining <= 0) break;
+        const take = roundMoney(Math.min(remaining, target.outstanding));
+        const line = lines.get(student_id)!;
+        line.allocations.push({ fee_folder_id: target.fee_folder_id, amount: take });
+        line.amount = roundMoney(line.amount + take);
+        remaining = roundMoney(remaining - take);
+    }
+
+    if (remaining > 0 && children.length > 0) {
+        const first = lines.get(children[0].student_id)!;
+        first.amount = roundMoney(first.amount + remaining);
+    }
+
+    return Array.from(lines.values()).filter(line => line.amount > 0);
+}
+
+/**
+ * Record one payment for several siblings (fee collectors only, enforced server-side).
+ * Each child gets their own payments row and receipt number; all rows share a
+ * family_payment_id and are written in a single transaction.
+ * @param familyId - Family id
+ * @param paymentDate - YYYY-MM-DD
+ * @param paymentMethod - cash, bank_transfer, ...
+ * @param currency - Currency code
+ * @param lines - Each child's share and allocation lines
+ * @returns Promise with the created payments and error
+ */
+export async function recordFamilyPayment(
+    familyId: string,
+    paymentDate: string,
+    paymentMethod: string,
+    currency: string,
+    lines: FamilyPaymentLine[]
+): Promise<{ data: FamilyPaymentResult | null; error: Error | null }> {
+    const { data, error } = await supabase.rpc('record_family_payment', {
+        p_family_id: familyId,
+        p_payment_date: paymentDate,
+        p_payment_method: paymentMethod,
+        p_currency: currency,
+        p_lines: lines.map(line => ({
+            student_id: line.student_id,
+            amount: roundMoney(line.amount),
+            category: 'school_fee',
+            allocations: line.allocations
+                .filter(a => a.amount > 0)
+                .map(a => ({ fee_folder_id: a.fee_folder_id, amount: roundMoney(a.amount) })),
+        })),
+    });
+
+    if (error) return { data: null, error: new Error(error.message) };
+    return { data: data as unknown as FamilyPaymentResult, error: null };
+}
+
+/**
+ * Label for an allocation line on a combined family receipt
+ * @param childName - Student name
+ * @param targets - The child's allocation targets
+ * @param line - Allocation line
+ */
+export function familyAllocationLabel(childName: string, targets: AllocationTarget[], line: AllocationLine): string {
+    const target = targets.find(t => allocationKey(t.fee_folder_id) === allocationKey(line.fee_folder_id));
+    return `${childName}: ${target?.label || 'Tuition'}`;
+}
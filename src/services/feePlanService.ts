@@ -0,0 +1,118 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+
+export type FeePlanRow = Tables<'fee_plans'>;
+
+export type FeePlanType = 'termly' | 'quarterly' | 'one_time' | 'custom';
+
+export interface FeePlanInstallment {
+    label: string;
+    due_date: string | null; // null = due on the student's join date
+    amount: number;
+}
+
+export interface FeePlan extends Omit<FeePlanRow, 'installments' | 'plan_type'> {
+    plan_type: FeePlanType;
+    installments: FeePlanInstallment[];
+}
+
+export interface FeePlanQueryResult {
+    data: FeePlan[];
+    error: Error | null;
+}
+
+export const FEE_PLAN_TYPES: { value: FeePlanType; label: string }[] = [
+    { value: 'termly', label: 'Termly' },
+    { value: 'quarterly', label: 'Quarterly' },
+    { value: 'one_time', label: 'One-time' },
+    { value: 'custom', label: 'Custom schedule' },
+];
+
+/**
+ * Normalise the installments JSON column into typed rows, dropping malformed entries
+ * @param value - Raw installments value from the database
+ * @returns Installments sorted by due date (join-date installments first)
+ */
+export function parseInstallments(value: Json): FeePlanInstallment[] {
+    if (!Array.isArray(value)) return [];
+
+    return value
+        .filter((item): item is { [key: string]: Json } => !!item && typeof item === 'object' && !Array.isArray(item))
+        .map((item, index) => ({
+            label: typeof item.label === 'string' && item.label.trim() ? item.label : `Installment ${index + 1}`,
+            due_date: typeof item.due_date === 'string' && item.due_date ? item.due_date : null,
+            amount: Number(item.amount) || 0,
+        }))
+        .sort((a, b) => (a.due_date || '').localeCompare(b.due_date || ''));
+}
+
+/**
+ * Total amount billed by a plan across all installments
+ */
+export function getPlanTotal(plan: Pick<FeePlan, 'installments'>): number {
+    return plan.installments.reduce((sum, i) => sum + i.amount, 0);
+}
+
+/**
+ * Fetch all fee plans owned by the current user, ordered by name
+ * @returns Promise with fee plans and error
+ */
+export async function fetchFeePlans(): Promise<FeePlanQueryResult> {
+    try {
+        const { data, error } = await supabase
+            .from('fee_plans')
+            .select('*')
+            .order('name');
+
+        if (error) throw error;
+
+        return {
+            data: (data || []).map(row => ({
+                ...row,
+                plan_type: row.plan_type as FeePlanType,
+                installments: parseInstallments(row.installments),
+            })),
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error fetching fee plans:', error);
+        return {
+            data: [],
+            error: error as Error,
+        };
+    }
+}
+
+/**
+ * Create a fee plan for the given user
+ * @param userId - Owner of the plan (auth user id)
+ * @param plan - Plan name, type and installment schedule
+ * @returns Promise with error (null on success)
+ */
+export async function createFeePlan(
+    userId: string,
+    plan: { name: string; plan_type: FeePlanType; installments: FeePlanInstallment[] }
+): Promise<{ error: Error | null }> {
+    const { error } = await supabase.from('fee_plans').insert([{
+        user_id: userId,
+        name: plan.name.trim(),
+        plan_type: plan.plan_type,
+        installments: plan.installments.map(i => ({
+            label: i.label.trim(),
+            due_date: i.due_date || null,
+            amount: i.amount,
+        })),
+    }]);
+
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Delete a fee plan. Students on the plan fall back to their fee_type / fee_amount.
+ * @param id - Fee plan id
+ * @returns Promise with error (null on success)
+ */
+export async function deleteFeePlan(id: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.from('fee_plans').delete().eq('id', id);
+    return { error: error ? new Error(error.message) : null };
+}
@@ -0,0 +1,44 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Whether the school prorates the join / archival month of monthly fees by days
+ * @param schoolId - School id
+ * @returns Promise with the setting (false when not configured) and error
+ */
+export async function fetchFeeProration(schoolId: string): Promise<{ data: boolean; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('schools')
+            .select('settings')
+            .eq('id', schoolId)
+            .single();
+
+        if (error) throw error;
+
+        const settings = data?.settings;
+        const proration = settings && typeof settings === 'object' && !Array.isArray(settings)
+            ? settings.fee_proration
+            : null;
+        const enabled = !!proration && typeof proration === 'object' && !Array.isArray(proration)
+            && proration.enabled === true;
+
+        return { data: enabled, error: null };
+    } catch (error) {
+        console.error('Error fetching fee proration setting:', error);
+        return { data: false, error: error as Error };
+    }
+}
+
+/**
+ * Turn mid-month proration on or off for a school (principal only, enforced server-side)
+ * @param schoolId - School id
+ * @param enabled - New setting
+ * @returns Promise with error (null on success)
+ */
+export async function saveFeeProration(schoolId: string, enabled: boolean): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('set_fee_proration', {
+        p_school_id: schoolId,
+        p_enabled: enabled,
+    });
+    return { error: error ? new Error(error.message) : null };
+}
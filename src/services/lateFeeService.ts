@@ -0,0 +1,150 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+
+export type LateFeeType = 'flat_per_day' | 'percent_per_month';
+
+export interface LateFeeRules {
+    enabled: boolean;
+    type: LateFeeType;
+    rate: number;        // Amount per day, or % of outstanding per started month
+    grace_days: number;  // Days after due_date before penalties start
+    cap: number | null;  // Maximum penalty per folder (null = no cap)
+}
+
+export interface FeeFolderPenalty {
+    fee_folder_id: string;
+    days_overdue: number;
+    accrued_penalty: number;
+    waived_amount: number;
+    penalty: number;  // accrued_penalty - waived_amount
+}
+
+export const DEFAULT_LATE_FEE_RULES: LateFeeRules = {
+    enabled: false,
+    type: 'flat_per_day',
+    rate: 0,
+    grace_days: 0,
+    cap: null,
+};
+
+export const LATE_FEE_TYPES: { value: LateFeeType; label: string }[] = [
+    { value: 'flat_per_day', label: 'Flat amount per day' },
+    { value: 'percent_per_month', label: 'Percentage per month' },
+];
+
+/**
+ * Read late fee rules from a school's settings JSON, falling back to defaults
+ * @param settings - schools.settings value
+ */
+export function parseLateFeeRules(settings: Json | null): LateFeeRules {
+    const raw = settings && typeof settings === 'object' && !Array.isArray(settings)
+        ? settings.late_fee
+        : null;
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return DEFAULT_LATE_FEE_RULES;
+
+    return {
+        enabled: raw.enabled === true,
+        type: raw.type === 'percent_per_month' ? 'percent_per_month' : 'flat_per_day',
+        rate: Number(raw.rate) || 0,
+        grace_days: Number(raw.grace_days) || 0,
+        cap: Number(raw.cap) > 0 ? Number(raw.cap) : null,
+    };
+}
+
+/**
+ * Fetch the late fee rules configured for a school
+ * @param schoolId - School id
+ * @returns Promise with rules (defaults when not configured) and error
+ */
+export async function fetchLateFeeRules(
+    schoolId: string
+): Promise<{ data: LateFeeRules; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('schools')
+            .select('settings')
+            .eq('id', schoolId)
+            .single();
+
+        if (error) throw error;
+
+        return { data: parseLateFeeRules(data?.settings ?? null), error: null };
+    } catch (error) {
+        console.error('Error fetching late fee rules:', error);
+        return { data: DEFAULT_LATE_FEE_RULES, error: error as Error };
+    }
+}
+
+/**
+ * Save late fee rules for a school (principal only, enforced server-side)
+ * @param schoolId - School id
+ * @param rules - New rules
+ * @returns Promise with error (null on success)
+ */
+export async function saveLateFeeRules(schoolId: string, rules: LateFeeRules): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('set_late_fee_rules', {
+        p_school_id: schoolId,
+        p_rules: {
+            enabled: rules.enabled,
+            type: rules.type,
+            rate: rules.rate,
+            grace_days: rules.grace_days,
+            cap: rules.cap,
+        },
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Fetch derived penalties for the given fee folders.
+ * Folders that are not overdue (or have no rules) are omitted.
+ * @param feeFolderIds - Fee folder ids
+ * @returns Promise with penalties keyed by fee folder id, and error
+ */
+export async function fetchFeeFolderPenalties(
+    feeFolderIds: string[]
+): Promise<{ data: Map<string, FeeFolderPenalty>; error: Error | null }> {
+    const penalties = new Map<string, FeeFolderPenalty>();
+    if (feeFolderIds.length === 0) return { data: penalties, error: null };
+
+    try {
+        const { data, error } = await supabase.rpc('get_fee_folder_penalties', {
+            p_fee_folder_ids: feeFolderIds,
+        });
+
+        if (error) throw error;
+
+        for (const row of data || []) {
+            penalties.set(row.fee_folder_id, {
+                fee_folder_id: row.fee_folder_id,
+                days_overdue: Number(row.days_overdue) || 0,
+                accrued_penalty: Number(row.accrued_penalty) || 0,
+                waived_amount: Number(row.waived_amount) || 0,
+                penalty: Number(row.penalty) || 0,
+            });
+        }
+
+        return { data: penalties, error: null };
+    } catch (error) {
+        console.error('Error fetching fee folder penalties:', error);
+        return { data: penalties, error: error as Error };
+    }
+}
+
+/**
+ * Waive the current penalty on a fee folder (principal only, audited server-side)
+ * @param feeFolderId - Fee folder id
+ * @param reason - Why the penalty is being waived
+ * @returns Promise with the waived amount and error
+ */
+export async function waiveFeeFolderPenalty(
+    feeFolderId: string,
+    reason: string
+): Promise<{ data: number; error: Error | null }> {
+    const { data, error } = await supabase.rpc('waive_fee_folder_penalty', {
+        p_fee_folder_id: feeFolderId,
+        p_reason: reason.trim(),
+    });
+    return { data: Number(data) || 0, error: error ? new Error(error.message) : null };
+}
@@ -0,0 +1,223 @@
+import { supabase } from '@/integrations/supabase/client';
+import { StudentFeeData } from '@/hooks/useFinancialData';
+import { FeeFolderPenalty, fetchFeeFolderPenalties } from '@/services/lateFeeService';
+
+export type LedgerEntryType = 'opening' | 'fee' | 'concession' | 'folder' | 'late_fee' | 'payment' | 'reversal';
+
+export interface LedgerEntry {
+    date: string;          // YYYY-MM-DD
+    type: LedgerEntryType;
+    description: string;
+    reference: string | null;
+    debit: number;
+    credit: number;
+    balance: number;       // Running balance after this entry (positive = owed)
+}
+
+export interface LedgerStudent {
+    id: string;
+    name: string;
+    class: string | null;
+    guardian_name: string | null;
+    guardian_phone: string | null;
+    student_id: string;
+}
+
+export interface LedgerPayment {
+    id: string;
+    amount: number;
+    payment_date: string;
+    payment_method: string;
+    category: string | null;
+    receipt_number: string;
+    description: string | null;
+    entry_type: string;              // payment | void | refund
+    reversal_reason: string | null;
+}
+
+export interface LedgerFolder {
+    id: string;
+    folder_name: string;
+    category: string;
+    amount_due: number;
+    due_date: string;
+}
+
+export interface StudentLedgerSource {
+    student: LedgerStudent | null;
+    payments: LedgerPayment[];
+    folders: LedgerFolder[];
+    penalties: Map<string, FeeFolderPenalty>;
+}
+
+// Same-day ordering: charges before the credits that settle them
+const ENTRY_ORDER: Record<LedgerEntryType, number> = {
+    opening: 0,
+    fee: 1,
+    folder: 2,
+    late_fee: 3,
+    concession: 4,
+    payment: 5,
+    reversal: 6,
+};
+
+/**
+ * Fetch everything a student's ledger needs besides the server-derived fee data
+ * @param studentId - Student id
+ * @returns Promise with student, payments, fee folders, penalties and error
+ */
+export async function fetchStudentLedgerSource(
+    studentId: string
+): Promise<{ data: StudentLedgerSource; error: Error | null }> {
+    try {
+        const [studentResult, paymentsResult, foldersResult] = await Promise.all([
+            supabase
+                .from('students')
+                .select('id, name, class, guardian_name, guardian_phone, student_id')
+                .eq('id', studentId)
+                .maybeSingle(),
+            supabase
+                .from('payments')
+                .select('id, amount, payment_date, payment_method, category, receipt_number, description, entry_type, reversal_reason')
+                .eq('student_id', studentId)
+                .order('payment_date', { ascending: true }),
+            supabase
+                .from('fee_folders')
+                .select('id, folder_name, category, amount_due, due_date')
+                .eq('student_id', studentId)
+                .order('due_date', { ascending: true }),
+        ]);
+
+        if (studentResult.error) throw studentResult.error;
+        if (paymentsResult.error) throw paymentsResult.error;
+        if (foldersResult.error) throw foldersResult.error;
+
+        const folders = foldersResult.data || [];
+        const { data: penalties } = await fetchFeeFolderPenalties(folders.map(f => f.id));
+
+        return {
+            data: {
+                student: studentResult.data,
+                payments: paymentsResult.data || [],
+                folders,
+                penalties,
+            },
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error fetching student ledger:', error);
+        return {
+            data: { student: null, payments: [], folders: [], penalties: new Map() },
+            error: error as Error,
+        };
+    }
+}
+
+/**
+ * Build a chronological ledger with a running balance.
+ * Debits: opening balance, expected fee charges (from calculate-remaining-fees), fee folders, late fees.
+ * Credits: concessions and payments. Voids and refunds (negative payment rows) are debits.
+ * After a rollover, payments dated before the opening balance are already netted into it and left out.
+ * @param feeData - The student's row from useFinancialData (null if not billed)
+ * @param source - Payments, fee folders and penalties for the student
+ */
+export function buildStudentLedger(
+    feeData: StudentFeeData | null,
+    source: Pick<StudentLedgerSource, 'payments' | 'folders' | 'penalties'>
+): LedgerEntry[] {
+    const entries: Omit<LedgerEntry, 'balance'>[] = [];
+    const breakdown = feeData?.breakdown;
+    // Set whenever a rollover carried a balance, including one of exactly zero
+    const settledBefore = breakdown?.opening_balance_year && breakdown.billed_from ? breakdown.billed_from : null;
+
+    if (feeData && feeData.opening_balance !== 0) {
+        entries.push({
+            date: breakdown?.billed_from || '',
+            type: 'opening',
+            description: `Opening balance${breakdown?.opening_balance_year ? ` (${breakdown.opening_balance_year})` : ''}`,
+            reference: null,
+            debit: Math.max(feeData.opening_balance, 0),
+            credit: Math.max(-feeData.opening_balance, 0),
+        });
+    }
+
+    for (const charge of breakdown?.charges || []) {
+        const dayUnit = breakdown?.working_days ? 'working days' : 'days';
+        const prorated = charge.days_billed ? ` (${charge.days_billed}/${charge.days_in_month} ${dayUnit})` : '';
+        entries.push({
+            date: charge.date,
+            type: 'fee',
+            description: `Tuition fee ${charge.label}${prorated}`,
+            reference: null,
+            debit: charge.amount,
+            credit: 0,
+        });
+        if (charge.discount) {
+            entries.push({
+                date: charge.date,
+                type: 'concession',
+                description: `Concession on ${charge.label}`,
+                reference: null,
+                debit: 0,
+                credit: charge.discount,
+            });
+        }
+    }
+
+    for (const folder of source.folders) {
+        entries.push({
+            date: folder.due_date,
+            type: 'folder',
+            description: `${folder.folder_name} (${folder.category})`,
+            reference: null,
+            debit: Number(folder.amount_due),
+            credit: 0,
+        });
+
+        const penalty = source.penalties.get(folder.id);
+        if (penalty && penalty.penalty > 0) {
+            entries.push({
+                date: new Date().toISOString().split('T')[0],
+                type: 'late_fee',
+                description: `Late fee on ${folder.folder_name} (${penalty.days_overdue} days)`,
+                reference: null,
+                debit: penalty.penalty,
+                credit: 0,
+            });
+        }
+    }
+
+    for (const payment of source.payments) {
+        if (settledBefore && payment.payment_date < settledBefore) continue;
+
+        if (payment.entry_type !== 'payment') {
+            const label = payment.entry_type === 'void' ? 'Void' : 'Refund';
+            entries.push({
+                date: payment.payment_date,
+                type: 'reversal',
+                description: `${label}: ${payment.reversal_reason || payment.description || ''}`.trim(),
+                reference: payment.receipt_number,
+                debit: -Number(payment.amount),
+                credit: 0,
+            });
+            continue;
+        }
+
+        entries.push({
+            date: payment.payment_date,
+            type: 'payment',
+            description: payment.description || `Payment (${payment.payment_method})`,
+            reference: payment.receipt_number,
+            debit: 0,
+            credit: Number(payment.amount),
+        });
+    }
+
+    entries.sort((a, b) => a.date.localeCompare(b.date) || ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type]);
+
+    let balance = 0;
+    return entries.map(entry => {
+        balance += entry.debit - entry.credit;
+        return { ...entry, balance };
+    });
+}
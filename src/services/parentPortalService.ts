@@ -0,0 +1,119 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ParentChild {
+    id: string;
+    name: string;
+    class: string | null;
+    student_id: string;
+    is_archived: boolean;
+}
+
+export interface ChildAttendance {
+    date: string;
+    status: string;
+    notes: string | null;
+    reason_code: string | null;
+}
+
+export interface ChildFeeFolder {
+    id: string;
+    folder_name: string;
+    category: string;
+    amount_due: number;
+    amount_paid: number | null;
+    due_date: string;
+    status: string;
+}
+
+export interface ChildPayment {
+    id: string;
+    amount: number;
+    currency: string | null;
+    payment_date: string;
+    payment_method: string;
+    category: string | null;
+    receipt_number: string | null;
+    description: string | null;
+    entry_type: string;
+    status: string;
+}
+
+export interface ChildAccount {
+    attendance: ChildAttendance[];
+    folders: ChildFeeFolder[];
+    payments: ChildPayment[];
+}
+
+/**
+ * Fetch the children linked to a parent through their families
+ * @param userId - Parent's user id
+ * @returns Promise with children and error
+ */
+export async function fetchParentChildren(userId: string): Promise<{ data: ParentChild[]; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('family_guardians')
+            .select('families(students(id, name, class, student_id, is_archived))')
+            .eq('user_id', userId);
+
+        if (error) throw error;
+
+        const children = (data || [])
+            .flatMap(link => link.families?.students || [])
+            .sort((a, b) => a.name.localeCompare(b.name));
+
+        return { data: children, error: null };
+    } catch (error) {
+        console.error('Error fetching children:', error);
+        return { data: [], error: error as Error };
+    }
+}
+
+/**
+ * Fetch a child's attendance since a date, fee folders and payments.
+ * Parents are limited to their own children by RLS.
+ * @param studentId - Student id
+ * @param attendanceFrom - First attendance date (YYYY-MM-DD)
+ * @returns Promise with the account and error
+ */
+export async function fetchChildAccount(
+    studentId: string,
+    attendanceFrom: string
+): Promise<{ data: ChildAccount; error: Error | null }> {
+    try {
+        const [attendanceResult, foldersResult, paymentsResult] = await Promise.all([
+            supabase
+                .from('attendance')
+                .select('date, status, notes, reason_code')
+                .eq('student_id', studentId)
+                .gte('date', attendanceFrom)
+                .order('date', { ascending: false }),
+            supabase
+                .from('fee_folders')
+                .select('id, folder_name, category, amount_due, amount_paid, due_date, status')
+                .eq('student_id', studentId)
+                .order('due_date', { ascending: true }),
+            supabase
+                .from('payments')
+                .select('id, amount, currency, payment_date, payment_method, category, receipt_number, description, entry_type, status')
+                .eq('student_id', studentId)
+                .order('payment_date', { ascending: false }),
+        ]);
+
+        if (attendanceResult.error) throw attendanceResult.error;
+        if (foldersResult.error) throw foldersResult.error;
+        if (paymentsResult.error) throw paymentsResult.error;
+
+        return {
+            data: {
+                attendance: attendanceResult.data || [],
+                folders: foldersResult.data || [],
+                payments: paymentsResult.data || [],
+            },
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error fetching child account:', error);
+        return { data: { attendance: [], folders: [], payments: [] }, error: error as Error };
+    }
+}
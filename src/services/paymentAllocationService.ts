@@ -0,0 +1,293 @@
+import { supabase } from '@/integrations/supabase/client';
+import { StudentFeeData } from '@/hooks/useFinancialData';
+
+export interface AllocationTarget {
+    fee_folder_id: string | null;  // null = tuition
+    label: string;
+    category: string;              // Fee folder category, 'school_fee' for tuition
+    due_date: string | null;       // Oldest unpaid due date (null = nothing due yet)
+    outstanding: number;           // Includes what the payment being edited already covers
+}
+
+export interface AllocationLine {
+    fee_folder_id: string | null;
+    amount: number;
+}
+
+// What a payment's receipt printed besides the payment itself
+export interface ReceiptSnapshot {
+    allocations: { label: string; amount: number }[];
+    balanceAfter?: number;         // Tuition balance right after the payment; unset when it paid no tuition
+    concessions: { label: string; amount: number }[];  // On the charges the payment settled
+}
+
+export const TUITION_KEY = 'tuition';
+
+/** Key a target / line by folder id, or TUITION_KEY for tuition */
+export const allocationKey = (feeFolderId: string | null) => feeFolderId ?? TUITION_KEY;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Date of the oldest tuition charge the student has not paid off yet.
+ * Payments settle the opening balance first, then charges in date order.
+ * @param feeData - The student's row from useFinancialData
+ */
+export function getTuitionDueDate(feeData: StudentFeeData | null): string | null {
+    if (!feeData || feeData.remaining_fee <= 0) return null;
+
+    let owed = feeData.opening_balance;
+    if (owed > feeData.total_paid) return feeData.breakdown?.billed_from || null;
+
+    const charges = [...(feeData.breakdown?.charges || [])].sort((a, b) => a.date.localeCompare(b.date));
+    for (const charge of charges) {
+        owed += charge.amount - (charge.discount || 0);
+        if (owed > feeData.total_paid) return charge.date;
+    }
+    return null;
+}
+
+/**
+ * Spread a payment oldest-due-first. School fee payments go to tuition and every
+ * fee folder; other categories only settle folders of the same category. Whatever
+ * is left stays unallocated (tuition advance for school fees, else category income).
+ * @param amount - Payment amount
+ * @param targets - From fetchAllocationTargets
+ * @param category - Payment category
+ */
+export function autoAllocate(amount: number, targets: AllocationTarget[], category: string): AllocationLine[] {
+    const eligible = targets
+        .filter(t => category === 'school_fee' || (t.fee_folder_id !== null && t.category === category))
+        .filter(t => t.outstanding > 0)
+        .sort((a, b) => (a.due_date || '9999-12-31').localeCompare(b.due_date || '9999-12-31'));
+
+    const lines: AllocationLine[] = [];
+    let remaining = roundMoney(amount);
+    for (const target of eligible) {
+        if (remaining <= 0) break;
+        const take = roundMoney(Math.min(remaining, target.outstanding));
+        lines.push({ fee_folder_id: target.fee_folder_id, amount: take });
+        remaining = roundMoney(remaining - take);
+    }
+    return lines;
+}
+
+/**
+ * Fetch what a payment for this student can be allocated to: tuition plus every
+ * fee folder with something outstanding
+ * @param studentId - Student id
+ * @param feeData - The student's row from useFinancialData (null if not billed)
+ * @param current - Payment being edited, so its own lines count as outstanding again
+ * @returns Promise with targets, the current payment's lines and error
+ */
+export async function fetchAllocationTargets(
+    studentId: string,
+    feeData: StudentFeeData | null,
+    current?: { id: string; amount: number; category: string }
+): Promise<{ data: { targets: AllocationTarget[]; lines: AllocationLine[] }; error: Error | null }> {
+    try {
+        const [foldersResult, linesResult] = await Promise.all([
+            supabase
+                .from('fee_folders')
+                .select('id, folder_name, category, amount_due, amount_paid, due_date')
+                .eq('student_id', studentId)
+                .order('due_date', { ascending: true }),
+            current
+                ? supabase.from('payment_allocations').select('fee_folder_id, amount').eq('payment_id', current.id)
+                : Promise.resolve({ data: [], error: null }),
+        ]);
+
+        if (foldersResult.error) throw foldersResult.error;
+        if (linesResult.error) throw linesResult.error;
+
+        const lines: AllocationLine[] = (linesResult.data || []).map(l => ({
+            fee_folder_id: l.fee_folder_id,
+            amount: Number(l.amount),
+        }));
+        const own = new Map(lines.map(l => [allocationKey(l.fee_folder_id), l.amount]));
+
+        // Tuition this payment already covers: its tuition line plus, for school fees, the unallocated rest
+        const allocated = lines.reduce((sum, l) => sum + l.amount, 0);
+        const ownTuition = (own.get(TUITION_KEY) || 0)
+            + (current?.category === 'school_fee' ? current.amount - allocated : 0);
+
+        const targets: AllocationTarget[] = [{
+            fee_folder_id: null,
+            label: 'Tuition',
+            category: 'school_fee',
+            due_date: getTuitionDueDate(feeData),
+            outstanding: roundMoney(Math.max((feeData?.remaining_fee || 0) + ownTuition, 0)),
+        }];
+
+        for (const folder of foldersResult.data || []) {
+            const outstanding = roundMoney(
+                Number(folder.amount_due) - Number(folder.amount_paid || 0) + (own.get(folder.id) || 0)
+            );
+            if (outstanding <= 0) continue;
+            targets.push({
+                fee_folder_id: folder.id,
+                label: folder.folder_name,
+                category: folder.category,
+                due_date: folder.due_date,
+                outstanding,
+            });
+        }
+
+        return { data: { targets, lines }, error: null };
+    } catch (error) {
+        console.error('Error fetching allocation targets:', error);
+        return { data: { targets: [], lines: [] }, error: error as Error };
+    }
+}
+
+/**
+ * Replace a payment's allocation lines (fee collectors only, enforced server-side).
+ * Fee folder balances follow automatically.
+ * @param paymentId - Payment id
+ * @param lines - New lines; zero lines are dropped, an empty list clears the allocation
+ * @returns Promise with error (null on success)
+ */
+export async function savePaymentAllocations(paymentId: string, lines: AllocationLine[]): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('allocate_payment', {
+        p_payment_id: paymentId,
+        p_allocations: lines
+            .filter(l => l.amount > 0)
+            .map(l => ({ fee_folder_id: l.fee_folder_id, amount: roundMoney(l.amount) })),
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Concessions on the charges a tuition payment settles. Tuition settles the opening
+ * balance first, then charges in date order; a charge is listed when any part of it
+ * falls within the payment.
+ * @param feeData - The student's row from useFinancialData
+ * @param paidBefore - Tuition the student had paid before this payment
+ * @param tuitionPaid - The payment's tuition share
+ */
+export function getSettledConcessions(
+    feeData: StudentFeeData | null,
+    paidBefore: number,
+    tuitionPaid: number
+): { label: string; amount: number }[] {
+    if (!feeData?.breakdown || tuitionPaid <= 0) return [];
+
+    const paidAfter = paidBefore + tuitionPaid;
+    const charges = [...feeData.breakdown.charges].sort((a, b) => a.date.localeCompare(b.date));
+    const concessions: { label: string; amount: number }[] = [];
+    let cursor = feeData.opening_balance;
+
+    for (const charge of charges) {
+        const start = cursor;
+        cursor += charge.amount - (charge.discount || 0);
+        if (start >= paidAfter) break;
+        if (charge.discount && cursor > paidBefore) {
+            concessions.push({ label: charge.label, amount: charge.discount });
+        }
+    }
+
+    return concessions;
+}
+
+/**
+ * Record a payment together with its allocation lines (fee collectors only, enforced
+ * server-side). Both are written in one transaction, so a rejected allocation leaves
+ * no payment and uses up no receipt number.
+ * @param payment - Student, amount, date, method, category and currency
+ * @param lines - Allocation lines; zero lines are dropped
+ * @returns Promise with the new payment id and receipt number, and error
+ */
+export async function recordPayment(
+    payment: {
+        student_id: string;
+        amount: number;
+        payment_date: string;
+        payment_method: string;
+        category: string;
+        currency: string;
+    },
+    lines: AllocationLine[]
+): Promise<{ data: { payment_id: string; receipt_number: string } | null; error: Error | null }> {
+    const { data, error } = await supabase.rpc('record_payment', {
+        p_student_id: payment.student_id,
+        p_amount: roundMoney(payment.amount),
+        p_payment_date: payment.payment_date,
+        p_payment_method: payment.payment_method,
+        p_category: payment.category,
+        p_currency: payment.currency,
+        p_allocations: lines
+            .filter(l => l.amount > 0)
+            .map(l => ({ fee_folder_id: l.fee_folder_id, amount: roundMoney(l.amount) })),
+    });
+
+    if (error) return { data: null, error: new Error(error.message) };
+    return { data: data as unknown as { payment_id: string; receipt_number: string }, error: null };
+}
+
+/**
+ * Rebuild what a payment's receipt showed when it was first printed, for reprints:
+ * its allocation lines, the concessions on the charges it settled and the tuition
+ * balance right after it. The balance is today's
+ * remaining fee with the tuition of later entries (payments, voids, refunds) added back
+ * and the charges that fell due after the day it was recorded taken out.
+ * Left unset when a rollover since then settled the payment into an opening balance.
+ * @param payment - Payment being reprinted
+ * @param feeData - The student's row from useFinancialData (null if not billed)
+ * @returns Promise with the snapshot and error
+ */
+export async function fetchReceiptSnapshot(
+    payment: { id: string; student_id: string; created_at: string },
+    feeData: StudentFeeData | null
+): Promise<{ data: ReceiptSnapshot; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('payments')
+            .select('id, amount, category, created_at, payment_allocations(fee_folder_id, amount, fee_folders(folder_name))')
+            .eq('student_id', payment.student_id);
+
+        if (error) throw error;
+
+        const rows = data || [];
+        const own = rows.find(r => r.id === payment.id);
+        const allocations = (own?.payment_allocations || [])
+            .filter(l => Number(l.amount) > 0)
+            .map(l => ({
+                label: l.fee_folder_id === null ? 'Tuition' : l.fee_folders?.folder_name || 'Other',
+                amount: Number(l.amount),
+            }));
+
+        // Tuition share: tuition lines, plus the unallocated rest of a school fee payment
+        const tuitionShare = (row: (typeof rows)[number]) => {
+            const lines = row.payment_allocations || [];
+            const allocated = lines.reduce((sum, l) => sum + Number(l.amount), 0);
+            return lines.filter(l => l.fee_folder_id === null).reduce((sum, l) => sum + Number(l.amount), 0)
+                + ((row.category || 'school_fee') === 'school_fee' ? Number(row.amount) - allocated : 0);
+        };
+
+        const printedOn = payment.created_at.split('T')[0];
+        const breakdown = feeData?.breakdown;
+        const settledSince = !!breakdown?.opening_balance_year && !!breakdown.billed_from && breakdown.billed_from > printedOn;
+
+        let balanceAfter: number | undefined;
+        let concessions: { label: string; amount: number }[] = [];
+        if (feeData && own && tuitionShare(own) > 0 && !settledSince) {
+            const laterPaid = rows
+                .filter(r => r.created_at > payment.created_at)
+                .reduce((sum, r) => sum + tuitionShare(r), 0);
+            const laterCharges = (breakdown?.charges || [])
+                .filter(c => c.date > printedOn)
+                .reduce((sum, c) => sum + c.amount - (c.discount || 0), 0);
+            balanceAfter = roundMoney(feeData.remaining_fee + laterPaid - laterCharges);
+            concessions = getSettledConcessions(
+                feeData,
+                feeData.total_paid - laterPaid - tuitionShare(own),
+                tuitionShare(own)
+            );
+        }
+
+        return { data: { allocations, balanceAfter, concessions }, error: null };
+    } catch (error) {
+        console.error('Error fetching receipt snapshot:', error);
+        return { data: { allocations: [], concessions: [] }, error: error as Error };
+    }
+}
@@ -0,0 +1,56 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type PaymentEntryType = 'payment' | 'void' | 'refund';
+export type PaymentStatus = 'active' | 'partially_refunded' | 'refunded' | 'voided';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+    active: 'Active',
+    partially_refunded: 'Partially refunded',
+    refunded: 'Refunded',
+    voided: 'Voided',
+};
+
+/**
+ * Whether a payment row can still be voided or refunded
+ * @param payment - Row with entry_type and status
+ */
+export function isReversible(payment: { entry_type?: string; status?: string }): boolean {
+    return (payment.entry_type ?? 'payment') === 'payment'
+        && (payment.status ?? 'active') !== 'voided'
+        && payment.status !== 'refunded';
+}
+
+/**
+ * Void a payment: keeps the original and records a reversing entry for whatever
+ * has not been refunded yet (principal or accountant only, audited server-side)
+ * @param paymentId - Payment id
+ * @param reason - Why the payment is being voided
+ * @returns Promise with error (null on success)
+ */
+export async function voidPayment(paymentId: string, reason: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('void_payment', {
+        p_payment_id: paymentId,
+        p_reason: reason.trim(),
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Refund part or all of a payment (principal or accountant only, audited server-side)
+ * @param paymentId - Payment id
+ * @param amount - Amount handed back (at most what is left after earlier refunds)
+ * @param reason - Why the money is being refunded
+ * @returns Promise with error (null on success)
+ */
+export async function refundPayment(
+    paymentId: string,
+    amount: number,
+    reason: string
+): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('refund_payment', {
+        p_payment_id: paymentId,
+        p_amount: amount,
+        p_reason: reason.trim(),
+    });
+    return { error: error ? new Error(error.message) : null };
+}
@@ -0,0 +1,276 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+
+export type PayrollRunStatus = 'draft' | 'finalized';
+
+export interface PayrollRun {
+    id: string;
+    period_start: string;         // First of the month
+    period_end: string;
+    status: PayrollRunStatus;
+    payment_date: string | null;  // Set when finalised
+    finalized_at: string | null;
+    created_at: string;
+    staff_count: number;
+    total_net: number;
+}
+
+export interface DeductionItem {
+    label: string;                // Tax, advance recovery, ...
+    amount: number;
+    source?: 'unpaid_leave';      // Computed from approved unpaid leave, recalculated on every save
+}
+
+export interface PayrollLine {
+    id: string;
+    staff_id: string;
+    staff_name: string;
+    staff_code: string;           // staff.staff_id
+    position: string;
+    pay_period_start: string;     // Later than the run start for staff who joined mid-month
+    pay_period_end: string;
+    amount: number;               // Base salary for the period
+    bonus: number;
+    deductions: number;           // Total, the sum of deduction_items when itemised
+    deduction_items: DeductionItem[];
+    net_amount: number;
+}
+
+/** A recorded salary for one staff member (paid, or draft in an open payroll run) */
+export interface StaffSalary {
+    id: string;
+    pay_period_start: string;
+    pay_period_end: string;
+    payment_date: string;
+    amount: number;
+    bonus: number;
+    deductions: number;
+    deduction_items: DeductionItem[];
+    net_amount: number;
+    currency: string | null;
+    status: 'draft' | 'paid';
+}
+
+/** A staff_salary_audit entry: salary, salary type or other pay fields changed */
+export interface StaffSalaryChange {
+    id: string;
+    changed_at: string;
+    changed_by: string | null;    // Email of whoever made the change
+    changed_fields: string[];
+    old_values: Record<string, unknown>;
+    new_values: Record<string, unknown>;
+}
+
+export const PAYROLL_STATUS_LABELS: Record<PayrollRunStatus, string> = {
+    draft: 'Draft',
+    finalized: 'Finalised',
+};
+
+/**
+ * Read the deduction_items JSON of a salary row
+ * @param value - salaries.deduction_items
+ */
+export function parseDeductionItems(value: Json | null | undefined): DeductionItem[] {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter((item): item is { [key: string]: Json } => !!item && typeof item === 'object' && !Array.isArray(item))
+        .map(item => ({
+            label: String(item.label ?? ''),
+            amount: Number(item.amount ?? 0),
+            ...(item.source === 'unpaid_leave' ? { source: 'unpaid_leave' as const } : {}),
+        }))
+        .filter(item => item.label && item.amount > 0);
+}
+
+const asRecord = (value: Json): Record<string, unknown> =>
+    value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+
+/**
+ * Fetch a school's payroll runs, latest month first, with their staff count and net total
+ * @param schoolId - School id
+ * @returns Promise with runs and error
+ */
+export async function fetchPayrollRuns(schoolId: string): Promise<{ data: PayrollRun[]; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('payroll_runs')
+            .select('id, period_start, period_end, status, payment_date, finalized_at, created_at, salaries(net_amount)')
+            .eq('school_id', schoolId)
+            .order('period_start', { ascending: false });
+
+        if (error) throw error;
+
+        return {
+            data: (data || []).map(({ salaries, ...run }) => ({
+                ...run,
+                status: run.status as PayrollRunStatus,
+                staff_count: salaries?.length || 0,
+                total_net: (salaries || []).reduce((sum, s) => sum + Number(s.net_amount || 0), 0),
+            })),
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error fetching payroll runs:', error);
+        return { data: [], error: error as Error };
+    }
+}
+
+/**
+ * Fetch the salary lines of a payroll run, by staff name
+ * @param runId - Payroll run id
+ * @returns Promise with lines and error
+ */
+export async function fetchPayrollLines(runId: string): Promise<{ data: PayrollLine[]; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('salaries')
+            .select('id, staff_id, pay_period_start, pay_period_end, amount, bonus, deductions, deduction_items, net_amount, staff(name, staff_id, position)')
+            .eq('payroll_run_id', runId);
+
+        if (error) throw error;
+
+        return {
+            data: (data || [])
+                .map(({ staff, ...line }) => ({
+                    ...line,
+                    staff_name: staff?.name || 'Unknown',
+                    staff_code: staff?.staff_id || '',
+                    position: staff?.position || '',
+                    amount: Number(line.amount),
+                    bonus: Number(line.bonus || 0),
+                    deductions: Number(line.deductions || 0),
+                    deduction_items: parseDeductionItems(line.deduction_items),
+                    net_amount: Number(line.net_amount),
+                }))
+                .sort((a, b) => a.staff_name.localeCompare(b.staff_name)),
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error fetching payroll lines:', error);
+        return { data: [], error: error as Error };
+    }
+}
+
+/**
+ * Draft a payroll run for a month: one salary line per active staff member
+ * (principal or accountant, enforced server-side)
+ * @param schoolId - School id
+ * @param month - Any date in the month (YYYY-MM-DD)
+ * @returns Promise with the new run id and error
+ */
+export async function createPayrollRun(
+    schoolId: string,
+    month: string
+): Promise<{ data: string | null; error: Error | null }> {
+    const { data, error } = await supabase.rpc('create_payroll_run', {
+        p_school_id: schoolId,
+        p_month: month,
+    });
+    if (error) return { data: null, error: new Error(error.message) };
+    return { data, error: null };
+}
+
+/**
+ * Set the bonus and deductions on a draft line; the net amount is recalculated server-side
+ * @param salaryId - Salary line id
+ * @param bonus - Bonus for the period
+ * @param deductions - Deductions for the period (ignored when items are given)
+ * @param items - Itemised deductions; their sum becomes the total
+ * @returns Promise with error (null on success)
+ */
+export async function updatePayrollLine(
+    salaryId: string,
+    bonus: number,
+    deductions: number,
+    items: DeductionItem[] = []
+): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('update_payroll_line', {
+        p_salary_id: salaryId,
+        p_bonus: bonus,
+        p_deductions: deductions,
+        p_deduction_items: items.map(item => ({ label: item.label, amount: item.amount, ...(item.source ? { source: item.source } : {}) })),
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Finalise a draft run: its lines are recorded as paid and staff paid totals updated
+ * @param runId - Payroll run id
+ * @param paymentDate - Date the salaries were paid (YYYY-MM-DD)
+ * @returns Promise with error (null on success)
+ */
+export async function finalizePayrollRun(runId: string, paymentDate: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('finalize_payroll_run', {
+        p_run_id: runId,
+        p_payment_date: paymentDate,
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Discard a draft run and its lines
+ * @param runId - Payroll run id
+ * @returns Promise with error (null on success)
+ */
+export async function deletePayrollRun(runId: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('delete_payroll_run', { p_run_id: runId });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Fetch a staff member's recorded salaries, latest period first
+ * @param staffId - Staff id
+ * @returns Promise with salaries and error
+ */
+export async function fetchStaffSalaries(staffId: string): Promise<{ data: StaffSalary[]; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('salaries')
+            .select('id, pay_period_start, pay_period_end, payment_date, amount, bonus, deductions, deduction_items, net_amount, currency, status')
+            .eq('staff_id', staffId)
+            .order('pay_period_start', { ascending: false });
+
+        if (error) throw error;
+
+        return {
+            data: (data || []).map(row => ({
+                ...row,
+                amount: Number(row.amount),
+                bonus: Number(row.bonus || 0),
+                deductions: Number(row.deductions || 0),
+                deduction_items: parseDeductionItems(row.deduction_items),
+                net_amount: Number(row.net_amount),
+                status: row.status as StaffSalary['status'],
+            })),
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error fetching staff salaries:', error);
+        return { data: [], error: error as Error };
+    }
+}
+
+/**
+ * Fetch the salary audit trail of a staff member, newest first (principal or accountant)
+ * @param staffId - Staff id
+ * @returns Promise with changes and error
+ */
+export async function fetchStaffSalaryChanges(staffId: string): Promise<{ data: StaffSalaryChange[]; error: Error | null }> {
+    const { data, error } = await supabase.rpc('get_staff_salary_changes', { p_staff_id: staffId });
+    if (error) {
+        console.error('Error fetching salary changes:', error);
+        return { data: [], error: new Error(error.message) };
+    }
+
+    return {
+        data: (data || []).map(row => ({
+            id: row.id,
+            changed_at: row.changed_at,
+            changed_by: row.changed_by || null,
+            changed_fields: Array.isArray(row.changed_fields) ? row.changed_fields.map(String) : Object.keys(asRecord(row.changed_fields)),
+            old_values: asRecord(row.old_values),
+            new_values: asRecord(row.new_values),
+        })),
+        error: null,
+    };
+}
@@ -0,0 +1,198 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type AttendanceMode = 'daily' | 'period';
+
+export interface ClassPeriod {
+    id?: string;
+    class_id: string;
+    school_id: string;
+    day_of_week: number;        // ISO: 1 = Monday ... 7 = Sunday
+    period_number: number;
+    subject: string;
+    teacher_id: string | null;
+    start_time: string | null;  // HH:MM[:SS]
+    end_time: string | null;
+}
+
+export interface PeriodAttendanceEntry {
+    student_id: string;
+    status: string;
+    notes?: string | null;
+}
+
+export interface PeriodSummary {
+    period_number: number;
+    subject: string | null;
+    attendance_percentage: number;
+}
+
+export const WEEKDAY_LABELS: Record<number, string> = {
+    1: 'Monday',
+    2: 'Tuesday',
+    3: 'Wednesday',
+    4: 'Thursday',
+    5: 'Friday',
+    6: 'Saturday',
+    7: 'Sunday',
+};
+
+/**
+ * ISO weekday of a date (1 = Monday ... 7 = Sunday), matching class_periods.day_of_week
+ * @param date - Date
+ */
+export function isoWeekday(date: Date): number {
+    return date.getDay() === 0 ? 7 : date.getDay();
+}
+
+/**
+ * Fetch a class's timetable, optionally for one weekday
+ * @param classId - Class id
+ * @param dayOfWeek - ISO weekday
+ * @returns Promise with periods ordered by day and period number, and error
+ */
+export async function fetchClassPeriods(
+    classId: string,
+    dayOfWeek?: number
+): Promise<{ data: ClassPeriod[]; error: Error | null }> {
+    let query = supabase
+        .from('class_periods')
+        .select('id, class_id, school_id, day_of_week, period_number, subject, teacher_id, start_time, end_time')
+        .eq('class_id', classId)
+        .order('day_of_week')
+        .order('period_number');
+
+    if (dayOfWeek) query = query.eq('day_of_week', dayOfWeek);
+
+    const { data, error } = await query;
+    if (error) return { data: [], error: new Error(error.message) };
+    return { data: data || [], error: null };
+}
+
+/**
+ * Create or update a timetable period (principal only, enforced by RLS)
+ * @param period - Period; updated when it has an id
+ * @returns Promise with error (null on success)
+ */
+export async function saveClassPeriod(period: ClassPeriod): Promise<{ error: Error | null }> {
+    const payload = {
+        class_id: period.class_id,
+        school_id: period.school_id,
+        day_of_week: period.day_of_week,
+        period_number: period.period_number,
+        subject: period.subject.trim(),
+        teacher_id: period.teacher_id || null,
+        start_time: period.start_time || null,
+        end_time: period.end_time || null,
+    };
+
+    const { error } = period.id
+        ? await supabase.from('class_periods').update(payload).eq('id', period.id)
+        : await supabase.from('class_periods').insert([payload]);
+
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Delete a timetable period. Attendance already marked for it is kept.
+ * @param periodId - Period id
+ * @returns Promise with error (null on success)
+ */
+export async function deleteClassPeriod(periodId: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.from('class_periods').delete().eq('id', periodId);
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Switch a class between daily and period-wise attendance (principal only)
+ * @param classId - Class id
+ * @param mode - 'daily' or 'period'
+ * @returns Promise with error (null on success)
+ */
+export async function setClassAttendanceMode(classId: string, mode: AttendanceMode): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('set_class_attendance_mode', { p_class_id: classId, p_mode: mode });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Fetch statuses marked for one period of a class on a date
+ * @param classId - Class id
+ * @param date - YYYY-MM-DD
+ * @param periodNumber - Period number
+ * @returns Promise with a map of student id to status, and error
+ */
+export async function fetchPeriodStatuses(
+    classId: string,
+    date: string,
+    periodNumber: number
+): Promise<{ data: Map<string, { status: string; notes: string | null }>; error: Error | null }> {
+    const { data, error } = await supabase
+        .from('attendance_periods')
+        .select('student_id, status, notes')
+        .eq('class_id', classId)
+        .eq('date', date)
+        .eq('period_number', periodNumber);
+
+    if (error) return { data: new Map(), error: new Error(error.message) };
+    return {
+        data: new Map((data || []).map(row => [row.student_id, { status: row.status, notes: row.notes }])),
+        error: null,
+    };
+}
+
+/**
+ * Mark one period (the period's teacher or a principal, enforced server-side).
+ * The daily attendance row is re-derived from all periods marked that day.
+ * @param classId - Class id
+ * @param date - YYYY-MM-DD
+ * @param periodNumber - Period number in that day's timetable
+ * @param attendance - Statuses to record
+ * @returns Promise with error (null on success)
+ */
+export async function markPeriodAttendance(
+    classId: string,
+    date: string,
+    periodNumber: number,
+    attendance: PeriodAttendanceEntry[]
+): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('mark_period_attendance', {
+        p_class_id: classId,
+        p_date: date,
+        p_period_number: periodNumber,
+        p_attendance: attendance.map(a => ({ student_id: a.student_id, status: a.status, notes: a.notes || null })),
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Class attendance percentage per period, averaged over students
+ * @param classId - Class id
+ * @returns Promise with one row per period number and error
+ */
+export async function fetchPeriodSummary(classId: string): Promise<{ data: PeriodSummary[]; error: Error | null }> {
+    const { data, error } = await supabase.rpc('get_class_attendance_summary', {
+        p_class_id: classId,
+        p_by_period: true,
+    });
+
+    if (error) return { data: [], error: new Error(error.message) };
+
+    const byPeriod = new Map<number, { subject: string | null; present: number; total: number }>();
+    for (const row of data || []) {
+        if (row.period_number === null) continue;
+        const current = byPeriod.get(row.period_number) || { subject: row.subject, present: 0, total: 0 };
+        current.present += Number(row.present_count);
+        current.total += Number(row.total_classes);
+        byPeriod.set(row.period_number, current);
+    }
+
+    return {
+        data: Array.from(byPeriod.entries())
+            .sort(([a], [b]) => a - b)
+            .map(([period_number, p]) => ({
+                period_number,
+                subject: p.subject,
+                attendance_percentage: p.total > 0 ? Math.round((p.present / p.total) * 1000) / 10 : 0,
+            })),
+        error: null,
+    };
+}
@@ -0,0 +1,213 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+
+export type ReceiptTemplate = 'a4' | 'half_page' | 'thermal_80mm';
+
+export interface ReceiptSettings {
+    template: ReceiptTemplate;
+    address: string;
+    phone: string;
+    footer: string;
+    logo: string | null;  // data:image/... URL, embedded so PDFs render offline
+    show_qr: boolean;
+}
+
+/** Everything a receipt needs to look like it came from the school */
+export interface ReceiptBranding extends ReceiptSettings {
+    school_name: string;
+}
+
+export const DEFAULT_RECEIPT_SETTINGS: ReceiptSettings = {
+    template: 'a4',
+    address: '',
+    phone: '',
+    footer: '',
+    logo: null,
+    show_qr: false,
+};
+
+export const RECEIPT_TEMPLATES: { value: ReceiptTemplate; label: string }[] = [
+    { value: 'a4', label: 'A4 (full page)' },
+    { value: 'half_page', label: 'Half page (A5)' },
+    { value: 'thermal_80mm', label: 'Thermal roll (80mm)' },
+];
+
+// Mirrors the limit enforced by set_receipt_settings()
+export const MAX_LOGO_LENGTH = 300000;
+
+/**
+ * Read receipt settings from a school's settings JSON, falling back to defaults
+ * @param settings - schools.settings value
+ */
+export function parseReceiptSettings(settings: Json | null): ReceiptSettings {
+    const raw = settings && typeof settings === 'object' && !Array.isArray(settings)
+        ? settings.receipt
+        : null;
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return DEFAULT_RECEIPT_SETTINGS;
+
+    const template = RECEIPT_TEMPLATES.find(t => t.value === raw.template)?.value;
+
+    return {
+        template: template || 'a4',
+        address: typeof raw.address === 'string' ? raw.address : '',
+        phone: typeof raw.phone === 'string' ? raw.phone : '',
+        footer: typeof raw.footer === 'string' ? raw.footer : '',
+        logo: typeof raw.logo === 'string' && raw.logo.startsWith('data:image/') ? raw.logo : null,
+        show_qr: raw.show_qr === true,
+    };
+}
+
+/**
+ * Fetch the school name and receipt settings used to brand receipts
+ * @param schoolId - School id
+ * @returns Promise with branding (defaults when not configured) and error
+ */
+export async function fetchReceiptBranding(
+    schoolId: string
+): Promise<{ data: ReceiptBranding; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('schools')
+            .select('name, settings')
+            .eq('id', schoolId)
+            .single();
+
+        if (error) throw error;
+
+        return {
+            data: { school_name: data.name, ...parseReceiptSettings(data.settings) },
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error fetching receipt settings:', error);
+        return { data: { school_name: '', ...DEFAULT_RECEIPT_SETTINGS }, error: error as Error };
+    }
+}
+
+/**
+ * Save receipt settings for a school (principal only, enforced server-side)
+ * @param schoolId - School id
+ * @param settings - New settings
+ * @returns Promise with error (null on success)
+ */
+export async function saveReceiptSettings(schoolId: string, settings: ReceiptSettings): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('set_receipt_settings', {
+        p_school_id: schoolId,
+        p_settings: {
+            template: settings.template,
+            address: settings.address.trim(),
+            phone: settings.phone.trim(),
+            footer: settings.footer.trim(),
+            logo: settings.logo,
+            show_qr: settings.show_qr,
+        },
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+export interface ReceiptNumbering {
+    payment_prefix: string;
+    expense_prefix: string;
+    include_year: boolean;             // false = one counter that never resets
+    padding: number;                   // Zero-padded counter width
+    fiscal_year_start_month: number;   // 1 = calendar year
+}
+
+// Matches the fallbacks in allocate_receipt_number()
+export const DEFAULT_RECEIPT_NUMBERING: ReceiptNumbering = {
+    payment_prefix: 'RCT',
+    expense_prefix: 'EXP',
+    include_year: true,
+    padding: 5,
+    fiscal_year_start_month: 1,
+};
+
+/**
+ * Read the receipt number format from a school's settings JSON, falling back to defaults
+ * @param settings - schools.settings value
+ */
+export function parseReceiptNumbering(settings: Json | null): ReceiptNumbering {
+    const raw = settings && typeof settings === 'object' && !Array.isArray(settings)
+        ? settings.receipt_numbering
+        : null;
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return DEFAULT_RECEIPT_NUMBERING;
+
+    return {
+        payment_prefix: typeof raw.payment_prefix === 'string' ? raw.payment_prefix : DEFAULT_RECEIPT_NUMBERING.payment_prefix,
+        expense_prefix: typeof raw.expense_prefix === 'string' ? raw.expense_prefix : DEFAULT_RECEIPT_NUMBERING.expense_prefix,
+        include_year: raw.include_year !== false,
+        padding: Number(raw.padding) || DEFAULT_RECEIPT_NUMBERING.padding,
+        fiscal_year_start_month: Number(raw.fiscal_year_start_month) || 1,
+    };
+}
+
+/**
+ * Format a receipt number the way allocate_receipt_number() does (for previews only -
+ * real numbers are always allocated by the database)
+ * @param numbering - Format settings
+ * @param kind - Payment or expense
+ * @param date - Payment / expense date
+ * @param counter - Sequence value
+ */
+export function formatReceiptNumber(
+    numbering: ReceiptNumbering,
+    kind: 'payment' | 'expense',
+    date: Date,
+    counter: number
+): string {
+    const prefix = kind === 'payment' ? numbering.payment_prefix : numbering.expense_prefix;
+    const value = String(counter).padStart(numbering.padding, '0');
+    if (!numbering.include_year) return `${prefix}-${value}`;
+
+    const startMonth = numbering.fiscal_year_start_month;
+    const year = date.getFullYear() - (date.getMonth() + 1 < startMonth ? 1 : 0);
+    const label = startMonth === 1 ? String(year) : `${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+    return `${prefix}-${label}-${value}`;
+}
+
+/**
+ * Fetch the receipt number format configured for a school
+ * @param schoolId - School id
+ * @returns Promise with format (defaults when not configured) and error
+ */
+export async function fetchReceiptNumbering(
+    schoolId: string
+): Promise<{ data: ReceiptNumbering; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('schools')
+            .select('settings')
+            .eq('id', schoolId)
+            .single();
+
+        if (error) throw error;
+
+        return { data: parseReceiptNumbering(data?.settings ?? null), error: null };
+    } catch (error) {
+        console.error('Error fetching receipt numbering:', error);
+        return { data: DEFAULT_RECEIPT_NUMBERING, error: error as Error };
+    }
+}
+
+/**
+ * Save the receipt number format for a school (principal only, enforced server-side).
+ * Applies to receipts issued from now on; existing numbers never change.
+ * @param schoolId - School id
+ * @param numbering - New format
+ * @returns Promise with error (null on success)
+ */
+export async function saveReceiptNumbering(schoolId: string, numbering: ReceiptNumbering): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('set_receipt_numbering', {
+        p_school_id: schoolId,
+        p_settings: {
+            payment_prefix: numbering.payment_prefix.trim().toUpperCase(),
+            expense_prefix: numbering.expense_prefix.trim().toUpperCase(),
+            include_year: numbering.include_year,
+            padding: numbering.padding,
+            fiscal_year_start_month: numbering.fiscal_year_start_month,
+        },
+    });
+    return { error: error ? new Error(error.message) : null };
+}
@@ -0,0 +1,56 @@
+import { supabase } from '@/integrations/supabase/client';
+import { PaymentStatus } from '@/services/paymentReversalService';
+
+export interface ReceiptVerification {
+    valid: boolean;
+    status?: PaymentStatus;        // Set when the code matched a payment; voided / refunded ones are not valid
+    receipt_number?: string;
+    amount?: number;
+    currency?: string;
+    payment_date?: string;
+    school_name?: string | null;
+}
+
+/**
+ * Public URL printed (and QR-encoded) on a receipt
+ * @param receiptNumber - Receipt number
+ * @param token - Token from signReceipt
+ */
+export function getReceiptVerificationUrl(receiptNumber: string, token: string): string {
+    const params = new URLSearchParams({ r: receiptNumber, t: token });
+    return `${window.location.origin}/verify-receipt?${params.toString()}`;
+}
+
+/**
+ * Get the verification token for a payment the current user can see
+ * @param paymentId - Payment id
+ * @returns Promise with token and error
+ */
+export async function signReceipt(paymentId: string): Promise<{ data: string | null; error: Error | null }> {
+    const { data, error } = await supabase.functions.invoke('verify-receipt', {
+        body: { action: 'sign', payment_id: paymentId },
+    });
+
+    if (error) return { data: null, error: new Error(error.message) };
+    if (data?.error) return { data: null, error: new Error(data.error) };
+    return { data: data.token, error: null };
+}
+
+/**
+ * Check a receipt number + token against recorded payments (no login required)
+ * @param receiptNumber - Receipt number printed on the receipt
+ * @param token - Verification code printed on the receipt
+ * @returns Promise with the verification result and error
+ */
+export async function verifyReceipt(
+    receiptNumber: string,
+    token: string
+): Promise<{ data: ReceiptVerification | null; error: Error | null }> {
+    const { data, error } = await supabase.functions.invoke('verify-receipt', {
+        body: { action: 'verify', receipt_number: receiptNumber.trim(), token: token.trim() },
+    });
+
+    if (error) return { data: null, error: new Error(error.message) };
+    if (data?.error) return { data: null, error: new Error(data.error) };
+    return { data: data as ReceiptVerification, error: null };
+}
@@ -0,0 +1,205 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { format, eachDayOfInterval } from 'date-fns';
+import { WEEKDAY_LABELS, isoWeekday } from '@/services/periodAttendanceService';
+
+export type CalendarEventType = 'holiday' | 'exam' | 'term_start' | 'term_end' | 'event';
+
+export interface CalendarEvent {
+    id?: string;
+    school_id: string;
+    title: string;
+    event_type: CalendarEventType;
+    start_date: string;           // YYYY-MM-DD
+    end_date: string;             // YYYY-MM-DD, inclusive
+    description: string | null;
+    uid?: string;                 // iCal UID (re-imports update the same event)
+}
+
+export interface SchoolCalendar {
+    weeklyOffs: number[];         // ISO weekdays, 1 = Monday ... 7 = Sunday
+    events: CalendarEvent[];
+}
+
+export const CALENDAR_EVENT_LABELS: Record<CalendarEventType, string> = {
+    holiday: 'Holiday',
+    exam: 'Exam',
+    term_start: 'Term Start',
+    term_end: 'Term End',
+    event: 'Event',
+};
+
+/** Weekly offs for schools that have not set them (Sunday) */
+export const DEFAULT_WEEKLY_OFFS = [7];
+
+/**
+ * Read weekly offs from a school's settings JSON, falling back to Sunday
+ * @param settings - schools.settings value
+ */
+export function parseWeeklyOffs(settings: Json | null): number[] {
+    const calendar = settings && typeof settings === 'object' && !Array.isArray(settings)
+        ? settings.calendar
+        : null;
+    const offs = calendar && typeof calendar === 'object' && !Array.isArray(calendar)
+        ? calendar.weekly_offs
+        : null;
+
+    if (!Array.isArray(offs)) return DEFAULT_WEEKLY_OFFS;
+    return offs.map(Number).filter(d => d >= 1 && d <= 7);
+}
+
+/**
+ * Why a date is not a working day: the holiday's title or the weekly off's name.
+ * Mirrors is_school_working_day() on the server.
+ * @param date - YYYY-MM-DD
+ * @param calendar - School calendar
+ * @returns The reason, or null on working days
+ */
+export function nonWorkingReason(date: string, calendar: SchoolCalendar): string | null {
+    const holiday = calendar.events.find(e =>
+        e.event_type === 'holiday' && e.start_date <= date && e.end_date >= date
+    );
+    if (holiday) return holiday.title;
+
+    const weekday = isoWeekday(new Date(`${date}T00:00:00`));
+    return calendar.weeklyOffs.includes(weekday) ? WEEKDAY_LABELS[weekday] : null;
+}
+
+/**
+ * Non-working days in a range with their reason (holiday title or weekly off)
+ * @param calendar - School calendar
+ * @param start - First day
+ * @param end - Last day
+ * @returns Map of YYYY-MM-DD to reason
+ */
+export function nonWorkingDays(calendar: SchoolCalendar, start: Date, end: Date): Map<string, string> {
+    const days = new Map<string, string>();
+    for (const day of eachDayOfInterval({ start, end })) {
+        const date = format(day, 'yyyy-MM-dd');
+        const reason = nonWorkingReason(date, calendar);
+        if (reason) days.set(date, reason);
+    }
+    return days;
+}
+
+/**
+ * Fetch a school's weekly offs and calendar events, optionally only those overlapping a range
+ * @param schoolId - School id
+ * @param range - Limit events to those touching [from, to] (YYYY-MM-DD)
+ * @returns Promise with the calendar and error
+ */
+export async function fetchSchoolCalendar(
+    schoolId: string,
+    range?: { from: string; to: string }
+): Promise<{ data: SchoolCalendar; error: Error | null }> {
+    try {
+        let eventsQuery = supabase
+            .from('school_calendar_events')
+            .select('id, school_id, title, event_type, start_date, end_date, description, uid')
+            .eq('school_id', schoolId)
+            .order('start_date', { ascending: true });
+
+        if (range) {
+            eventsQuery = eventsQuery.lte('start_date', range.to).gte('end_date', range.from);
+        }
+
+        const [schoolResult, eventsResult] = await Promise.all([
+            supabase.from('schools').select('settings').eq('id', schoolId).single(),
+            eventsQuery,
+        ]);
+
+        if (schoolResult.error) throw schoolResult.error;
+        if (eventsResult.error) throw eventsResult.error;
+
+        return {
+            data: {
+                weeklyOffs: parseWeeklyOffs(schoolResult.data?.settings ?? null),
+                events: (eventsResult.data || []).map(e => ({ ...e, event_type: e.event_type as CalendarEventType })),
+            },
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error fetching school calendar:', error);
+        return { data: { weeklyOffs: DEFAULT_WEEKLY_OFFS, events: [] }, error: error as Error };
+    }
+}
+
+/**
+ * Add or update a calendar event (principal only, enforced by RLS)
+ * @param event - Event to save (with id to update)
+ * @returns Promise with error (null on success)
+ */
+export async function saveCalendarEvent(event: CalendarEvent): Promise<{ error: Error | null }> {
+    const row = {
+        school_id: event.school_id,
+        title: event.title.trim(),
+        event_type: event.event_type,
+        start_date: event.start_date,
+        end_date: event.end_date,
+        description: event.description?.trim() || null,
+    };
+
+    const { error } = event.id
+        ? await supabase.from('school_calendar_events').update({ ...row, updated_at: new Date().toISOString() }).eq('id', event.id)
+        : await supabase.from('school_calendar_events').insert(row);
+
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Delete a calendar event
+ * @param eventId - Event id
+ * @returns Promise with error (null on success)
+ */
+export async function deleteCalendarEvent(eventId: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.from('school_calendar_events').delete().eq('id', eventId);
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Import events (e.g. from an iCal file). Events whose UID is already on the
+ * school calendar are updated instead of added again.
+ * @param schoolId - School id
+ * @param events - Events with their iCal UID
+ * @returns Promise with the number of events saved and error
+ */
+export async function importCalendarEvents(
+    schoolId: string,
+    events: Omit<CalendarEvent, 'school_id'>[]
+): Promise<{ data: number; error: Error | null }> {
+    if (events.length === 0) return { data: 0, error: null };
+
+    const { data, error } = await supabase
+        .from('school_calendar_events')
+        .upsert(
+            events.map(e => ({
+                school_id: schoolId,
+                title: e.title.trim(),
+                event_type: e.event_type,
+                start_date: e.start_date,
+                end_date: e.end_date,
+                description: e.description?.trim() || null,
+                uid: e.uid || crypto.randomUUID(),
+                updated_at: new Date().toISOString(),
+            })),
+            { onConflict: 'school_id,uid' }
+        )
+        .select('id');
+
+    if (error) return { data: 0, error: new Error(error.message) };
+    return { data: data?.length || 0, error: null };
+}
+
+/**
+ * Save the weekdays the school is closed on (principal only, enforced server-side)
+ * @param schoolId - School id
+ * @param weeklyOffs - ISO weekdays
+ * @returns Promise with error (null on success)
+ */
+export async function saveWeeklyOffs(schoolId: string, weeklyOffs: number[]): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('set_school_weekly_offs', {
+        p_school_id: schoolId,
+        p_weekly_offs: weeklyOffs,
+    });
+    return { error: error ? new Error(error.message) : null };
+}
@@ -0,0 +1,404 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { LeaveRequestStatus } from '@/services/studentLeaveService';
+
+export type StaffAttendanceStatus = 'present' | 'absent' | 'half_day' | 'on_leave';
+
+export type StaffLeaveType = 'casual' | 'sick' | 'unpaid';
+
+/** One staff member on the daily register; status is null while unmarked */
+export interface StaffAttendanceRow {
+    staff_id: string;
+    staff_name: string;
+    staff_code: string;
+    position: string;
+    status: StaffAttendanceStatus | null;
+    check_in_at: string | null;
+    check_out_at: string | null;
+    notes: string | null;
+    leave_type: StaffLeaveType | null;  // Set when on approved leave
+}
+
+/** A register entry to save; a null status clears the day */
+export interface StaffAttendanceEntry {
+    staff_id: string;
+    status: Exclude<StaffAttendanceStatus, 'on_leave'> | null;
+    check_in_at: string | null;
+    check_out_at: string | null;
+    notes: string | null;
+}
+
+/** Today's row for the signed-in staff member */
+export interface MyStaffAttendance {
+    staff_id: string;
+    staff_name: string;
+    status: StaffAttendanceStatus | null;
+    check_in_at: string | null;
+    check_out_at: string | null;
+}
+
+export interface StaffLeaveRequest {
+    id: string;
+    staff_id: string;
+    staff_name: string;
+    leave_type: StaffLeaveType;
+    start_date: string;
+    end_date: string;
+    days: number;                 // Working days in the range
+    reason: string | null;
+    status: LeaveRequestStatus;
+    requested_by: string | null;
+    decided_at: string | null;
+    decision_note: string | null;
+    created_at: string;
+}
+
+export interface StaffLeaveInput {
+    staff_id: string;
+    leave_type: StaffLeaveType;
+    start_date: string;
+    end_date: string;
+    reason?: string;
+}
+
+/** Working days per calendar year; unpaid leave has no allowance */
+export interface StaffLeaveAllowances {
+    casual: number;
+    sick: number;
+}
+
+export interface LeaveBalance {
+    allowance: number | null;     // null for unpaid leave
+    used: number;                 // Approved days
+    pending: number;
+    remaining: number | null;
+}
+
+export interface StaffLeaveBalance {
+    staff_id: string;
+    staff_name: string;
+    balances: Record<StaffLeaveType, LeaveBalance>;
+}
+
+export const DEFAULT_STAFF_LEAVE_ALLOWANCES: StaffLeaveAllowances = {
+    casual: 12,
+    sick: 10,
+};
+
+export const STAFF_ATTENDANCE_STATUS_LABELS: Record<StaffAttendanceStatus, string> = {
+    present: 'Present',
+    absent: 'Absent',
+    half_day: 'Half Day',
+    on_leave: 'On Leave',
+};
+
+export const STAFF_LEAVE_TYPE_LABELS: Record<StaffLeaveType, string> = {
+    casual: 'Casual',
+    sick: 'Sick',
+    unpaid: 'Unpaid',
+};
+
+const EMPTY_BALANCE: LeaveBalance = { allowance: null, used: 0, pending: 0, remaining: null };
+
+/**
+ * Read staff leave allowances from a school's settings JSON, falling back to defaults
+ * @param settings - schools.settings value
+ */
+export function parseStaffLeaveAllowances(settings: Json | null): StaffLeaveAllowances {
+    const raw = settings && typeof settings === 'object' && !Array.isArray(settings)
+        ? settings.staff_leave
+        : null;
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return DEFAULT_STAFF_LEAVE_ALLOWANCES;
+
+    return {
+        casual: raw.casual === undefined ? DEFAULT_STAFF_LEAVE_ALLOWANCES.casual : Number(raw.casual) || 0,
+        sick: raw.sick === undefined ? DEFAULT_STAFF_LEAVE_ALLOWANCES.sick : Number(raw.sick) || 0,
+    };
+}
+
+/**
+ * Fetch the daily register: every active staff member with the day's attendance
+ * (principal or accountant)
+ * @param schoolId - School id
+ * @param date - Day (YYYY-MM-DD)
+ * @returns Promise with rows (by name) and error
+ */
+export async function fetchStaffAttendance(
+    schoolId: string,
+    date: string
+): Promise<{ data: StaffAttendanceRow[]; error: Error | null }> {
+    const { data, error } = await supabase.rpc('get_staff_attendance', {
+        p_school_id: schoolId,
+        p_date: date,
+    });
+    if (error) {
+        console.error('Error fetching staff attendance:', error);
+        return { data: [], error: new Error(error.message) };
+    }
+
+    return {
+        data: (data || []).map(row => ({
+            staff_id: row.staff_id,
+            staff_name: row.staff_name,
+            staff_code: row.staff_code || '',
+            position: row.staff_position || '',
+            status: (row.attendance_status as StaffAttendanceStatus) || null,
+            check_in_at: row.check_in_at || null,
+            check_out_at: row.check_out_at || null,
+            notes: row.notes || null,
+            leave_type: (row.leave_type as StaffLeaveType) || null,
+        })),
+        error: null,
+    };
+}
+
+/**
+ * Save register entries for a day; staff on approved leave are left out by the caller
+ * @param schoolId - School id
+ * @param date - Day (YYYY-MM-DD), not in the future
+ * @param entries - Changed rows
+ * @returns Promise with error (null on success)
+ */
+export async function saveStaffAttendance(
+    schoolId: string,
+    date: string,
+    entries: StaffAttendanceEntry[]
+): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('record_staff_attendance', {
+        p_school_id: schoolId,
+        p_date: date,
+        p_entries: entries.map(entry => ({
+            staff_id: entry.staff_id,
+            status: entry.status,
+            check_in_at: entry.check_in_at,
+            check_out_at: entry.check_out_at,
+            notes: entry.notes,
+        })),
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Fetch today's attendance of the signed-in user, matched to a staff record by email
+ * @param schoolId - School id
+ * @returns Promise with the row (null when the user has no staff record) and error
+ */
+export async function fetchMyStaffAttendance(
+    schoolId: string
+): Promise<{ data: MyStaffAttendance | null; error: Error | null }> {
+    const { data, error } = await supabase.rpc('get_my_staff_attendance', { p_school_id: schoolId });
+    if (error) {
+        console.error('Error fetching own attendance:', error);
+        return { data: null, error: new Error(error.message) };
+    }
+
+    const row = data?.[0];
+    return {
+        data: row
+            ? {
+                staff_id: row.staff_id,
+                staff_name: row.staff_name,
+                status: (row.attendance_status as StaffAttendanceStatus) || null,
+                check_in_at: row.check_in_at || null,
+                check_out_at: row.check_out_at || null,
+            }
+            : null,
+        error: null,
+    };
+}
+
+/**
+ * Check the signed-in staff member in for today
+ * @param schoolId - School id
+ * @returns Promise with error (null on success)
+ */
+export async function checkIn(schoolId: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('staff_check_in', { p_school_id: schoolId });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Check the signed-in staff member out; checking out again moves the time
+ * @param schoolId - School id
+ * @returns Promise with error (null on success)
+ */
+export async function checkOut(schoolId: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('staff_check_out', { p_school_id: schoolId });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Fetch staff leave requests, newest first. Principals and accountants see the
+ * school, other staff their own requests.
+ * @param schoolId - School id
+ * @param filters - Limit to a request status and/or a staff member
+ * @returns Promise with requests and error
+ */
+export async function fetchStaffLeaveRequests(
+    schoolId: string,
+    filters: { status?: LeaveRequestStatus; staffId?: string } = {}
+): Promise<{ data: StaffLeaveRequest[]; error: Error | null }> {
+    try {
+        let query = supabase
+            .from('staff_leave_requests')
+            .select('id, staff_id, leave_type, start_date, end_date, days, reason, status, requested_by, decided_at, decision_note, created_at, staff(name)')
+            .eq('school_id', schoolId)
+            .order('start_date', { ascending: false });
+
+        if (filters.status) query = query.eq('status', filters.status);
+        if (filters.staffId) query = query.eq('staff_id', filters.staffId);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        return {
+            data: (data || []).map(({ staff, ...row }) => ({
+                ...row,
+                leave_type: row.leave_type as StaffLeaveType,
+                status: row.status as LeaveRequestStatus,
+                staff_name: staff?.name || 'Unknown',
+            })),
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error fetching staff leave requests:', error);
+        return { data: [], error: error as Error };
+    }
+}
+
+/**
+ * Request leave for a staff member (principal or accountant for anyone, staff for
+ * themselves). Casual and sick leave must fit the remaining balance.
+ * @param schoolId - School id
+ * @param input - Staff member, leave type and date range
+ * @returns Promise with the new request id and error
+ */
+export async function requestStaffLeave(
+    schoolId: string,
+    input: StaffLeaveInput
+): Promise<{ data: string | null; error: Error | null }> {
+    const { data, error } = await supabase.rpc('request_staff_leave', {
+        p_school_id: schoolId,
+        p_staff_id: input.staff_id,
+        p_leave_type: input.leave_type,
+        p_start_date: input.start_date,
+        p_end_date: input.end_date,
+        ...(input.reason ? { p_reason: input.reason } : {}),
+    });
+    if (error) return { data: null, error: new Error(error.message) };
+    return { data, error: null };
+}
+
+/**
+ * Approve or reject a pending request (principal only, enforced server-side).
+ * Approved unpaid leave is deducted from draft payroll lines covering it.
+ * @param requestId - Leave request id
+ * @param approve - true to approve, false to reject
+ * @param note - Optional note for the requester
+ * @returns Promise with error (null on success)
+ */
+export async function decideStaffLeave(
+    requestId: string,
+    approve: boolean,
+    note?: string
+): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('decide_staff_leave', {
+        p_request_id: requestId,
+        p_approve: approve,
+        ...(note ? { p_note: note } : {}),
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Withdraw a pending request (requester or principal)
+ * @param requestId - Leave request id
+ * @returns Promise with error (null on success)
+ */
+export async function cancelStaffLeave(requestId: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('cancel_staff_leave', { p_request_id: requestId });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Fetch the annual leave allowances configured for a school
+ * @param schoolId - School id
+ * @returns Promise with allowances (defaults when not configured) and error
+ */
+export async function fetchStaffLeaveAllowances(
+    schoolId: string
+): Promise<{ data: StaffLeaveAllowances; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('schools')
+            .select('settings')
+            .eq('id', schoolId)
+            .single();
+
+        if (error) throw error;
+
+        return { data: parseStaffLeaveAllowances(data?.settings ?? null), error: null };
+    } catch (error) {
+        console.error('Error fetching staff leave allowances:', error);
+        return { data: DEFAULT_STAFF_LEAVE_ALLOWANCES, error: error as Error };
+    }
+}
+
+/**
+ * Save annual leave allowances for a school (principal only, enforced server-side)
+ * @param schoolId - School id
+ * @param allowances - Casual and sick days per year
+ * @returns Promise with error (null on success)
+ */
+export async function saveStaffLeaveAllowances(
+    schoolId: string,
+    allowances: StaffLeaveAllowances
+): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('set_staff_leave_allowances', {
+        p_school_id: schoolId,
+        p_allowances: { casual: allowances.casual, sick: allowances.sick },
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Fetch leave balances for a year, one entry per staff member
+ * @param schoolId - School id
+ * @param year - Calendar year; leave counts toward the year it starts in
+ * @param staffId - Limit to one staff member (required for staff viewing their own)
+ * @returns Promise with balances (by name) and error
+ */
+export async function fetchStaffLeaveBalances(
+    schoolId: string,
+    year: number,
+    staffId?: string
+): Promise<{ data: StaffLeaveBalance[]; error: Error | null }> {
+    const { data, error } = await supabase.rpc('get_staff_leave_balances', {
+        p_school_id: schoolId,
+        p_year: year,
+        ...(staffId ? { p_staff_id: staffId } : {}),
+    });
+    if (error) {
+        console.error('Error fetching leave balances:', error);
+        return { data: [], error: new Error(error.message) };
+    }
+
+    const byStaff = new Map<string, StaffLeaveBalance>();
+    for (const row of data || []) {
+        const entry = byStaff.get(row.staff_id) || {
+            staff_id: row.staff_id,
+            staff_name: row.staff_name,
+            balances: { casual: EMPTY_BALANCE, sick: EMPTY_BALANCE, unpaid: EMPTY_BALANCE },
+        };
+        entry.balances[row.leave_type as StaffLeaveType] = {
+            allowance: row.allowance ?? null,
+            used: Number(row.used_days || 0),
+            pending: Number(row.pending_days || 0),
+            remaining: row.remaining_days ?? null,
+        };
+        byStaff.set(row.staff_id, entry);
+    }
+
+    return { data: Array.from(byStaff.values()), error: null };
+}
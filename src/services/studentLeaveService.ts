@@ -0,0 +1,156 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AttendanceStatusOption } from '@/services/attendanceStatusService';
+
+export type LeaveRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface StudentLeaveRequest {
+    id: string;
+    student_id: string;
+    student_name: string;
+    class_id: string | null;
+    class_name: string | null;
+    start_date: string;
+    end_date: string;
+    attendance_status: string;     // Excused status the days are marked with
+    reason_code: string;
+    notes: string | null;
+    status: LeaveRequestStatus;
+    requested_by: string | null;
+    requested_by_guardian: boolean;
+    decided_at: string | null;
+    decision_note: string | null;
+    created_at: string;
+}
+
+export interface LeaveRequestInput {
+    student_id: string;
+    start_date: string;
+    end_date: string;
+    attendance_status: string;
+    reason_code: string;
+    notes?: string;
+}
+
+export const LEAVE_STATUS_LABELS: Record<LeaveRequestStatus, string> = {
+    pending: 'Pending',
+    approved: 'Approved',
+    rejected: 'Rejected',
+    cancelled: 'Cancelled',
+};
+
+/** Badge variant per request status */
+export const LEAVE_STATUS_VARIANTS: Record<LeaveRequestStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+    pending: 'secondary',
+    approved: 'default',
+    rejected: 'destructive',
+    cancelled: 'outline',
+};
+
+/**
+ * Statuses leave can be recorded with: active ones left out of the percentage (excused, medical, ...)
+ * @param options - The school's statuses
+ */
+export function leaveStatusOptions(options: AttendanceStatusOption[]): AttendanceStatusOption[] {
+    return options.filter(o => o.is_active && o.credit === null);
+}
+
+/**
+ * Leave date range for display, e.g. "3/4/2026 – 3/6/2026"
+ * @param request - Request with start and end date
+ */
+export function formatLeaveDates(request: Pick<StudentLeaveRequest, 'start_date' | 'end_date'>): string {
+    const start = new Date(request.start_date).toLocaleDateString();
+    return request.start_date === request.end_date
+        ? start
+        : `${start} – ${new Date(request.end_date).toLocaleDateString()}`;
+}
+
+/**
+ * Fetch leave requests, newest first. Staff see what RLS allows (principals the
+ * school, teachers their classes), parents their own children.
+ * @param schoolId - School id
+ * @param filters - Limit to a request status and/or a student
+ * @returns Promise with requests and error
+ */
+export async function fetchLeaveRequests(
+    schoolId: string,
+    filters: { status?: LeaveRequestStatus; studentId?: string } = {}
+): Promise<{ data: StudentLeaveRequest[]; error: Error | null }> {
+    try {
+        let query = supabase
+            .from('student_leave_requests')
+            .select('id, student_id, class_id, start_date, end_date, attendance_status, reason_code, notes, status, requested_by, requested_by_guardian, decided_at, decision_note, created_at, students(name), classes(name)')
+            .eq('school_id', schoolId)
+            .order('start_date', { ascending: false });
+
+        if (filters.status) query = query.eq('status', filters.status);
+        if (filters.studentId) query = query.eq('student_id', filters.studentId);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        return {
+            data: (data || []).map(({ students, classes, ...row }) => ({
+                ...row,
+                status: row.status as LeaveRequestStatus,
+                student_name: students?.name || 'Unknown',
+                class_name: classes?.name || null,
+            })),
+            error: null,
+        };
+    } catch (error) {
+        console.error('Error fetching leave requests:', error);
+        return { data: [], error: error as Error };
+    }
+}
+
+/**
+ * Submit a leave request for a student (staff on behalf of a guardian, or a parent)
+ * @param input - Student, date range, leave status and reason
+ * @returns Promise with the new request id and error
+ */
+export async function submitLeaveRequest(
+    input: LeaveRequestInput
+): Promise<{ data: string | null; error: Error | null }> {
+    const { data, error } = await supabase.rpc('request_student_leave', {
+        p_student_id: input.student_id,
+        p_start_date: input.start_date,
+        p_end_date: input.end_date,
+        p_attendance_status: input.attendance_status,
+        p_reason_code: input.reason_code,
+        ...(input.notes ? { p_notes: input.notes } : {}),
+    });
+    if (error) return { data: null, error: new Error(error.message) };
+    return { data, error: null };
+}
+
+/**
+ * Approve or reject a pending request (class teacher or principal, enforced server-side).
+ * Approving switches days already marked absent in the range to the leave status.
+ * @param requestId - Leave request id
+ * @param approve - true to approve, false to reject
+ * @param note - Optional note for the requester
+ * @returns Promise with error (null on success)
+ */
+export async function decideLeaveRequest(
+    requestId: string,
+    approve: boolean,
+    note?: string
+): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('decide_student_leave', {
+        p_request_id: requestId,
+        p_approve: approve,
+        ...(note ? { p_note: note } : {}),
+    });
+    return { error: error ? new Error(error.message) : null };
+}
+
+/**
+ * Withdraw a pending request (requester or principal)
+ * @param requestId - Leave request id
+ * @returns Promise with error (null on success)
+ */
+export async function cancelLeaveRequest(requestId: string): Promise<{ error: Error | null }> {
+    const { error } = await supabase.rpc('cancel_student_leave', { p_request_id: requestId });
+    return { error: error ? new Error(error.message) : null };
+}
@@ -0,0 +1,114 @@
+import { supabase } from '@/integrations/supabase/client';
+import { sortClasses } from '@/lib/classOrder';
+
+export interface ClassRosterStudent {
+    id: string;
+    name: string;
+    student_id: string;
+    guardian_name: string | null;
+    guardian_phone: string | null;
+}
+
+export interface TeacherClass {
+    id: string;
+    name: string;
+    grade: string | null;
+    section: string | null;
+    academic_year: string | null;
+    students: ClassRosterStudent[];
+}
+
+export interface StudentAttendanceRank {
+    student_id: string;
+    attendance_percentage: number;
+    rank: number;
+}
+
+/**
+ * Fetch the active classes assigned to a teacher, with their active roster.
+ * RLS also limits teachers to classes where classes.teacher_id is their user id.
+ * @param schoolId - School id
+ * @param teacherId - Teacher's user id
+ * @returns Promise with classes and error
+ */
+export async function fetchTeacherClasses(
+    schoolId: string,
+    teacherId: string
+): Promise<{ data: TeacherClass[]; error: Error | null }> {
+    try {
+        const { data, error } = await supabase
+            .from('classes')
+            .select('id, name, grade, section, academic_year, student_classes(is_active, students(id, name, student_id, guardian_name, guardian_phone, is_archived))')
+            .eq('school_id', schoolId)
+            .eq('teacher_id', teacherId)
+            .eq('is_active', true);
+
+        if (error) throw error;
+
+        const classes = (data || []).map(c => ({
+            id: c.id,
+            name: c.name,
+            grade: c.grade,
+            section: c.section,
+            academic_year: c.academic_year,
+            students: (c.student_classes || [])
+                .flatMap(sc => sc.is_active !== false && sc.students && !sc.students.is_archived ? [sc.students] : [])
+                .map(s => ({
+                    id: s.id,
+                    name: s.name,
+                    student_id: s.student_id,
+                    guardian_name: s.guardian_name,
+                    guardian_phone: s.guardian_phone,
+                }))
+                .sort((a, b) => a.name.localeCompare(b.name)),
+        }));
+
+        return { data: classes.sort(sortClasses), error: null };
+    } catch (error) {
+        console.error('Error fetching teacher classes:', error);
+        return { data: [], error: error as Error };
+    }
+}
+
+/**
+ * Fetch attendance marked on a date for a set of classes
+ * @param classIds - Class ids
+ * @param date - YYYY-MM-DD
+ * @returns Promise with a map of student id to status, and error
+ */
+export async function fetchAttendanceOn(
+    classIds: string[],
+    date: string
+): Promise<{ data: Map<string, string>; error: Error | null }> {
+    if (classIds.length === 0) return { data: new Map(), error: null };
+
+    const { data, error } = await supabase
+        .from('attendance')
+        .select('student_id, status')
+        .in('class_id', classIds)
+        .eq('date', date);
+
+    if (error) return { data: new Map(), error: new Error(error.message) };
+    return { data: new Map((data || []).map(row => [row.student_id, row.status])), error: null };
+}
+
+/**
+ * Fetch each student's attendance percentage and rank within a class
+ * @param classId - Class id
+ * @returns Promise with a map of student id to ranking, and error
+ */
+export async function fetchAttendanceRanking(
+    classId: string
+): Promise<{ data: Map<string, StudentAttendanceRank>; error: Error | null }> {
+    const { data, error } = await supabase.rpc('get_student_attendance_ranking', { p_class_id: classId });
+
+    if (error) return { data: new Map(), error: new Error(error.message) };
+    return {
+        data: new Map((data || []).map(row => [row.student_id, {
+            student_id: row.student_id,
+            attendance_percentage: Number(row.attendance_percentage) || 0,
+            rank: row.rank,
+        }])),
+        error: null,
+    };
+}
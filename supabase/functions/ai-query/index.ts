@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { classifyIntent, DataDomain, QueryCategory } from './intentClassifier.ts'
+import { classifyIntent, DataDomain, QueryCategory, isAtRiskQuery } from './intentClassifier.ts'
+import { formatVerifiedContext } from './contextFormatter.ts'
 import { formatConversationThread } from './memoryGenerator.ts'
 import { PLATFORM_BLUEPRINT } from './platformBlueprint.ts'
 import { AXIOM_SYSTEM_PROMPT } from './systemPrompt.ts'
@@ -13,6 +14,7 @@ const corsHeaders = {
 const OPENROUTER_API_KEY = Deno.env.get('OPENROUTER_API_KEY')
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')
 
 const MAX_HISTORY_MESSAGES = 30;
 
@@ -223,6 +225,28 @@ ${PLATFORM_BLUEPRINT}`
             })
         }
 
+        // L4b: VERIFIED ATTENDANCE ALERTS (at-risk students)
+        // Fetched as the caller so teachers only see their own classes
+        if (isAtRiskQuery(intent)) {
+            const supabaseUser = createClient(SUPABASE_URL, SUPABASE_ANON_KEY ?? '', {
+                global: { headers: { Authorization: authHeader } }
+            })
+            const { data: alerts, error: alertsError } = await supabaseUser.rpc('get_attendance_alerts', { p_school_id: school_id })
+            if (alertsError) console.error('[AI] get_attendance_alerts error:', alertsError)
+
+            promptMessages.push({
+                role: "system",
+                content: formatVerifiedContext('attendance alerts', alertsError ? null : {
+                    data: alerts,
+                    metadata: {
+                        dataset: 'attendance_alerts (students below the attendance threshold or with consecutive absences)',
+                        record_count: alerts?.length ?? 0,
+                        last_updated: new Date().toISOString(),
+                    },
+                }, intent.params)
+            })
+        }
+
         // L5: LAST 30 MESSAGES
         const historyMessages = preCallMessages.slice(0, -1);
         let recentHistory = historyMessages;
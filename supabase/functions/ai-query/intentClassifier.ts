@@ -122,7 +122,7 @@ const DOMAIN_PATTERNS: { domain: DataDomain; patterns: RegExp[] }[] = [
     },
     {
         domain: 'ATTENDANCE',
-        patterns: [/\battendance/i, /\bpresent\b/i, /\babsent\b/i, /\bleave\b/i, /\babsentee/i],
+        patterns: [/\battendance/i, /\bpresent\b/i, /\babsent\b/i, /\bleave\b/i, /\babsentee/i, /\bat[\s-]risk\b/i, /\bchronic/i],
     },
     {
         domain: 'FEES',
@@ -282,6 +282,14 @@ export function requiresBackendData(intent: QueryIntent): boolean {
     return intent.requires_data && intent.category === 'DATA_QUERY';
 }
 
+/**
+ * Check if an attendance query asks about at-risk / chronically absent students
+ */
+export function isAtRiskQuery(intent: QueryIntent): boolean {
+    return intent.required_domains.includes('ATTENDANCE')
+        && /\b(at[\s-]risk|absentee\w*|chronic\w*|alerts?|low attendance|consecutive|in a row)\b/i.test(intent.raw_query);
+}
+
 /**
  * Check if a wildcard query was detected (needs explicit confirmation)
  */
@@ -11,7 +11,7 @@ SECTION 1: OVERALL PLATFORM STRUCTURE
 1. Dashboard
    • Purpose: Executive overview of school health.
    • Access: Principal, Accountant.
-   • Actions: View real-time stats (Students, Staff, Income, Expenses, Net Profit). View recent payments and pending fees.
+   • Actions: View real-time stats (Students, Staff, Income, Expenses, Net Profit). View recent payments and pending fees. View attendance alerts (at-risk students) and set their thresholds.
    • Decisions: Identify fee collection gaps, monitor expense trends, check daily profitability.
 
 2. Students
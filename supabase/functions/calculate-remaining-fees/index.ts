@@ -6,17 +6,229 @@ const corsHeaders = {
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+interface PlanInstallment {
+    label?: string
+    due_date: string | null
+    amount: number
+}
+
+interface FeePlan {
+    plan_type: string
+    installments: PlanInstallment[]
+}
+
+interface StudentDiscount {
+    student_id: string
+    discount_type: string
+    value_type: string
+    value: number
+    sibling_student_id: string | null
+    reason: string | null
+    start_date: string
+    end_date: string | null
+}
+
+// Balance carried into a new academic year; billing restarts from as_of
+interface OpeningBalance {
+    student_id: string
+    academic_year: string
+    as_of: string
+    amount: number
+}
+
+// A single billed amount and the date it fell due (YYYY-MM-DD)
+interface Charge {
+    date: string
+    label: string
+    amount: number
+    days_billed?: number    // Set on prorated months (working days when the school keeps a calendar)
+    days_in_month?: number
+    discount?: number       // Concessions applied to this charge
+}
+
+// A family a parent is linked to, with the owner whose data it belongs to
+interface GuardianFamily {
+    user_id: string
+    students: { id: string }[] | null
+}
+
+// Optional request body; without as_of the balances are as of today
+interface RemainingFeesRequest {
+    as_of?: string      // YYYY-MM-DD: balances from charges and payments dated before it
+    school_id?: string  // Required with as_of; the caller must be its principal
+}
+
+const DISCOUNT_LABELS: Record<string, string> = {
+    sibling: 'Sibling discount',
+    scholarship: 'Merit scholarship',
+    staff_child: 'Staff child waiver',
+    other: 'Concession',
+}
+
+const toDateStr = (year: number, month: number, day: number) =>
+    `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate()
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+// ISO weekday of a YYYY-MM-DD date, 1 = Monday ... 7 = Sunday
+const isoWeekday = (dateStr: string) => ((new Date(`${dateStr}T00:00:00Z`).getUTCDay() + 6) % 7) + 1
+
+/**
+ * Plan installments that have fallen due by `cutoffStr` (server date, or archival date).
+ *
+ * - due_date null -> due on the student's join date
+ * - installments due before join_date are skipped (student was not enrolled),
+ *   except for one_time plans, which are billed on the join date instead
+ */
+function getPlanCharges(plan: FeePlan, joinDateStr: string | null, cutoffStr: string): Charge[] {
+    const charges: Charge[] = []
+
+    for (const installment of plan.installments) {
+        let dueDate = installment.due_date || joinDateStr
+        if (!dueDate) continue
+
+        if (joinDateStr && dueDate < joinDateStr) {
+            if (plan.plan_type !== 'one_time') continue
+            dueDate = joinDateStr
+        }
+
+        if (dueDate <= cutoffStr) {
+            charges.push({ date: dueDate, label: installment.label || 'Installment', amount: Number(installment.amount || 0) })
+        }
+    }
+
+    return charges
+}
+
+/**
+ * One charge per calendar month from the join month through `endYear`/`endMonth`.
+ * The join month falls due on join_date, later months on the 1st.
+ *
+ * With proration on, the join month is billed from the join day and the final
+ * month (archival) up to `endDay`, each as a fraction of the days in that month.
+ * Given `isWorkingDay` (school calendar), the fraction counts working days
+ * instead; a month with no working days falls back to calendar days.
+ * Without proration every month counts in full (INCLUSIVE CALENDAR MONTHS).
+ */
+function getMonthlyCharges(
+    feeAmount: number,
+    join: { year: number; month: number; day: number },
+    end: { year: number; month: number; day: number },
+    prorateStart: boolean,
+    prorateEnd: boolean,
+    isWorkingDay?: (dateStr: string) => boolean
+): Charge[] {
+    const charges: Charge[] = []
+
+    // INCLUSIVE CALENDAR MONTHS
+    // If student joins on any day of a month, that month counts as month 1
+    // Formula: (year_diff * 12) + (month_diff) + 1
+    // Example: Join April, Today December = (0*12) + (11-3) + 1 = 9 months
+    const monthsElapsed = (end.year - join.year) * 12 + (end.month - join.month) + 1
+
+    for (let m = 0; m < monthsElapsed; m++) {
+        const year = join.year + Math.floor((join.month + m) / 12)
+        const month = (join.month + m) % 12
+        const monthDays = daysInMonth(year, month)
+
+        const firstDay = m === 0 && prorateStart ? join.day : 1
+        const lastDay = m === monthsElapsed - 1 && prorateEnd ? end.day : monthDays
+        const daysBilled = Math.max(0, lastDay - firstDay + 1)
+
+        const charge: Charge = {
+            date: m === 0 ? toDateStr(year, month, join.day) : toDateStr(year, month, 1),
+            label: toDateStr(year, month, 1).slice(0, 7),
+            amount: feeAmount
+        }
+
+        if (daysBilled < monthDays) {
+            let billed = daysBilled
+            let total = monthDays
+            if (isWorkingDay) {
+                let workingBilled = 0
+                let workingTotal = 0
+                for (let day = 1; day <= monthDays; day++) {
+                    if (!isWorkingDay(toDateStr(year, month, day))) continue
+                    workingTotal++
+                    if (day >= firstDay && day <= lastDay) workingBilled++
+                }
+                if (workingTotal > 0) {
+                    billed = workingBilled
+                    total = workingTotal
+                }
+            }
+
+            charge.amount = roundMoney((feeAmount * billed) / total)
+            charge.days_billed = billed
+            charge.days_in_month = total
+        }
+
+        charges.push(charge)
+    }
+
+    return charges
+}
+
+/**
+ * Split each charge's discount across the student's discounts active on the charge date.
+ * Percentage discounts take value% of the charge, fixed discounts take value per charge;
+ * the total never exceeds the charge itself. Each charge's own discount is recorded on it
+ * so the breakdown can show net amounts.
+ */
+function applyDiscounts(charges: Charge[], discounts: StudentDiscount[]): Map<StudentDiscount, number> {
+    const applied = new Map<StudentDiscount, number>()
+
+    for (const charge of charges) {
+        let remaining = charge.amount
+
+        for (const discount of discounts) {
+            if (remaining <= 0) break
+            if (discount.start_date > charge.date) continue
+            if (discount.end_date && discount.end_date < charge.date) continue
+
+            const value = Number(discount.value || 0)
+            const raw = discount.value_type === 'percentage' ? (charge.amount * value) / 100 : value
+            const amount = Math.min(remaining, Math.max(0, raw))
+
+            remaining -= amount
+            applied.set(discount, (applied.get(discount) || 0) + amount)
+        }
+
+        if (remaining < charge.amount) charge.discount = charge.amount - remaining
+    }
+
+    return applied
+}
+
 /**
  * EDGE FUNCTION: calculate-remaining-fees
  * 
  * MANDATORY DYNAMIC CALCULATION - NO STORED VALUES
  * 
  * For every student, this function calculates:
- * - expected_fee: from join_date + fee_type + server date
- * - total_paid: SUM of all payments for this student
+ * - gross_fee: from the student's fee plan installments due by server date,
+ *   or (no plan) from join_date + fee_type + server date
+ *   (first / final month prorated by days when the school enables fee_proration,
+ *   by working days when the school keeps a calendar of weekly offs / holidays)
+ * - discount_amount: concessions (sibling, scholarship, staff child, ...) active on each charge date
+ * - opening_balance: dues carried over at the last academic year rollover (charges
+ *   and payments before its as_of date are settled into it)
+ * - expected_fee: gross_fee - discount_amount + opening_balance
+ * - total_paid: tuition paid by this student (tuition allocation lines, plus the
+ *   unallocated part of school_fee payments), net of voids and refunds
+ *   (reversal entries are negative rows dated when the money went back)
  * - remaining_fee: expected_fee - total_paid (can be negative for advanced)
  * - status: pending | partial | paid | advanced
+ * - breakdown: the dated charges behind gross_fee
  * 
+ * Parents get the same rows, for their linked children only.
+ *
+ * With as_of (principals only), everything is computed with the day before it as
+ * "today" and only payments and opening balances dated before it: the balance
+ * each student carries into an academic year starting on as_of.
+ *
  * This calculation runs on EVERY request. Pagination does not affect correctness.
  * Triggers are optional for analytics - this function is the source of truth.
  */
@@ -48,20 +260,119 @@ serve(async (req: Request) => {
             throw new Error('Unauthorized: Invalid token')
         }
 
-        const user_id = user.id
+        let user_id = user.id
 
-        // SERVER DATE - single source of truth for time
-        const today = new Date()
+        const { as_of: asOf, school_id: asOfSchoolId } =
+            (await req.json().catch(() => ({}))) as RemainingFeesRequest
+
+        if (asOf) {
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || !asOfSchoolId) {
+                throw new Error('as_of needs a YYYY-MM-DD date and a school_id')
+            }
+
+            const { data: membership } = await supabaseClient
+                .from('school_members')
+                .select('role')
+                .eq('user_id', user.id)
+                .eq('school_id', asOfSchoolId)
+                .maybeSingle()
+
+            if (membership?.role !== 'principal') {
+                throw new Error('Access denied')
+            }
+
+            // Billed against the school owner's data, like every other staff view
+            const { data: asOfSchool } = await supabaseClient
+                .from('schools')
+                .select('owner_id')
+                .eq('id', asOfSchoolId)
+                .maybeSingle()
+
+            if (!asOfSchool) {
+                throw new Error('School not found')
+            }
+            user_id = asOfSchool.owner_id
+        }
+
+        // Parents (no school of their own) are billed against the school owner's
+        // data, limited to the children linked to them through family_guardians
+        let parentStudentIds: string[] | null = null
+        const { data: ownedSchool } = await supabaseClient
+            .from('schools')
+            .select('id')
+            .eq('owner_id', user.id)
+            .maybeSingle()
+
+        if (!asOf && !ownedSchool) {
+            const { data: guardianLinks } = await supabaseClient
+                .from('family_guardians')
+                .select('families(user_id, students(id))')
+                .eq('user_id', user.id)
+
+            if (guardianLinks && guardianLinks.length > 0) {
+                const families = (guardianLinks as { families: GuardianFamily | null }[])
+                    .map(link => link.families)
+                    .filter((f): f is GuardianFamily => f !== null)
+                user_id = families[0]?.user_id ?? user.id
+                parentStudentIds = families
+                    .filter(f => f.user_id === user_id)
+                    .flatMap(f => (f.students || []).map(s => s.id))
+            }
+        }
+
+        // SERVER DATE - single source of truth for time (the day before as_of when given)
+        const today = asOf ? new Date(Date.parse(`${asOf}T00:00:00Z`) - 24 * 60 * 60 * 1000) : new Date()
         const todayYear = today.getFullYear()
         const todayMonth = today.getMonth() // 0-indexed
         const todayDay = today.getDate()
+        const todayStr = today.toISOString().split('T')[0]
+
+        // STEP 0: School settings - mid-month proration is opt-in per school
+        const { data: school } = await supabaseClient
+            .from('schools')
+            .select('id, settings')
+            .eq('owner_id', user_id)
+            .maybeSingle()
+
+        const prorationEnabled = school?.settings?.fee_proration?.enabled === true
+
+        // STEP 0b: School calendar - prorated months count working days once the
+        // school has set weekly offs or added holidays
+        let isWorkingDay: ((dateStr: string) => boolean) | undefined
+        if (prorationEnabled && school) {
+            const { data: holidayRows, error: holidayError } = await supabaseClient
+                .from('school_calendar_events')
+                .select('start_date, end_date')
+                .eq('school_id', school.id)
+                .eq('event_type', 'holiday')
+
+            if (holidayError) {
+                throw new Error(`Failed to fetch school calendar: ${holidayError.message}`)
+            }
+
+            const configuredOffs = school.settings?.calendar?.weekly_offs
+            const holidays = (holidayRows || []) as { start_date: string; end_date: string }[]
+            if (Array.isArray(configuredOffs) || holidays.length > 0) {
+                const weeklyOffs: number[] = Array.isArray(configuredOffs) ? configuredOffs.map(Number) : [7]
+                isWorkingDay = (dateStr: string) =>
+                    !weeklyOffs.includes(isoWeekday(dateStr)) &&
+                    !holidays.some(h => h.start_date <= dateStr && h.end_date >= dateStr)
+            }
+        }
 
         // STEP 1: Fetch all students with their base fee data (NOT stored remaining_fee)
-        const { data: students, error: studentError } = await supabaseClient
+        // Archived students with an archived_at are still billed up to that date
+        let studentQuery = supabaseClient
             .from('students')
-            .select('id, name, join_date, fee_type, fee_amount')
+            .select('id, name, join_date, fee_type, fee_amount, fee_plan_id, is_archived, archived_at')
             .eq('user_id', user_id)
-            .eq('is_archived', false)
+            .or('is_archived.eq.false,archived_at.not.is.null')
+
+        if (parentStudentIds) {
+            studentQuery = studentQuery.in('id', parentStudentIds)
+        }
+
+        const { data: students, error: studentError } = await studentQuery
 
         if (studentError) {
             throw new Error(`Failed to fetch students: ${studentError.message}`)
@@ -77,40 +388,158 @@ serve(async (req: Request) => {
             })
         }
 
-        // STEP 2: Fetch ONLY school_fee payments grouped by student_id
-        // CRITICAL: Other payment categories (exam, library, etc.) do NOT affect student tuition remaining
+        // STEP 1b: Fetch fee plans referenced by these students
+        const planIds = [...new Set(students.map(s => s.fee_plan_id).filter(Boolean))]
+        const feePlans = new Map<string, FeePlan>()
+        if (planIds.length > 0) {
+            const { data: plans, error: planError } = await supabaseClient
+                .from('fee_plans')
+                .select('id, plan_type, installments')
+                .in('id', planIds)
+                .eq('user_id', user_id)
+
+            if (planError) {
+                throw new Error(`Failed to fetch fee plans: ${planError.message}`)
+            }
+
+            for (const plan of plans || []) {
+                feePlans.set(plan.id, {
+                    plan_type: plan.plan_type,
+                    installments: Array.isArray(plan.installments) ? plan.installments : []
+                })
+            }
+        }
+
+        // STEP 1c: Fetch discounts / concessions for these students
         const studentIds = students.map(s => s.id)
-        const { data: payments, error: paymentError } = await supabaseClient
+        const { data: discountRows, error: discountError } = await supabaseClient
+            .from('student_discounts')
+            .select('student_id, discount_type, value_type, value, sibling_student_id, reason, start_date, end_date')
+            .in('student_id', studentIds)
+            .eq('user_id', user_id)
+            .order('start_date', { ascending: true })
+
+        if (discountError) {
+            throw new Error(`Failed to fetch discounts: ${discountError.message}`)
+        }
+
+        // Sibling discounts only hold while the linked sibling is still enrolled:
+        // they end on the sibling's archival date, or drop entirely if the sibling is gone
+        const siblingEndDates = new Map<string, string | null>(
+            students.map(s => [s.id, s.is_archived && s.archived_at ? String(s.archived_at).split('T')[0] : null])
+        )
+        const discountsByStudent = new Map<string, StudentDiscount[]>()
+        for (const row of (discountRows || []) as StudentDiscount[]) {
+            const d = { ...row }
+            if (d.discount_type === 'sibling' && d.sibling_student_id) {
+                if (!siblingEndDates.has(d.sibling_student_id)) continue
+                const siblingEnd = siblingEndDates.get(d.sibling_student_id)
+                if (siblingEnd && (!d.end_date || siblingEnd < d.end_date)) {
+                    d.end_date = siblingEnd
+                }
+            }
+            const list = discountsByStudent.get(d.student_id) || []
+            list.push(d)
+            discountsByStudent.set(d.student_id, list)
+        }
+
+        // STEP 1d: Latest opening balance per student (carried over at academic year rollover)
+        // Billing restarts from as_of; earlier charges and payments are settled into amount
+        let openingQuery = supabaseClient
+            .from('student_opening_balances')
+            .select('student_id, academic_year, as_of, amount')
+            .in('student_id', studentIds)
+            .eq('user_id', user_id)
+
+        if (asOf) {
+            openingQuery = openingQuery.lt('as_of', asOf)
+        }
+
+        const { data: openingRows, error: openingError } = await openingQuery
+            .order('as_of', { ascending: false })
+
+        if (openingError) {
+            throw new Error(`Failed to fetch opening balances: ${openingError.message}`)
+        }
+
+        const openingBalances = new Map<string, OpeningBalance>()
+        for (const row of (openingRows || []) as OpeningBalance[]) {
+            if (!openingBalances.has(row.student_id)) openingBalances.set(row.student_id, row)
+        }
+
+        // STEP 2: Fetch payments with their allocation lines
+        // CRITICAL: Only tuition counts toward remaining - a payment's tuition
+        // allocation lines, plus whatever of a school_fee payment is not allocated.
+        // Fee folder lines and other categories (exam, library, etc.) do NOT.
+        let paymentQuery = supabaseClient
             .from('payments')
-            .select('student_id, amount, category')
+            .select('student_id, amount, category, payment_date, payment_allocations(fee_folder_id, amount)')
             .in('student_id', studentIds)
-            .eq('category', 'school_fee')  // ONLY school_fee payments count toward tuition
+
+        if (asOf) {
+            paymentQuery = paymentQuery.lt('payment_date', asOf)
+        }
+
+        const { data: payments, error: paymentError } = await paymentQuery
 
         if (paymentError) {
+            // Carried balances are stored, so they must not be computed without payments
+            if (asOf) {
+                throw new Error(`Failed to fetch payments: ${paymentError.message}`)
+            }
             console.error('Payment fetch error:', paymentError)
             // Continue with 0 payments - don't fail the whole request
         }
 
-        // Build payment totals map: student_id -> total_paid (school_fee only)
+        // Build payment totals map: student_id -> total_paid (tuition only)
+        // Void / refund entries are negative, so summing them nets the original out
         const paymentTotals = new Map<string, number>()
         if (payments) {
             for (const p of payments) {
+                // Payments before the opening balance date are already settled into it
+                const opening = openingBalances.get(p.student_id)
+                if (opening && p.payment_date < opening.as_of) continue
+
+                const allocations = (p.payment_allocations || []) as { fee_folder_id: string | null; amount: number }[]
+                const allocated = allocations.reduce((sum, a) => sum + Number(a.amount || 0), 0)
+                const tuitionLines = allocations
+                    .filter(a => a.fee_folder_id === null)
+                    .reduce((sum, a) => sum + Number(a.amount || 0), 0)
+                const tuition = tuitionLines + (p.category === 'school_fee' ? Number(p.amount || 0) - allocated : 0)
+                if (tuition === 0) continue
+
                 const current = paymentTotals.get(p.student_id) || 0
-                paymentTotals.set(p.student_id, current + Number(p.amount || 0))
+                paymentTotals.set(p.student_id, current + tuition)
             }
         }
 
 
         // STEP 3: Calculate for EVERY student dynamically
         let totalOutstanding = 0
+        let totalDiscount = 0
         const resultStudents = students.map(student => {
-            const { id, name, join_date, fee_type, fee_amount } = student
-
-            // Calculate expected_fee from join_date + server date
-            let expected_fee = 0
-
-            if (join_date && fee_amount) {
-                const joinDate = new Date(join_date)
+            const { id, name, join_date, fee_type, fee_amount, fee_plan_id, is_archived, archived_at } = student
+            const plan = fee_plan_id ? feePlans.get(fee_plan_id) : undefined
+            const opening = openingBalances.get(id)
+
+            // Billing starts at join_date, or at the opening balance date after a rollover
+            const billingStartStr = opening && (!join_date || opening.as_of > join_date) ? opening.as_of : join_date
+
+            // Archived students are billed up to their archival date, everyone else up to today
+            const archivedStr = is_archived && archived_at ? String(archived_at).split('T')[0] : null
+            const endedEarly = !!archivedStr && archivedStr < todayStr
+            const cutoffStr = endedEarly ? archivedStr! : todayStr
+
+            // Build dated charges from the fee plan, or join_date + server date
+            let charges: Charge[] = []
+            let method = 'none'
+
+            if (plan) {
+                method = 'plan'
+                charges = getPlanCharges(plan, join_date, cutoffStr)
+                    .filter(c => !opening || c.date >= opening.as_of)
+            } else if (billingStartStr && fee_amount) {
+                const joinDate = new Date(billingStartStr)
                 const joinYear = joinDate.getFullYear()
                 const joinMonth = joinDate.getMonth()
                 const joinDay = joinDate.getDate()
@@ -118,19 +547,42 @@ serve(async (req: Request) => {
                 const typeLower = (fee_type || '').toLowerCase()
 
                 if (typeLower === 'monthly') {
-                    // INCLUSIVE CALENDAR MONTHS
-                    // If student joins on any day of a month, that month counts as month 1
-                    // Formula: (year_diff * 12) + (month_diff) + 1
-                    // Example: Join April, Today December = (0*12) + (11-3) + 1 = 9 months
-                    const monthsElapsed = (todayYear - joinYear) * 12 + (todayMonth - joinMonth) + 1
-
-                    expected_fee = monthsElapsed * Number(fee_amount)
+                    method = 'monthly'
+                    const cutoffDate = new Date(cutoffStr)
+                    charges = getMonthlyCharges(
+                        Number(fee_amount),
+                        { year: joinYear, month: joinMonth, day: joinDay },
+                        endedEarly
+                            ? { year: cutoffDate.getFullYear(), month: cutoffDate.getMonth(), day: cutoffDate.getDate() }
+                            : { year: todayYear, month: todayMonth, day: todayDay },
+                        prorationEnabled,
+                        prorationEnabled && endedEarly,
+                        isWorkingDay
+                    )
                 } else if (typeLower === 'annual' || typeLower === 'annually') {
-                    expected_fee = Number(fee_amount)
+                    method = 'annual'
+                    charges.push({ date: toDateStr(joinYear, joinMonth, joinDay), label: 'Annual fee', amount: Number(fee_amount) })
                 }
 
             }
 
+            const gross_fee = charges.reduce((sum, c) => sum + c.amount, 0)
+
+            // Apply concessions per charge so start/end dates are respected
+            const applied = applyDiscounts(charges, discountsByStudent.get(id) || [])
+            const discounts = [...applied.entries()]
+                .filter(([, amount]) => amount > 0)
+                .map(([d, amount]) => ({
+                    discount_type: d.discount_type,
+                    label: (DISCOUNT_LABELS[d.discount_type] || 'Concession') + (d.reason ? ` (${d.reason})` : ''),
+                    amount
+                }))
+            const discount_amount = discounts.reduce((sum, d) => sum + d.amount, 0)
+            totalDiscount += discount_amount
+
+            const opening_balance = opening ? Number(opening.amount || 0) : 0
+            const expected_fee = gross_fee - discount_amount + opening_balance
+
             // Get total_paid from payments (dynamically calculated)
             const total_paid = paymentTotals.get(id) || 0
 
@@ -155,16 +607,32 @@ serve(async (req: Request) => {
             return {
                 student_id: id,
                 name: name || '',
+                fee_plan_id: plan ? fee_plan_id : null,
+                gross_fee,
+                discount_amount,
+                discounts,
+                opening_balance,
                 expected_fee,
                 total_paid,
                 remaining_fee,
-                status
+                status,
+                is_archived: !!is_archived,
+                breakdown: {
+                    method,
+                    proration_enabled: prorationEnabled,
+                    working_days: !!isWorkingDay,
+                    billed_from: billingStartStr,
+                    billed_until: cutoffStr,
+                    opening_balance_year: opening ? opening.academic_year : null,
+                    charges
+                }
             }
         })
 
         return new Response(JSON.stringify({
             students: resultStudents,
-            total_student_outstanding: totalOutstanding
+            total_student_outstanding: totalOutstanding,
+            total_discount: totalDiscount
         }), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
             status: 200
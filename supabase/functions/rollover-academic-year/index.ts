@@ -0,0 +1,94 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+interface RolloverRequest {
+    school_id: string;
+    from_year: string;
+    to_year: string;
+    start_date: string;                             // First day of a month, no later than the current month
+    class_map: Record<string, string | null>;
+    decisions: Record<string, string>;
+}
+
+/**
+ * EDGE FUNCTION: rollover-academic-year
+ *
+ * Closes an academic year for a principal. The balance each student carries is
+ * the remaining fee from calculate-remaining-fees as of the new year's start
+ * date, so the fee rules live in one place. The rollover itself runs in
+ * rollover_academic_year(), which only the service role may call; clients
+ * never supply the balances.
+ */
+Deno.serve(async (req: Request) => {
+    if (req.method === "OPTIONS") {
+        return new Response(null, { status: 204, headers: corsHeaders });
+    }
+
+    try {
+        const authHeader = req.headers.get("Authorization");
+        if (!authHeader) throw new Error("Missing Authorization header");
+
+        const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+        const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+        const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+        const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+            global: { headers: { Authorization: authHeader } },
+        });
+
+        const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+
+        // 1. Authenticate caller
+        const { data: { user }, error: authError } = await userClient.auth.getUser();
+        if (authError || !user) throw new Error("Unauthorized");
+
+        const body = await req.json() as RolloverRequest;
+        if (!body.school_id || !body.from_year || !body.to_year || !body.start_date) {
+            throw new Error("Missing required fields");
+        }
+
+        // 2. Balances before the start date, for the caller (principal check included)
+        const { data: fees, error: feesError } = await userClient.functions.invoke("calculate-remaining-fees", {
+            body: { as_of: body.start_date, school_id: body.school_id },
+        });
+        if (feesError) throw new Error(feesError.message || "Failed to calculate balances");
+        if (fees?.error) throw new Error(fees.error);
+
+        const balances: Record<string, number> = {};
+        for (const student of (fees?.students || []) as { student_id: string; remaining_fee: number }[]) {
+            balances[student.student_id] = Number(student.remaining_fee || 0);
+        }
+
+        // 3. Roll over as the caller; the function checks they are the school's principal
+        const { data: summary, error: rolloverError } = await adminClient.rpc("rollover_academic_year", {
+            p_actor: user.id,
+            p_school_id: body.school_id,
+            p_from_year: body.from_year,
+            p_to_year: body.to_year,
+            p_start_date: body.start_date,
+            p_class_map: body.class_map || {},
+            p_decisions: body.decisions || {},
+            p_balances: balances,
+        });
+        if (rolloverError) throw new Error(rolloverError.message);
+
+        return new Response(
+            JSON.stringify({ ok: true, summary }),
+            { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+
+    } catch (err) {
+        console.error("[rollover-academic-year] Error:", err);
+        // 200 so the client can show the reason (e.g. classes for the new year already exist)
+        return new Response(
+            JSON.stringify({ ok: false, error: err instanceof Error ? err.message : String(err) }),
+            { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+    }
+});
@@ -0,0 +1,168 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+/**
+ * Receipt verification
+ *
+ * action = 'sign'   (authenticated): returns the token printed on the receipt of a payment
+ *                                    the caller can see
+ * action = 'verify' (public):        checks receipt_number + token and returns the payment's
+ *                                    amount, currency, date, school and reversal status - nothing else.
+ *                                    Voided and fully refunded payments are not valid, and neither
+ *                                    are the reversal entries themselves
+ *
+ * Tokens are an HMAC of the payment id with RECEIPT_SIGNING_SECRET, so they cannot be forged
+ * without the secret and nothing needs to be stored per receipt. Receipt numbers are only
+ * unique per school, so the token also tells apart schools that issued the same number.
+ */
+
+const TOKEN_BYTES = 16
+
+function json(body: unknown) {
+    return new Response(JSON.stringify(body), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+    })
+}
+
+async function signPaymentId(paymentId: string, secret: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    )
+    const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(paymentId)))
+
+    // base64url, truncated to keep the QR code small
+    return btoa(String.fromCharCode(...signature.slice(0, TOKEN_BYTES)))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '')
+}
+
+// Constant-time comparison so tokens cannot be guessed byte by byte
+function tokensMatch(a: string, b: string): boolean {
+    if (a.length !== b.length) return false
+    let diff = 0
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+    }
+    return diff === 0
+}
+
+serve(async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+        return new Response(null, { headers: corsHeaders })
+    }
+
+    try {
+        const secret = Deno.env.get('RECEIPT_SIGNING_SECRET')
+        if (!secret) throw new Error('Receipt verification is not configured')
+
+        const { action, payment_id, receipt_number, token } = await req.json()
+
+        if (action === 'sign') {
+            if (typeof payment_id !== 'string' || !payment_id) throw new Error('Payment id is required')
+
+            const authHeader = req.headers.get('Authorization')
+            if (!authHeader) throw new Error('Unauthorized')
+
+            const supabaseClient = createClient(
+                Deno.env.get('SUPABASE_URL') ?? '',
+                Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+                { global: { headers: { Authorization: authHeader } } }
+            )
+
+            const { data: { user } } = await supabaseClient.auth.getUser()
+            if (!user) throw new Error('Unauthorized')
+
+            // RLS decides whether the caller may issue a token for this payment
+            const { data: payment, error } = await supabaseClient
+                .from('payments')
+                .select('id')
+                .eq('id', payment_id)
+                .maybeSingle()
+
+            if (error) throw error
+            if (!payment) throw new Error('Payment not found')
+
+            return json({ token: await signPaymentId(payment.id, secret) })
+        }
+
+        // Public verification: never trust anything but the token
+        const receiptNumber = typeof receipt_number === 'string' ? receipt_number.trim() : ''
+        if (!receiptNumber) throw new Error('Receipt number is required')
+        if (typeof token !== 'string' || !token.trim()) return json({ valid: false })
+
+        const adminClient = createClient(
+            Deno.env.get('SUPABASE_URL') ?? '',
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+        )
+
+        const { data: candidates, error } = await adminClient
+            .from('payments')
+            .select('id, amount, currency, payment_date, user_id, school_id, status, entry_type')
+            .eq('receipt_number', receiptNumber)
+
+        if (error) throw error
+
+        // The token identifies which school's payment (if any) this receipt belongs to
+        let payment = null
+        for (const candidate of candidates || []) {
+            if (tokensMatch(token.trim(), await signPaymentId(candidate.id, secret))) {
+                payment = candidate
+                break
+            }
+        }
+
+        // Wrong code, or a payment that no longer exists (deleted after printing).
+        // Void / refund entries record money going back, they are not receipts.
+        if (!payment || payment.entry_type !== 'payment') return json({ valid: false })
+
+        // Payments recorded by staff carry the staff member's user_id; only rows
+        // from before school_id existed fall back to the owner's first school
+        const { data: school } = payment.school_id
+            ? await adminClient
+                .from('schools')
+                .select('name')
+                .eq('id', payment.school_id)
+                .maybeSingle()
+            : await adminClient
+                .from('schools')
+                .select('name')
+                .eq('owner_id', payment.user_id)
+                .order('created_at')
+                .limit(1)
+                .maybeSingle()
+
+        // Genuine code, but the payment no longer stands
+        if (payment.status === 'voided' || payment.status === 'refunded') {
+            return json({
+                valid: false,
+                status: payment.status,
+                receipt_number: receiptNumber,
+                school_name: school?.name ?? null,
+            })
+        }
+
+        return json({
+            valid: true,
+            status: payment.status,
+            receipt_number: receiptNumber,
+            amount: Number(payment.amount),
+            currency: payment.currency || 'USD',
+            payment_date: payment.payment_date,
+            school_name: school?.name ?? null,
+        })
+    } catch (error) {
+        console.error('Receipt verification error:', error)
+        return json({ error: error instanceof Error ? error.message : 'An unexpected error occurred' })
+    }
+})
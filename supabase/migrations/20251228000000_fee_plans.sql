@@ -0,0 +1,81 @@
+-- ============================================================================
+-- Migration: Configurable Fee Plans
+-- Created: 2025-12-28
+--
+-- This migration:
+-- 1. Creates fee_plans table (named plans with installment schedules)
+-- 2. Adds students.fee_plan_id so a student can be billed by a plan
+--
+-- Installments are stored as a JSONB array:
+--   [{ "label": "Term 1", "due_date": "2025-04-01", "amount": 15000 }, ...]
+-- A null due_date means "due on the student's join date" (e.g. admission fee).
+--
+-- calculate-remaining-fees is the source of truth for expected_fee:
+-- students with a fee_plan_id are billed from the plan's installments,
+-- everyone else keeps the legacy fee_type / fee_amount calculation.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: Create fee_plans table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.fee_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  school_id UUID REFERENCES public.schools(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  plan_type TEXT NOT NULL DEFAULT 'custom'
+    CHECK (plan_type IN ('termly', 'quarterly', 'one_time', 'custom')),
+  installments JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(installments) = 'array'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_plans_user ON public.fee_plans(user_id);
+
+-- Plan names are how batch imports reference a plan, so keep them unique per owner
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fee_plans_user_name
+ON public.fee_plans(user_id, lower(name));
+
+-- ============================================================================
+-- STEP 2: RLS Policies for fee_plans (user_id isolation, same as students)
+-- ============================================================================
+
+ALTER TABLE public.fee_plans ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.fee_plans TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.fee_plans TO service_role;
+
+CREATE POLICY "Users can view own fee plans"
+    ON public.fee_plans
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own fee plans"
+    ON public.fee_plans
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own fee plans"
+    ON public.fee_plans
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own fee plans"
+    ON public.fee_plans
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- STEP 3: Link students to fee plans
+-- ============================================================================
+
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS fee_plan_id UUID REFERENCES public.fee_plans(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_students_fee_plan ON public.students(fee_plan_id);
+
+SELECT 'Fee plans created' AS status;
@@ -0,0 +1,80 @@
+-- ============================================================================
+-- Migration: Student Discounts / Concessions
+-- Created: 2025-12-29
+--
+-- This migration:
+-- 1. Creates student_discounts table (sibling, scholarship, staff child, other)
+-- 2. Adds RLS policies (user_id isolation, same as students)
+--
+-- A discount is either a percentage of each charge or a fixed amount per charge,
+-- and only applies to charges that fall due between start_date and end_date
+-- (end_date null = open-ended).
+--
+-- Sibling discounts reference the sibling via sibling_student_id and lapse
+-- automatically once that sibling is archived or deleted.
+--
+-- calculate-remaining-fees subtracts active discounts from expected_fee.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: Create student_discounts table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.student_discounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  discount_type TEXT NOT NULL
+    CHECK (discount_type IN ('sibling', 'scholarship', 'staff_child', 'other')),
+  value_type TEXT NOT NULL DEFAULT 'percentage'
+    CHECK (value_type IN ('percentage', 'fixed')),
+  value NUMERIC NOT NULL CHECK (value >= 0),
+  sibling_student_id UUID REFERENCES public.students(id) ON DELETE CASCADE,
+  reason TEXT,
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT student_discounts_percentage_range
+    CHECK (value_type <> 'percentage' OR value <= 100),
+  CONSTRAINT student_discounts_date_range
+    CHECK (end_date IS NULL OR end_date >= start_date),
+  CONSTRAINT student_discounts_sibling_required
+    CHECK (discount_type <> 'sibling' OR sibling_student_id IS NOT NULL),
+  CONSTRAINT student_discounts_not_own_sibling
+    CHECK (sibling_student_id IS NULL OR sibling_student_id <> student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_discounts_user ON public.student_discounts(user_id);
+CREATE INDEX IF NOT EXISTS idx_student_discounts_student ON public.student_discounts(student_id);
+
+-- ============================================================================
+-- STEP 2: RLS Policies for student_discounts
+-- ============================================================================
+
+ALTER TABLE public.student_discounts ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.student_discounts TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.student_discounts TO service_role;
+
+CREATE POLICY "Users can view own student discounts"
+    ON public.student_discounts
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own student discounts"
+    ON public.student_discounts
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own student discounts"
+    ON public.student_discounts
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own student discounts"
+    ON public.student_discounts
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+SELECT 'Student discounts created' AS status;
@@ -0,0 +1,244 @@
+-- ============================================================================
+-- Migration: Late Fees / Fines for Overdue Fee Folders
+-- Created: 2025-12-30
+--
+-- This migration:
+-- 1. Creates fee_folder_penalty_waivers table (audit trail of waived penalties)
+-- 2. Creates set_late_fee_rules() - principal-only, stores rules in schools.settings
+-- 3. Creates get_fee_folder_penalties() - derives penalties from due_date + rules
+-- 4. Creates waive_fee_folder_penalty() - principal-only waiver with audit log
+--
+-- Rules live in schools.settings -> 'late_fee':
+--   {
+--     "enabled": true,
+--     "type": "flat_per_day" | "percent_per_month",
+--     "rate": 10,          -- amount per day, or % of outstanding per started month
+--     "grace_days": 5,     -- days after due_date before penalties start
+--     "cap": 500           -- maximum penalty per folder (null/0 = no cap)
+--   }
+--
+-- Penalties are NOT stored. Like expected fees they are derived on every read
+-- from the server date, so changing a rule re-prices every overdue folder.
+-- A waiver records the penalty accrued at that moment; any lateness after
+-- the waiver accrues again.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: Create fee_folder_penalty_waivers table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.fee_folder_penalty_waivers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fee_folder_id UUID NOT NULL REFERENCES public.fee_folders(id) ON DELETE CASCADE,
+  school_id UUID REFERENCES public.schools(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,
+  waived_by UUID NOT NULL REFERENCES auth.users(id),
+  waived_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_penalty_waivers_folder ON public.fee_folder_penalty_waivers(fee_folder_id);
+CREATE INDEX IF NOT EXISTS idx_penalty_waivers_user ON public.fee_folder_penalty_waivers(user_id);
+
+-- Waivers are written only through waive_fee_folder_penalty() (SECURITY DEFINER),
+-- so authenticated users get read access and nothing else.
+ALTER TABLE public.fee_folder_penalty_waivers ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON public.fee_folder_penalty_waivers TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.fee_folder_penalty_waivers TO service_role;
+
+CREATE POLICY "Users can view own penalty waivers"
+    ON public.fee_folder_penalty_waivers
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- STEP 2: set_late_fee_rules (principal only)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_late_fee_rules(p_school_id UUID, p_rules JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF COALESCE(p_rules->>'type', '') NOT IN ('flat_per_day', 'percent_per_month') THEN
+    RAISE EXCEPTION 'Invalid late fee type';
+  END IF;
+
+  IF COALESCE((p_rules->>'rate')::NUMERIC, -1) < 0
+     OR COALESCE((p_rules->>'grace_days')::INT, 0) < 0
+     OR COALESCE((p_rules->>'cap')::NUMERIC, 0) < 0 THEN
+    RAISE EXCEPTION 'Late fee values cannot be negative';
+  END IF;
+
+  UPDATE public.schools
+  SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('late_fee', p_rules),
+      updated_at = now()
+  WHERE id = p_school_id;
+
+  RETURN p_rules;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_late_fee_rules(UUID, JSONB) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: get_fee_folder_penalties
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_fee_folder_penalties(p_fee_folder_ids UUID[])
+RETURNS TABLE (
+  fee_folder_id UUID,
+  days_overdue INT,
+  accrued_penalty NUMERIC,
+  waived_amount NUMERIC,
+  penalty NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH folders AS (
+    SELECT
+      f.id,
+      GREATEST(f.amount_due - COALESCE(f.amount_paid, 0), 0) AS outstanding,
+      f.due_date,
+      f.status,
+      s.settings->'late_fee' AS rules
+    FROM public.fee_folders f
+    LEFT JOIN public.schools s ON s.owner_id = f.user_id
+    WHERE f.id = ANY(p_fee_folder_ids)
+  ),
+  overdue AS (
+    SELECT
+      id,
+      outstanding,
+      rules,
+      -- Days past the end of the grace period (0 while still within grace)
+      GREATEST(
+        CURRENT_DATE - (due_date + COALESCE((rules->>'grace_days')::INT, 0)),
+        0
+      ) AS late_days
+    FROM folders
+    WHERE COALESCE((rules->>'enabled')::BOOLEAN, false)
+      AND status <> 'paid'
+      AND outstanding > 0
+  ),
+  accrued AS (
+    SELECT
+      id,
+      late_days,
+      CASE
+        WHEN late_days = 0 THEN 0
+        WHEN rules->>'type' = 'flat_per_day'
+          THEN late_days * COALESCE((rules->>'rate')::NUMERIC, 0)
+        -- Percentage of outstanding per started month (1-30 days = 1 month)
+        WHEN rules->>'type' = 'percent_per_month'
+          THEN outstanding * COALESCE((rules->>'rate')::NUMERIC, 0) / 100 * CEIL(late_days / 30.0)
+        ELSE 0
+      END AS raw_penalty,
+      NULLIF(COALESCE((rules->>'cap')::NUMERIC, 0), 0) AS cap
+    FROM overdue
+  )
+  SELECT
+    a.id,
+    a.late_days,
+    ROUND(LEAST(a.raw_penalty, COALESCE(a.cap, a.raw_penalty)), 2) AS accrued_penalty,
+    COALESCE(w.total, 0) AS waived_amount,
+    GREATEST(ROUND(LEAST(a.raw_penalty, COALESCE(a.cap, a.raw_penalty)), 2) - COALESCE(w.total, 0), 0) AS penalty
+  FROM accrued a
+  LEFT JOIN (
+    SELECT fw.fee_folder_id, SUM(fw.amount) AS total
+    FROM public.fee_folder_penalty_waivers fw
+    WHERE fw.fee_folder_id = ANY(p_fee_folder_ids)
+    GROUP BY fw.fee_folder_id
+  ) w ON w.fee_folder_id = a.id
+  WHERE a.raw_penalty > 0;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_fee_folder_penalties(UUID[]) TO authenticated;
+
+-- ============================================================================
+-- STEP 4: waive_fee_folder_penalty (principal only, audited)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.waive_fee_folder_penalty(p_fee_folder_id UUID, p_reason TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_folder RECORD;
+  v_school_id UUID;
+  v_penalty NUMERIC;
+BEGIN
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to waive a penalty';
+  END IF;
+
+  SELECT id, user_id INTO v_folder
+  FROM public.fee_folders
+  WHERE id = p_fee_folder_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fee folder not found';
+  END IF;
+
+  SELECT id INTO v_school_id
+  FROM public.schools
+  WHERE owner_id = v_folder.user_id
+  LIMIT 1;
+
+  -- Verify caller is principal of the school that owns this folder
+  IF v_school_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT p.penalty INTO v_penalty
+  FROM public.get_fee_folder_penalties(ARRAY[p_fee_folder_id]) p;
+
+  IF COALESCE(v_penalty, 0) <= 0 THEN
+    RAISE EXCEPTION 'No outstanding penalty on this fee folder';
+  END IF;
+
+  INSERT INTO public.fee_folder_penalty_waivers (fee_folder_id, school_id, user_id, amount, reason, waived_by)
+  VALUES (p_fee_folder_id, v_school_id, v_folder.user_id, v_penalty, trim(p_reason), auth.uid());
+
+  INSERT INTO public.audit_logs (user_id, school_id, action, table_name, record_id, old_data, new_data)
+  VALUES (
+    auth.uid(),
+    v_school_id,
+    'penalty_waived',
+    'fee_folders',
+    p_fee_folder_id,
+    jsonb_build_object('penalty', v_penalty),
+    jsonb_build_object('penalty', 0, 'waived_amount', v_penalty, 'reason', trim(p_reason))
+  );
+
+  RETURN v_penalty;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.waive_fee_folder_penalty(UUID, TEXT) TO authenticated;
+
+SELECT 'Late fee engine created' AS status;
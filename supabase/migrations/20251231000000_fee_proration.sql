@@ -0,0 +1,79 @@
+-- ============================================================================
+-- Migration: Mid-Month Fee Proration
+-- Created: 2025-12-31
+--
+-- This migration:
+-- 1. Adds students.archived_at, stamped automatically when is_archived flips
+-- 2. Creates set_fee_proration() - principal-only, stores the setting in schools.settings
+--
+-- Setting lives in schools.settings -> 'fee_proration':
+--   { "enabled": true }
+--
+-- When enabled, calculate-remaining-fees bills the join month (and the month a
+-- student is archived in) by days instead of as a full month.
+-- Students archived after this migration keep being billed up to archived_at;
+-- students archived before it (archived_at NULL) stay excluded as before.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: students.archived_at
+-- ============================================================================
+
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.stamp_student_archived_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_archived AND NOT COALESCE(OLD.is_archived, false) THEN
+    NEW.archived_at := COALESCE(NEW.archived_at, now());
+  ELSIF NOT NEW.is_archived THEN
+    NEW.archived_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_stamp_student_archived_at ON public.students;
+CREATE TRIGGER trg_stamp_student_archived_at
+  BEFORE UPDATE OF is_archived ON public.students
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_student_archived_at();
+
+-- ============================================================================
+-- STEP 2: set_fee_proration (principal only)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_fee_proration(p_school_id UUID, p_enabled BOOLEAN)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_setting JSONB := jsonb_build_object('enabled', COALESCE(p_enabled, false));
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  UPDATE public.schools
+  SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('fee_proration', v_setting),
+      updated_at = now()
+  WHERE id = p_school_id;
+
+  RETURN v_setting;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_fee_proration(UUID, BOOLEAN) TO authenticated;
+
+SELECT 'Fee proration created' AS status;
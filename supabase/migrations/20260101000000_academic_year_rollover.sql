@@ -0,0 +1,362 @@
+-- ============================================================================
+-- Migration: Academic Year Rollover
+-- Created: 2026-01-01
+--
+-- This migration:
+-- 1. Creates academic_years table (active / closed years per school)
+-- 2. Creates student_opening_balances table (dues carried into a new year)
+-- 3. Guards closed years read-only (classes, enrolments, attendance)
+-- 4. Creates get_rollover_candidates() - students to promote out of a year
+-- 5. Creates rollover_academic_year() - principal-only rollover in one transaction
+--
+-- Opening balances reset the fee calculation base: calculate-remaining-fees
+-- bills a student from the latest opening balance's as_of date onwards, only
+-- counts payments made from that date, and adds the carried amount
+-- (negative = advance credit carried forward).
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: academic_years
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.academic_years (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+  starts_on DATE,
+  closed_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (school_id, name)
+);
+
+ALTER TABLE public.academic_years ENABLE ROW LEVEL SECURITY;
+
+-- Written only through rollover_academic_year() (SECURITY DEFINER)
+GRANT SELECT ON public.academic_years TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.academic_years TO service_role;
+
+CREATE POLICY "Members can view their school academic years" ON public.academic_years
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.school_members sm
+      WHERE sm.school_id = academic_years.school_id
+      AND sm.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- STEP 2: student_opening_balances
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.student_opening_balances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  school_id UUID REFERENCES public.schools(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  academic_year TEXT NOT NULL,   -- Year the balance was carried INTO
+  source_year TEXT NOT NULL,     -- Year the balance was carried FROM
+  as_of DATE NOT NULL,           -- Billing restarts from this date
+  amount NUMERIC NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (student_id, academic_year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_opening_balances_user ON public.student_opening_balances(user_id);
+CREATE INDEX IF NOT EXISTS idx_opening_balances_student ON public.student_opening_balances(student_id, as_of DESC);
+
+ALTER TABLE public.student_opening_balances ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON public.student_opening_balances TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.student_opening_balances TO service_role;
+
+CREATE POLICY "Users can view own opening balances"
+    ON public.student_opening_balances
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- STEP 3: Closed years are read-only
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.is_class_year_closed(p_class_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.classes c
+    JOIN public.academic_years ay
+      ON ay.school_id = c.school_id AND ay.name = c.academic_year
+    WHERE c.id = p_class_id
+    AND ay.status = 'closed'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_closed_academic_year()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_class_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'classes' THEN
+    v_class_id := OLD.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_class_id := OLD.class_id;
+  ELSE
+    v_class_id := NEW.class_id;
+  END IF;
+
+  IF v_class_id IS NOT NULL AND public.is_class_year_closed(v_class_id) THEN
+    RAISE EXCEPTION 'This academic year is closed and read-only';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_closed_year_classes ON public.classes;
+CREATE TRIGGER trg_guard_closed_year_classes
+  BEFORE UPDATE OR DELETE ON public.classes
+  FOR EACH ROW EXECUTE FUNCTION public.guard_closed_academic_year();
+
+DROP TRIGGER IF EXISTS trg_guard_closed_year_student_classes ON public.student_classes;
+CREATE TRIGGER trg_guard_closed_year_student_classes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.student_classes
+  FOR EACH ROW EXECUTE FUNCTION public.guard_closed_academic_year();
+
+DROP TRIGGER IF EXISTS trg_guard_closed_year_attendance ON public.attendance;
+CREATE TRIGGER trg_guard_closed_year_attendance
+  BEFORE INSERT OR UPDATE OR DELETE ON public.attendance
+  FOR EACH ROW EXECUTE FUNCTION public.guard_closed_academic_year();
+
+-- ============================================================================
+-- STEP 4: get_rollover_candidates
+-- ============================================================================
+-- Students enrolled in a class of p_from_year, either through student_classes
+-- or (legacy) through students.class matching the class name.
+
+CREATE OR REPLACE FUNCTION public.get_rollover_candidates(p_school_id UUID, p_from_year TEXT)
+RETURNS TABLE (
+  student_id UUID,
+  student_name TEXT,
+  user_id UUID,
+  class_id UUID,
+  class_name TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE school_members.user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT ON (s.id)
+    s.id,
+    s.name,
+    s.user_id,
+    c.id,
+    c.name
+  FROM public.students s
+  JOIN public.classes c
+    ON c.school_id = p_school_id
+    AND c.academic_year = p_from_year
+    AND COALESCE(c.is_active, true)
+  LEFT JOIN public.student_classes sc
+    ON sc.student_id = s.id
+    AND sc.class_id = c.id
+    AND COALESCE(sc.is_active, true)
+  WHERE NOT s.is_archived
+    AND (
+      sc.id IS NOT NULL
+      OR (
+        s.class = c.name
+        AND (s.school_id = p_school_id
+             OR s.user_id = (SELECT owner_id FROM public.schools WHERE id = p_school_id))
+      )
+    )
+  ORDER BY s.id, (sc.id IS NULL);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_rollover_candidates(UUID, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 5: rollover_academic_year (principal only)
+-- ============================================================================
+-- p_class_map: { "<from class id>": "<from class id it promotes into>" | null }
+--              null (or a missing key) = the class graduates
+-- p_decisions: { "<student id>": "promote" | "hold" | "graduate" }  (default promote)
+-- p_balances:  { "<student id>": <remaining_fee from calculate-remaining-fees> }
+
+CREATE OR REPLACE FUNCTION public.rollover_academic_year(
+  p_school_id UUID,
+  p_from_year TEXT,
+  p_to_year TEXT,
+  p_start_date DATE,
+  p_class_map JSONB,
+  p_decisions JSONB,
+  p_balances JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_class RECORD;
+  v_student RECORD;
+  v_new_id UUID;
+  v_new_classes JSONB := '{}'::jsonb;
+  v_decision TEXT;
+  v_target UUID;
+  v_promoted INT := 0;
+  v_held INT := 0;
+  v_graduated INT := 0;
+  v_carried NUMERIC := 0;
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF COALESCE(trim(p_to_year), '') = '' OR p_to_year = p_from_year THEN
+    RAISE EXCEPTION 'Choose a new academic year name';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.academic_years
+    WHERE school_id = p_school_id AND name = p_from_year AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Academic year % is already closed', p_from_year;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.classes
+    WHERE school_id = p_school_id AND academic_year = p_to_year
+  ) THEN
+    RAISE EXCEPTION 'Classes for % already exist', p_to_year;
+  END IF;
+
+  -- 1. Create next year's classes (same names / sections / teachers)
+  FOR v_class IN
+    SELECT * FROM public.classes
+    WHERE school_id = p_school_id
+    AND academic_year = p_from_year
+    AND COALESCE(is_active, true)
+  LOOP
+    INSERT INTO public.classes (school_id, name, grade, section, teacher_id, academic_year, is_active)
+    VALUES (p_school_id, v_class.name, v_class.grade, v_class.section, v_class.teacher_id, p_to_year, true)
+    RETURNING id INTO v_new_id;
+
+    v_new_classes := v_new_classes || jsonb_build_object(v_class.id::TEXT, v_new_id);
+  END LOOP;
+
+  -- 2. Promote / hold back / graduate every student of the closing year
+  FOR v_student IN SELECT * FROM public.get_rollover_candidates(p_school_id, p_from_year)
+  LOOP
+    v_decision := COALESCE(p_decisions->>v_student.student_id::TEXT, 'promote');
+
+    IF v_decision = 'hold' THEN
+      v_target := v_student.class_id;
+    ELSIF v_decision = 'promote' THEN
+      v_target := (p_class_map->>v_student.class_id::TEXT)::UUID;
+    ELSE
+      v_target := NULL;
+    END IF;
+
+    IF v_target IS NULL THEN
+      -- Graduated: archive (billing stops at archived_at, dues stay visible)
+      UPDATE public.students SET is_archived = true WHERE id = v_student.student_id;
+      v_graduated := v_graduated + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.student_classes (student_id, class_id, is_active)
+    VALUES (v_student.student_id, (v_new_classes->>v_target::TEXT)::UUID, true);
+
+    UPDATE public.students
+    SET class = (SELECT name FROM public.classes WHERE id = v_target)
+    WHERE id = v_student.student_id;
+
+    -- Carry the outstanding balance (or advance credit) into the new year
+    INSERT INTO public.student_opening_balances
+      (user_id, school_id, student_id, academic_year, source_year, as_of, amount, created_by)
+    VALUES (
+      v_student.user_id,
+      p_school_id,
+      v_student.student_id,
+      p_to_year,
+      p_from_year,
+      p_start_date,
+      COALESCE((p_balances->>v_student.student_id::TEXT)::NUMERIC, 0),
+      auth.uid()
+    );
+    v_carried := v_carried + COALESCE((p_balances->>v_student.student_id::TEXT)::NUMERIC, 0);
+
+    IF v_decision = 'hold' THEN
+      v_held := v_held + 1;
+    ELSE
+      v_promoted := v_promoted + 1;
+    END IF;
+  END LOOP;
+
+  -- 3. Retire the closing year's enrolments and classes (before it is locked)
+  UPDATE public.student_classes
+  SET is_active = false
+  WHERE class_id IN (
+    SELECT id FROM public.classes WHERE school_id = p_school_id AND academic_year = p_from_year
+  );
+
+  UPDATE public.classes
+  SET is_active = false, updated_at = now()
+  WHERE school_id = p_school_id AND academic_year = p_from_year;
+
+  -- 4. Close the old year, open the new one
+  INSERT INTO public.academic_years (school_id, name, status, closed_at, closed_by)
+  VALUES (p_school_id, p_from_year, 'closed', now(), auth.uid())
+  ON CONFLICT (school_id, name) DO UPDATE
+    SET status = 'closed', closed_at = now(), closed_by = auth.uid();
+
+  INSERT INTO public.academic_years (school_id, name, status, starts_on)
+  VALUES (p_school_id, p_to_year, 'active', p_start_date)
+  ON CONFLICT (school_id, name) DO UPDATE
+    SET status = 'active', starts_on = EXCLUDED.starts_on;
+
+  RETURN jsonb_build_object(
+    'classes_created', (SELECT count(*) FROM jsonb_object_keys(v_new_classes)),
+    'promoted', v_promoted,
+    'held_back', v_held,
+    'graduated', v_graduated,
+    'balance_carried', v_carried
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rollover_academic_year(UUID, TEXT, TEXT, DATE, JSONB, JSONB, JSONB) TO authenticated;
+
+SELECT 'Academic year rollover created' AS status;
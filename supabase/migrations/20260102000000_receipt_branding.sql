@@ -0,0 +1,66 @@
+-- ============================================================================
+-- Migration: Branded Receipts
+-- Created: 2026-01-02
+--
+-- This migration:
+-- 1. Creates set_receipt_settings() - principal-only, stores receipt branding in schools.settings
+--
+-- Settings live in schools.settings -> 'receipt':
+--   {
+--     "template": "a4" | "half_page" | "thermal_80mm",
+--     "address": "12 School Road, ...",
+--     "phone": "+1 555 0100",
+--     "footer": "Fees once paid are not refundable.",
+--     "logo": "data:image/png;base64,...",   -- embedded so PDFs render offline
+--     "show_qr": true                        -- QR code with the receipt number
+--   }
+--
+-- The school name on receipts is schools.name; it is not duplicated here.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: set_receipt_settings (principal only)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_receipt_settings(p_school_id UUID, p_settings JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF COALESCE(p_settings->>'template', '') NOT IN ('a4', 'half_page', 'thermal_80mm') THEN
+    RAISE EXCEPTION 'Invalid receipt template';
+  END IF;
+
+  IF p_settings->>'logo' IS NOT NULL AND p_settings->>'logo' NOT LIKE 'data:image/%' THEN
+    RAISE EXCEPTION 'Receipt logo must be an embedded image';
+  END IF;
+
+  -- Keep schools.settings small: logos are embedded as data URLs
+  IF length(COALESCE(p_settings->>'logo', '')) > 300000 THEN
+    RAISE EXCEPTION 'Receipt logo is too large';
+  END IF;
+
+  UPDATE public.schools
+  SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('receipt', p_settings),
+      updated_at = now()
+  WHERE id = p_school_id;
+
+  RETURN p_settings;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_receipt_settings(UUID, JSONB) TO authenticated;
+
+SELECT 'Receipt branding created' AS status;
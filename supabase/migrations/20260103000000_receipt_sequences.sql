@@ -0,0 +1,226 @@
+-- ============================================================================
+-- Migration: Per-School Receipt Number Sequences
+-- Created: 2026-01-03
+--
+-- This migration:
+-- 1. Creates receipt_sequences table (last number issued per school / kind / fiscal year)
+-- 2. Creates set_receipt_numbering() - principal-only, stores the format in schools.settings
+-- 3. Creates allocate_receipt_number() - formats and issues the next number
+-- 4. Assigns receipt_number on every payment / expense insert and freezes it on update
+--
+-- Format lives in schools.settings -> 'receipt_numbering':
+--   {
+--     "payment_prefix": "RCT",
+--     "expense_prefix": "EXP",
+--     "include_year": true,          -- RCT-2025-26-00042; false = RCT-00042, never resets
+--     "padding": 5,                  -- zero-padded counter width
+--     "fiscal_year_start_month": 4   -- 1 = calendar year
+--   }
+--
+-- Numbers are allocated inside the inserting transaction (the sequence row stays
+-- locked until commit), so a failed insert rolls its number back: no gaps, no
+-- duplicates, even with several cashiers or a batch import running at once.
+-- Numbers sent by clients are ignored.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: receipt_sequences
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.receipt_sequences (
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('payment', 'expense')),
+  fiscal_year TEXT NOT NULL,  -- '' when numbering does not include the year
+  last_value INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (school_id, kind, fiscal_year)
+);
+
+ALTER TABLE public.receipt_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Written only through allocate_receipt_number() (SECURITY DEFINER)
+GRANT SELECT ON public.receipt_sequences TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.receipt_sequences TO service_role;
+
+CREATE POLICY "Members can view their school receipt sequences" ON public.receipt_sequences
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.school_members sm
+      WHERE sm.school_id = receipt_sequences.school_id
+      AND sm.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- STEP 2: set_receipt_numbering (principal only)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_receipt_numbering(p_school_id UUID, p_settings JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF COALESCE(p_settings->>'payment_prefix', '') !~ '^[A-Za-z0-9/]{1,10}$'
+     OR COALESCE(p_settings->>'expense_prefix', '') !~ '^[A-Za-z0-9/]{1,10}$' THEN
+    RAISE EXCEPTION 'Prefixes must be 1-10 letters or digits';
+  END IF;
+
+  IF p_settings->>'payment_prefix' = p_settings->>'expense_prefix' THEN
+    RAISE EXCEPTION 'Payment and expense prefixes must differ';
+  END IF;
+
+  IF COALESCE((p_settings->>'padding')::INT, 0) NOT BETWEEN 1 AND 10 THEN
+    RAISE EXCEPTION 'Counter width must be between 1 and 10';
+  END IF;
+
+  IF COALESCE((p_settings->>'fiscal_year_start_month')::INT, 0) NOT BETWEEN 1 AND 12 THEN
+    RAISE EXCEPTION 'Invalid fiscal year start month';
+  END IF;
+
+  UPDATE public.schools
+  SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('receipt_numbering', p_settings),
+      updated_at = now()
+  WHERE id = p_school_id;
+
+  RETURN p_settings;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_receipt_numbering(UUID, JSONB) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: allocate_receipt_number
+-- ============================================================================
+
+-- '2025' for calendar years, '2025-26' when the fiscal year starts mid-year
+CREATE OR REPLACE FUNCTION public.fiscal_year_label(p_date DATE, p_start_month INT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_start_month = 1 THEN EXTRACT(YEAR FROM p_date)::INT::TEXT
+    ELSE (EXTRACT(YEAR FROM p_date)::INT - (EXTRACT(MONTH FROM p_date)::INT < p_start_month)::INT)::TEXT
+      || '-'
+      || lpad((((EXTRACT(YEAR FROM p_date)::INT - (EXTRACT(MONTH FROM p_date)::INT < p_start_month)::INT) + 1) % 100)::TEXT, 2, '0')
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.allocate_receipt_number(p_school_id UUID, p_kind TEXT, p_date DATE)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+  v_prefix TEXT;
+  v_include_year BOOLEAN;
+  v_padding INT;
+  v_year TEXT;
+  v_value INT;
+BEGIN
+  SELECT COALESCE(settings->'receipt_numbering', '{}'::jsonb) INTO v_settings
+  FROM public.schools
+  WHERE id = p_school_id;
+
+  v_prefix := COALESCE(v_settings->>(p_kind || '_prefix'), CASE p_kind WHEN 'payment' THEN 'RCT' ELSE 'EXP' END);
+  v_include_year := COALESCE((v_settings->>'include_year')::BOOLEAN, true);
+  v_padding := COALESCE((v_settings->>'padding')::INT, 5);
+  v_year := CASE
+    WHEN v_include_year
+      THEN public.fiscal_year_label(COALESCE(p_date, CURRENT_DATE), COALESCE((v_settings->>'fiscal_year_start_month')::INT, 1))
+    ELSE ''
+  END;
+
+  -- Row lock on the sequence is held until the inserting transaction ends
+  INSERT INTO public.receipt_sequences (school_id, kind, fiscal_year, last_value)
+  VALUES (p_school_id, p_kind, v_year, 1)
+  ON CONFLICT (school_id, kind, fiscal_year) DO UPDATE
+    SET last_value = receipt_sequences.last_value + 1,
+        updated_at = now()
+  RETURNING last_value INTO v_value;
+
+  RETURN v_prefix
+    || CASE WHEN v_year <> '' THEN '-' || v_year ELSE '' END
+    || '-' || lpad(v_value::TEXT, GREATEST(v_padding, length(v_value::TEXT)), '0');
+END;
+$$;
+
+-- Only the triggers below allocate numbers
+REVOKE EXECUTE ON FUNCTION public.allocate_receipt_number(UUID, TEXT, DATE) FROM PUBLIC;
+
+-- ============================================================================
+-- STEP 4: Assign on insert, freeze on update
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.assign_receipt_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID := NEW.school_id;
+  v_kind TEXT;
+  v_date DATE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.receipt_number := OLD.receipt_number;
+    RETURN NEW;
+  END IF;
+
+  -- Legacy rows carry only user_id: the owner's school, else the staff member's school
+  IF v_school_id IS NULL THEN
+    SELECT id INTO v_school_id FROM public.schools WHERE owner_id = NEW.user_id LIMIT 1;
+  END IF;
+  IF v_school_id IS NULL THEN
+    SELECT school_id INTO v_school_id FROM public.school_members WHERE user_id = NEW.user_id LIMIT 1;
+  END IF;
+
+  -- No school at all: keep whatever the client sent, else a timestamp number
+  IF v_school_id IS NULL THEN
+    NEW.receipt_number := COALESCE(
+      NEW.receipt_number,
+      CASE TG_TABLE_NAME WHEN 'payments' THEN 'PAY-' ELSE 'EXP-' END || to_char(clock_timestamp(), 'YYYYMMDDHH24MISSMS')
+    );
+    RETURN NEW;
+  END IF;
+
+  -- Separate branches: each table only has its own date column
+  IF TG_TABLE_NAME = 'payments' THEN
+    v_kind := 'payment';
+    v_date := NEW.payment_date;
+  ELSE
+    v_kind := 'expense';
+    v_date := NEW.expense_date;
+  END IF;
+
+  NEW.receipt_number := public.allocate_receipt_number(v_school_id, v_kind, v_date);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_payment_receipt_number ON public.payments;
+CREATE TRIGGER assign_payment_receipt_number
+  BEFORE INSERT OR UPDATE OF receipt_number ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.assign_receipt_number();
+
+DROP TRIGGER IF EXISTS assign_expense_receipt_number ON public.expenses;
+CREATE TRIGGER assign_expense_receipt_number
+  BEFORE INSERT OR UPDATE OF receipt_number ON public.expenses
+  FOR EACH ROW EXECUTE FUNCTION public.assign_receipt_number();
+
+SELECT 'Receipt sequences created' AS status;
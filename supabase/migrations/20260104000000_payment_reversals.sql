@@ -0,0 +1,271 @@
+-- ============================================================================
+-- Migration: Payment Void / Refund
+-- Created: 2026-01-04
+--
+-- This migration:
+-- 1. Adds reversal columns to payments (entry_type, status, reverses_payment_id, reason)
+-- 2. Adds action / reason to payment_audit
+-- 3. Freezes reversed payments and reversal entries against edits
+-- 4. Creates void_payment() / refund_payment() - principal or accountant only
+-- 5. Recreates get_report_summary() on net amounts
+--
+-- Payments are never deleted from the UI any more. A void or refund keeps the
+-- original row and inserts a reversing entry with a NEGATIVE amount, the same
+-- student, category and method, so every SUM(amount) (reconcile trigger,
+-- calculate-remaining-fees, reports) nets to what was actually kept.
+--
+--   original: entry_type 'payment', status active -> partially_refunded / refunded / voided
+--   reversal: entry_type 'void' | 'refund', reverses_payment_id = original, amount < 0
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: Reversal columns on payments
+-- ============================================================================
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS entry_type TEXT NOT NULL DEFAULT 'payment',
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS reverses_payment_id UUID REFERENCES public.payments(id),
+  ADD COLUMN IF NOT EXISTS reversal_reason TEXT,
+  ADD COLUMN IF NOT EXISTS reversed_by UUID REFERENCES auth.users(id);
+
+-- Reversals carry negative amounts, so any non-negative amount check has to go
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_amount_check;
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_entry_type_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_entry_type_check CHECK (
+  (entry_type = 'payment' AND amount >= 0 AND reverses_payment_id IS NULL)
+  OR (entry_type IN ('void', 'refund') AND amount < 0 AND reverses_payment_id IS NOT NULL AND reversal_reason IS NOT NULL)
+);
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_status_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_status_check
+  CHECK (status IN ('active', 'partially_refunded', 'refunded', 'voided'));
+
+CREATE INDEX IF NOT EXISTS idx_payments_reverses ON public.payments(reverses_payment_id);
+
+-- ============================================================================
+-- STEP 2: payment_audit action / reason
+-- ============================================================================
+
+ALTER TABLE public.payment_audit
+  ADD COLUMN IF NOT EXISTS action TEXT,
+  ADD COLUMN IF NOT EXISTS reason TEXT;
+
+-- ============================================================================
+-- STEP 3: Reversed payments and reversals are read-only
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.guard_reversed_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (OLD.status <> 'active' OR OLD.entry_type <> 'payment')
+     AND (NEW.amount IS DISTINCT FROM OLD.amount
+          OR NEW.student_id IS DISTINCT FROM OLD.student_id
+          OR NEW.category IS DISTINCT FROM OLD.category
+          OR NEW.payment_date IS DISTINCT FROM OLD.payment_date) THEN
+    RAISE EXCEPTION 'Voided or refunded payments cannot be edited';
+  END IF;
+
+  -- status / entry_type only change through void_payment() and refund_payment()
+  IF (NEW.status IS DISTINCT FROM OLD.status OR NEW.entry_type IS DISTINCT FROM OLD.entry_type)
+     AND current_setting('app.payment_reversal', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Use void or refund to reverse a payment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_reversed_payment ON public.payments;
+CREATE TRIGGER guard_reversed_payment
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.guard_reversed_payment();
+
+-- ============================================================================
+-- STEP 4: void_payment / refund_payment
+-- ============================================================================
+
+-- Shared by both RPCs: checks the caller and writes the reversing entry
+CREATE OR REPLACE FUNCTION public.reverse_payment(
+  p_payment_id UUID,
+  p_entry_type TEXT,
+  p_amount NUMERIC,
+  p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments;
+  v_school_id UUID;
+  v_reversed NUMERIC;
+  v_refundable NUMERIC;
+  v_amount NUMERIC;
+  v_reversal public.payments;
+BEGIN
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.entry_type <> 'payment' THEN
+    RAISE EXCEPTION 'Reversal entries cannot be reversed';
+  END IF;
+  IF v_payment.status IN ('refunded', 'voided') THEN
+    RAISE EXCEPTION 'Payment is already %', v_payment.status;
+  END IF;
+
+  -- Same school resolution as receipt numbering: row, owner, then staff membership
+  v_school_id := v_payment.school_id;
+  IF v_school_id IS NULL THEN
+    SELECT id INTO v_school_id FROM public.schools WHERE owner_id = v_payment.user_id LIMIT 1;
+  END IF;
+  IF v_school_id IS NULL THEN
+    SELECT school_id INTO v_school_id FROM public.school_members WHERE user_id = v_payment.user_id LIMIT 1;
+  END IF;
+
+  -- Verify caller is principal or accountant of the payment's school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT COALESCE(-SUM(amount), 0) INTO v_reversed
+  FROM public.payments
+  WHERE reverses_payment_id = p_payment_id;
+
+  v_refundable := v_payment.amount - v_reversed;
+  v_amount := CASE WHEN p_entry_type = 'void' THEN v_refundable ELSE p_amount END;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Nothing left to reverse on this payment';
+  END IF;
+  IF v_amount > v_refundable THEN
+    RAISE EXCEPTION 'Refund exceeds the refundable amount (%)', v_refundable;
+  END IF;
+
+  PERFORM set_config('app.payment_reversal', 'on', true);
+
+  INSERT INTO public.payments (
+    student_id, amount, currency, payment_date, payment_method, category, description,
+    user_id, school_id, entry_type, reverses_payment_id, reversal_reason, reversed_by
+  )
+  VALUES (
+    v_payment.student_id, -v_amount, v_payment.currency, CURRENT_DATE, v_payment.payment_method,
+    v_payment.category,
+    initcap(p_entry_type) || ' of ' || v_payment.receipt_number,
+    v_payment.user_id, v_payment.school_id, p_entry_type, p_payment_id, trim(p_reason), auth.uid()
+  )
+  RETURNING * INTO v_reversal;
+
+  UPDATE public.payments
+  SET status = CASE
+        WHEN p_entry_type = 'void' THEN 'voided'
+        WHEN v_amount = v_refundable THEN 'refunded'
+        ELSE 'partially_refunded'
+      END,
+      updated_at = now()
+  WHERE id = p_payment_id;
+
+  PERFORM set_config('app.payment_reversal', 'off', true);
+
+  INSERT INTO public.payment_audit (payment_id, student_id, user_id, amount, method, action, reason)
+  VALUES (p_payment_id, v_payment.student_id, auth.uid(), -v_amount, v_payment.payment_method, p_entry_type, trim(p_reason));
+
+  RETURN to_jsonb(v_reversal);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_payment(UUID, TEXT, NUMERIC, TEXT) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.void_payment(p_payment_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.reverse_payment(p_payment_id, 'void', NULL, p_reason);
+$$;
+
+CREATE OR REPLACE FUNCTION public.refund_payment(p_payment_id UUID, p_amount NUMERIC, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.reverse_payment(p_payment_id, 'refund', p_amount, p_reason);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.void_payment(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.refund_payment(UUID, NUMERIC, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 5: get_report_summary on net amounts
+-- ============================================================================
+
+-- SECURITY INVOKER: RLS scopes every table to the caller, like the client fallback
+CREATE OR REPLACE FUNCTION public.get_report_summary()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    -- Reversals are negative, so sums are net of voids and refunds
+    'total_income', (SELECT COALESCE(SUM(amount), 0) FROM payments),
+    'total_expenses', (SELECT COALESCE(SUM(amount), 0) FROM expenses),
+    'total_salaries', (SELECT COALESCE(SUM(net_amount), 0) FROM salaries),
+    'total_fee_folders', (SELECT COALESCE(SUM(amount_due), 0) FROM fee_folders),
+    'remaining_fees', 0,  -- Driven by calculate-remaining-fees (server date)
+    'expected_salary_expense', (SELECT COALESCE(SUM(expected_salary_expense), 0) FROM staff),
+    'category_expenses', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'value', value) ORDER BY value DESC)
+      FROM (
+        SELECT COALESCE(category, 'Other') AS name, SUM(amount) AS value
+        FROM expenses
+        GROUP BY 1
+      ) c
+    ), '[]'::jsonb),
+    -- Count only payments that still stand; amount is net of their reversals
+    'payment_methods', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'value', value, 'amount', amount) ORDER BY amount DESC)
+      FROM (
+        SELECT payment_method AS name,
+               COUNT(*) FILTER (WHERE entry_type = 'payment' AND status <> 'voided') AS value,
+               SUM(amount) AS amount
+        FROM payments
+        GROUP BY 1
+      ) m
+    ), '[]'::jsonb),
+    'monthly_trends', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+               'month', to_char(month, 'Mon YYYY'),
+               'income', (SELECT COALESCE(SUM(amount), 0) FROM payments WHERE date_trunc('month', payment_date) = month),
+               'expenses', (SELECT COALESCE(SUM(amount), 0) FROM expenses WHERE date_trunc('month', expense_date) = month),
+               'salaries', (SELECT COALESCE(SUM(net_amount), 0) FROM salaries WHERE date_trunc('month', payment_date) = month)
+             ) ORDER BY month)
+      FROM generate_series(
+        date_trunc('month', CURRENT_DATE) - INTERVAL '11 months',
+        date_trunc('month', CURRENT_DATE),
+        INTERVAL '1 month'
+      ) AS month
+    ), '[]'::jsonb)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_report_summary() TO authenticated;
+
+SELECT 'Payment reversals created' AS status;
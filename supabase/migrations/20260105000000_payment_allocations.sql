@@ -0,0 +1,251 @@
+-- ============================================================================
+-- Migration: Payment Allocations
+-- Created: 2026-01-05
+--
+-- This migration:
+-- 1. Creates payment_allocations table (one payment split across tuition and fee folders)
+-- 2. Keeps fee_folders.amount_paid / status in step with allocation lines
+-- 3. Creates allocate_payment() - replaces a payment's allocation lines
+-- 4. Unallocates automatically when a payment is voided or refunded
+--
+-- A line with fee_folder_id NULL is tuition. Lines may add up to less than the
+-- payment: the unallocated rest of a school_fee payment is tuition (so legacy and
+-- imported payments count exactly as before), of any other category it is plain
+-- income of that category. calculate-remaining-fees counts, per payment:
+--   tuition lines + (category = 'school_fee' ? amount - all lines : 0)
+--
+-- Allocation lines are never edited in place: allocate_payment() deletes and
+-- re-inserts, and the trigger moves fee_folders.amount_paid by each line's
+-- amount. Manual amount_paid edits on a folder are therefore preserved.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: payment_allocations
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.payment_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  fee_folder_id UUID REFERENCES public.fee_folders(id),  -- NULL = tuition; folders with payments cannot be deleted
+  amount NUMERIC NOT NULL CHECK (amount <> 0),           -- Negative on void / refund entries
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_payment ON public.payment_allocations(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_folder ON public.payment_allocations(fee_folder_id);
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_student ON public.payment_allocations(student_id);
+
+-- Written only through allocate_payment() and the reversal trigger (SECURITY DEFINER)
+ALTER TABLE public.payment_allocations ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON public.payment_allocations TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.payment_allocations TO service_role;
+
+-- Visible to whoever can see the payment (payments RLS applies in the subquery)
+CREATE POLICY "Users can view allocations of visible payments" ON public.payment_allocations
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.payments p WHERE p.id = payment_allocations.payment_id)
+  );
+
+-- ============================================================================
+-- STEP 2: Keep fee_folders.amount_paid in step
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.sync_fee_folder_allocation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_folder_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.fee_folder_id ELSE NEW.fee_folder_id END;
+  v_delta NUMERIC := CASE WHEN TG_OP = 'DELETE' THEN -OLD.amount ELSE NEW.amount END;
+BEGIN
+  IF v_folder_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.fee_folders
+  SET amount_paid = GREATEST(COALESCE(amount_paid, 0) + v_delta, 0),
+      status = CASE
+        WHEN GREATEST(COALESCE(amount_paid, 0) + v_delta, 0) >= amount_due THEN 'paid'
+        WHEN GREATEST(COALESCE(amount_paid, 0) + v_delta, 0) > 0 THEN 'partial'
+        ELSE 'pending'
+      END,
+      updated_at = now()
+  WHERE id = v_folder_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_fee_folder_allocation ON public.payment_allocations;
+CREATE TRIGGER sync_fee_folder_allocation
+  AFTER INSERT OR DELETE ON public.payment_allocations
+  FOR EACH ROW EXECUTE FUNCTION public.sync_fee_folder_allocation();
+
+-- ============================================================================
+-- STEP 3: allocate_payment
+-- ============================================================================
+
+-- p_allocations: [{ "fee_folder_id": uuid | null, "amount": 500 }, ...]
+-- Lines may not add up to more than the payment amount, and folder lines may not
+-- exceed what is still outstanding on the folder. Tuition may be overpaid
+-- (advance). An empty array clears the allocation.
+CREATE OR REPLACE FUNCTION public.allocate_payment(p_payment_id UUID, p_allocations JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.payments;
+  v_school_id UUID;
+  v_line JSONB;
+  v_folder public.fee_folders;
+  v_folder_id UUID;
+  v_amount NUMERIC;
+  v_total NUMERIC := 0;
+BEGIN
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.entry_type <> 'payment' OR v_payment.status <> 'active' THEN
+    RAISE EXCEPTION 'Voided or refunded payments cannot be reallocated';
+  END IF;
+
+  -- Same school resolution as receipt numbering: row, owner, then staff membership
+  v_school_id := v_payment.school_id;
+  IF v_school_id IS NULL THEN
+    SELECT id INTO v_school_id FROM public.schools WHERE owner_id = v_payment.user_id LIMIT 1;
+  END IF;
+  IF v_school_id IS NULL THEN
+    SELECT school_id INTO v_school_id FROM public.school_members WHERE user_id = v_payment.user_id LIMIT 1;
+  END IF;
+
+  -- Verify caller collects fees for the payment's school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_school_id
+    AND role IN ('principal', 'accountant', 'cashier')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF jsonb_typeof(p_allocations) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Allocations must be a list';
+  END IF;
+
+  -- Drop the current lines first so their amounts are back on the folders
+  DELETE FROM public.payment_allocations WHERE payment_id = p_payment_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_allocations) LOOP
+    v_amount := round((v_line->>'amount')::NUMERIC, 2);
+    v_folder_id := NULLIF(v_line->>'fee_folder_id', '')::UUID;
+
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RAISE EXCEPTION 'Allocation amounts must be greater than zero';
+    END IF;
+
+    IF v_folder_id IS NOT NULL THEN
+      SELECT * INTO v_folder FROM public.fee_folders WHERE id = v_folder_id FOR UPDATE;
+      IF NOT FOUND OR v_folder.student_id <> v_payment.student_id THEN
+        RAISE EXCEPTION 'Fee folder does not belong to this student';
+      END IF;
+      IF v_amount > v_folder.amount_due - COALESCE(v_folder.amount_paid, 0) THEN
+        RAISE EXCEPTION '% has only % outstanding', v_folder.folder_name, v_folder.amount_due - COALESCE(v_folder.amount_paid, 0);
+      END IF;
+    END IF;
+
+    INSERT INTO public.payment_allocations (payment_id, student_id, fee_folder_id, amount)
+    VALUES (p_payment_id, v_payment.student_id, v_folder_id, v_amount);
+
+    v_total := v_total + v_amount;
+  END LOOP;
+
+  IF v_total > round(v_payment.amount, 2) THEN
+    RAISE EXCEPTION 'Allocations (%) exceed the payment amount (%)', v_total, v_payment.amount;
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(jsonb_build_object('fee_folder_id', fee_folder_id, 'amount', amount))
+    FROM public.payment_allocations
+    WHERE payment_id = p_payment_id
+  ), '[]'::jsonb);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.allocate_payment(UUID, JSONB) TO authenticated;
+
+-- ============================================================================
+-- STEP 4: Unallocate on void / refund
+-- ============================================================================
+
+-- A void takes back every line. A refund comes out of the unallocated rest
+-- first, then tuition, then the latest-due folders, so the oldest dues stay
+-- settled the longest.
+CREATE OR REPLACE FUNCTION public.reverse_payment_allocations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_remaining NUMERIC := -NEW.amount;
+  v_kept NUMERIC;
+  v_allocated NUMERIC;
+  v_line RECORD;
+  v_take NUMERIC;
+BEGIN
+  -- What is left of the payment after earlier reversals, and how much of it is on lines
+  SELECT COALESCE(SUM(amount), 0) INTO v_kept
+  FROM public.payments
+  WHERE (id = NEW.reverses_payment_id OR reverses_payment_id = NEW.reverses_payment_id)
+    AND id <> NEW.id;
+
+  SELECT COALESCE(SUM(a.amount), 0) INTO v_allocated
+  FROM public.payment_allocations a
+  JOIN public.payments p ON p.id = a.payment_id
+  WHERE (p.id = NEW.reverses_payment_id OR p.reverses_payment_id = NEW.reverses_payment_id)
+    AND p.id <> NEW.id;
+
+  v_remaining := v_remaining - GREATEST(LEAST(v_kept - v_allocated, v_remaining), 0);
+
+  FOR v_line IN
+    SELECT a.fee_folder_id, SUM(a.amount) AS net
+    FROM public.payment_allocations a
+    LEFT JOIN public.fee_folders f ON f.id = a.fee_folder_id
+    WHERE a.payment_id = NEW.reverses_payment_id
+       OR a.payment_id IN (
+         SELECT id FROM public.payments
+         WHERE reverses_payment_id = NEW.reverses_payment_id AND id <> NEW.id
+       )
+    GROUP BY a.fee_folder_id, f.due_date
+    HAVING SUM(a.amount) > 0
+    ORDER BY a.fee_folder_id IS NOT NULL, f.due_date DESC
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    v_take := LEAST(v_line.net, v_remaining);
+
+    INSERT INTO public.payment_allocations (payment_id, student_id, fee_folder_id, amount)
+    VALUES (NEW.id, NEW.student_id, v_line.fee_folder_id, -v_take);
+
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reverse_payment_allocations ON public.payments;
+CREATE TRIGGER reverse_payment_allocations
+  AFTER INSERT ON public.payments
+  FOR EACH ROW
+  WHEN (NEW.reverses_payment_id IS NOT NULL)
+  EXECUTE FUNCTION public.reverse_payment_allocations();
+
+SELECT 'Payment allocations created' AS status;
@@ -0,0 +1,237 @@
+-- ============================================================================
+-- Migration: Families / Guardian Accounts
+-- Created: 2026-01-06
+--
+-- This migration:
+-- 1. Creates families table (guardian contact shared by siblings)
+-- 2. Adds students.family_id and payments.family_payment_id
+-- 3. Links every student to a family by guardian phone (backfill + on insert)
+-- 4. Creates record_family_payment() - one payment split across siblings
+--
+-- Siblings are matched on the digits of guardian_phone within the same owner,
+-- so "+91 98765-43210" and "9876543210" only match if typed the same way
+-- apart from punctuation. Families can be merged / split on the Families page.
+--
+-- A family payment is stored as one payments row per child (each with its own
+-- receipt number and allocation lines) sharing family_payment_id, so every
+-- per-student calculation keeps working unchanged.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: families
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.families (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  school_id UUID REFERENCES public.schools(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  guardian_name TEXT,
+  phone TEXT,
+  alt_phone TEXT,
+  email TEXT,
+  address TEXT,
+  phone_digits TEXT GENERATED ALWAYS AS (regexp_replace(COALESCE(phone, ''), '\D', '', 'g')) STORED,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_families_user ON public.families(user_id);
+CREATE INDEX IF NOT EXISTS idx_families_phone_digits ON public.families(user_id, phone_digits);
+
+ALTER TABLE public.families ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.families TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.families TO service_role;
+
+CREATE POLICY "Users can view own families"
+    ON public.families
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own families"
+    ON public.families
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own families"
+    ON public.families
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own families"
+    ON public.families
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- STEP 2: Link columns
+-- ============================================================================
+
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS family_id UUID REFERENCES public.families(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_students_family ON public.students(family_id);
+
+-- Shared by the per-child rows of one family payment
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS family_payment_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_payments_family_payment ON public.payments(family_payment_id);
+
+-- ============================================================================
+-- STEP 3: Link students to families by guardian phone
+-- ============================================================================
+
+-- Backfill: one family per owner + guardian phone
+INSERT INTO public.families (user_id, school_id, name, guardian_name, phone)
+SELECT
+  user_id,
+  (array_agg(school_id) FILTER (WHERE school_id IS NOT NULL))[1],
+  COALESCE(NULLIF(trim(MIN(guardian_name)), ''), MIN(guardian_phone)) || ' family',
+  NULLIF(trim(MIN(guardian_name)), ''),
+  MIN(guardian_phone)
+FROM public.students
+WHERE family_id IS NULL
+  AND length(regexp_replace(COALESCE(guardian_phone, ''), '\D', '', 'g')) >= 7
+GROUP BY user_id, regexp_replace(guardian_phone, '\D', '', 'g');
+
+UPDATE public.students s
+SET family_id = f.id
+FROM public.families f
+WHERE s.family_id IS NULL
+  AND f.user_id = s.user_id
+  AND f.phone_digits = regexp_replace(COALESCE(s.guardian_phone, ''), '\D', '', 'g');
+
+-- New students join the family with the same guardian phone, or start one
+CREATE OR REPLACE FUNCTION public.link_student_family()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_digits TEXT := regexp_replace(COALESCE(NEW.guardian_phone, ''), '\D', '', 'g');
+BEGIN
+  IF NEW.family_id IS NOT NULL OR length(v_digits) < 7 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO NEW.family_id
+  FROM public.families
+  WHERE user_id = NEW.user_id AND phone_digits = v_digits
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF NEW.family_id IS NULL THEN
+    INSERT INTO public.families (user_id, school_id, name, guardian_name, phone)
+    VALUES (
+      NEW.user_id,
+      NEW.school_id,
+      COALESCE(NULLIF(trim(NEW.guardian_name), ''), NEW.guardian_phone) || ' family',
+      NULLIF(trim(NEW.guardian_name), ''),
+      NEW.guardian_phone
+    )
+    RETURNING id INTO NEW.family_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_student_family ON public.students;
+CREATE TRIGGER link_student_family
+  BEFORE INSERT ON public.students
+  FOR EACH ROW EXECUTE FUNCTION public.link_student_family();
+
+-- ============================================================================
+-- STEP 4: record_family_payment
+-- ============================================================================
+
+-- p_lines: [{ "student_id": uuid, "amount": 1500, "category": "school_fee",
+--             "allocations": [{ "fee_folder_id": uuid | null, "amount": 500 }] }, ...]
+-- All rows are written in one transaction: either every child is paid or none.
+CREATE OR REPLACE FUNCTION public.record_family_payment(
+  p_family_id UUID,
+  p_payment_date DATE,
+  p_payment_method TEXT,
+  p_currency TEXT,
+  p_lines JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_family public.families;
+  v_group UUID := gen_random_uuid();
+  v_line JSONB;
+  v_student public.students;
+  v_amount NUMERIC;
+  v_payment public.payments;
+  v_result JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_family FROM public.families WHERE id = p_family_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Family not found';
+  END IF;
+
+  -- Verify caller owns the family or collects fees for its school
+  IF v_family.user_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_family.school_id
+    AND role IN ('principal', 'accountant', 'cashier')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF jsonb_typeof(p_lines) IS DISTINCT FROM 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'At least one child must be paid for';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    SELECT * INTO v_student FROM public.students WHERE id = (v_line->>'student_id')::UUID;
+    IF NOT FOUND OR v_student.family_id IS DISTINCT FROM p_family_id THEN
+      RAISE EXCEPTION 'Student is not part of this family';
+    END IF;
+
+    v_amount := round((v_line->>'amount')::NUMERIC, 2);
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RAISE EXCEPTION 'Amount for % must be greater than zero', v_student.name;
+    END IF;
+
+    -- receipt_number is allocated by the per-school sequence trigger
+    INSERT INTO public.payments (
+      student_id, amount, currency, payment_date, payment_method, category, description,
+      user_id, school_id, family_payment_id
+    )
+    VALUES (
+      v_student.id, v_amount, p_currency, COALESCE(p_payment_date, CURRENT_DATE), p_payment_method,
+      COALESCE(v_line->>'category', 'school_fee'),
+      'Family payment - ' || v_family.name,
+      auth.uid(), COALESCE(v_student.school_id, v_family.school_id), v_group
+    )
+    RETURNING * INTO v_payment;
+
+    IF jsonb_array_length(COALESCE(v_line->'allocations', '[]'::jsonb)) > 0 THEN
+      PERFORM public.allocate_payment(v_payment.id, v_line->'allocations');
+    END IF;
+
+    v_result := v_result || jsonb_build_object(
+      'payment_id', v_payment.id,
+      'student_id', v_student.id,
+      'receipt_number', v_payment.receipt_number,
+      'amount', v_payment.amount
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('family_payment_id', v_group, 'payments', v_result);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_family_payment(UUID, DATE, TEXT, TEXT, JSONB) TO authenticated;
+
+SELECT 'Families created' AS status;
@@ -0,0 +1,266 @@
+-- ============================================================================
+-- Migration: Parent Portal
+-- Created: 2026-01-07
+--
+-- This migration:
+-- 1. Adds 'parent' to the user_role enum
+-- 2. Creates family_guardians table (parent user <-> family)
+-- 3. Adds invitation_codes.family_id and create_parent_invite() so parents
+--    join through the existing invitation code flow
+-- 4. Links a parent to the family when their code is redeemed
+-- 5. Adds read-only RLS policies so parents see only their own children's
+--    record, attendance, payments, fee folders and receipts
+--
+-- Parents never get INSERT / UPDATE / DELETE policies; every write path for
+-- these tables is either owner-scoped or a SECURITY DEFINER function that
+-- checks for a staff role, so SELECT is all they can do.
+--
+-- The new enum value cannot be used as a literal in the same transaction it
+-- is added in, so policies and SQL functions compare role::text instead.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: parent role
+-- ============================================================================
+
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'parent';
+
+-- ============================================================================
+-- STEP 2: family_guardians
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.family_guardians (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  family_id UUID NOT NULL REFERENCES public.families(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (family_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_family_guardians_user ON public.family_guardians(user_id);
+
+-- Rows are written by link_parent_family() only
+ALTER TABLE public.family_guardians ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, DELETE ON public.family_guardians TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.family_guardians TO service_role;
+
+CREATE POLICY "Parents can view own guardian links"
+    ON public.family_guardians
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Principals see and revoke parent access for their school
+CREATE POLICY "Principals can view school guardian links"
+    ON public.family_guardians
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = family_guardians.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role::text = 'principal'
+      )
+    );
+
+CREATE POLICY "Principals can delete school guardian links"
+    ON public.family_guardians
+    FOR DELETE
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = family_guardians.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role::text = 'principal'
+      )
+    );
+
+-- ============================================================================
+-- STEP 3: Parent invitation codes
+-- ============================================================================
+
+ALTER TABLE public.invitation_codes
+  ADD COLUMN IF NOT EXISTS family_id UUID REFERENCES public.families(id) ON DELETE CASCADE;
+
+-- Same codes as staff invites (redeemed with accept_hybrid_invite), bound to a family
+CREATE OR REPLACE FUNCTION public.create_parent_invite(p_family_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_family public.families;
+  v_school_id UUID;
+  v_code TEXT;
+  v_expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_family FROM public.families WHERE id = p_family_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Family not found';
+  END IF;
+
+  v_school_id := COALESCE(
+    v_family.school_id,
+    (SELECT id FROM public.schools WHERE owner_id = v_family.user_id LIMIT 1)
+  );
+
+  -- Verify caller is principal of the family's school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  v_code := public.generate_invite_code();
+
+  INSERT INTO public.invitation_codes (code, role, school_id, family_id, created_by)
+  VALUES (v_code, 'parent', v_school_id, p_family_id, auth.uid())
+  RETURNING expires_at INTO v_expires_at;
+
+  RETURN jsonb_build_object('code', v_code, 'expires_at', v_expires_at);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_parent_invite(UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 4: Link parent to family when the code is redeemed
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.link_parent_family()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role::text <> 'parent' OR NEW.invite_used_code IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.family_guardians (family_id, user_id, school_id)
+  SELECT ic.family_id, NEW.user_id, NEW.school_id
+  FROM public.invitation_codes ic
+  WHERE ic.code = NEW.invite_used_code
+  AND ic.school_id = NEW.school_id
+  AND ic.family_id IS NOT NULL
+  ON CONFLICT (family_id, user_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_parent_family ON public.school_members;
+CREATE TRIGGER link_parent_family
+  AFTER INSERT OR UPDATE OF invite_used_code, role ON public.school_members
+  FOR EACH ROW EXECUTE FUNCTION public.link_parent_family();
+
+-- ============================================================================
+-- STEP 5: Read-only access for parents
+-- ============================================================================
+
+-- True when the caller is an active parent member linked to the student's family.
+-- SECURITY DEFINER so the policies below don't recurse through students RLS.
+CREATE OR REPLACE FUNCTION public.is_guardian_of_student(p_student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.family_guardians fg
+    JOIN public.students s ON s.family_id = fg.family_id
+    JOIN public.school_members sm
+      ON sm.user_id = fg.user_id
+      AND sm.school_id = fg.school_id
+      AND sm.role::text = 'parent'
+      AND COALESCE(sm.is_active, true)
+    WHERE fg.user_id = auth.uid()
+    AND s.id = p_student_id
+  );
+$$;
+
+-- Needed for receipt branding and late fee rules (schools.settings)
+CREATE OR REPLACE FUNCTION public.is_guardian_in_school(p_school_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.family_guardians fg
+    JOIN public.school_members sm
+      ON sm.user_id = fg.user_id
+      AND sm.school_id = fg.school_id
+      AND sm.role::text = 'parent'
+      AND COALESCE(sm.is_active, true)
+    WHERE fg.user_id = auth.uid()
+    AND fg.school_id = p_school_id
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_guardian_of_student(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_guardian_in_school(UUID) TO authenticated;
+
+CREATE POLICY "Parents can view their children"
+    ON public.students
+    FOR SELECT
+    USING (public.is_guardian_of_student(id));
+
+CREATE POLICY "Parents can view their children's attendance"
+    ON public.attendance
+    FOR SELECT
+    USING (public.is_guardian_of_student(student_id));
+
+CREATE POLICY "Parents can view their children's payments"
+    ON public.payments
+    FOR SELECT
+    USING (public.is_guardian_of_student(student_id));
+
+CREATE POLICY "Parents can view their children's fee folders"
+    ON public.fee_folders
+    FOR SELECT
+    USING (public.is_guardian_of_student(student_id));
+
+CREATE POLICY "Parents can view their children's payment allocations"
+    ON public.payment_allocations
+    FOR SELECT
+    USING (public.is_guardian_of_student(student_id));
+
+CREATE POLICY "Parents can view their children's penalty waivers"
+    ON public.fee_folder_penalty_waivers
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.fee_folders f
+        WHERE f.id = fee_folder_penalty_waivers.fee_folder_id
+        AND public.is_guardian_of_student(f.student_id)
+      )
+    );
+
+CREATE POLICY "Parents can view their family"
+    ON public.families
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.family_guardians fg
+        WHERE fg.family_id = families.id
+        AND fg.user_id = auth.uid()
+      )
+    );
+
+CREATE POLICY "Parents can view their children's school"
+    ON public.schools
+    FOR SELECT
+    USING (public.is_guardian_in_school(id));
+
+SELECT 'Parent portal created' AS status;
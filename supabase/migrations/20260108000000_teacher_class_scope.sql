@@ -0,0 +1,65 @@
+-- ============================================================================
+-- Migration: Teacher Class Scope
+-- Created: 2026-01-08
+--
+-- This migration:
+-- 1. Creates can_view_class() - false only for teachers not assigned to the class
+-- 2. Adds RESTRICTIVE select policies on classes, student_classes and attendance
+--    so teachers only see their own classes (classes.teacher_id = auth.uid())
+--
+-- Restrictive policies are AND-ed with the existing permissive ones, so
+-- principals and finance roles keep exactly the access they have today.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: can_view_class
+-- ============================================================================
+
+-- SECURITY DEFINER so the check sees every class, not just the visible ones
+CREATE OR REPLACE FUNCTION public.can_view_class(p_class_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM public.classes c
+    JOIN public.school_members sm
+      ON sm.school_id = c.school_id
+      AND sm.user_id = auth.uid()
+      AND sm.role = 'teacher'
+    WHERE c.id = p_class_id
+    AND c.teacher_id IS DISTINCT FROM auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_view_class(UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 2: Restrictive policies
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Teachers only see assigned classes" ON public.classes;
+CREATE POLICY "Teachers only see assigned classes"
+    ON public.classes
+    AS RESTRICTIVE
+    FOR SELECT
+    USING (public.can_view_class(id));
+
+DROP POLICY IF EXISTS "Teachers only see assigned class rosters" ON public.student_classes;
+CREATE POLICY "Teachers only see assigned class rosters"
+    ON public.student_classes
+    AS RESTRICTIVE
+    FOR SELECT
+    USING (public.can_view_class(class_id));
+
+DROP POLICY IF EXISTS "Teachers only see assigned class attendance" ON public.attendance;
+CREATE POLICY "Teachers only see assigned class attendance"
+    ON public.attendance
+    AS RESTRICTIVE
+    FOR SELECT
+    USING (class_id IS NULL OR public.can_view_class(class_id));
+
+SELECT 'Teacher class scope applied' AS status;
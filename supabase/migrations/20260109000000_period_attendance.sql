@@ -0,0 +1,395 @@
+-- ============================================================================
+-- Migration: Period-wise Attendance
+-- Created: 2026-01-09
+--
+-- This migration:
+-- 1. Adds classes.attendance_mode ('daily' | 'period') and set_class_attendance_mode()
+-- 2. Creates class_periods (weekly timetable: period, subject, teacher)
+-- 3. Creates attendance_periods (one row per student per date per period)
+-- 4. Creates mark_period_attendance() - marked by the period's teacher
+-- 5. Derives the daily attendance row from the periods marked so far
+-- 6. Replaces get_class_attendance_summary() with an optional per-period breakdown
+-- 7. Lets subject teachers see the classes they teach a period in
+--
+-- Daily status from periods:
+--   absent  - not present (or late) in any marked period
+--   late    - missed or was late to the first marked period, attended later
+--   present - present in the first marked period
+-- Late counts as attended in attendance percentages.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: Attendance mode per class
+-- ============================================================================
+
+ALTER TABLE public.classes
+  ADD COLUMN IF NOT EXISTS attendance_mode TEXT NOT NULL DEFAULT 'daily'
+  CHECK (attendance_mode IN ('daily', 'period'));
+
+CREATE OR REPLACE FUNCTION public.set_class_attendance_mode(p_class_id UUID, p_mode TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Verify caller is principal of the class's school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.classes c
+    JOIN public.school_members sm ON sm.school_id = c.school_id
+    WHERE c.id = p_class_id
+    AND sm.user_id = auth.uid()
+    AND sm.role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_mode NOT IN ('daily', 'period') THEN
+    RAISE EXCEPTION 'Invalid attendance mode: %', p_mode;
+  END IF;
+
+  UPDATE public.classes
+  SET attendance_mode = p_mode, updated_at = now()
+  WHERE id = p_class_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_class_attendance_mode(UUID, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 2: class_periods (timetable)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.class_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  class_id UUID NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 1 AND 7),  -- ISO: 1 = Monday
+  period_number SMALLINT NOT NULL CHECK (period_number > 0),
+  subject TEXT NOT NULL,
+  teacher_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  start_time TIME,
+  end_time TIME,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (class_id, day_of_week, period_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_periods_teacher ON public.class_periods(teacher_id);
+
+ALTER TABLE public.class_periods ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.class_periods TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.class_periods TO service_role;
+
+CREATE POLICY "Members can view school timetable"
+    ON public.class_periods
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = class_periods.school_id
+        AND sm.user_id = auth.uid()
+      )
+      AND public.can_view_class(class_id)
+    );
+
+CREATE POLICY "Principals can manage school timetable"
+    ON public.class_periods
+    FOR ALL
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = class_periods.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role = 'principal'
+      )
+    )
+    WITH CHECK (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = class_periods.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role = 'principal'
+      )
+    );
+
+-- ============================================================================
+-- STEP 3: attendance_periods
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.attendance_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  class_id UUID NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  period_number SMALLINT NOT NULL CHECK (period_number > 0),
+  subject TEXT,
+  status TEXT NOT NULL CHECK (status IN ('present', 'absent', 'late')),
+  notes TEXT,
+  marked_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (student_id, date, period_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_periods_class_date ON public.attendance_periods(class_id, date);
+
+-- Written only through mark_period_attendance()
+ALTER TABLE public.attendance_periods ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON public.attendance_periods TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.attendance_periods TO service_role;
+
+CREATE POLICY "Members can view school period attendance"
+    ON public.attendance_periods
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = attendance_periods.school_id
+        AND sm.user_id = auth.uid()
+      )
+      AND public.can_view_class(class_id)
+    );
+
+-- ============================================================================
+-- STEP 4: Daily status derived from periods
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.derive_daily_attendance(p_class_id UUID, p_date DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID;
+BEGIN
+  SELECT school_id INTO v_school_id FROM public.classes WHERE id = p_class_id;
+
+  INSERT INTO public.attendance (student_id, class_id, school_id, date, status, marked_by)
+  SELECT
+    p.student_id,
+    p_class_id,
+    v_school_id,
+    p_date,
+    CASE
+      WHEN COUNT(*) FILTER (WHERE p.status IN ('present', 'late')) = 0 THEN 'absent'
+      WHEN (array_agg(p.status ORDER BY p.period_number))[1] <> 'present' THEN 'late'
+      ELSE 'present'
+    END,
+    auth.uid()
+  FROM public.attendance_periods p
+  WHERE p.class_id = p_class_id AND p.date = p_date
+  GROUP BY p.student_id
+  ON CONFLICT (student_id, date) DO UPDATE
+    SET status = EXCLUDED.status,
+        class_id = EXCLUDED.class_id,
+        marked_by = EXCLUDED.marked_by,
+        updated_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.derive_daily_attendance(UUID, DATE) FROM PUBLIC;
+
+-- ============================================================================
+-- STEP 5: mark_period_attendance
+-- ============================================================================
+
+-- p_attendance: [{ "student_id": uuid, "status": "present" | "absent" | "late", "notes": text }, ...]
+CREATE OR REPLACE FUNCTION public.mark_period_attendance(
+  p_class_id UUID,
+  p_date DATE,
+  p_period_number INT,
+  p_attendance JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_class public.classes;
+  v_period public.class_periods;
+  v_entry JSONB;
+  v_count INT := 0;
+BEGIN
+  SELECT * INTO v_class FROM public.classes WHERE id = p_class_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF v_class.attendance_mode <> 'period' THEN
+    RAISE EXCEPTION 'Class does not use period-wise attendance';
+  END IF;
+
+  SELECT * INTO v_period
+  FROM public.class_periods
+  WHERE class_id = p_class_id
+  AND day_of_week = EXTRACT(ISODOW FROM p_date)
+  AND period_number = p_period_number;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No period % on this day', p_period_number;
+  END IF;
+
+  -- Verify caller is principal, or the teacher of this period
+  -- (the class teacher covers periods without a teacher)
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_class.school_id
+    AND (
+      role = 'principal'
+      OR (role = 'teacher' AND auth.uid() = COALESCE(v_period.teacher_id, v_class.teacher_id))
+    )
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_attendance, '[]'::jsonb)) LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM public.student_classes
+      WHERE class_id = p_class_id
+      AND student_id = (v_entry->>'student_id')::UUID
+      AND COALESCE(is_active, true)
+    ) THEN
+      RAISE EXCEPTION 'Student is not enrolled in this class';
+    END IF;
+
+    INSERT INTO public.attendance_periods (
+      school_id, class_id, student_id, date, period_number, subject, status, notes, marked_by
+    )
+    VALUES (
+      v_class.school_id, p_class_id, (v_entry->>'student_id')::UUID, p_date, p_period_number,
+      v_period.subject, v_entry->>'status', NULLIF(v_entry->>'notes', ''), auth.uid()
+    )
+    ON CONFLICT (student_id, date, period_number) DO UPDATE
+      SET status = EXCLUDED.status,
+          notes = EXCLUDED.notes,
+          subject = EXCLUDED.subject,
+          marked_by = EXCLUDED.marked_by,
+          updated_at = now();
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  PERFORM public.derive_daily_attendance(p_class_id, p_date);
+
+  RETURN jsonb_build_object('marked', v_count);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_period_attendance(UUID, DATE, INT, JSONB) TO authenticated;
+
+-- ============================================================================
+-- STEP 6: get_class_attendance_summary with per-period breakdown
+-- ============================================================================
+
+-- Return type changes (period_number, subject), so the old version is dropped
+DROP FUNCTION IF EXISTS public.get_class_attendance_summary(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_class_attendance_summary(
+  p_class_id UUID,
+  p_by_period BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  class_id UUID,
+  student_id UUID,
+  student_name TEXT,
+  period_number INT,
+  subject TEXT,
+  present_count BIGINT,
+  total_classes BIGINT,
+  attendance_percentage NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Verify caller is a member of the class's school and may see the class
+  IF NOT EXISTS (
+    SELECT 1 FROM public.classes c
+    JOIN public.school_members sm ON sm.school_id = c.school_id
+    WHERE c.id = p_class_id
+    AND sm.user_id = auth.uid()
+  ) OR NOT public.can_view_class(p_class_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_by_period THEN
+    RETURN QUERY
+    SELECT
+      p_class_id,
+      s.id,
+      s.name::TEXT,
+      p.period_number::INT,
+      MAX(p.subject),
+      COUNT(*) FILTER (WHERE p.status IN ('present', 'late')),
+      COUNT(*),
+      ROUND(100.0 * COUNT(*) FILTER (WHERE p.status IN ('present', 'late')) / COUNT(*), 2)
+    FROM public.student_classes sc
+    JOIN public.students s ON s.id = sc.student_id
+    JOIN public.attendance_periods p ON p.student_id = s.id AND p.class_id = sc.class_id
+    WHERE sc.class_id = p_class_id
+    AND COALESCE(sc.is_active, true)
+    GROUP BY s.id, s.name, p.period_number
+    ORDER BY s.name, p.period_number;
+  ELSE
+    RETURN QUERY
+    SELECT
+      p_class_id,
+      s.id,
+      s.name::TEXT,
+      NULL::INT,
+      NULL::TEXT,
+      COUNT(a.id) FILTER (WHERE a.status IN ('present', 'late')),
+      COUNT(a.id),
+      CASE WHEN COUNT(a.id) = 0 THEN 0::NUMERIC
+        ELSE ROUND(100.0 * COUNT(a.id) FILTER (WHERE a.status IN ('present', 'late')) / COUNT(a.id), 2)
+      END
+    FROM public.student_classes sc
+    JOIN public.students s ON s.id = sc.student_id
+    LEFT JOIN public.attendance a ON a.student_id = s.id AND a.class_id = sc.class_id
+    WHERE sc.class_id = p_class_id
+    AND COALESCE(sc.is_active, true)
+    GROUP BY s.id, s.name
+    ORDER BY s.name;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_class_attendance_summary(UUID, BOOLEAN) TO authenticated;
+
+-- ============================================================================
+-- STEP 7: Subject teachers see the classes they teach
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.can_view_class(p_class_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM public.classes c
+    JOIN public.school_members sm
+      ON sm.school_id = c.school_id
+      AND sm.user_id = auth.uid()
+      AND sm.role = 'teacher'
+    WHERE c.id = p_class_id
+    AND c.teacher_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.class_periods cp
+      WHERE cp.class_id = c.id
+      AND cp.teacher_id = auth.uid()
+    )
+  );
+$$;
+
+SELECT 'Period-wise attendance created' AS status;
@@ -0,0 +1,482 @@
+-- ============================================================================
+-- Migration: Configurable Attendance Statuses
+-- Created: 2026-01-10
+--
+-- This migration:
+-- 1. Creates attendance_statuses (per-school status set with percentage credit)
+-- 2. Seeds present/absent/late/half-day/excused/medical for every school
+-- 3. Adds attendance.reason_code and attendance.arrival_time
+-- 4. Validates attendance.status against the school's status set
+-- 5. Replaces mark_attendance_bulk() to record reasons and arrival times
+-- 6. Replaces get_attendance_stats(), get_class_attendance_summary() and
+--    get_student_attendance_ranking() to weight statuses by their credit
+--
+-- Credit per status:
+--   1.00 - attended (present, late)
+--   0.50 - half day
+--   0.00 - absent
+--   NULL - excused (excused leave, medical): left out of the percentage entirely
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: attendance_statuses
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.attendance_statuses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  code TEXT NOT NULL CHECK (code ~ '^[a-z][a-z0-9_]*$'),
+  label TEXT NOT NULL,
+  credit NUMERIC(3,2) CHECK (credit IS NULL OR credit BETWEEN 0 AND 1),
+  requires_reason BOOLEAN NOT NULL DEFAULT false,
+  reason_codes TEXT[] NOT NULL DEFAULT '{}',   -- empty: any reason text is accepted
+  captures_time BOOLEAN NOT NULL DEFAULT false,
+  color TEXT NOT NULL DEFAULT 'gray',
+  sort_order SMALLINT NOT NULL DEFAULT 0,
+  is_system BOOLEAN NOT NULL DEFAULT false,   -- present/absent: cannot be renamed away or disabled
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (school_id, code)
+);
+
+ALTER TABLE public.attendance_statuses ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE ON public.attendance_statuses TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.attendance_statuses TO service_role;
+
+CREATE POLICY "Members can view attendance statuses"
+    ON public.attendance_statuses
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = attendance_statuses.school_id
+        AND sm.user_id = auth.uid()
+      )
+    );
+
+-- Statuses are deactivated rather than deleted so old attendance keeps its meaning
+CREATE POLICY "Principals can add attendance statuses"
+    ON public.attendance_statuses
+    FOR INSERT
+    WITH CHECK (
+      NOT is_system
+      AND EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = attendance_statuses.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role = 'principal'
+      )
+    );
+
+CREATE POLICY "Principals can update attendance statuses"
+    ON public.attendance_statuses
+    FOR UPDATE
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = attendance_statuses.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role = 'principal'
+      )
+    )
+    WITH CHECK (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = attendance_statuses.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role = 'principal'
+      )
+    );
+
+-- Code and system flag are fixed once created; present/absent stay active
+CREATE OR REPLACE FUNCTION public.guard_attendance_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.code <> OLD.code OR NEW.is_system <> OLD.is_system OR NEW.school_id <> OLD.school_id THEN
+    RAISE EXCEPTION 'Attendance status code cannot be changed';
+  END IF;
+
+  IF OLD.is_system AND NOT NEW.is_active THEN
+    RAISE EXCEPTION 'Status % cannot be disabled', OLD.code;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_guard_attendance_status ON public.attendance_statuses;
+CREATE TRIGGER trg_guard_attendance_status
+  BEFORE UPDATE ON public.attendance_statuses
+  FOR EACH ROW EXECUTE FUNCTION public.guard_attendance_status();
+
+-- ============================================================================
+-- STEP 2: Default status set
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.seed_attendance_statuses(p_school_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.attendance_statuses
+    (school_id, code, label, credit, requires_reason, reason_codes, captures_time, color, sort_order, is_system)
+  VALUES
+    (p_school_id, 'present',  'Present',       1.00, false, '{}', false, 'green',  1, true),
+    (p_school_id, 'absent',   'Absent',        0.00, false, '{}', false, 'red',    2, true),
+    (p_school_id, 'late',     'Late',          1.00, false, '{}', true,  'yellow', 3, false),
+    (p_school_id, 'half_day', 'Half Day',      0.50, false, '{}', false, 'orange', 4, false),
+    (p_school_id, 'excused',  'Excused Leave', NULL, true,  '{family,religious,sports,school_event}', false, 'blue', 5, false),
+    (p_school_id, 'medical',  'Medical',       NULL, true,  '{illness,appointment,injury}', false, 'purple', 6, false)
+  ON CONFLICT (school_id, code) DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seed_attendance_statuses(UUID) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.seed_school_attendance_statuses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_attendance_statuses(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_seed_attendance_statuses ON public.schools;
+CREATE TRIGGER trg_seed_attendance_statuses
+  AFTER INSERT ON public.schools
+  FOR EACH ROW EXECUTE FUNCTION public.seed_school_attendance_statuses();
+
+SELECT public.seed_attendance_statuses(id) FROM public.schools;
+
+-- ============================================================================
+-- STEP 3: Reason and arrival time on attendance
+-- ============================================================================
+
+ALTER TABLE public.attendance
+  ADD COLUMN IF NOT EXISTS reason_code TEXT,
+  ADD COLUMN IF NOT EXISTS arrival_time TIME;
+
+-- The fixed present/absent/late check (if any) is replaced by the trigger below
+ALTER TABLE public.attendance DROP CONSTRAINT IF EXISTS attendance_status_check;
+
+-- ============================================================================
+-- STEP 4: Status validation
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.validate_attendance_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.attendance_statuses
+    WHERE school_id = NEW.school_id
+    AND code = NEW.status
+    AND is_active
+  ) THEN
+    RAISE EXCEPTION 'Unknown attendance status: %', NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_validate_attendance_status ON public.attendance;
+CREATE TRIGGER trg_validate_attendance_status
+  BEFORE INSERT OR UPDATE ON public.attendance
+  FOR EACH ROW EXECUTE FUNCTION public.validate_attendance_status();
+
+-- ============================================================================
+-- STEP 5: mark_attendance_bulk
+-- ============================================================================
+
+-- p_attendance: [{ "student_id": uuid, "status": code, "notes": text,
+--                  "reason_code": text, "arrival_time": "HH:MM" }, ...]
+CREATE OR REPLACE FUNCTION public.mark_attendance_bulk(
+  p_class_id UUID,
+  p_date DATE,
+  p_attendance JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID;
+  v_entry JSONB;
+  v_status public.attendance_statuses;
+  v_reason TEXT;
+BEGIN
+  SELECT school_id INTO v_school_id FROM public.classes WHERE id = p_class_id;
+  IF v_school_id IS NULL THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  -- Verify caller is principal, or a teacher who can see this class
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_school_id
+    AND role IN ('principal', 'teacher')
+  ) OR NOT public.can_view_class(p_class_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_attendance, '[]'::jsonb)) LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM public.student_classes
+      WHERE class_id = p_class_id
+      AND student_id = (v_entry->>'student_id')::UUID
+      AND COALESCE(is_active, true)
+    ) THEN
+      RAISE EXCEPTION 'Student is not enrolled in this class';
+    END IF;
+
+    SELECT * INTO v_status
+    FROM public.attendance_statuses
+    WHERE school_id = v_school_id
+    AND code = v_entry->>'status'
+    AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown attendance status: %', v_entry->>'status';
+    END IF;
+
+    v_reason := NULLIF(trim(v_entry->>'reason_code'), '');
+    IF v_status.requires_reason AND v_reason IS NULL THEN
+      RAISE EXCEPTION '% requires a reason', v_status.label;
+    END IF;
+    IF v_reason IS NOT NULL
+      AND cardinality(v_status.reason_codes) > 0
+      AND NOT v_reason = ANY (v_status.reason_codes) THEN
+      RAISE EXCEPTION 'Invalid reason for %: %', v_status.label, v_reason;
+    END IF;
+
+    INSERT INTO public.attendance (
+      student_id, class_id, school_id, date, status, notes, reason_code, arrival_time, marked_by
+    )
+    VALUES (
+      (v_entry->>'student_id')::UUID,
+      p_class_id,
+      v_school_id,
+      p_date,
+      v_status.code,
+      NULLIF(v_entry->>'notes', ''),
+      v_reason,
+      CASE WHEN v_status.captures_time THEN NULLIF(v_entry->>'arrival_time', '')::TIME END,
+      auth.uid()
+    )
+    ON CONFLICT (student_id, date) DO UPDATE
+      SET status = EXCLUDED.status,
+          notes = EXCLUDED.notes,
+          reason_code = EXCLUDED.reason_code,
+          arrival_time = EXCLUDED.arrival_time,
+          class_id = EXCLUDED.class_id,
+          marked_by = EXCLUDED.marked_by,
+          updated_at = now();
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_attendance_bulk(UUID, DATE, JSONB) TO authenticated;
+
+-- ============================================================================
+-- STEP 6: Credit-weighted stats
+-- ============================================================================
+
+-- Return type gains half_days and excused_days
+DROP FUNCTION IF EXISTS public.get_attendance_stats(UUID, DATE, DATE);
+
+CREATE OR REPLACE FUNCTION public.get_attendance_stats(
+  p_class_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS TABLE (
+  student_id UUID,
+  student_name TEXT,
+  present_days BIGINT,
+  absent_days BIGINT,
+  late_days BIGINT,
+  half_days BIGINT,
+  excused_days BIGINT,
+  total_days BIGINT,
+  attendance_pct NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.classes c
+    JOIN public.school_members sm ON sm.school_id = c.school_id
+    WHERE c.id = p_class_id
+    AND sm.user_id = auth.uid()
+  ) OR NOT public.can_view_class(p_class_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.name::TEXT,
+    COUNT(a.id) FILTER (WHERE a.status = 'present'),
+    COUNT(a.id) FILTER (WHERE st.credit = 0),
+    COUNT(a.id) FILTER (WHERE a.status = 'late'),
+    COUNT(a.id) FILTER (WHERE st.credit > 0 AND st.credit < 1),
+    COUNT(a.id) FILTER (WHERE a.id IS NOT NULL AND st.credit IS NULL),
+    COUNT(a.id),
+    CASE WHEN COUNT(st.credit) = 0 THEN 0::NUMERIC
+      ELSE ROUND(100.0 * SUM(st.credit) / COUNT(st.credit), 2)
+    END
+  FROM public.student_classes sc
+  JOIN public.students s ON s.id = sc.student_id
+  LEFT JOIN public.attendance a
+    ON a.student_id = s.id
+    AND a.class_id = sc.class_id
+    AND a.date BETWEEN p_start_date AND p_end_date
+  LEFT JOIN public.attendance_statuses st ON st.school_id = a.school_id AND st.code = a.status
+  WHERE sc.class_id = p_class_id
+  AND COALESCE(sc.is_active, true)
+  GROUP BY s.id, s.name
+  ORDER BY s.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_attendance_stats(UUID, DATE, DATE) TO authenticated;
+
+-- present_count becomes a weighted (fractional) count
+DROP FUNCTION IF EXISTS public.get_class_attendance_summary(UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.get_class_attendance_summary(
+  p_class_id UUID,
+  p_by_period BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  class_id UUID,
+  student_id UUID,
+  student_name TEXT,
+  period_number INT,
+  subject TEXT,
+  present_count NUMERIC,
+  total_classes BIGINT,
+  attendance_percentage NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Verify caller is a member of the class's school and may see the class
+  IF NOT EXISTS (
+    SELECT 1 FROM public.classes c
+    JOIN public.school_members sm ON sm.school_id = c.school_id
+    WHERE c.id = p_class_id
+    AND sm.user_id = auth.uid()
+  ) OR NOT public.can_view_class(p_class_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_by_period THEN
+    -- Periods are marked present/absent/late only
+    RETURN QUERY
+    SELECT
+      p_class_id,
+      s.id,
+      s.name::TEXT,
+      p.period_number::INT,
+      MAX(p.subject),
+      COUNT(*) FILTER (WHERE p.status IN ('present', 'late'))::NUMERIC,
+      COUNT(*),
+      ROUND(100.0 * COUNT(*) FILTER (WHERE p.status IN ('present', 'late')) / COUNT(*), 2)
+    FROM public.student_classes sc
+    JOIN public.students s ON s.id = sc.student_id
+    JOIN public.attendance_periods p ON p.student_id = s.id AND p.class_id = sc.class_id
+    WHERE sc.class_id = p_class_id
+    AND COALESCE(sc.is_active, true)
+    GROUP BY s.id, s.name, p.period_number
+    ORDER BY s.name, p.period_number;
+  ELSE
+    RETURN QUERY
+    SELECT
+      p_class_id,
+      s.id,
+      s.name::TEXT,
+      NULL::INT,
+      NULL::TEXT,
+      COALESCE(SUM(st.credit), 0),
+      COUNT(st.credit),
+      CASE WHEN COUNT(st.credit) = 0 THEN 0::NUMERIC
+        ELSE ROUND(100.0 * SUM(st.credit) / COUNT(st.credit), 2)
+      END
+    FROM public.student_classes sc
+    JOIN public.students s ON s.id = sc.student_id
+    LEFT JOIN public.attendance a ON a.student_id = s.id AND a.class_id = sc.class_id
+    LEFT JOIN public.attendance_statuses st ON st.school_id = a.school_id AND st.code = a.status
+    WHERE sc.class_id = p_class_id
+    AND COALESCE(sc.is_active, true)
+    GROUP BY s.id, s.name
+    ORDER BY s.name;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_class_attendance_summary(UUID, BOOLEAN) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_student_attendance_ranking(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_student_attendance_ranking(p_class_id UUID)
+RETURNS TABLE (
+  student_id UUID,
+  student_name TEXT,
+  attendance_percentage NUMERIC,
+  rank INT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.classes c
+    JOIN public.school_members sm ON sm.school_id = c.school_id
+    WHERE c.id = p_class_id
+    AND sm.user_id = auth.uid()
+  ) OR NOT public.can_view_class(p_class_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    summary.student_id,
+    summary.student_name,
+    summary.attendance_percentage,
+    (RANK() OVER (ORDER BY summary.attendance_percentage DESC))::INT
+  FROM public.get_class_attendance_summary(p_class_id, false) summary
+  ORDER BY 4, summary.student_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_student_attendance_ranking(UUID) TO authenticated;
+
+SELECT 'Configurable attendance statuses created' AS status;
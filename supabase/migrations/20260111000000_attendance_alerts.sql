@@ -0,0 +1,181 @@
+-- ============================================================================
+-- Migration: Chronic Absenteeism Alerts
+-- Created: 2026-01-11
+--
+-- This migration:
+-- 1. Creates set_attendance_alert_rules() - principal-only, stores thresholds in schools.settings
+-- 2. Creates get_attendance_alerts() - at-risk students with their trend
+--
+-- Rules live in schools.settings -> 'attendance_alerts':
+--   {
+--     "enabled": true,
+--     "min_percentage": 75,        -- alert below this percentage ...
+--     "window_days": 30,           -- ... over the last N days
+--     "consecutive_absences": 3    -- alert after N absences in a row
+--   }
+--
+-- Alerts are NOT stored. They are derived on every read, weighting statuses by
+-- attendance_statuses.credit: excused days are ignored, half days count half.
+-- The trend compares the current window with the window before it.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: set_attendance_alert_rules (principal only)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_attendance_alert_rules(p_school_id UUID, p_rules JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF COALESCE((p_rules->>'min_percentage')::NUMERIC, -1) NOT BETWEEN 0 AND 100 THEN
+    RAISE EXCEPTION 'Minimum percentage must be between 0 and 100';
+  END IF;
+
+  IF COALESCE((p_rules->>'window_days')::INT, 0) NOT BETWEEN 7 AND 365 THEN
+    RAISE EXCEPTION 'Window must be between 7 and 365 days';
+  END IF;
+
+  IF COALESCE((p_rules->>'consecutive_absences')::INT, 0) < 1 THEN
+    RAISE EXCEPTION 'Consecutive absences must be at least 1';
+  END IF;
+
+  UPDATE public.schools
+  SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('attendance_alerts', p_rules),
+      updated_at = now()
+  WHERE id = p_school_id;
+
+  RETURN p_rules;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_attendance_alert_rules(UUID, JSONB) TO authenticated;
+
+-- ============================================================================
+-- STEP 2: get_attendance_alerts
+-- ============================================================================
+
+-- Principals see the whole school, teachers the classes they can view
+CREATE OR REPLACE FUNCTION public.get_attendance_alerts(
+  p_school_id UUID,
+  p_class_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  student_id UUID,
+  student_name TEXT,
+  class_id UUID,
+  class_name TEXT,
+  attendance_percentage NUMERIC,
+  previous_percentage NUMERIC,
+  marked_days BIGINT,
+  consecutive_absences INT,
+  last_present_date DATE,
+  below_threshold BOOLEAN,
+  absence_streak BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules JSONB;
+  v_min NUMERIC;
+  v_window INT;
+  v_streak INT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members sm
+    WHERE sm.user_id = auth.uid()
+    AND sm.school_id = p_school_id
+    AND sm.role IN ('principal', 'teacher')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT s.settings->'attendance_alerts' INTO v_rules FROM public.schools s WHERE s.id = p_school_id;
+
+  IF (v_rules->>'enabled')::BOOLEAN IS FALSE THEN
+    RETURN;
+  END IF;
+
+  v_min := COALESCE((v_rules->>'min_percentage')::NUMERIC, 75);
+  v_window := COALESCE((v_rules->>'window_days')::INT, 30);
+  v_streak := COALESCE((v_rules->>'consecutive_absences')::INT, 3);
+
+  RETURN QUERY
+  WITH roster AS (
+    SELECT s.id AS r_student_id, s.name::TEXT AS r_student_name, c.id AS r_class_id, c.name::TEXT AS r_class_name
+    FROM public.classes c
+    JOIN public.student_classes sc ON sc.class_id = c.id AND COALESCE(sc.is_active, true)
+    JOIN public.students s ON s.id = sc.student_id AND NOT COALESCE(s.is_archived, false)
+    WHERE c.school_id = p_school_id
+    AND COALESCE(c.is_active, true)
+    AND (p_class_id IS NULL OR c.id = p_class_id)
+    AND public.can_view_class(c.id)
+  ),
+  -- Two windows of counted days (excused statuses have no credit and are skipped)
+  marks AS (
+    SELECT a.student_id AS m_student_id, a.date AS m_date, st.credit AS m_credit
+    FROM public.attendance a
+    JOIN public.attendance_statuses st ON st.school_id = a.school_id AND st.code = a.status
+    WHERE a.school_id = p_school_id
+    AND a.date > CURRENT_DATE - 2 * v_window
+    AND a.date <= CURRENT_DATE
+    AND st.credit IS NOT NULL
+    AND a.student_id IN (SELECT r.r_student_id FROM roster r)
+  ),
+  windows AS (
+    SELECT
+      m.m_student_id AS w_student_id,
+      ROUND(100 * AVG(m.m_credit) FILTER (WHERE m.m_date > CURRENT_DATE - v_window), 2) AS w_current,
+      ROUND(100 * AVG(m.m_credit) FILTER (WHERE m.m_date <= CURRENT_DATE - v_window), 2) AS w_previous,
+      COUNT(*) FILTER (WHERE m.m_date > CURRENT_DATE - v_window) AS w_marked,
+      MAX(m.m_date) FILTER (WHERE m.m_credit > 0) AS w_last_present
+    FROM marks m
+    GROUP BY m.m_student_id
+  ),
+  -- Absences since the last day with any attendance credit
+  streaks AS (
+    SELECT m.m_student_id AS s_student_id, COUNT(*)::INT AS s_streak
+    FROM marks m
+    JOIN windows w ON w.w_student_id = m.m_student_id
+    WHERE m.m_credit = 0
+    AND (w.w_last_present IS NULL OR m.m_date > w.w_last_present)
+    GROUP BY m.m_student_id
+  )
+  SELECT
+    r.r_student_id,
+    r.r_student_name,
+    r.r_class_id,
+    r.r_class_name,
+    w.w_current,
+    w.w_previous,
+    w.w_marked,
+    COALESCE(st.s_streak, 0),
+    w.w_last_present,
+    COALESCE(w.w_current < v_min, false),
+    COALESCE(st.s_streak, 0) >= v_streak
+  FROM roster r
+  JOIN windows w ON w.w_student_id = r.r_student_id
+  LEFT JOIN streaks st ON st.s_student_id = r.r_student_id
+  WHERE w.w_current < v_min OR COALESCE(st.s_streak, 0) >= v_streak
+  ORDER BY COALESCE(st.s_streak, 0) >= v_streak DESC, w.w_current ASC NULLS LAST, r.r_student_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_attendance_alerts(UUID, UUID) TO authenticated;
+
+SELECT 'Attendance alerts created' AS status;
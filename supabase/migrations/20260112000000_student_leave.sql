@@ -0,0 +1,368 @@
+-- ============================================================================
+-- Migration: Student Leave Requests
+-- Created: 2026-01-12
+--
+-- This migration:
+-- 1. Creates student_leave_requests - planned absence for a date range
+-- 2. Creates request_student_leave() - staff on behalf of a guardian, or a parent
+-- 3. Creates decide_student_leave() - class teacher or principal approves / rejects
+-- 4. Creates cancel_student_leave() - withdraw a pending request
+-- 5. Replaces get_class_attendance_paginated() so unmarked students on approved
+--    leave come back pre-filled with the leave status and reason
+--
+-- Leave is recorded with one of the school's excused statuses (credit IS NULL,
+-- e.g. excused, medical) and a reason valid for that status. Approval does not
+-- write attendance for future days - the roster is pre-filled and the teacher
+-- saves it as usual - but days already marked absent are switched to the leave
+-- status, since those absences are now excused.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: student_leave_requests
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.student_leave_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  class_id UUID REFERENCES public.classes(id) ON DELETE SET NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  attendance_status TEXT NOT NULL DEFAULT 'excused',
+  reason_code TEXT NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  requested_by_guardian BOOLEAN NOT NULL DEFAULT false,
+  decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ,
+  decision_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_leave_requests_school ON public.student_leave_requests(school_id, status);
+CREATE INDEX IF NOT EXISTS idx_student_leave_requests_student ON public.student_leave_requests(student_id, start_date, end_date);
+
+-- Rows are written by the functions below only
+ALTER TABLE public.student_leave_requests ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON public.student_leave_requests TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.student_leave_requests TO service_role;
+
+-- Principals see the whole school, teachers the classes they can view
+CREATE POLICY "Staff can view leave requests"
+    ON public.student_leave_requests
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = student_leave_requests.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role IN ('principal', 'teacher')
+      )
+      AND (class_id IS NULL OR public.can_view_class(class_id))
+    );
+
+CREATE POLICY "Parents can view their children's leave requests"
+    ON public.student_leave_requests
+    FOR SELECT
+    USING (public.is_guardian_of_student(student_id));
+
+-- ============================================================================
+-- STEP 2: request_student_leave
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.request_student_leave(
+  p_student_id UUID,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_attendance_status TEXT,
+  p_reason_code TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID;
+  v_class_id UUID;
+  v_is_guardian BOOLEAN;
+  v_status public.attendance_statuses;
+  v_reason TEXT;
+  v_id UUID;
+BEGIN
+  SELECT COALESCE(s.school_id, (SELECT sch.id FROM public.schools sch WHERE sch.owner_id = s.user_id LIMIT 1))
+  INTO v_school_id
+  FROM public.students s
+  WHERE s.id = p_student_id;
+  IF v_school_id IS NULL THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  SELECT sc.class_id INTO v_class_id
+  FROM public.student_classes sc
+  WHERE sc.student_id = p_student_id
+  AND COALESCE(sc.is_active, true)
+  ORDER BY sc.enrolled_at DESC NULLS LAST
+  LIMIT 1;
+
+  -- Verify caller is a guardian, principal, or a teacher who can see the student's class
+  v_is_guardian := public.is_guardian_of_student(p_student_id);
+  IF NOT v_is_guardian AND (
+    NOT EXISTS (
+      SELECT 1 FROM public.school_members
+      WHERE user_id = auth.uid()
+      AND school_id = v_school_id
+      AND role IN ('principal', 'teacher')
+    ) OR (v_class_id IS NOT NULL AND NOT public.can_view_class(v_class_id))
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_start_date IS NULL OR p_end_date IS NULL OR p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after the start date';
+  END IF;
+
+  IF p_end_date - p_start_date > 60 THEN
+    RAISE EXCEPTION 'Leave cannot be longer than 60 days';
+  END IF;
+
+  -- Leave is recorded with a status left out of the percentage (excused, medical, ...)
+  SELECT * INTO v_status
+  FROM public.attendance_statuses
+  WHERE school_id = v_school_id
+  AND code = COALESCE(p_attendance_status, 'excused')
+  AND is_active
+  AND credit IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown leave type: %', p_attendance_status;
+  END IF;
+
+  v_reason := NULLIF(trim(p_reason_code), '');
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+  IF cardinality(v_status.reason_codes) > 0 AND NOT v_reason = ANY (v_status.reason_codes) THEN
+    RAISE EXCEPTION 'Invalid reason for %: %', v_status.label, v_reason;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.student_leave_requests
+    WHERE student_id = p_student_id
+    AND status IN ('pending', 'approved')
+    AND start_date <= p_end_date
+    AND end_date >= p_start_date
+  ) THEN
+    RAISE EXCEPTION 'Leave already requested for these dates';
+  END IF;
+
+  INSERT INTO public.student_leave_requests (
+    school_id, student_id, class_id, start_date, end_date, attendance_status,
+    reason_code, notes, requested_by, requested_by_guardian
+  )
+  VALUES (
+    v_school_id, p_student_id, v_class_id, p_start_date, p_end_date, v_status.code,
+    v_reason, NULLIF(trim(p_notes), ''), auth.uid(), v_is_guardian
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_student_leave(UUID, DATE, DATE, TEXT, TEXT, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: decide_student_leave (class teacher or principal)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.decide_student_leave(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.student_leave_requests;
+BEGIN
+  SELECT * INTO v_request FROM public.student_leave_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  -- Verify caller is principal, or the class teacher of the student's class
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members sm
+    WHERE sm.user_id = auth.uid()
+    AND sm.school_id = v_request.school_id
+    AND (
+      sm.role = 'principal'
+      OR (sm.role = 'teacher' AND EXISTS (
+        SELECT 1 FROM public.classes c
+        WHERE c.id = v_request.class_id
+        AND c.teacher_id = auth.uid()
+      ))
+    )
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Leave request is already %', v_request.status;
+  END IF;
+
+  UPDATE public.student_leave_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      decision_note = NULLIF(trim(p_note), ''),
+      updated_at = now()
+  WHERE id = p_request_id;
+
+  IF NOT p_approve THEN
+    RETURN;
+  END IF;
+
+  -- Days already marked as absences become the leave status
+  UPDATE public.attendance a
+  SET status = v_request.attendance_status,
+      reason_code = v_request.reason_code,
+      arrival_time = NULL,
+      marked_by = auth.uid(),
+      updated_at = now()
+  FROM public.attendance_statuses st
+  WHERE st.school_id = a.school_id
+  AND st.code = a.status
+  AND st.credit = 0
+  AND a.student_id = v_request.student_id
+  AND a.date BETWEEN v_request.start_date AND v_request.end_date;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.decide_student_leave(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 4: cancel_student_leave (requester or principal, while pending)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.cancel_student_leave(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.student_leave_requests;
+BEGIN
+  SELECT * INTO v_request FROM public.student_leave_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF v_request.requested_by IS DISTINCT FROM auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_request.school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending requests can be cancelled';
+  END IF;
+
+  UPDATE public.student_leave_requests
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE id = p_request_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_student_leave(UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 5: get_class_attendance_paginated with approved leave
+-- ============================================================================
+
+-- Return type gains reason_code, arrival_time and leave_request_id
+DROP FUNCTION IF EXISTS public.get_class_attendance_paginated(UUID, DATE, INT, INT);
+
+CREATE OR REPLACE FUNCTION public.get_class_attendance_paginated(
+  p_class_id UUID,
+  p_date DATE,
+  p_page INT DEFAULT 1,
+  p_limit INT DEFAULT 50
+)
+RETURNS TABLE (
+  student_id UUID,
+  student_name TEXT,
+  status TEXT,
+  notes TEXT,
+  reason_code TEXT,
+  arrival_time TIME,
+  leave_request_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID;
+BEGIN
+  SELECT c.school_id INTO v_school_id FROM public.classes c WHERE c.id = p_class_id;
+  IF v_school_id IS NULL THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members sm
+    WHERE sm.user_id = auth.uid()
+    AND sm.school_id = v_school_id
+    AND sm.role IN ('principal', 'teacher')
+  ) OR NOT public.can_view_class(p_class_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.name::TEXT,
+    COALESCE(a.status, l.attendance_status, 'unmarked')::TEXT,
+    a.notes::TEXT,
+    CASE WHEN a.id IS NULL THEN l.reason_code ELSE a.reason_code END,
+    a.arrival_time,
+    l.id
+  FROM public.student_classes sc
+  JOIN public.students s ON s.id = sc.student_id AND NOT COALESCE(s.is_archived, false)
+  LEFT JOIN public.attendance a ON a.student_id = s.id AND a.date = p_date
+  LEFT JOIN LATERAL (
+    SELECT lr.id, lr.attendance_status, lr.reason_code
+    FROM public.student_leave_requests lr
+    WHERE lr.student_id = s.id
+    AND lr.status = 'approved'
+    AND p_date BETWEEN lr.start_date AND lr.end_date
+    ORDER BY lr.decided_at DESC
+    LIMIT 1
+  ) l ON true
+  WHERE sc.class_id = p_class_id
+  AND COALESCE(sc.is_active, true)
+  ORDER BY s.name
+  LIMIT GREATEST(p_limit, 1)
+  OFFSET (GREATEST(p_page, 1) - 1) * GREATEST(p_limit, 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_class_attendance_paginated(UUID, DATE, INT, INT) TO authenticated;
+
+SELECT 'Student leave requests created' AS status;
@@ -0,0 +1,405 @@
+-- ============================================================================
+-- Migration: School Calendar and Working Days
+-- Created: 2026-01-13
+--
+-- This migration:
+-- 1. Creates school_calendar_events - holidays, exam days, term start/end, events
+-- 2. Creates set_school_weekly_offs() - principal-only, stores weekly offs in schools.settings
+-- 3. Creates school_weekly_offs(), is_school_working_day() and count_school_working_days()
+-- 4. Replaces get_attendance_stats() to count working days only
+-- 5. Replaces get_attendance_alerts() to skip marks on non-working days
+--
+-- Weekly offs live in schools.settings -> 'calendar':
+--   { "weekly_offs": [7] }         -- ISO weekdays, 1 = Monday ... 7 = Sunday
+-- Schools that never set them get Sunday off.
+--
+-- A working day is any day that is not a weekly off and not inside a holiday
+-- event. Exam days, term start/end and other events are still working days.
+-- Events keep an iCal UID so re-importing a calendar updates instead of duplicating.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: school_calendar_events
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.school_calendar_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  event_type TEXT NOT NULL DEFAULT 'holiday'
+    CHECK (event_type IN ('holiday', 'exam', 'term_start', 'term_end', 'event')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  description TEXT,
+  uid TEXT NOT NULL DEFAULT gen_random_uuid()::TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date),
+  UNIQUE (school_id, uid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_school_calendar_events_dates
+  ON public.school_calendar_events(school_id, start_date, end_date);
+
+ALTER TABLE public.school_calendar_events ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.school_calendar_events TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.school_calendar_events TO service_role;
+
+CREATE POLICY "Members can view school calendar"
+    ON public.school_calendar_events
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = school_calendar_events.school_id
+        AND sm.user_id = auth.uid()
+      )
+    );
+
+CREATE POLICY "Principals can add calendar events"
+    ON public.school_calendar_events
+    FOR INSERT
+    WITH CHECK (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = school_calendar_events.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role = 'principal'
+      )
+    );
+
+CREATE POLICY "Principals can update calendar events"
+    ON public.school_calendar_events
+    FOR UPDATE
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = school_calendar_events.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role = 'principal'
+      )
+    )
+    WITH CHECK (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = school_calendar_events.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role = 'principal'
+      )
+    );
+
+CREATE POLICY "Principals can delete calendar events"
+    ON public.school_calendar_events
+    FOR DELETE
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = school_calendar_events.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role = 'principal'
+      )
+    );
+
+-- ============================================================================
+-- STEP 2: set_school_weekly_offs (principal only)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_school_weekly_offs(p_school_id UUID, p_weekly_offs INT[])
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_days INT[];
+  v_setting JSONB;
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT d ORDER BY d), '{}') INTO v_days
+  FROM unnest(COALESCE(p_weekly_offs, '{}')) AS d;
+
+  IF EXISTS (SELECT 1 FROM unnest(v_days) AS d WHERE d NOT BETWEEN 1 AND 7) THEN
+    RAISE EXCEPTION 'Weekly offs must be weekdays 1 (Monday) to 7 (Sunday)';
+  END IF;
+
+  IF cardinality(v_days) >= 7 THEN
+    RAISE EXCEPTION 'At least one day of the week must be a working day';
+  END IF;
+
+  SELECT COALESCE(s.settings->'calendar', '{}'::jsonb) || jsonb_build_object('weekly_offs', to_jsonb(v_days))
+  INTO v_setting
+  FROM public.schools s
+  WHERE s.id = p_school_id;
+
+  UPDATE public.schools
+  SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('calendar', v_setting),
+      updated_at = now()
+  WHERE id = p_school_id;
+
+  RETURN v_setting;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_school_weekly_offs(UUID, INT[]) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: Working-day helpers
+-- ============================================================================
+
+-- ISO weekdays the school is closed on (Sunday unless configured)
+CREATE OR REPLACE FUNCTION public.school_weekly_offs(p_school_id UUID)
+RETURNS INT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE
+        WHEN jsonb_typeof(s.settings->'calendar'->'weekly_offs') = 'array'
+          THEN ARRAY(SELECT jsonb_array_elements_text(s.settings->'calendar'->'weekly_offs')::INT)
+      END
+      FROM public.schools s
+      WHERE s.id = p_school_id
+    ),
+    ARRAY[7]
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_school_working_day(p_school_id UUID, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT (EXTRACT(ISODOW FROM p_date)::INT = ANY (public.school_weekly_offs(p_school_id)))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.school_calendar_events e
+      WHERE e.school_id = p_school_id
+      AND e.event_type = 'holiday'
+      AND p_date BETWEEN e.start_date AND e.end_date
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_school_working_days(p_school_id UUID, p_start_date DATE, p_end_date DATE)
+RETURNS INT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INT
+  FROM generate_series(p_start_date, p_end_date, INTERVAL '1 day') AS d
+  WHERE public.is_school_working_day(p_school_id, d::DATE);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.school_weekly_offs(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_school_working_day(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.count_school_working_days(UUID, DATE, DATE) TO authenticated;
+
+-- ============================================================================
+-- STEP 4: get_attendance_stats over working days
+-- ============================================================================
+
+-- Return type gains working_days; marks on holidays and weekly offs are ignored
+DROP FUNCTION IF EXISTS public.get_attendance_stats(UUID, DATE, DATE);
+
+CREATE OR REPLACE FUNCTION public.get_attendance_stats(
+  p_class_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS TABLE (
+  student_id UUID,
+  student_name TEXT,
+  present_days BIGINT,
+  absent_days BIGINT,
+  late_days BIGINT,
+  half_days BIGINT,
+  excused_days BIGINT,
+  total_days BIGINT,
+  working_days INT,
+  attendance_pct NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID;
+  v_working_days INT;
+BEGIN
+  SELECT c.school_id INTO v_school_id FROM public.classes c WHERE c.id = p_class_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members sm
+    WHERE sm.school_id = v_school_id
+    AND sm.user_id = auth.uid()
+  ) OR NOT public.can_view_class(p_class_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  v_working_days := public.count_school_working_days(v_school_id, p_start_date, LEAST(p_end_date, CURRENT_DATE));
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.name::TEXT,
+    COUNT(a.id) FILTER (WHERE a.status = 'present'),
+    COUNT(a.id) FILTER (WHERE st.credit = 0),
+    COUNT(a.id) FILTER (WHERE a.status = 'late'),
+    COUNT(a.id) FILTER (WHERE st.credit > 0 AND st.credit < 1),
+    COUNT(a.id) FILTER (WHERE a.id IS NOT NULL AND st.credit IS NULL),
+    COUNT(a.id),
+    v_working_days,
+    CASE WHEN COUNT(st.credit) = 0 THEN 0::NUMERIC
+      ELSE ROUND(100.0 * SUM(st.credit) / COUNT(st.credit), 2)
+    END
+  FROM public.student_classes sc
+  JOIN public.students s ON s.id = sc.student_id
+  LEFT JOIN public.attendance a
+    ON a.student_id = s.id
+    AND a.class_id = sc.class_id
+    AND a.date BETWEEN p_start_date AND p_end_date
+    AND public.is_school_working_day(a.school_id, a.date)
+  LEFT JOIN public.attendance_statuses st ON st.school_id = a.school_id AND st.code = a.status
+  WHERE sc.class_id = p_class_id
+  AND COALESCE(sc.is_active, true)
+  GROUP BY s.id, s.name
+  ORDER BY s.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_attendance_stats(UUID, DATE, DATE) TO authenticated;
+
+-- ============================================================================
+-- STEP 5: get_attendance_alerts over working days
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_attendance_alerts(
+  p_school_id UUID,
+  p_class_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  student_id UUID,
+  student_name TEXT,
+  class_id UUID,
+  class_name TEXT,
+  attendance_percentage NUMERIC,
+  previous_percentage NUMERIC,
+  marked_days BIGINT,
+  consecutive_absences INT,
+  last_present_date DATE,
+  below_threshold BOOLEAN,
+  absence_streak BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules JSONB;
+  v_min NUMERIC;
+  v_window INT;
+  v_streak INT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members sm
+    WHERE sm.user_id = auth.uid()
+    AND sm.school_id = p_school_id
+    AND sm.role IN ('principal', 'teacher')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT s.settings->'attendance_alerts' INTO v_rules FROM public.schools s WHERE s.id = p_school_id;
+
+  IF (v_rules->>'enabled')::BOOLEAN IS FALSE THEN
+    RETURN;
+  END IF;
+
+  v_min := COALESCE((v_rules->>'min_percentage')::NUMERIC, 75);
+  v_window := COALESCE((v_rules->>'window_days')::INT, 30);
+  v_streak := COALESCE((v_rules->>'consecutive_absences')::INT, 3);
+
+  RETURN QUERY
+  WITH roster AS (
+    SELECT s.id AS r_student_id, s.name::TEXT AS r_student_name, c.id AS r_class_id, c.name::TEXT AS r_class_name
+    FROM public.classes c
+    JOIN public.student_classes sc ON sc.class_id = c.id AND COALESCE(sc.is_active, true)
+    JOIN public.students s ON s.id = sc.student_id AND NOT COALESCE(s.is_archived, false)
+    WHERE c.school_id = p_school_id
+    AND COALESCE(c.is_active, true)
+    AND (p_class_id IS NULL OR c.id = p_class_id)
+    AND public.can_view_class(c.id)
+  ),
+  -- Two windows of counted days (excused statuses have no credit and are skipped,
+  -- as are marks left on holidays and weekly offs)
+  marks AS (
+    SELECT a.student_id AS m_student_id, a.date AS m_date, st.credit AS m_credit
+    FROM public.attendance a
+    JOIN public.attendance_statuses st ON st.school_id = a.school_id AND st.code = a.status
+    WHERE a.school_id = p_school_id
+    AND a.date > CURRENT_DATE - 2 * v_window
+    AND a.date <= CURRENT_DATE
+    AND st.credit IS NOT NULL
+    AND a.student_id IN (SELECT r.r_student_id FROM roster r)
+    AND public.is_school_working_day(p_school_id, a.date)
+  ),
+  windows AS (
+    SELECT
+      m.m_student_id AS w_student_id,
+      ROUND(100 * AVG(m.m_credit) FILTER (WHERE m.m_date > CURRENT_DATE - v_window), 2) AS w_current,
+      ROUND(100 * AVG(m.m_credit) FILTER (WHERE m.m_date <= CURRENT_DATE - v_window), 2) AS w_previous,
+      COUNT(*) FILTER (WHERE m.m_date > CURRENT_DATE - v_window) AS w_marked,
+      MAX(m.m_date) FILTER (WHERE m.m_credit > 0) AS w_last_present
+    FROM marks m
+    GROUP BY m.m_student_id
+  ),
+  -- Absences since the last day with any attendance credit
+  streaks AS (
+    SELECT m.m_student_id AS s_student_id, COUNT(*)::INT AS s_streak
+    FROM marks m
+    JOIN windows w ON w.w_student_id = m.m_student_id
+    WHERE m.m_credit = 0
+    AND (w.w_last_present IS NULL OR m.m_date > w.w_last_present)
+    GROUP BY m.m_student_id
+  )
+  SELECT
+    r.r_student_id,
+    r.r_student_name,
+    r.r_class_id,
+    r.r_class_name,
+    w.w_current,
+    w.w_previous,
+    w.w_marked,
+    COALESCE(st.s_streak, 0),
+    w.w_last_present,
+    COALESCE(w.w_current < v_min, false),
+    COALESCE(st.s_streak, 0) >= v_streak
+  FROM roster r
+  JOIN windows w ON w.w_student_id = r.r_student_id
+  LEFT JOIN streaks st ON st.s_student_id = r.r_student_id
+  WHERE w.w_current < v_min OR COALESCE(st.s_streak, 0) >= v_streak
+  ORDER BY COALESCE(st.s_streak, 0) >= v_streak DESC, w.w_current ASC NULLS LAST, r.r_student_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_attendance_alerts(UUID, UUID) TO authenticated;
+
+SELECT 'School calendar created' AS status;
@@ -0,0 +1,397 @@
+-- ============================================================================
+-- Migration: Payroll Runs
+-- Created: 2026-01-14
+--
+-- This migration:
+-- 1. Creates payroll_runs - one per school and month, draft until finalised
+-- 2. Adds payroll_run_id / status to salaries (existing rows stay 'paid')
+-- 3. Creates refresh_staff_salary_totals() - staff.paid_salary derived from paid
+--    salaries instead of kept by hand, expected_salary_expense re-accrued with
+--    payroll bonuses and deductions
+-- 4. Creates create_payroll_run() - drafts a salaries row per active staff member
+-- 5. Creates update_payroll_line() - bonus / deductions on a draft line
+-- 6. Creates finalize_payroll_run() / delete_payroll_run()
+-- 7. Recreates get_report_summary() on paid salaries only
+--
+-- Principal or accountant only. The base amount is staff.salary for monthly
+-- staff and salary / 12 for annual staff, prorated by calendar days for staff
+-- who join during the month. Draft lines count toward neither paid_salary nor
+-- the salary totals in reports until the run is finalised.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: payroll_runs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.payroll_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'finalized')),
+  payment_date DATE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  finalized_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  finalized_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (school_id, period_start),
+  CHECK (period_end >= period_start)
+);
+
+-- Rows are written by the functions below only
+ALTER TABLE public.payroll_runs ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON public.payroll_runs TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.payroll_runs TO service_role;
+
+CREATE POLICY "Finance staff can view payroll runs"
+    ON public.payroll_runs
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = payroll_runs.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role IN ('principal', 'accountant')
+      )
+    );
+
+-- ============================================================================
+-- STEP 2: salaries belong to a run
+-- ============================================================================
+
+ALTER TABLE public.salaries
+  ADD COLUMN IF NOT EXISTS payroll_run_id UUID REFERENCES public.payroll_runs(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'paid';
+
+ALTER TABLE public.salaries DROP CONSTRAINT IF EXISTS salaries_status_check;
+ALTER TABLE public.salaries ADD CONSTRAINT salaries_status_check CHECK (status IN ('draft', 'paid'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_salaries_run_staff ON public.salaries(payroll_run_id, staff_id)
+  WHERE payroll_run_id IS NOT NULL;
+
+-- ============================================================================
+-- STEP 3: refresh_staff_salary_totals
+-- ============================================================================
+
+-- expected = salary accrued since joining, adjusted by payroll bonuses and deductions
+-- paid = salary lines that were paid
+CREATE OR REPLACE FUNCTION public.refresh_staff_salary_totals(p_staff_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.staff st
+  SET expected_salary_expense = public.calculate_expected_staff_expense(
+        p_salary => st.salary,
+        p_salary_type => COALESCE(st.salary_type, 'monthly'),
+        p_join_date => COALESCE(st.join_date, st.hire_date),
+        p_as_of_date => CURRENT_DATE
+      ) + COALESCE(t.adjustments, 0),
+      paid_salary = COALESCE(t.paid, 0),
+      updated_at = now()
+  FROM (
+    SELECT s.id,
+           SUM(COALESCE(sal.bonus, 0) - COALESCE(sal.deductions, 0))
+             FILTER (WHERE sal.payroll_run_id IS NOT NULL) AS adjustments,
+           SUM(sal.net_amount) FILTER (WHERE sal.status = 'paid') AS paid
+    FROM public.staff s
+    LEFT JOIN public.salaries sal ON sal.staff_id = s.id
+    WHERE s.id = ANY(p_staff_ids)
+    GROUP BY s.id
+  ) t
+  WHERE st.id = t.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_staff_salary_totals(UUID[]) FROM PUBLIC;
+
+-- ============================================================================
+-- STEP 4: create_payroll_run
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_payroll_run(p_school_id UUID, p_month DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start DATE := date_trunc('month', p_month)::DATE;
+  v_end DATE := (date_trunc('month', p_month) + INTERVAL '1 month - 1 day')::DATE;
+  v_days INT;
+  v_run_id UUID;
+  v_staff_ids UUID[];
+BEGIN
+  -- Verify caller is principal or accountant of the school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payroll_runs WHERE school_id = p_school_id AND period_start = v_start) THEN
+    RAISE EXCEPTION 'A payroll run for % already exists', to_char(v_start, 'FMMonth YYYY');
+  END IF;
+
+  v_days := v_end - v_start + 1;
+
+  INSERT INTO public.payroll_runs (school_id, period_start, period_end, created_by)
+  VALUES (p_school_id, v_start, v_end, auth.uid())
+  RETURNING id INTO v_run_id;
+
+  WITH lines AS (
+    INSERT INTO public.salaries (
+      staff_id, user_id, amount, bonus, deductions, net_amount,
+      pay_period_start, pay_period_end, payment_date, payroll_run_id, status
+    )
+    SELECT s.id, s.user_id, b.amount, 0, 0, b.amount,
+           GREATEST(v_start, b.joined), v_end, v_end, v_run_id, 'draft'
+    FROM public.staff s
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(s.join_date, s.hire_date) AS joined,
+             CASE WHEN lower(COALESCE(s.salary_type, 'monthly')) IN ('annual', 'annually')
+                  THEN s.salary / 12
+                  ELSE s.salary
+             END AS monthly
+    ) m
+    CROSS JOIN LATERAL (
+      SELECT m.joined,
+             round(
+               CASE WHEN m.joined > v_start
+                    THEN m.monthly * (v_end - m.joined + 1) / v_days
+                    ELSE m.monthly
+               END, 2
+             ) AS amount
+    ) b
+    WHERE NOT COALESCE(s.is_archived, false)
+    AND COALESCE(s.school_id, (SELECT sch.id FROM public.schools sch WHERE sch.owner_id = s.user_id LIMIT 1)) = p_school_id
+    AND (b.joined IS NULL OR b.joined <= v_end)
+    RETURNING staff_id
+  )
+  SELECT array_agg(staff_id) INTO v_staff_ids FROM lines;
+
+  IF v_staff_ids IS NULL THEN
+    RAISE EXCEPTION 'No active staff to pay for %', to_char(v_start, 'FMMonth YYYY');
+  END IF;
+
+  PERFORM public.refresh_staff_salary_totals(v_staff_ids);
+
+  RETURN v_run_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_payroll_run(UUID, DATE) TO authenticated;
+
+-- ============================================================================
+-- STEP 5: update_payroll_line
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.update_payroll_line(p_salary_id UUID, p_bonus NUMERIC, p_deductions NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.salaries;
+  v_school_id UUID;
+BEGIN
+  SELECT * INTO v_line FROM public.salaries WHERE id = p_salary_id FOR UPDATE;
+  IF NOT FOUND OR v_line.payroll_run_id IS NULL THEN
+    RAISE EXCEPTION 'Payroll line not found';
+  END IF;
+
+  SELECT school_id INTO v_school_id FROM public.payroll_runs WHERE id = v_line.payroll_run_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_line.status <> 'draft' THEN
+    RAISE EXCEPTION 'Finalised payroll lines cannot be edited';
+  END IF;
+  IF COALESCE(p_bonus, 0) < 0 OR COALESCE(p_deductions, 0) < 0 THEN
+    RAISE EXCEPTION 'Bonus and deductions cannot be negative';
+  END IF;
+  IF v_line.amount + COALESCE(p_bonus, 0) - COALESCE(p_deductions, 0) < 0 THEN
+    RAISE EXCEPTION 'Deductions exceed the salary';
+  END IF;
+
+  UPDATE public.salaries
+  SET bonus = COALESCE(p_bonus, 0),
+      deductions = COALESCE(p_deductions, 0),
+      net_amount = amount + COALESCE(p_bonus, 0) - COALESCE(p_deductions, 0),
+      updated_at = now()
+  WHERE id = p_salary_id;
+
+  PERFORM public.refresh_staff_salary_totals(ARRAY[v_line.staff_id]);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_payroll_line(UUID, NUMERIC, NUMERIC) TO authenticated;
+
+-- ============================================================================
+-- STEP 6: finalize_payroll_run / delete_payroll_run
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.finalize_payroll_run(p_run_id UUID, p_payment_date DATE DEFAULT CURRENT_DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run public.payroll_runs;
+  v_staff_ids UUID[];
+BEGIN
+  SELECT * INTO v_run FROM public.payroll_runs WHERE id = p_run_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll run not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_run.school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_run.status <> 'draft' THEN
+    RAISE EXCEPTION 'Payroll run is already finalised';
+  END IF;
+
+  UPDATE public.salaries
+  SET status = 'paid',
+      payment_date = COALESCE(p_payment_date, CURRENT_DATE),
+      updated_at = now()
+  WHERE payroll_run_id = p_run_id;
+
+  UPDATE public.payroll_runs
+  SET status = 'finalized',
+      payment_date = COALESCE(p_payment_date, CURRENT_DATE),
+      finalized_by = auth.uid(),
+      finalized_at = now(),
+      updated_at = now()
+  WHERE id = p_run_id;
+
+  SELECT array_agg(staff_id) INTO v_staff_ids FROM public.salaries WHERE payroll_run_id = p_run_id;
+  PERFORM public.refresh_staff_salary_totals(COALESCE(v_staff_ids, '{}'));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.finalize_payroll_run(UUID, DATE) TO authenticated;
+
+-- Only drafts can be discarded; their salary lines go with them
+CREATE OR REPLACE FUNCTION public.delete_payroll_run(p_run_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run public.payroll_runs;
+  v_staff_ids UUID[];
+BEGIN
+  SELECT * INTO v_run FROM public.payroll_runs WHERE id = p_run_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll run not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_run.school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_run.status <> 'draft' THEN
+    RAISE EXCEPTION 'Finalised payroll runs cannot be deleted';
+  END IF;
+
+  SELECT array_agg(staff_id) INTO v_staff_ids FROM public.salaries WHERE payroll_run_id = p_run_id;
+
+  DELETE FROM public.payroll_runs WHERE id = p_run_id;
+
+  PERFORM public.refresh_staff_salary_totals(COALESCE(v_staff_ids, '{}'));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.delete_payroll_run(UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 7: get_report_summary on paid salaries
+-- ============================================================================
+
+-- SECURITY INVOKER: RLS scopes every table to the caller, like the client fallback
+CREATE OR REPLACE FUNCTION public.get_report_summary()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    -- Reversals are negative, so sums are net of voids and refunds
+    'total_income', (SELECT COALESCE(SUM(amount), 0) FROM payments),
+    'total_expenses', (SELECT COALESCE(SUM(amount), 0) FROM expenses),
+    -- Draft payroll lines are not an expense until the run is finalised
+    'total_salaries', (SELECT COALESCE(SUM(net_amount), 0) FROM salaries WHERE status = 'paid'),
+    'total_fee_folders', (SELECT COALESCE(SUM(amount_due), 0) FROM fee_folders),
+    'remaining_fees', 0,  -- Driven by calculate-remaining-fees (server date)
+    'expected_salary_expense', (SELECT COALESCE(SUM(expected_salary_expense), 0) FROM staff),
+    'category_expenses', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'value', value) ORDER BY value DESC)
+      FROM (
+        SELECT COALESCE(category, 'Other') AS name, SUM(amount) AS value
+        FROM expenses
+        GROUP BY 1
+      ) c
+    ), '[]'::jsonb),
+    -- Count only payments that still stand; amount is net of their reversals
+    'payment_methods', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'value', value, 'amount', amount) ORDER BY amount DESC)
+      FROM (
+        SELECT payment_method AS name,
+               COUNT(*) FILTER (WHERE entry_type = 'payment' AND status <> 'voided') AS value,
+               SUM(amount) AS amount
+        FROM payments
+        GROUP BY 1
+      ) m
+    ), '[]'::jsonb),
+    'monthly_trends', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+               'month', to_char(month, 'Mon YYYY'),
+               'income', (SELECT COALESCE(SUM(amount), 0) FROM payments WHERE date_trunc('month', payment_date) = month),
+               'expenses', (SELECT COALESCE(SUM(amount), 0) FROM expenses WHERE date_trunc('month', expense_date) = month),
+               'salaries', (SELECT COALESCE(SUM(net_amount), 0) FROM salaries WHERE status = 'paid' AND date_trunc('month', payment_date) = month)
+             ) ORDER BY month)
+      FROM generate_series(
+        date_trunc('month', CURRENT_DATE) - INTERVAL '11 months',
+        date_trunc('month', CURRENT_DATE),
+        INTERVAL '1 month'
+      ) AS month
+    ), '[]'::jsonb)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_report_summary() TO authenticated;
+
+-- Totals for staff paid before payroll runs existed
+SELECT public.refresh_staff_salary_totals(ARRAY(SELECT id FROM public.staff WHERE id IN (SELECT staff_id FROM public.salaries)));
+
+SELECT 'Payroll runs created' AS status;
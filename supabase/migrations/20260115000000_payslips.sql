@@ -0,0 +1,156 @@
+-- ============================================================================
+-- Migration: Payslips
+-- Created: 2026-01-15
+--
+-- This migration:
+-- 1. Adds deduction_items to salaries - itemised deductions for the payslip
+-- 2. Replaces update_payroll_line() so deductions can be entered as items
+-- 3. Creates get_staff_salary_changes() - staff_salary_audit rows for one staff
+--    member, with who made the change
+--
+-- salaries.deductions stays the total. When items are given it is their sum,
+-- so reports and staff totals keep reading a single column.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: deduction_items
+-- ============================================================================
+
+-- [{ "label": "Tax", "amount": 120 }, ...]
+ALTER TABLE public.salaries
+  ADD COLUMN IF NOT EXISTS deduction_items JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- ============================================================================
+-- STEP 2: update_payroll_line with items
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.update_payroll_line(UUID, NUMERIC, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.update_payroll_line(
+  p_salary_id UUID,
+  p_bonus NUMERIC,
+  p_deductions NUMERIC,
+  p_deduction_items JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.salaries;
+  v_school_id UUID;
+  v_items JSONB := '[]'::jsonb;
+  v_deductions NUMERIC := COALESCE(p_deductions, 0);
+BEGIN
+  SELECT * INTO v_line FROM public.salaries WHERE id = p_salary_id FOR UPDATE;
+  IF NOT FOUND OR v_line.payroll_run_id IS NULL THEN
+    RAISE EXCEPTION 'Payroll line not found';
+  END IF;
+
+  SELECT school_id INTO v_school_id FROM public.payroll_runs WHERE id = v_line.payroll_run_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_line.status <> 'draft' THEN
+    RAISE EXCEPTION 'Finalised payroll lines cannot be edited';
+  END IF;
+
+  -- Items replace the plain total
+  IF p_deduction_items IS NOT NULL AND jsonb_array_length(p_deduction_items) > 0 THEN
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_deduction_items) item
+      WHERE COALESCE(trim(item->>'label'), '') = ''
+      OR COALESCE((item->>'amount')::NUMERIC, 0) <= 0
+    ) THEN
+      RAISE EXCEPTION 'Each deduction needs a label and an amount above zero';
+    END IF;
+
+    SELECT jsonb_agg(jsonb_build_object('label', trim(item->>'label'), 'amount', (item->>'amount')::NUMERIC)),
+           SUM((item->>'amount')::NUMERIC)
+    INTO v_items, v_deductions
+    FROM jsonb_array_elements(p_deduction_items) item;
+  END IF;
+
+  IF COALESCE(p_bonus, 0) < 0 OR v_deductions < 0 THEN
+    RAISE EXCEPTION 'Bonus and deductions cannot be negative';
+  END IF;
+  IF v_line.amount + COALESCE(p_bonus, 0) - v_deductions < 0 THEN
+    RAISE EXCEPTION 'Deductions exceed the salary';
+  END IF;
+
+  UPDATE public.salaries
+  SET bonus = COALESCE(p_bonus, 0),
+      deductions = v_deductions,
+      deduction_items = v_items,
+      net_amount = amount + COALESCE(p_bonus, 0) - v_deductions,
+      updated_at = now()
+  WHERE id = p_salary_id;
+
+  PERFORM public.refresh_staff_salary_totals(ARRAY[v_line.staff_id]);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_payroll_line(UUID, NUMERIC, NUMERIC, JSONB) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: get_staff_salary_changes
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_staff_salary_changes(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_staff_salary_changes(p_staff_id UUID)
+RETURNS TABLE (
+  id UUID,
+  changed_at TIMESTAMPTZ,
+  changed_by TEXT,
+  changed_fields JSONB,
+  old_values JSONB,
+  new_values JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID;
+BEGIN
+  SELECT COALESCE(s.school_id, (SELECT sch.id FROM public.schools sch WHERE sch.owner_id = s.user_id LIMIT 1))
+  INTO v_school_id
+  FROM public.staff s
+  WHERE s.id = p_staff_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.id AS audit_id,
+         COALESCE(a.created_at, a.calculation_timestamp) AS audit_at,
+         u.email::TEXT AS audit_by,
+         a.changed_fields::JSONB,
+         a.old_values::JSONB,
+         a.new_values::JSONB
+  FROM public.staff_salary_audit a
+  LEFT JOIN auth.users u ON u.id = a.actor_id
+  WHERE a.staff_id = p_staff_id
+  ORDER BY COALESCE(a.created_at, a.calculation_timestamp) DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_staff_salary_changes(UUID) TO authenticated;
+
+SELECT 'Payslips created' AS status;
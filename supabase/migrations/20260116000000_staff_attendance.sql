@@ -0,0 +1,887 @@
+-- ============================================================================
+-- Migration: Staff Attendance and Leave
+-- Created: 2026-01-16
+--
+-- This migration:
+-- 1. Creates current_staff_id() - the caller's staff record, matched by email
+-- 2. Creates staff_attendance - one row per staff member per day
+-- 3. Creates staff_leave_requests - casual, sick or unpaid leave for a date range
+-- 4. Creates get_staff_attendance() / record_staff_attendance() - the daily
+--    register, kept by the principal or accountant
+-- 5. Creates staff_check_in() / staff_check_out() / get_my_staff_attendance() -
+--    staff clock in and out themselves
+-- 6. Creates set_staff_leave_allowances() / get_staff_leave_balances()
+-- 7. Creates request_staff_leave() - casual and sick leave within the balance
+-- 8. Creates apply_unpaid_leave_deduction() and replaces create_payroll_run()
+--    so approved unpaid leave is deducted from draft salary lines
+-- 9. Creates decide_staff_leave() (principal) and cancel_staff_leave()
+--
+-- Allowances live in schools.settings -> 'staff_leave':
+--   { "casual": 12, "sick": 10 }     -- working days per calendar year
+-- Unpaid leave has no allowance.
+--
+-- Leave is counted in working days (see is_school_working_day). Approving
+-- leave marks those days on_leave in the register. Unpaid leave is deducted at
+-- the line's daily rate - its base amount over the working days of its pay
+-- period - as an "Unpaid leave (N days)" deduction item. Absences without
+-- leave are not deducted automatically.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: current_staff_id
+-- ============================================================================
+
+-- Staff records are not linked to logins; a member of the school whose
+-- login email matches a staff email is that staff member
+CREATE OR REPLACE FUNCTION public.current_staff_id(p_school_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id
+  FROM public.staff s
+  WHERE lower(s.email) = lower(auth.email())
+  AND NOT COALESCE(s.is_archived, false)
+  AND COALESCE(s.school_id, (SELECT sch.id FROM public.schools sch WHERE sch.owner_id = s.user_id LIMIT 1)) = p_school_id
+  AND EXISTS (
+    SELECT 1 FROM public.school_members sm
+    WHERE sm.user_id = auth.uid()
+    AND sm.school_id = p_school_id
+  )
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_staff_id(UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 2: staff_attendance
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.staff_attendance (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  staff_id UUID NOT NULL REFERENCES public.staff(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'present' CHECK (status IN ('present', 'absent', 'half_day', 'on_leave')),
+  check_in_at TIMESTAMPTZ,
+  check_out_at TIMESTAMPTZ,
+  notes TEXT,
+  leave_request_id UUID,
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (staff_id, date),
+  CHECK (check_out_at IS NULL OR check_in_at IS NULL OR check_out_at >= check_in_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_attendance_school_date ON public.staff_attendance(school_id, date);
+
+-- ============================================================================
+-- STEP 3: staff_leave_requests
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.staff_leave_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  staff_id UUID NOT NULL REFERENCES public.staff(id) ON DELETE CASCADE,
+  leave_type TEXT NOT NULL CHECK (leave_type IN ('casual', 'sick', 'unpaid')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  days INT NOT NULL CHECK (days > 0),  -- Working days in the range when requested
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ,
+  decision_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_leave_requests_school ON public.staff_leave_requests(school_id, status);
+CREATE INDEX IF NOT EXISTS idx_staff_leave_requests_staff ON public.staff_leave_requests(staff_id, start_date, end_date);
+
+ALTER TABLE public.staff_attendance
+  DROP CONSTRAINT IF EXISTS staff_attendance_leave_request_id_fkey;
+ALTER TABLE public.staff_attendance
+  ADD CONSTRAINT staff_attendance_leave_request_id_fkey
+  FOREIGN KEY (leave_request_id) REFERENCES public.staff_leave_requests(id) ON DELETE SET NULL;
+
+-- Rows are written by the functions below only
+ALTER TABLE public.staff_attendance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_leave_requests ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON public.staff_attendance TO authenticated;
+GRANT SELECT ON public.staff_leave_requests TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.staff_attendance TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.staff_leave_requests TO service_role;
+
+-- Principals and accountants see the whole school, staff their own rows
+CREATE POLICY "Finance staff can view staff attendance"
+    ON public.staff_attendance
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = staff_attendance.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role IN ('principal', 'accountant')
+      )
+    );
+
+CREATE POLICY "Staff can view their own attendance"
+    ON public.staff_attendance
+    FOR SELECT
+    USING (staff_id = public.current_staff_id(school_id));
+
+CREATE POLICY "Finance staff can view staff leave requests"
+    ON public.staff_leave_requests
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = staff_leave_requests.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role IN ('principal', 'accountant')
+      )
+    );
+
+CREATE POLICY "Staff can view their own leave requests"
+    ON public.staff_leave_requests
+    FOR SELECT
+    USING (staff_id = public.current_staff_id(school_id));
+
+-- ============================================================================
+-- STEP 4: the daily register (principal or accountant)
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_staff_attendance(UUID, DATE);
+
+-- Every active staff member, with the day's row when there is one
+CREATE OR REPLACE FUNCTION public.get_staff_attendance(p_school_id UUID, p_date DATE)
+RETURNS TABLE (
+  staff_id UUID,
+  staff_name TEXT,
+  staff_code TEXT,
+  staff_position TEXT,
+  attendance_status TEXT,
+  check_in_at TIMESTAMPTZ,
+  check_out_at TIMESTAMPTZ,
+  notes TEXT,
+  leave_type TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.id AS sid,
+         s.name::TEXT AS sname,
+         s.staff_id::TEXT AS scode,
+         s.position::TEXT AS spos,
+         a.status AS astatus,
+         a.check_in_at AS ain,
+         a.check_out_at AS aout,
+         a.notes AS anotes,
+         r.leave_type AS ltype
+  FROM public.staff s
+  LEFT JOIN public.staff_attendance a ON a.staff_id = s.id AND a.date = p_date
+  LEFT JOIN public.staff_leave_requests r ON r.id = a.leave_request_id
+  WHERE NOT COALESCE(s.is_archived, false)
+  AND COALESCE(s.school_id, (SELECT sch.id FROM public.schools sch WHERE sch.owner_id = s.user_id LIMIT 1)) = p_school_id
+  ORDER BY s.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_staff_attendance(UUID, DATE) TO authenticated;
+
+-- p_entries: [{ "staff_id": "...", "status": "present", "check_in_at": "...",
+--               "check_out_at": "...", "notes": "..." }]
+-- An entry without a status clears the day. on_leave comes from approved leave only.
+CREATE OR REPLACE FUNCTION public.record_staff_attendance(p_school_id UUID, p_date DATE, p_entries JSONB)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INT := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Attendance cannot be recorded for future dates';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_entries) e
+    WHERE NULLIF(e->>'status', '') IS NOT NULL
+    AND e->>'status' NOT IN ('present', 'absent', 'half_day')
+  ) THEN
+    RAISE EXCEPTION 'Status must be present, absent or half day';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_entries) e
+    LEFT JOIN public.staff s ON s.id = (e->>'staff_id')::UUID
+    WHERE s.id IS NULL
+    OR COALESCE(s.school_id, (SELECT sch.id FROM public.schools sch WHERE sch.owner_id = s.user_id LIMIT 1)) <> p_school_id
+  ) THEN
+    RAISE EXCEPTION 'Staff member not found';
+  END IF;
+
+  DELETE FROM public.staff_attendance a
+  USING jsonb_array_elements(p_entries) e
+  WHERE a.staff_id = (e->>'staff_id')::UUID
+  AND a.date = p_date
+  AND NULLIF(e->>'status', '') IS NULL;
+
+  INSERT INTO public.staff_attendance (school_id, staff_id, date, status, check_in_at, check_out_at, notes, recorded_by)
+  SELECT p_school_id,
+         (e->>'staff_id')::UUID,
+         p_date,
+         e->>'status',
+         CASE WHEN e->>'status' = 'absent' THEN NULL ELSE (NULLIF(e->>'check_in_at', ''))::TIMESTAMPTZ END,
+         CASE WHEN e->>'status' = 'absent' THEN NULL ELSE (NULLIF(e->>'check_out_at', ''))::TIMESTAMPTZ END,
+         NULLIF(trim(e->>'notes'), ''),
+         auth.uid()
+  FROM jsonb_array_elements(p_entries) e
+  WHERE NULLIF(e->>'status', '') IS NOT NULL
+  ON CONFLICT (staff_id, date) DO UPDATE
+  SET status = EXCLUDED.status,
+      check_in_at = EXCLUDED.check_in_at,
+      check_out_at = EXCLUDED.check_out_at,
+      notes = EXCLUDED.notes,
+      leave_request_id = NULL,
+      recorded_by = EXCLUDED.recorded_by,
+      updated_at = now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_staff_attendance(UUID, DATE, JSONB) TO authenticated;
+
+-- ============================================================================
+-- STEP 5: self check-in / check-out
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.staff_check_in(p_school_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_staff_id UUID := public.current_staff_id(p_school_id);
+BEGIN
+  IF v_staff_id IS NULL THEN
+    RAISE EXCEPTION 'No staff record matches your email';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.staff_attendance
+    WHERE staff_id = v_staff_id
+    AND date = CURRENT_DATE
+    AND status = 'on_leave'
+  ) THEN
+    RAISE EXCEPTION 'You are on leave today';
+  END IF;
+
+  INSERT INTO public.staff_attendance (school_id, staff_id, date, status, check_in_at, recorded_by)
+  VALUES (p_school_id, v_staff_id, CURRENT_DATE, 'present', now(), auth.uid())
+  ON CONFLICT (staff_id, date) DO UPDATE
+  SET check_in_at = COALESCE(staff_attendance.check_in_at, now()),
+      status = CASE WHEN staff_attendance.status = 'absent' THEN 'present' ELSE staff_attendance.status END,
+      updated_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.staff_check_out(p_school_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_staff_id UUID := public.current_staff_id(p_school_id);
+BEGIN
+  IF v_staff_id IS NULL THEN
+    RAISE EXCEPTION 'No staff record matches your email';
+  END IF;
+
+  UPDATE public.staff_attendance
+  SET check_out_at = now(),
+      updated_at = now()
+  WHERE staff_id = v_staff_id
+  AND date = CURRENT_DATE
+  AND check_in_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Check in first';
+  END IF;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_my_staff_attendance(UUID);
+
+-- No rows when the caller has no staff record in the school
+CREATE OR REPLACE FUNCTION public.get_my_staff_attendance(p_school_id UUID)
+RETURNS TABLE (
+  staff_id UUID,
+  staff_name TEXT,
+  attendance_status TEXT,
+  check_in_at TIMESTAMPTZ,
+  check_out_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id AS sid,
+         s.name::TEXT AS sname,
+         a.status AS astatus,
+         a.check_in_at AS ain,
+         a.check_out_at AS aout
+  FROM public.staff s
+  LEFT JOIN public.staff_attendance a ON a.staff_id = s.id AND a.date = CURRENT_DATE
+  WHERE s.id = public.current_staff_id(p_school_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.staff_check_in(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.staff_check_out(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_staff_attendance(UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 6: leave allowances and balances
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_staff_leave_allowances(p_school_id UUID, p_allowances JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF COALESCE((p_allowances->>'casual')::INT, -1) NOT BETWEEN 0 AND 365
+    OR COALESCE((p_allowances->>'sick')::INT, -1) NOT BETWEEN 0 AND 365 THEN
+    RAISE EXCEPTION 'Allowances must be between 0 and 365 days';
+  END IF;
+
+  UPDATE public.schools
+  SET settings = COALESCE(settings, '{}'::jsonb) || jsonb_build_object('staff_leave', jsonb_build_object(
+        'casual', (p_allowances->>'casual')::INT,
+        'sick', (p_allowances->>'sick')::INT
+      )),
+      updated_at = now()
+  WHERE id = p_school_id;
+
+  RETURN p_allowances;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_staff_leave_allowances(UUID, JSONB) TO authenticated;
+
+-- Schools that never set allowances get 12 casual and 10 sick days
+CREATE OR REPLACE FUNCTION public.staff_leave_allowance(p_school_id UUID, p_leave_type TEXT)
+RETURNS INT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_leave_type
+    WHEN 'casual' THEN COALESCE((settings->'staff_leave'->>'casual')::INT, 12)
+    WHEN 'sick' THEN COALESCE((settings->'staff_leave'->>'sick')::INT, 10)
+  END
+  FROM public.schools
+  WHERE id = p_school_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.staff_leave_allowance(UUID, TEXT) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_staff_leave_balances(UUID, INT, UUID);
+
+-- One row per staff member and leave type; remaining is NULL for unpaid leave.
+-- Leave counts toward the year it starts in.
+CREATE OR REPLACE FUNCTION public.get_staff_leave_balances(
+  p_school_id UUID,
+  p_year INT,
+  p_staff_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  staff_id UUID,
+  staff_name TEXT,
+  leave_type TEXT,
+  allowance INT,
+  used_days INT,
+  pending_days INT,
+  remaining_days INT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Principal or accountant for anyone, staff for themselves
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role IN ('principal', 'accountant')
+  ) AND (p_staff_id IS NULL OR p_staff_id IS DISTINCT FROM public.current_staff_id(p_school_id)) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.id AS sid,
+         s.name::TEXT AS sname,
+         t.leave_type AS ltype,
+         public.staff_leave_allowance(p_school_id, t.leave_type) AS lallowance,
+         COALESCE(SUM(r.days) FILTER (WHERE r.status = 'approved'), 0)::INT AS lused,
+         COALESCE(SUM(r.days) FILTER (WHERE r.status = 'pending'), 0)::INT AS lpending,
+         (public.staff_leave_allowance(p_school_id, t.leave_type)
+           - COALESCE(SUM(r.days) FILTER (WHERE r.status = 'approved'), 0))::INT AS lremaining
+  FROM public.staff s
+  CROSS JOIN (VALUES ('casual'), ('sick'), ('unpaid')) AS t(leave_type)
+  LEFT JOIN public.staff_leave_requests r
+    ON r.staff_id = s.id
+    AND r.leave_type = t.leave_type
+    AND EXTRACT(YEAR FROM r.start_date)::INT = p_year
+  WHERE NOT COALESCE(s.is_archived, false)
+  AND COALESCE(s.school_id, (SELECT sch.id FROM public.schools sch WHERE sch.owner_id = s.user_id LIMIT 1)) = p_school_id
+  AND (p_staff_id IS NULL OR s.id = p_staff_id)
+  GROUP BY s.id, s.name, t.leave_type
+  ORDER BY s.name, t.leave_type;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_staff_leave_balances(UUID, INT, UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 7: leave requests
+-- ============================================================================
+
+-- Principal or accountant on behalf of anyone, staff for themselves
+CREATE OR REPLACE FUNCTION public.request_staff_leave(
+  p_school_id UUID,
+  p_staff_id UUID,
+  p_leave_type TEXT,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_days INT;
+  v_allowance INT;
+  v_taken INT;
+  v_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role IN ('principal', 'accountant')
+  ) AND p_staff_id IS DISTINCT FROM public.current_staff_id(p_school_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.staff s
+    WHERE s.id = p_staff_id
+    AND COALESCE(s.school_id, (SELECT sch.id FROM public.schools sch WHERE sch.owner_id = s.user_id LIMIT 1)) = p_school_id
+  ) THEN
+    RAISE EXCEPTION 'Staff member not found';
+  END IF;
+
+  IF p_leave_type NOT IN ('casual', 'sick', 'unpaid') THEN
+    RAISE EXCEPTION 'Unknown leave type: %', p_leave_type;
+  END IF;
+
+  IF p_start_date IS NULL OR p_end_date IS NULL OR p_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after the start date';
+  END IF;
+
+  IF EXTRACT(YEAR FROM p_start_date) <> EXTRACT(YEAR FROM p_end_date) THEN
+    RAISE EXCEPTION 'Leave across the new year must be requested as two requests';
+  END IF;
+
+  v_days := public.count_school_working_days(p_school_id, p_start_date, p_end_date);
+  IF v_days = 0 THEN
+    RAISE EXCEPTION 'There are no working days in these dates';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.staff_leave_requests
+    WHERE staff_id = p_staff_id
+    AND status IN ('pending', 'approved')
+    AND start_date <= p_end_date
+    AND end_date >= p_start_date
+  ) THEN
+    RAISE EXCEPTION 'Leave already requested for these dates';
+  END IF;
+
+  -- Pending requests hold their days so the balance cannot be overbooked
+  v_allowance := public.staff_leave_allowance(p_school_id, p_leave_type);
+  IF v_allowance IS NOT NULL THEN
+    SELECT COALESCE(SUM(days), 0) INTO v_taken
+    FROM public.staff_leave_requests
+    WHERE staff_id = p_staff_id
+    AND leave_type = p_leave_type
+    AND status IN ('pending', 'approved')
+    AND EXTRACT(YEAR FROM start_date) = EXTRACT(YEAR FROM p_start_date);
+
+    IF v_taken + v_days > v_allowance THEN
+      RAISE EXCEPTION 'Only % % leave days left this year; request the rest as unpaid leave',
+        GREATEST(v_allowance - v_taken, 0), p_leave_type;
+    END IF;
+  END IF;
+
+  INSERT INTO public.staff_leave_requests (
+    school_id, staff_id, leave_type, start_date, end_date, days, reason, requested_by
+  )
+  VALUES (
+    p_school_id, p_staff_id, p_leave_type, p_start_date, p_end_date, v_days,
+    NULLIF(trim(p_reason), ''), auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_staff_leave(UUID, UUID, TEXT, DATE, DATE, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 8: unpaid leave on payroll lines
+-- ============================================================================
+
+-- Approved unpaid leave falling on working days within a period
+CREATE OR REPLACE FUNCTION public.staff_unpaid_leave_days(
+  p_school_id UUID,
+  p_staff_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS INT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(DISTINCT d)::INT
+  FROM public.staff_leave_requests r
+  CROSS JOIN LATERAL generate_series(
+    GREATEST(r.start_date, p_start_date),
+    LEAST(r.end_date, p_end_date),
+    INTERVAL '1 day'
+  ) AS d
+  WHERE r.staff_id = p_staff_id
+  AND r.leave_type = 'unpaid'
+  AND r.status = 'approved'
+  AND r.start_date <= p_end_date
+  AND r.end_date >= p_start_date
+  AND public.is_school_working_day(p_school_id, d::DATE);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.staff_unpaid_leave_days(UUID, UUID, DATE, DATE) FROM PUBLIC;
+
+-- Rewrites the "Unpaid leave" item of a draft line; other deductions are kept.
+-- A plain deductions total is turned into a "Deductions" item first.
+CREATE OR REPLACE FUNCTION public.apply_unpaid_leave_deduction(p_salary_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.salaries;
+  v_school_id UUID;
+  v_items JSONB;
+  v_other NUMERIC;
+  v_days INT;
+  v_working INT;
+  v_amount NUMERIC := 0;
+BEGIN
+  SELECT * INTO v_line FROM public.salaries WHERE id = p_salary_id FOR UPDATE;
+  IF NOT FOUND OR v_line.status <> 'draft' OR v_line.payroll_run_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT school_id INTO v_school_id FROM public.payroll_runs WHERE id = v_line.payroll_run_id;
+
+  IF jsonb_array_length(v_line.deduction_items) = 0 AND COALESCE(v_line.deductions, 0) > 0 THEN
+    v_items := jsonb_build_array(jsonb_build_object('label', 'Deductions', 'amount', v_line.deductions));
+  ELSE
+    SELECT COALESCE(jsonb_agg(item), '[]'::jsonb) INTO v_items
+    FROM jsonb_array_elements(v_line.deduction_items) item
+    WHERE item->>'label' NOT LIKE 'Unpaid leave%';
+  END IF;
+
+  SELECT COALESCE(SUM((item->>'amount')::NUMERIC), 0) INTO v_other
+  FROM jsonb_array_elements(v_items) item;
+
+  v_days := public.staff_unpaid_leave_days(v_school_id, v_line.staff_id, v_line.pay_period_start, v_line.pay_period_end);
+  v_working := public.count_school_working_days(v_school_id, v_line.pay_period_start, v_line.pay_period_end);
+
+  IF v_days > 0 AND v_working > 0 THEN
+    v_amount := LEAST(
+      round(v_line.amount * v_days / v_working, 2),
+      GREATEST(v_line.amount + COALESCE(v_line.bonus, 0) - v_other, 0)
+    );
+  END IF;
+
+  IF v_amount > 0 THEN
+    v_items := v_items || jsonb_build_array(jsonb_build_object(
+      'label', format('Unpaid leave (%s %s)', v_days, CASE WHEN v_days = 1 THEN 'day' ELSE 'days' END),
+      'amount', v_amount
+    ));
+  END IF;
+
+  UPDATE public.salaries
+  SET deduction_items = v_items,
+      deductions = v_other + v_amount,
+      net_amount = amount + COALESCE(bonus, 0) - v_other - v_amount,
+      updated_at = now()
+  WHERE id = p_salary_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_unpaid_leave_deduction(UUID) FROM PUBLIC;
+
+-- Same as before, then unpaid leave is applied to the new lines
+CREATE OR REPLACE FUNCTION public.create_payroll_run(p_school_id UUID, p_month DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start DATE := date_trunc('month', p_month)::DATE;
+  v_end DATE := (date_trunc('month', p_month) + INTERVAL '1 month - 1 day')::DATE;
+  v_days INT;
+  v_run_id UUID;
+  v_staff_ids UUID[];
+BEGIN
+  -- Verify caller is principal or accountant of the school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payroll_runs WHERE school_id = p_school_id AND period_start = v_start) THEN
+    RAISE EXCEPTION 'A payroll run for % already exists', to_char(v_start, 'FMMonth YYYY');
+  END IF;
+
+  v_days := v_end - v_start + 1;
+
+  INSERT INTO public.payroll_runs (school_id, period_start, period_end, created_by)
+  VALUES (p_school_id, v_start, v_end, auth.uid())
+  RETURNING id INTO v_run_id;
+
+  WITH lines AS (
+    INSERT INTO public.salaries (
+      staff_id, user_id, amount, bonus, deductions, net_amount,
+      pay_period_start, pay_period_end, payment_date, payroll_run_id, status
+    )
+    SELECT s.id, s.user_id, b.amount, 0, 0, b.amount,
+           GREATEST(v_start, b.joined), v_end, v_end, v_run_id, 'draft'
+    FROM public.staff s
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(s.join_date, s.hire_date) AS joined,
+             CASE WHEN lower(COALESCE(s.salary_type, 'monthly')) IN ('annual', 'annually')
+                  THEN s.salary / 12
+                  ELSE s.salary
+             END AS monthly
+    ) m
+    CROSS JOIN LATERAL (
+      SELECT m.joined,
+             round(
+               CASE WHEN m.joined > v_start
+                    THEN m.monthly * (v_end - m.joined + 1) / v_days
+                    ELSE m.monthly
+               END, 2
+             ) AS amount
+    ) b
+    WHERE NOT COALESCE(s.is_archived, false)
+    AND COALESCE(s.school_id, (SELECT sch.id FROM public.schools sch WHERE sch.owner_id = s.user_id LIMIT 1)) = p_school_id
+    AND (b.joined IS NULL OR b.joined <= v_end)
+    RETURNING staff_id
+  )
+  SELECT array_agg(staff_id) INTO v_staff_ids FROM lines;
+
+  IF v_staff_ids IS NULL THEN
+    RAISE EXCEPTION 'No active staff to pay for %', to_char(v_start, 'FMMonth YYYY');
+  END IF;
+
+  PERFORM public.apply_unpaid_leave_deduction(sal.id)
+  FROM public.salaries sal
+  WHERE sal.payroll_run_id = v_run_id;
+
+  PERFORM public.refresh_staff_salary_totals(v_staff_ids);
+
+  RETURN v_run_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_payroll_run(UUID, DATE) TO authenticated;
+
+-- ============================================================================
+-- STEP 9: decide_staff_leave (principal) / cancel_staff_leave
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.decide_staff_leave(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.staff_leave_requests;
+BEGIN
+  SELECT * INTO v_request FROM public.staff_leave_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_request.school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Leave request is already %', v_request.status;
+  END IF;
+
+  UPDATE public.staff_leave_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      decision_note = NULLIF(trim(p_note), ''),
+      updated_at = now()
+  WHERE id = p_request_id;
+
+  IF NOT p_approve THEN
+    RETURN;
+  END IF;
+
+  -- Working days in the range are on leave; days already marked present are kept
+  INSERT INTO public.staff_attendance (school_id, staff_id, date, status, leave_request_id, recorded_by)
+  SELECT v_request.school_id, v_request.staff_id, d::DATE, 'on_leave', v_request.id, auth.uid()
+  FROM generate_series(v_request.start_date, v_request.end_date, INTERVAL '1 day') AS d
+  WHERE public.is_school_working_day(v_request.school_id, d::DATE)
+  ON CONFLICT (staff_id, date) DO UPDATE
+  SET status = 'on_leave',
+      leave_request_id = EXCLUDED.leave_request_id,
+      check_in_at = NULL,
+      check_out_at = NULL,
+      recorded_by = EXCLUDED.recorded_by,
+      updated_at = now()
+  WHERE staff_attendance.status = 'absent';
+
+  -- Draft payroll lines already covering these days pick up the deduction
+  IF v_request.leave_type = 'unpaid' THEN
+    PERFORM public.apply_unpaid_leave_deduction(sal.id)
+    FROM public.salaries sal
+    WHERE sal.staff_id = v_request.staff_id
+    AND sal.status = 'draft'
+    AND sal.pay_period_start <= v_request.end_date
+    AND sal.pay_period_end >= v_request.start_date;
+
+    PERFORM public.refresh_staff_salary_totals(ARRAY[v_request.staff_id]);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.decide_staff_leave(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Requester or principal, while pending
+CREATE OR REPLACE FUNCTION public.cancel_staff_leave(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.staff_leave_requests;
+BEGIN
+  SELECT * INTO v_request FROM public.staff_leave_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF v_request.requested_by IS DISTINCT FROM auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_request.school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending requests can be cancelled';
+  END IF;
+
+  UPDATE public.staff_leave_requests
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE id = p_request_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_staff_leave(UUID) TO authenticated;
+
+SELECT 'Staff attendance and leave created' AS status;
@@ -0,0 +1,309 @@
+-- ============================================================================
+-- Migration: Expense Budgets
+-- Created: 2026-01-17
+--
+-- This migration:
+-- 1. Creates expense_budgets - a monthly or annual budget per expense category
+--    and calendar year
+-- 2. Creates set_expense_budget() / delete_expense_budget() - principal only
+-- 3. Creates get_expense_budget_variance() - budget vs actual vs projected per
+--    category for a year
+-- 4. Creates check_expense_budget() - where an expense would leave its
+--    category's budget, for the warning in the expense form
+--
+-- Expense categories are free text, so budgets match them case-insensitively
+-- on the trimmed name. A monthly budget applies to every month of its year;
+-- its annual figure is twelve times the amount.
+--
+-- Projected spend is the year-to-date actual extended at the same daily rate
+-- to the end of the year. Past years project their actual.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: expense_budgets
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.expense_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  year INT NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+  period TEXT NOT NULL DEFAULT 'monthly' CHECK (period IN ('monthly', 'annual')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expense_budgets_category
+  ON public.expense_budgets(school_id, year, lower(category));
+
+-- Rows are written by the functions below only
+ALTER TABLE public.expense_budgets ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON public.expense_budgets TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.expense_budgets TO service_role;
+
+CREATE POLICY "Finance staff can view expense budgets"
+    ON public.expense_budgets
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = expense_budgets.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role IN ('principal', 'accountant')
+      )
+    );
+
+-- ============================================================================
+-- STEP 2: set_expense_budget / delete_expense_budget (principal only)
+-- ============================================================================
+
+-- Creates the category's budget for the year, or replaces it
+CREATE OR REPLACE FUNCTION public.set_expense_budget(
+  p_school_id UUID,
+  p_category TEXT,
+  p_year INT,
+  p_period TEXT,
+  p_amount NUMERIC
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category TEXT := NULLIF(trim(p_category), '');
+  v_id UUID;
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_category IS NULL THEN
+    RAISE EXCEPTION 'Category is required';
+  END IF;
+
+  IF p_period NOT IN ('monthly', 'annual') THEN
+    RAISE EXCEPTION 'Budget period must be monthly or annual';
+  END IF;
+
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Budget must be above zero';
+  END IF;
+
+  INSERT INTO public.expense_budgets (school_id, category, year, period, amount, created_by)
+  VALUES (p_school_id, v_category, p_year, p_period, p_amount, auth.uid())
+  ON CONFLICT (school_id, year, lower(category)) DO UPDATE
+  SET category = EXCLUDED.category,
+      period = EXCLUDED.period,
+      amount = EXCLUDED.amount,
+      updated_at = now()
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_expense_budget(UUID, TEXT, INT, TEXT, NUMERIC) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.delete_expense_budget(p_budget_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID;
+BEGIN
+  SELECT school_id INTO v_school_id FROM public.expense_budgets WHERE id = p_budget_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Budget not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  DELETE FROM public.expense_budgets WHERE id = p_budget_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.delete_expense_budget(UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: get_expense_budget_variance
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_expense_budget_variance(UUID, INT);
+
+-- One row per budgeted category, plus categories with spending but no budget
+-- (budget columns NULL). month_* cover the current month, or December for past years.
+CREATE OR REPLACE FUNCTION public.get_expense_budget_variance(p_school_id UUID, p_year INT)
+RETURNS TABLE (
+  budget_id UUID,
+  category TEXT,
+  period TEXT,
+  budget_amount NUMERIC,
+  annual_budget NUMERIC,
+  actual NUMERIC,
+  projected NUMERIC,
+  month_budget NUMERIC,
+  month_actual NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_start DATE := make_date(p_year, 1, 1);
+  v_end DATE := make_date(p_year, 12, 31);
+  v_as_of DATE;
+  v_elapsed INT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  v_as_of := LEAST(CURRENT_DATE, v_end);
+  v_elapsed := GREATEST(v_as_of - v_start + 1, 0);
+
+  RETURN QUERY
+  WITH spend AS (
+    SELECT lower(trim(e.category)) AS key,
+           min(trim(e.category)) AS name,
+           SUM(e.amount) AS total,
+           SUM(e.amount) FILTER (WHERE date_trunc('month', e.expense_date) = date_trunc('month', v_as_of)) AS month_total
+    FROM public.expenses e
+    WHERE COALESCE(e.school_id, (SELECT sch.id FROM public.schools sch WHERE sch.owner_id = e.user_id LIMIT 1)) = p_school_id
+    AND e.expense_date BETWEEN v_start AND v_as_of
+    GROUP BY lower(trim(e.category))
+  ),
+  budgets AS (
+    SELECT b.id,
+           lower(b.category) AS key,
+           b.category AS name,
+           b.period AS bperiod,
+           b.amount,
+           CASE WHEN b.period = 'monthly' THEN b.amount * 12 ELSE b.amount END AS annual
+    FROM public.expense_budgets b
+    WHERE b.school_id = p_school_id
+    AND b.year = p_year
+  )
+  SELECT b.id AS vbudget_id,
+         COALESCE(b.name, s.name) AS vcategory,
+         b.bperiod AS vperiod,
+         b.amount AS vbudget_amount,
+         b.annual AS vannual_budget,
+         COALESCE(s.total, 0) AS vactual,
+         CASE WHEN v_elapsed = 0 THEN 0
+              ELSE round(COALESCE(s.total, 0) * (v_end - v_start + 1) / v_elapsed, 2)
+         END AS vprojected,
+         round(b.annual / 12, 2) AS vmonth_budget,
+         COALESCE(s.month_total, 0) AS vmonth_actual
+  FROM budgets b
+  FULL JOIN spend s ON s.key = b.key
+  ORDER BY b.id IS NULL, COALESCE(b.name, s.name);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_expense_budget_variance(UUID, INT) TO authenticated;
+
+-- ============================================================================
+-- STEP 4: check_expense_budget
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.check_expense_budget(UUID, TEXT, DATE, NUMERIC, UUID);
+
+-- The budget window holding the expense date (its month, or its year for an
+-- annual budget) and what the category has spent in it without this expense.
+-- No rows when the category has no budget that year.
+CREATE OR REPLACE FUNCTION public.check_expense_budget(
+  p_school_id UUID,
+  p_category TEXT,
+  p_expense_date DATE,
+  p_amount NUMERIC,
+  p_expense_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  category TEXT,
+  period TEXT,
+  budget_amount NUMERIC,
+  spent NUMERIC,
+  spent_after NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_budget public.expense_budgets;
+  v_start DATE;
+  v_end DATE;
+  v_spent NUMERIC;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO v_budget
+  FROM public.expense_budgets b
+  WHERE b.school_id = p_school_id
+  AND b.year = EXTRACT(YEAR FROM p_expense_date)::INT
+  AND lower(b.category) = lower(trim(p_category));
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_budget.period = 'monthly' THEN
+    v_start := date_trunc('month', p_expense_date)::DATE;
+    v_end := (date_trunc('month', p_expense_date) + INTERVAL '1 month - 1 day')::DATE;
+  ELSE
+    v_start := make_date(v_budget.year, 1, 1);
+    v_end := make_date(v_budget.year, 12, 31);
+  END IF;
+
+  SELECT COALESCE(SUM(e.amount), 0) INTO v_spent
+  FROM public.expenses e
+  WHERE COALESCE(e.school_id, (SELECT sch.id FROM public.schools sch WHERE sch.owner_id = e.user_id LIMIT 1)) = p_school_id
+  AND lower(trim(e.category)) = lower(v_budget.category)
+  AND e.expense_date BETWEEN v_start AND v_end
+  AND e.id IS DISTINCT FROM p_expense_id;
+
+  RETURN QUERY
+  SELECT v_budget.category AS ccategory,
+         v_budget.period AS cperiod,
+         v_budget.amount AS cbudget,
+         v_spent AS cspent,
+         v_spent + COALESCE(p_amount, 0) AS cafter;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_expense_budget(UUID, TEXT, DATE, NUMERIC, UUID) TO authenticated;
+
+SELECT 'Expense budgets created' AS status;
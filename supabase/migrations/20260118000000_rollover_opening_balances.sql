@@ -0,0 +1,497 @@
+-- ============================================================================
+-- Migration: Rollover Opening Balances
+-- Created: 2026-01-18
+--
+-- This migration:
+-- 1. Creates student_balance_before() - a student's tuition balance before a
+--    date, with the same rules as calculate-remaining-fees
+-- 2. Replaces get_rollover_candidates() - adds the balance each student would
+--    carry into a year starting on p_start_date
+-- 3. Replaces rollover_academic_year() - computes the carried balances itself
+--    instead of taking them from the client, and only accepts a start date on
+--    the first day of a month, no later than the current month
+--
+-- calculate-remaining-fees bills from the opening balance's as_of month
+-- (inclusive) and counts payments dated on or after it, so the carried amount
+-- has to cover exactly the charges and payments dated before as_of. Taking
+-- today's remaining fee billed the start month twice for a past start date
+-- and skipped the months in between for a future one.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: student_balance_before
+-- ============================================================================
+-- Mirrors calculate-remaining-fees (fee plan installments or monthly / annual
+-- fee, proration by calendar or working days, concessions per charge, the
+-- previous opening balance, tuition payments net of reversals) with
+-- p_before - 1 as "today". Keep the two in step.
+
+CREATE OR REPLACE FUNCTION public.student_balance_before(p_student_id UUID, p_before DATE)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student public.students;
+  v_school_id UUID;
+  v_prorate BOOLEAN := false;
+  v_working_days BOOLEAN := false;
+  v_opening public.student_opening_balances;
+  v_has_opening BOOLEAN;
+  v_plan public.fee_plans;
+  v_installment JSONB;
+  v_cutoff DATE := p_before - 1;
+  v_archived DATE;
+  v_ended_early BOOLEAN;
+  v_start DATE;
+  v_month DATE;
+  v_month_end DATE;
+  v_from DATE;
+  v_to DATE;
+  v_due DATE;
+  v_billed INT;
+  v_total INT;
+  v_working_billed INT;
+  v_working_total INT;
+  v_amount NUMERIC;
+  v_charge_dates DATE[] := '{}';
+  v_charge_amounts NUMERIC[] := '{}';
+  v_discount RECORD;
+  v_remaining NUMERIC;
+  v_gross NUMERIC := 0;
+  v_discounted NUMERIC := 0;
+  v_paid NUMERIC;
+  i INT;
+BEGIN
+  SELECT * INTO v_student FROM public.students WHERE id = p_student_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Archived without an archival date: not billed at all
+  IF COALESCE(v_student.is_archived, false) AND v_student.archived_at IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT s.id, COALESCE((s.settings->'fee_proration'->>'enabled')::BOOLEAN, false)
+  INTO v_school_id, v_prorate
+  FROM public.schools s
+  WHERE s.owner_id = v_student.user_id
+  LIMIT 1;
+  v_prorate := COALESCE(v_prorate, false);
+
+  -- Prorated months count working days once the school keeps a calendar
+  IF v_prorate AND v_school_id IS NOT NULL THEN
+    v_working_days := EXISTS (
+      SELECT 1 FROM public.schools s
+      WHERE s.id = v_school_id
+      AND jsonb_typeof(s.settings->'calendar'->'weekly_offs') = 'array'
+    ) OR EXISTS (
+      SELECT 1 FROM public.school_calendar_events e
+      WHERE e.school_id = v_school_id
+      AND e.event_type = 'holiday'
+    );
+  END IF;
+
+  SELECT * INTO v_opening
+  FROM public.student_opening_balances ob
+  WHERE ob.student_id = p_student_id
+  AND ob.user_id = v_student.user_id
+  AND ob.as_of < p_before
+  ORDER BY ob.as_of DESC
+  LIMIT 1;
+  v_has_opening := FOUND;
+
+  v_start := CASE
+    WHEN v_has_opening AND (v_student.join_date IS NULL OR v_opening.as_of > v_student.join_date)
+      THEN v_opening.as_of
+    ELSE v_student.join_date
+  END;
+
+  v_archived := CASE WHEN COALESCE(v_student.is_archived, false) THEN v_student.archived_at::DATE END;
+  v_ended_early := v_archived IS NOT NULL AND v_archived < v_cutoff;
+  IF v_ended_early THEN
+    v_cutoff := v_archived;
+  END IF;
+
+  -- 1. Dated charges
+  IF v_student.fee_plan_id IS NOT NULL THEN
+    SELECT * INTO v_plan
+    FROM public.fee_plans fp
+    WHERE fp.id = v_student.fee_plan_id
+    AND fp.user_id = v_student.user_id;
+  END IF;
+
+  IF v_plan.id IS NOT NULL THEN
+    FOR v_installment IN SELECT jsonb_array_elements(v_plan.installments)
+    LOOP
+      v_due := COALESCE(NULLIF(v_installment->>'due_date', '')::DATE, v_student.join_date);
+      CONTINUE WHEN v_due IS NULL;
+
+      IF v_student.join_date IS NOT NULL AND v_due < v_student.join_date THEN
+        CONTINUE WHEN v_plan.plan_type <> 'one_time';
+        v_due := v_student.join_date;
+      END IF;
+
+      IF v_due <= v_cutoff AND (NOT v_has_opening OR v_due >= v_opening.as_of) THEN
+        v_charge_dates := v_charge_dates || v_due;
+        v_charge_amounts := v_charge_amounts || COALESCE((v_installment->>'amount')::NUMERIC, 0);
+      END IF;
+    END LOOP;
+  ELSIF v_start IS NOT NULL AND COALESCE(v_student.fee_amount, 0) <> 0 AND v_start <= v_cutoff THEN
+    IF lower(COALESCE(v_student.fee_type, '')) = 'monthly' THEN
+      -- Inclusive calendar months from the billing start through the cutoff
+      v_month := date_trunc('month', v_start)::DATE;
+      WHILE v_month <= v_cutoff LOOP
+        v_month_end := (v_month + INTERVAL '1 month - 1 day')::DATE;
+        v_from := CASE WHEN v_month = date_trunc('month', v_start)::DATE AND v_prorate THEN v_start ELSE v_month END;
+        v_to := CASE WHEN v_month_end >= v_cutoff AND v_prorate AND v_ended_early THEN v_cutoff ELSE v_month_end END;
+        v_amount := v_student.fee_amount;
+
+        IF v_from > v_month OR v_to < v_month_end THEN
+          v_billed := GREATEST(v_to - v_from + 1, 0);
+          v_total := v_month_end - v_month + 1;
+
+          IF v_working_days THEN
+            v_working_total := public.count_school_working_days(v_school_id, v_month, v_month_end);
+            IF v_working_total > 0 THEN
+              v_working_billed := CASE WHEN v_to < v_from THEN 0
+                                       ELSE public.count_school_working_days(v_school_id, v_from, v_to) END;
+              v_billed := v_working_billed;
+              v_total := v_working_total;
+            END IF;
+          END IF;
+
+          v_amount := round(v_student.fee_amount * v_billed / v_total, 2);
+        END IF;
+
+        v_charge_dates := v_charge_dates || CASE WHEN v_month = date_trunc('month', v_start)::DATE THEN v_start ELSE v_month END;
+        v_charge_amounts := v_charge_amounts || v_amount;
+        v_month := (v_month + INTERVAL '1 month')::DATE;
+      END LOOP;
+    ELSIF lower(COALESCE(v_student.fee_type, '')) IN ('annual', 'annually') THEN
+      v_charge_dates := v_charge_dates || v_start;
+      v_charge_amounts := v_charge_amounts || v_student.fee_amount;
+    END IF;
+  END IF;
+
+  -- 2. Concessions active on each charge date, never more than the charge.
+  -- Sibling discounts end when the sibling is archived and drop with them.
+  FOR i IN 1 .. COALESCE(array_length(v_charge_dates, 1), 0)
+  LOOP
+    v_gross := v_gross + v_charge_amounts[i];
+    v_remaining := v_charge_amounts[i];
+
+    FOR v_discount IN
+      SELECT d.value_type, d.value
+      FROM public.student_discounts d
+      LEFT JOIN public.students sib ON sib.id = d.sibling_student_id
+      WHERE d.student_id = p_student_id
+      AND d.user_id = v_student.user_id
+      AND d.start_date <= v_charge_dates[i]
+      AND (
+        d.discount_type <> 'sibling' OR d.sibling_student_id IS NULL
+        OR (sib.user_id = v_student.user_id AND (NOT COALESCE(sib.is_archived, false) OR sib.archived_at IS NOT NULL))
+      )
+      AND COALESCE(
+        LEAST(d.end_date, CASE WHEN d.discount_type = 'sibling' AND COALESCE(sib.is_archived, false) THEN sib.archived_at::DATE END),
+        v_charge_dates[i]
+      ) >= v_charge_dates[i]
+      ORDER BY d.start_date
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+      v_amount := LEAST(v_remaining, GREATEST(0,
+        CASE WHEN v_discount.value_type = 'percentage'
+          THEN v_charge_amounts[i] * COALESCE(v_discount.value, 0) / 100
+          ELSE COALESCE(v_discount.value, 0)
+        END));
+      v_remaining := v_remaining - v_amount;
+      v_discounted := v_discounted + v_amount;
+    END LOOP;
+  END LOOP;
+
+  -- 3. Tuition paid before p_before (and not already settled into the opening balance):
+  -- tuition allocation lines plus the unallocated part of school_fee payments
+  SELECT COALESCE(SUM(
+           COALESCE(a.tuition, 0)
+           + CASE WHEN p.category = 'school_fee' THEN p.amount - COALESCE(a.allocated, 0) ELSE 0 END
+         ), 0)
+  INTO v_paid
+  FROM public.payments p
+  LEFT JOIN (
+    SELECT pa.payment_id,
+           SUM(pa.amount) AS allocated,
+           SUM(pa.amount) FILTER (WHERE pa.fee_folder_id IS NULL) AS tuition
+    FROM public.payment_allocations pa
+    GROUP BY pa.payment_id
+  ) a ON a.payment_id = p.id
+  WHERE p.student_id = p_student_id
+  AND p.payment_date < p_before
+  AND (NOT v_has_opening OR p.payment_date >= v_opening.as_of);
+
+  RETURN v_gross - v_discounted
+    + CASE WHEN v_has_opening THEN COALESCE(v_opening.amount, 0) ELSE 0 END
+    - v_paid;
+END;
+$$;
+
+-- Internal: called from the principal-only functions below
+REVOKE EXECUTE ON FUNCTION public.student_balance_before(UUID, DATE) FROM PUBLIC;
+
+-- ============================================================================
+-- STEP 2: get_rollover_candidates with the balance to carry
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_rollover_candidates(UUID, TEXT);
+
+-- balance is NULL without a start date
+CREATE OR REPLACE FUNCTION public.get_rollover_candidates(
+  p_school_id UUID,
+  p_from_year TEXT,
+  p_start_date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  student_id UUID,
+  student_name TEXT,
+  user_id UUID,
+  class_id UUID,
+  class_name TEXT,
+  balance NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE school_members.user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT e.id AS cstudent_id,
+         e.name AS cstudent_name,
+         e.user_id AS cuser_id,
+         e.class_id AS cclass_id,
+         e.class_name AS cclass_name,
+         CASE WHEN p_start_date IS NOT NULL
+           THEN public.student_balance_before(e.id, p_start_date)
+         END AS cbalance
+  FROM (
+    SELECT DISTINCT ON (s.id)
+      s.id,
+      s.name,
+      s.user_id,
+      c.id AS class_id,
+      c.name AS class_name
+    FROM public.students s
+    JOIN public.classes c
+      ON c.school_id = p_school_id
+      AND c.academic_year = p_from_year
+      AND COALESCE(c.is_active, true)
+    LEFT JOIN public.student_classes sc
+      ON sc.student_id = s.id
+      AND sc.class_id = c.id
+      AND COALESCE(sc.is_active, true)
+    WHERE NOT s.is_archived
+      AND (
+        sc.id IS NOT NULL
+        OR (
+          s.class = c.name
+          AND (s.school_id = p_school_id
+               OR s.user_id = (SELECT owner_id FROM public.schools WHERE id = p_school_id))
+        )
+      )
+    ORDER BY s.id, (sc.id IS NULL)
+  ) e;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_rollover_candidates(UUID, TEXT, DATE) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: rollover_academic_year computes the carried balances
+-- ============================================================================
+-- p_class_map: { "<from class id>": "<from class id it promotes into>" | null }
+--              null (or a missing key) = the class graduates
+-- p_decisions: { "<student id>": "promote" | "hold" | "graduate" }  (default promote)
+
+DROP FUNCTION IF EXISTS public.rollover_academic_year(UUID, TEXT, TEXT, DATE, JSONB, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION public.rollover_academic_year(
+  p_school_id UUID,
+  p_from_year TEXT,
+  p_to_year TEXT,
+  p_start_date DATE,
+  p_class_map JSONB,
+  p_decisions JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_class RECORD;
+  v_student RECORD;
+  v_new_id UUID;
+  v_new_classes JSONB := '{}'::jsonb;
+  v_decision TEXT;
+  v_target UUID;
+  v_promoted INT := 0;
+  v_held INT := 0;
+  v_graduated INT := 0;
+  v_carried NUMERIC := 0;
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF COALESCE(trim(p_to_year), '') = '' OR p_to_year = p_from_year THEN
+    RAISE EXCEPTION 'Choose a new academic year name';
+  END IF;
+
+  -- Fees are billed by month from the start date, so it opens a month
+  IF p_start_date IS NULL OR EXTRACT(DAY FROM p_start_date) <> 1 THEN
+    RAISE EXCEPTION 'The new year must start on the first day of a month';
+  END IF;
+
+  -- Payments dated before the start are settled into the carried balance now
+  IF p_start_date > date_trunc('month', CURRENT_DATE)::DATE THEN
+    RAISE EXCEPTION 'The new year cannot start after the current month';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.academic_years
+    WHERE school_id = p_school_id AND starts_on >= p_start_date
+  ) THEN
+    RAISE EXCEPTION 'The new year must start after the current year started';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.academic_years
+    WHERE school_id = p_school_id AND name = p_from_year AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Academic year % is already closed', p_from_year;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.classes
+    WHERE school_id = p_school_id AND academic_year = p_to_year
+  ) THEN
+    RAISE EXCEPTION 'Classes for % already exist', p_to_year;
+  END IF;
+
+  -- 1. Create next year's classes (same names / sections / teachers)
+  FOR v_class IN
+    SELECT * FROM public.classes
+    WHERE school_id = p_school_id
+    AND academic_year = p_from_year
+    AND COALESCE(is_active, true)
+  LOOP
+    INSERT INTO public.classes (school_id, name, grade, section, teacher_id, academic_year, is_active)
+    VALUES (p_school_id, v_class.name, v_class.grade, v_class.section, v_class.teacher_id, p_to_year, true)
+    RETURNING id INTO v_new_id;
+
+    v_new_classes := v_new_classes || jsonb_build_object(v_class.id::TEXT, v_new_id);
+  END LOOP;
+
+  -- 2. Promote / hold back / graduate every student of the closing year
+  -- (balances are computed before anything below changes the students)
+  FOR v_student IN SELECT * FROM public.get_rollover_candidates(p_school_id, p_from_year, p_start_date)
+  LOOP
+    v_decision := COALESCE(p_decisions->>v_student.student_id::TEXT, 'promote');
+
+    IF v_decision = 'hold' THEN
+      v_target := v_student.class_id;
+    ELSIF v_decision = 'promote' THEN
+      v_target := (p_class_map->>v_student.class_id::TEXT)::UUID;
+    ELSE
+      v_target := NULL;
+    END IF;
+
+    IF v_target IS NULL THEN
+      -- Graduated: archive (billing stops at archived_at, dues stay visible)
+      UPDATE public.students SET is_archived = true WHERE id = v_student.student_id;
+      v_graduated := v_graduated + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.student_classes (student_id, class_id, is_active)
+    VALUES (v_student.student_id, (v_new_classes->>v_target::TEXT)::UUID, true);
+
+    UPDATE public.students
+    SET class = (SELECT name FROM public.classes WHERE id = v_target)
+    WHERE id = v_student.student_id;
+
+    -- Carry the outstanding balance (or advance credit) into the new year
+    INSERT INTO public.student_opening_balances
+      (user_id, school_id, student_id, academic_year, source_year, as_of, amount, created_by)
+    VALUES (
+      v_student.user_id,
+      p_school_id,
+      v_student.student_id,
+      p_to_year,
+      p_from_year,
+      p_start_date,
+      v_student.balance,
+      auth.uid()
+    );
+    v_carried := v_carried + v_student.balance;
+
+    IF v_decision = 'hold' THEN
+      v_held := v_held + 1;
+    ELSE
+      v_promoted := v_promoted + 1;
+    END IF;
+  END LOOP;
+
+  -- 3. Retire the closing year's enrolments and classes (before it is locked)
+  UPDATE public.student_classes
+  SET is_active = false
+  WHERE class_id IN (
+    SELECT id FROM public.classes WHERE school_id = p_school_id AND academic_year = p_from_year
+  );
+
+  UPDATE public.classes
+  SET is_active = false, updated_at = now()
+  WHERE school_id = p_school_id AND academic_year = p_from_year;
+
+  -- 4. Close the old year, open the new one
+  INSERT INTO public.academic_years (school_id, name, status, closed_at, closed_by)
+  VALUES (p_school_id, p_from_year, 'closed', now(), auth.uid())
+  ON CONFLICT (school_id, name) DO UPDATE
+    SET status = 'closed', closed_at = now(), closed_by = auth.uid();
+
+  INSERT INTO public.academic_years (school_id, name, status, starts_on)
+  VALUES (p_school_id, p_to_year, 'active', p_start_date)
+  ON CONFLICT (school_id, name) DO UPDATE
+    SET status = 'active', starts_on = EXCLUDED.starts_on;
+
+  RETURN jsonb_build_object(
+    'classes_created', (SELECT count(*) FROM jsonb_object_keys(v_new_classes)),
+    'promoted', v_promoted,
+    'held_back', v_held,
+    'graduated', v_graduated,
+    'balance_carried', v_carried
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rollover_academic_year(UUID, TEXT, TEXT, DATE, JSONB, JSONB) TO authenticated;
+
+SELECT 'Rollover opening balances computed on the server' AS status;
@@ -0,0 +1,31 @@
+-- ============================================================================
+-- Migration: Payment Delete Guard
+-- Created: 2026-01-19
+--
+-- This migration:
+-- 1. Blocks DELETE on payments for every caller
+--
+-- The void / refund migration only took deletion out of the UI; a direct
+-- DELETE through the API still removed the payment and its trail. Reversing
+-- entries are the only way to take money back off the books.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: Payments are never deleted
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.guard_payment_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Payments cannot be deleted. Void or refund them instead';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_payment_delete ON public.payments;
+CREATE TRIGGER guard_payment_delete
+  BEFORE DELETE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.guard_payment_delete();
+
+SELECT 'Payment delete guard created' AS status;
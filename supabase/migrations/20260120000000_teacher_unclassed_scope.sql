@@ -0,0 +1,103 @@
+-- ============================================================================
+-- Migration: Teacher Scope for Unclassed Rows and Students
+-- Created: 2026-01-20
+--
+-- This migration:
+-- 1. Creates can_view_class(class, school) - as can_view_class(), but a row with
+--    no class is hidden only from teachers of the row's own school
+-- 2. Creates can_view_student() - false only for teachers none of whose classes
+--    the student is enrolled in
+-- 3. Replaces the teacher attendance policy and adds one on students
+--
+-- The teacher class scope let every teacher read attendance rows whose class
+-- was deleted or never set, and left the students table unscoped.
+-- mark_attendance_bulk() has checked can_view_class() since the attendance
+-- statuses migration.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: can_view_class(class, school)
+-- ============================================================================
+
+-- A NULL class belongs to no teacher. The membership check is limited to the
+-- row's school so a principal who also teaches elsewhere keeps their access.
+CREATE OR REPLACE FUNCTION public.can_view_class(p_class_id UUID, p_school_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_class_id IS NULL THEN NOT EXISTS (
+      SELECT 1 FROM public.school_members sm
+      WHERE sm.user_id = auth.uid()
+      AND sm.school_id = p_school_id
+      AND sm.role = 'teacher'
+    )
+    ELSE public.can_view_class(p_class_id)
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_view_class(UUID, UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 2: can_view_student
+-- ============================================================================
+
+-- Enrolled through student_classes, or (legacy) through students.class matching
+-- the name of a class the teacher can see
+CREATE OR REPLACE FUNCTION public.can_view_student(p_student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM public.students s
+    JOIN public.school_members sm
+      ON sm.school_id = COALESCE(s.school_id, (SELECT sch.id FROM public.schools sch WHERE sch.owner_id = s.user_id LIMIT 1))
+      AND sm.user_id = auth.uid()
+      AND sm.role = 'teacher'
+    WHERE s.id = p_student_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.classes c
+      WHERE c.school_id = sm.school_id
+      AND public.can_view_class(c.id)
+      AND (
+        EXISTS (
+          SELECT 1 FROM public.student_classes sc
+          WHERE sc.student_id = s.id
+          AND sc.class_id = c.id
+          AND COALESCE(sc.is_active, true)
+        )
+        OR s.class = c.name
+      )
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_view_student(UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: Restrictive policies
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Teachers only see assigned class attendance" ON public.attendance;
+CREATE POLICY "Teachers only see assigned class attendance"
+    ON public.attendance
+    AS RESTRICTIVE
+    FOR SELECT
+    USING (public.can_view_class(class_id, school_id));
+
+DROP POLICY IF EXISTS "Teachers only see students of assigned classes" ON public.students;
+CREATE POLICY "Teachers only see students of assigned classes"
+    ON public.students
+    AS RESTRICTIVE
+    FOR SELECT
+    USING (public.can_view_student(id));
+
+SELECT 'Teacher scope for unclassed rows and students applied' AS status;
@@ -0,0 +1,193 @@
+-- ============================================================================
+-- Migration: Unpaid Leave Deduction Source
+-- Created: 2026-01-21
+--
+-- This migration:
+-- 1. Marks the computed unpaid leave item with "source": "unpaid_leave"
+--    instead of recognising it by its label
+-- 2. Replaces apply_unpaid_leave_deduction() to rewrite only the marked item
+-- 3. Replaces update_payroll_line() so the marked item is never taken from
+--    the caller and is recomputed after every save
+--
+-- Saving a draft line wrote the caller's items verbatim, so an edited or
+-- removed unpaid leave item stuck until leave was decided again. A manual item
+-- whose label happens to start with "Unpaid leave" is now kept as entered.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: Mark existing computed items
+-- ============================================================================
+
+UPDATE public.salaries s
+SET deduction_items = (
+  SELECT jsonb_agg(
+    CASE WHEN item->>'label' ~ '^Unpaid leave \(\d+ days?\)$'
+         THEN item || jsonb_build_object('source', 'unpaid_leave')
+         ELSE item
+    END
+    ORDER BY ordinality
+  )
+  FROM jsonb_array_elements(s.deduction_items) WITH ORDINALITY AS e(item, ordinality)
+)
+WHERE s.payroll_run_id IS NOT NULL
+AND EXISTS (
+  SELECT 1 FROM jsonb_array_elements(s.deduction_items) item
+  WHERE item->>'label' ~ '^Unpaid leave \(\d+ days?\)$'
+);
+
+-- ============================================================================
+-- STEP 2: apply_unpaid_leave_deduction
+-- ============================================================================
+
+-- Rewrites the unpaid leave item of a draft line; other deductions are kept.
+-- A plain deductions total is turned into a "Deductions" item first.
+CREATE OR REPLACE FUNCTION public.apply_unpaid_leave_deduction(p_salary_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.salaries;
+  v_school_id UUID;
+  v_items JSONB;
+  v_other NUMERIC;
+  v_days INT;
+  v_working INT;
+  v_amount NUMERIC := 0;
+BEGIN
+  SELECT * INTO v_line FROM public.salaries WHERE id = p_salary_id FOR UPDATE;
+  IF NOT FOUND OR v_line.status <> 'draft' OR v_line.payroll_run_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT school_id INTO v_school_id FROM public.payroll_runs WHERE id = v_line.payroll_run_id;
+
+  IF jsonb_array_length(v_line.deduction_items) = 0 AND COALESCE(v_line.deductions, 0) > 0 THEN
+    v_items := jsonb_build_array(jsonb_build_object('label', 'Deductions', 'amount', v_line.deductions));
+  ELSE
+    SELECT COALESCE(jsonb_agg(item), '[]'::jsonb) INTO v_items
+    FROM jsonb_array_elements(v_line.deduction_items) item
+    WHERE item->>'source' IS DISTINCT FROM 'unpaid_leave';
+  END IF;
+
+  SELECT COALESCE(SUM((item->>'amount')::NUMERIC), 0) INTO v_other
+  FROM jsonb_array_elements(v_items) item;
+
+  v_days := public.staff_unpaid_leave_days(v_school_id, v_line.staff_id, v_line.pay_period_start, v_line.pay_period_end);
+  v_working := public.count_school_working_days(v_school_id, v_line.pay_period_start, v_line.pay_period_end);
+
+  IF v_days > 0 AND v_working > 0 THEN
+    v_amount := LEAST(
+      round(v_line.amount * v_days / v_working, 2),
+      GREATEST(v_line.amount + COALESCE(v_line.bonus, 0) - v_other, 0)
+    );
+  END IF;
+
+  IF v_amount > 0 THEN
+    v_items := v_items || jsonb_build_array(jsonb_build_object(
+      'label', format('Unpaid leave (%s %s)', v_days, CASE WHEN v_days = 1 THEN 'day' ELSE 'days' END),
+      'amount', v_amount,
+      'source', 'unpaid_leave'
+    ));
+  END IF;
+
+  UPDATE public.salaries
+  SET deduction_items = v_items,
+      deductions = v_other + v_amount,
+      net_amount = amount + COALESCE(bonus, 0) - v_other - v_amount,
+      updated_at = now()
+  WHERE id = p_salary_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_unpaid_leave_deduction(UUID) FROM PUBLIC;
+
+-- ============================================================================
+-- STEP 3: update_payroll_line
+-- ============================================================================
+
+-- Same as before, except the unpaid leave item is dropped from the caller's
+-- items and recomputed after the update. Items are rebuilt from label and
+-- amount, so a caller cannot mark one of its own as computed.
+CREATE OR REPLACE FUNCTION public.update_payroll_line(
+  p_salary_id UUID,
+  p_bonus NUMERIC,
+  p_deductions NUMERIC,
+  p_deduction_items JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.salaries;
+  v_school_id UUID;
+  v_items JSONB := '[]'::jsonb;
+  v_deductions NUMERIC := COALESCE(p_deductions, 0);
+BEGIN
+  SELECT * INTO v_line FROM public.salaries WHERE id = p_salary_id FOR UPDATE;
+  IF NOT FOUND OR v_line.payroll_run_id IS NULL THEN
+    RAISE EXCEPTION 'Payroll line not found';
+  END IF;
+
+  SELECT school_id INTO v_school_id FROM public.payroll_runs WHERE id = v_line.payroll_run_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_school_id
+    AND role IN ('principal', 'accountant')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_line.status <> 'draft' THEN
+    RAISE EXCEPTION 'Finalised payroll lines cannot be edited';
+  END IF;
+
+  -- Items replace the plain total
+  IF p_deduction_items IS NOT NULL AND jsonb_array_length(p_deduction_items) > 0 THEN
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_deduction_items) item
+      WHERE COALESCE(trim(item->>'label'), '') = ''
+      OR COALESCE((item->>'amount')::NUMERIC, 0) <= 0
+    ) THEN
+      RAISE EXCEPTION 'Each deduction needs a label and an amount above zero';
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object('label', trim(item->>'label'), 'amount', (item->>'amount')::NUMERIC)), '[]'::jsonb),
+           COALESCE(SUM((item->>'amount')::NUMERIC), 0)
+    INTO v_items, v_deductions
+    FROM jsonb_array_elements(p_deduction_items) item
+    WHERE item->>'source' IS DISTINCT FROM 'unpaid_leave';
+  END IF;
+
+  IF COALESCE(p_bonus, 0) < 0 OR v_deductions < 0 THEN
+    RAISE EXCEPTION 'Bonus and deductions cannot be negative';
+  END IF;
+  IF v_line.amount + COALESCE(p_bonus, 0) - v_deductions < 0 THEN
+    RAISE EXCEPTION 'Deductions exceed the salary';
+  END IF;
+
+  UPDATE public.salaries
+  SET bonus = COALESCE(p_bonus, 0),
+      deductions = v_deductions,
+      deduction_items = v_items,
+      net_amount = amount + COALESCE(p_bonus, 0) - v_deductions,
+      updated_at = now()
+  WHERE id = p_salary_id;
+
+  -- Without unpaid leave a plain total stays plain
+  IF public.staff_unpaid_leave_days(v_school_id, v_line.staff_id, v_line.pay_period_start, v_line.pay_period_end) > 0 THEN
+    PERFORM public.apply_unpaid_leave_deduction(p_salary_id);
+  END IF;
+
+  PERFORM public.refresh_staff_salary_totals(ARRAY[v_line.staff_id]);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_payroll_line(UUID, NUMERIC, NUMERIC, JSONB) TO authenticated;
+
+SELECT 'Unpaid leave deduction source applied' AS status;
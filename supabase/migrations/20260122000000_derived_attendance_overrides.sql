@@ -0,0 +1,96 @@
+-- ============================================================================
+-- Migration: Derived Daily Attendance Keeps Excused Days
+-- Created: 2026-01-22
+--
+-- This migration:
+-- 1. Replaces derive_daily_attendance() so saving a period:
+--    - leaves daily rows with an excused status (credit IS NULL) alone, e.g.
+--      excused, medical or approved leave recorded on the daily sheet
+--    - records a derived absence on approved leave as the leave status and reason
+--    - clears reason_code and arrival_time on the rows it overwrites
+--    - takes the late status from the school's active statuses, falling back
+--      to present when late has been switched off
+--
+-- Every period save used to overwrite the day's status, so an excused day
+-- turned back into absent, and a deactivated late status made the status
+-- validation trigger reject the save.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: derive_daily_attendance
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.derive_daily_attendance(p_class_id UUID, p_date DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID;
+  v_late TEXT;
+BEGIN
+  SELECT school_id INTO v_school_id FROM public.classes WHERE id = p_class_id;
+
+  -- Attended but not on time: the school's active time-capturing status
+  SELECT code INTO v_late
+  FROM public.attendance_statuses
+  WHERE school_id = v_school_id
+  AND is_active
+  AND captures_time
+  AND credit > 0
+  ORDER BY (code = 'late') DESC, sort_order
+  LIMIT 1;
+
+  INSERT INTO public.attendance AS a (student_id, class_id, school_id, date, status, reason_code, marked_by)
+  SELECT
+    d.student_id,
+    p_class_id,
+    v_school_id,
+    p_date,
+    CASE WHEN d.status = 'absent' AND r.id IS NOT NULL THEN r.attendance_status ELSE d.status END,
+    CASE WHEN d.status = 'absent' AND r.id IS NOT NULL THEN r.reason_code END,
+    auth.uid()
+  FROM (
+    SELECT
+      p.student_id,
+      CASE
+        WHEN COUNT(*) FILTER (WHERE p.status IN ('present', 'late')) = 0 THEN 'absent'
+        WHEN (array_agg(p.status ORDER BY p.period_number))[1] <> 'present' THEN COALESCE(v_late, 'present')
+        ELSE 'present'
+      END AS status
+    FROM public.attendance_periods p
+    WHERE p.class_id = p_class_id AND p.date = p_date
+    GROUP BY p.student_id
+  ) d
+  LEFT JOIN LATERAL (
+    SELECT lr.id, lr.attendance_status, lr.reason_code
+    FROM public.student_leave_requests lr
+    JOIN public.attendance_statuses st
+      ON st.school_id = v_school_id
+      AND st.code = lr.attendance_status
+      AND st.is_active
+    WHERE lr.student_id = d.student_id
+    AND lr.status = 'approved'
+    AND p_date BETWEEN lr.start_date AND lr.end_date
+    LIMIT 1
+  ) r ON true
+  ON CONFLICT (student_id, date) DO UPDATE
+    SET status = EXCLUDED.status,
+        reason_code = EXCLUDED.reason_code,
+        arrival_time = NULL,
+        class_id = EXCLUDED.class_id,
+        marked_by = EXCLUDED.marked_by,
+        updated_at = now()
+    WHERE EXISTS (
+      SELECT 1 FROM public.attendance_statuses st
+      WHERE st.school_id = v_school_id
+      AND st.code = a.status
+      AND st.credit IS NOT NULL
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.derive_daily_attendance(UUID, DATE) FROM PUBLIC;
+
+SELECT 'Derived daily attendance keeps excused days' AS status;
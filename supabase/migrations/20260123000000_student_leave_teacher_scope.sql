@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Migration: Student Leave Teacher Scope
+-- Created: 2026-01-23
+--
+-- This migration:
+-- 1. Replaces the staff select policy on student_leave_requests so teachers
+--    only see requests for students of their own classes
+--
+-- class_id is set null when a class is deleted and may be null from the start;
+-- the old policy showed every such request, reasons and notes included, to
+-- every teacher in the school.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: Staff select policy
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Staff can view leave requests" ON public.student_leave_requests;
+
+-- Principals see the whole school, teachers the students they can view
+CREATE POLICY "Staff can view leave requests"
+    ON public.student_leave_requests
+    FOR SELECT
+    USING (
+      EXISTS (
+        SELECT 1 FROM public.school_members sm
+        WHERE sm.school_id = student_leave_requests.school_id
+        AND sm.user_id = auth.uid()
+        AND sm.role IN ('principal', 'teacher')
+      )
+      AND public.can_view_student(student_id)
+    );
+
+SELECT 'Student leave teacher scope applied' AS status;
@@ -0,0 +1,91 @@
+-- ============================================================================
+-- Migration: Record Payment
+-- Created: 2026-01-24
+--
+-- This migration:
+-- 1. Creates record_payment() - inserts a payment and its allocation lines in
+--    one transaction
+--
+-- The Payments page inserted the row and then called allocate_payment() as a
+-- second request. When the allocation failed the payment stayed, unallocated,
+-- holding a number from the gap-free receipt sequence. Now either both are
+-- written or neither is, the way record_family_payment() works for families.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: record_payment
+-- ============================================================================
+
+-- p_allocations: [{ "fee_folder_id": uuid | null, "amount": 500 }, ...]
+CREATE OR REPLACE FUNCTION public.record_payment(
+  p_student_id UUID,
+  p_amount NUMERIC,
+  p_payment_date DATE,
+  p_payment_method TEXT,
+  p_category TEXT,
+  p_currency TEXT,
+  p_allocations JSONB DEFAULT '[]'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student public.students;
+  v_school_id UUID;
+  v_amount NUMERIC := round(p_amount, 2);
+  v_payment public.payments;
+BEGIN
+  SELECT * INTO v_student FROM public.students WHERE id = p_student_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  -- Same school resolution as allocate_payment: row, owner, then staff membership
+  v_school_id := v_student.school_id;
+  IF v_school_id IS NULL THEN
+    SELECT id INTO v_school_id FROM public.schools WHERE owner_id = v_student.user_id LIMIT 1;
+  END IF;
+  IF v_school_id IS NULL THEN
+    SELECT school_id INTO v_school_id FROM public.school_members WHERE user_id = v_student.user_id LIMIT 1;
+  END IF;
+
+  -- Verify caller owns the student or collects fees for its school
+  IF v_student.user_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = auth.uid()
+    AND school_id = v_school_id
+    AND role IN ('principal', 'accountant', 'cashier')
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  -- receipt_number is allocated by the per-school sequence trigger
+  INSERT INTO public.payments (
+    student_id, amount, currency, payment_date, payment_method, category, user_id, school_id
+  )
+  VALUES (
+    v_student.id, v_amount, p_currency, COALESCE(p_payment_date, CURRENT_DATE), p_payment_method,
+    COALESCE(p_category, 'school_fee'), auth.uid(), v_school_id
+  )
+  RETURNING * INTO v_payment;
+
+  IF jsonb_array_length(COALESCE(p_allocations, '[]'::jsonb)) > 0 THEN
+    PERFORM public.allocate_payment(v_payment.id, p_allocations);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment.id,
+    'receipt_number', v_payment.receipt_number
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_payment(UUID, NUMERIC, DATE, TEXT, TEXT, TEXT, JSONB) TO authenticated;
+
+SELECT 'Record payment created' AS status;
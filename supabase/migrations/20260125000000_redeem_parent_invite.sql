@@ -0,0 +1,166 @@
+-- ============================================================================
+-- Migration: Redeem Parent Invite
+-- Created: 2026-01-25
+--
+-- This migration:
+-- 1. Creates redeem_parent_invite() - checks a parent code and, in one
+--    transaction, adds the caller as a parent member, links them to the
+--    family and marks the code used
+-- 2. Drops the link_parent_family trigger, which relied on an invite function
+--    outside this repo to insert the membership
+-- 3. Skips the automatic school for accounts signed up with a parent code
+--
+-- Codes created by create_parent_invite() had nowhere to be redeemed. They
+-- are now redeemed on the /join page.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: redeem_parent_invite
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.redeem_parent_invite(p_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_invite public.invitation_codes;
+  v_role TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invite
+  FROM public.invitation_codes
+  WHERE upper(code) = upper(trim(p_code))
+  AND role::text = 'parent'
+  AND family_id IS NOT NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid invite code';
+  END IF;
+  IF v_invite.used_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite code has already been used';
+  END IF;
+  IF v_invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This invite code has expired';
+  END IF;
+
+  -- One role per school: staff cannot be turned into a parent by a code
+  SELECT role::text INTO v_role
+  FROM public.school_members
+  WHERE user_id = v_user_id AND school_id = v_invite.school_id;
+
+  IF v_role IS NOT NULL AND v_role <> 'parent' THEN
+    RAISE EXCEPTION 'This account is already a staff member of the school';
+  END IF;
+
+  IF v_role IS NULL THEN
+    INSERT INTO public.school_members (user_id, school_id, role, invited_by, joined_at, invite_used_code, invite_used_type)
+    VALUES (v_user_id, v_invite.school_id, 'parent', v_invite.created_by, now(), v_invite.code, 'parent_code');
+  ELSE
+    UPDATE public.school_members
+    SET is_active = true,
+        invite_used_code = v_invite.code,
+        invite_used_type = 'parent_code',
+        updated_at = now()
+    WHERE user_id = v_user_id AND school_id = v_invite.school_id;
+  END IF;
+
+  INSERT INTO public.family_guardians (family_id, user_id, school_id)
+  VALUES (v_invite.family_id, v_user_id, v_invite.school_id)
+  ON CONFLICT (family_id, user_id) DO NOTHING;
+
+  UPDATE public.invitation_codes
+  SET used_at = now(),
+      updated_at = now()
+  WHERE id = v_invite.id;
+
+  -- Accounts signed up with a code have no profile yet
+  INSERT INTO public.profiles (id, school_id, role, full_name)
+  SELECT v_user_id, v_invite.school_id, 'parent', u.raw_user_meta_data->>'full_name'
+  FROM auth.users u
+  WHERE u.id = v_user_id
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN jsonb_build_object(
+    'school_id', v_invite.school_id,
+    'family_id', v_invite.family_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.redeem_parent_invite(TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 2: Drop the membership trigger
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS link_parent_family ON public.school_members;
+DROP FUNCTION IF EXISTS public.link_parent_family();
+
+-- ============================================================================
+-- STEP 3: No school for parent sign ups
+-- ============================================================================
+
+-- Same as 20251227000000, plus the parent code check
+CREATE OR REPLACE FUNCTION public.handle_new_user_school_creation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_school_id uuid;
+  user_full_name text;
+BEGIN
+  -- SKIP if user is created by admin (Staff creation flow)
+  IF (new.raw_user_meta_data->>'created_by_admin')::boolean = true THEN
+    RETURN new;
+  END IF;
+
+  -- SKIP if user signed up with an open parent code (redeemed on /join)
+  IF EXISTS (
+    SELECT 1 FROM public.invitation_codes
+    WHERE upper(code) = upper(trim(new.raw_user_meta_data->>'invite_code'))
+    AND role::text = 'parent'
+    AND used_at IS NULL
+    AND expires_at > now()
+  ) THEN
+    RETURN new;
+  END IF;
+
+  -- Idempotency Check: If user is already a member of ANY school, exit.
+  IF EXISTS (SELECT 1 FROM public.school_members WHERE user_id = new.id) THEN
+    RETURN new;
+  END IF;
+
+  -- Determine School Name (Metadata 'full_name' or default 'My')
+  user_full_name := COALESCE(new.raw_user_meta_data->>'full_name', 'My');
+
+  -- Create School
+  INSERT INTO public.schools (name, owner_id)
+  VALUES (user_full_name || '''s School', new.id)
+  RETURNING id INTO new_school_id;
+
+  -- Upsert Profile
+  INSERT INTO public.profiles (id, school_id, role, full_name)
+  VALUES (new.id, new_school_id, 'principal', user_full_name)
+  ON CONFLICT (id) DO UPDATE
+  SET school_id = EXCLUDED.school_id,
+      role = EXCLUDED.role,
+      full_name = EXCLUDED.full_name
+  WHERE profiles.school_id IS NULL;
+
+  RETURN new;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE;
+END;
+$$;
+
+SELECT 'Parent invite redemption created' AS status;
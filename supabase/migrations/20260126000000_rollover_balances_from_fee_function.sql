@@ -0,0 +1,289 @@
+-- ============================================================================
+-- Migration: Rollover Balances From calculate-remaining-fees
+-- Created: 2026-01-26
+--
+-- This migration:
+-- 1. Drops student_balance_before(), a PL/pgSQL copy of calculate-remaining-fees
+-- 2. Moves the candidate query into rollover_candidates() and restores
+--    get_rollover_candidates() without the balance column
+-- 3. Replaces rollover_academic_year() - takes the balances again, but is only
+--    callable by the service role, from the rollover-academic-year edge
+--    function, which gets them from calculate-remaining-fees with as_of set to
+--    the start date
+--
+-- Two fee engines had to be kept in step by hand. calculate-remaining-fees is
+-- now the only one; clients still never supply the carried balances.
+-- ============================================================================
+
+-- ============================================================================
+-- STEP 1: Drop the SQL fee engine
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_rollover_candidates(UUID, TEXT, DATE);
+DROP FUNCTION IF EXISTS public.rollover_academic_year(UUID, TEXT, TEXT, DATE, JSONB, JSONB);
+DROP FUNCTION IF EXISTS public.student_balance_before(UUID, DATE);
+
+-- ============================================================================
+-- STEP 2: Rollover candidates
+-- ============================================================================
+
+-- Internal: students of the closing year with the class they are in
+CREATE OR REPLACE FUNCTION public.rollover_candidates(p_school_id UUID, p_from_year TEXT)
+RETURNS TABLE (
+  student_id UUID,
+  student_name TEXT,
+  user_id UUID,
+  class_id UUID,
+  class_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (s.id)
+    s.id,
+    s.name,
+    s.user_id,
+    c.id,
+    c.name
+  FROM public.students s
+  JOIN public.classes c
+    ON c.school_id = p_school_id
+    AND c.academic_year = p_from_year
+    AND COALESCE(c.is_active, true)
+  LEFT JOIN public.student_classes sc
+    ON sc.student_id = s.id
+    AND sc.class_id = c.id
+    AND COALESCE(sc.is_active, true)
+  WHERE NOT s.is_archived
+    AND (
+      sc.id IS NOT NULL
+      OR (
+        s.class = c.name
+        AND (s.school_id = p_school_id
+             OR s.user_id = (SELECT owner_id FROM public.schools WHERE id = p_school_id))
+      )
+    )
+  ORDER BY s.id, (sc.id IS NULL);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rollover_candidates(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_rollover_candidates(p_school_id UUID, p_from_year TEXT)
+RETURNS TABLE (
+  student_id UUID,
+  student_name TEXT,
+  user_id UUID,
+  class_id UUID,
+  class_name TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Verify caller is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE school_members.user_id = auth.uid()
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.rollover_candidates(p_school_id, p_from_year);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_rollover_candidates(UUID, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: rollover_academic_year (service role only)
+-- ============================================================================
+-- p_actor:     the principal the edge function authenticated
+-- p_class_map: { "<from class id>": "<from class id it promotes into>" | null }
+--              null (or a missing key) = the class graduates
+-- p_decisions: { "<student id>": "promote" | "hold" | "graduate" }  (default promote)
+-- p_balances:  { "<student id>": <remaining_fee from calculate-remaining-fees as of p_start_date> }
+
+CREATE OR REPLACE FUNCTION public.rollover_academic_year(
+  p_actor UUID,
+  p_school_id UUID,
+  p_from_year TEXT,
+  p_to_year TEXT,
+  p_start_date DATE,
+  p_class_map JSONB,
+  p_decisions JSONB,
+  p_balances JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_class RECORD;
+  v_student RECORD;
+  v_new_id UUID;
+  v_new_classes JSONB := '{}'::jsonb;
+  v_decision TEXT;
+  v_target UUID;
+  v_balance NUMERIC;
+  v_promoted INT := 0;
+  v_held INT := 0;
+  v_graduated INT := 0;
+  v_carried NUMERIC := 0;
+BEGIN
+  -- Verify the actor is principal of this school
+  IF NOT EXISTS (
+    SELECT 1 FROM public.school_members
+    WHERE user_id = p_actor
+    AND school_id = p_school_id
+    AND role = 'principal'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF COALESCE(trim(p_to_year), '') = '' OR p_to_year = p_from_year THEN
+    RAISE EXCEPTION 'Choose a new academic year name';
+  END IF;
+
+  -- Fees are billed by month from the start date, so it opens a month
+  IF p_start_date IS NULL OR EXTRACT(DAY FROM p_start_date) <> 1 THEN
+    RAISE EXCEPTION 'The new year must start on the first day of a month';
+  END IF;
+
+  -- Payments dated before the start are settled into the carried balance now
+  IF p_start_date > date_trunc('month', CURRENT_DATE)::DATE THEN
+    RAISE EXCEPTION 'The new year cannot start after the current month';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.academic_years
+    WHERE school_id = p_school_id AND starts_on >= p_start_date
+  ) THEN
+    RAISE EXCEPTION 'The new year must start after the current year started';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.academic_years
+    WHERE school_id = p_school_id AND name = p_from_year AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Academic year % is already closed', p_from_year;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.classes
+    WHERE school_id = p_school_id AND academic_year = p_to_year
+  ) THEN
+    RAISE EXCEPTION 'Classes for % already exist', p_to_year;
+  END IF;
+
+  -- 1. Create next year's classes (same names / sections / teachers)
+  FOR v_class IN
+    SELECT * FROM public.classes
+    WHERE school_id = p_school_id
+    AND academic_year = p_from_year
+    AND COALESCE(is_active, true)
+  LOOP
+    INSERT INTO public.classes (school_id, name, grade, section, teacher_id, academic_year, is_active)
+    VALUES (p_school_id, v_class.name, v_class.grade, v_class.section, v_class.teacher_id, p_to_year, true)
+    RETURNING id INTO v_new_id;
+
+    v_new_classes := v_new_classes || jsonb_build_object(v_class.id::TEXT, v_new_id);
+  END LOOP;
+
+  -- 2. Promote / hold back / graduate every student of the closing year
+  FOR v_student IN SELECT * FROM public.rollover_candidates(p_school_id, p_from_year)
+  LOOP
+    v_decision := COALESCE(p_decisions->>v_student.student_id::TEXT, 'promote');
+
+    IF v_decision = 'hold' THEN
+      v_target := v_student.class_id;
+    ELSIF v_decision = 'promote' THEN
+      v_target := (p_class_map->>v_student.class_id::TEXT)::UUID;
+    ELSE
+      v_target := NULL;
+    END IF;
+
+    IF v_target IS NULL THEN
+      -- Graduated: archive (billing stops at archived_at, dues stay visible)
+      UPDATE public.students SET is_archived = true WHERE id = v_student.student_id;
+      v_graduated := v_graduated + 1;
+      CONTINUE;
+    END IF;
+
+    v_balance := (p_balances->>v_student.student_id::TEXT)::NUMERIC;
+    IF v_balance IS NULL THEN
+      RAISE EXCEPTION 'No balance was calculated for %', v_student.student_name;
+    END IF;
+
+    INSERT INTO public.student_classes (student_id, class_id, is_active)
+    VALUES (v_student.student_id, (v_new_classes->>v_target::TEXT)::UUID, true);
+
+    UPDATE public.students
+    SET class = (SELECT name FROM public.classes WHERE id = v_target)
+    WHERE id = v_student.student_id;
+
+    -- Carry the outstanding balance (or advance credit) into the new year
+    INSERT INTO public.student_opening_balances
+      (user_id, school_id, student_id, academic_year, source_year, as_of, amount, created_by)
+    VALUES (
+      v_student.user_id,
+      p_school_id,
+      v_student.student_id,
+      p_to_year,
+      p_from_year,
+      p_start_date,
+      v_balance,
+      p_actor
+    );
+    v_carried := v_carried + v_balance;
+
+    IF v_decision = 'hold' THEN
+      v_held := v_held + 1;
+    ELSE
+      v_promoted := v_promoted + 1;
+    END IF;
+  END LOOP;
+
+  -- 3. Retire the closing year's enrolments and classes (before it is locked)
+  UPDATE public.student_classes
+  SET is_active = false
+  WHERE class_id IN (
+    SELECT id FROM public.classes WHERE school_id = p_school_id AND academic_year = p_from_year
+  );
+
+  UPDATE public.classes
+  SET is_active = false, updated_at = now()
+  WHERE school_id = p_school_id AND academic_year = p_from_year;
+
+  -- 4. Close the old year, open the new one
+  INSERT INTO public.academic_years (school_id, name, status, closed_at, closed_by)
+  VALUES (p_school_id, p_from_year, 'closed', now(), p_actor)
+  ON CONFLICT (school_id, name) DO UPDATE
+    SET status = 'closed', closed_at = now(), closed_by = p_actor;
+
+  INSERT INTO public.academic_years (school_id, name, status, starts_on)
+  VALUES (p_school_id, p_to_year, 'active', p_start_date)
+  ON CONFLICT (school_id, name) DO UPDATE
+    SET status = 'active', starts_on = EXCLUDED.starts_on;
+
+  RETURN jsonb_build_object(
+    'classes_created', (SELECT count(*) FROM jsonb_object_keys(v_new_classes)),
+    'promoted', v_promoted,
+    'held_back', v_held,
+    'graduated', v_graduated,
+    'balance_carried', v_carried
+  );
+END;
+$$;
+
+-- p_actor is trusted, so clients must not reach this directly
+REVOKE EXECUTE ON FUNCTION public.rollover_academic_year(UUID, UUID, TEXT, TEXT, DATE, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rollover_academic_year(UUID, UUID, TEXT, TEXT, DATE, JSONB, JSONB, JSONB) TO service_role;
+
+SELECT 'Rollover balances taken from calculate-remaining-fees' AS status;